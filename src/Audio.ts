@@ -0,0 +1,130 @@
+import type { OggOpusInfo, WavInfo } from "./Types";
+
+/** Opus always has a granule position rate of 48kHz, no matter the sample rate of the input */
+const OPUS_GRANULE_RATE = 48000;
+
+const WAVE_FORMAT_PCM = 1;
+const WAVE_FORMAT_IEEE_FLOAT = 3;
+const WAVE_FORMAT_EXTENSIBLE = 0xFFFE;
+
+/**
+ * Detect the container of an audio file by its magic bytes
+ * @since 0.19.0
+ * @param data The audio file
+ * @returns wav or ogg, or undefined if it's neither
+ */
+export function detectAudioFormat(data: Buffer): "wav" | "ogg" | undefined {
+	if (data.length >= 12 && data.toString("latin1", 0, 4) === "RIFF" && data.toString("latin1", 8, 12) === "WAVE") return "wav";
+	if (data.length >= 4 && data.toString("latin1", 0, 4) === "OggS") return "ogg";
+	return undefined;
+}
+
+/**
+ * Read the header and samples of a WAV file. Supports 8, 16, 24 and 32 bit PCM and 32 and 64 bit IEEE float
+ * @since 0.19.0
+ * @param data The WAV file
+ * @returns The format, duration and samples of the file. Channels are mixed down to mono samples scaled to 16 bit, which Constants.generateWaveform takes
+ *
+ * @example
+ * const { Constants, parseWav } = require("snowtransfer")
+ * const wav = parseWav(fs.readFileSync("recording.wav"))
+ * const waveform = Constants.generateWaveform(wav.samples, wav.durationSeconds)
+ */
+export function parseWav(data: Buffer): WavInfo {
+	if (detectAudioFormat(data) !== "wav") throw new Error("The file isn't a WAV file. It doesn't start with a RIFF header of type WAVE");
+
+	let fmt: Buffer | undefined = undefined;
+	let samples: Buffer | undefined = undefined;
+	let offset = 12;
+	while (offset + 8 <= data.length && (!fmt || !samples)) {
+		const id = data.toString("latin1", offset, offset + 4);
+		const start = offset + 8;
+		// Files written while recording can have a data chunk size that's larger than the file
+		const end = Math.min(start + data.readUInt32LE(offset + 4), data.length);
+		if (id === "fmt ") fmt = data.subarray(start, end);
+		else if (id === "data") samples = data.subarray(start, end);
+		// Chunks are padded to an even size
+		offset = end + ((end - start) % 2);
+	}
+	if (!fmt || fmt.length < 16) throw new Error("The WAV file has no fmt chunk");
+	if (!samples) throw new Error("The WAV file has no data chunk");
+
+	let format = fmt.readUInt16LE(0);
+	// The actual format is the start of the SubFormat GUID
+	if (format === WAVE_FORMAT_EXTENSIBLE && fmt.length >= 26) format = fmt.readUInt16LE(24);
+	const channels = fmt.readUInt16LE(2);
+	const sampleRate = fmt.readUInt32LE(4);
+	const blockAlign = fmt.readUInt16LE(12);
+	const bitsPerSample = fmt.readUInt16LE(14);
+
+	if (format !== WAVE_FORMAT_PCM && format !== WAVE_FORMAT_IEEE_FLOAT) throw new Error(`WAV files with the format ${format} aren't supported. Only PCM (1) and IEEE float (3) are`);
+	if (format === WAVE_FORMAT_PCM ? ![8, 16, 24, 32].includes(bitsPerSample) : ![32, 64].includes(bitsPerSample)) throw new Error(`WAV files with ${bitsPerSample} bits per sample aren't supported`);
+	if (channels === 0 || sampleRate === 0 || blockAlign < channels * bitsPerSample / 8) throw new Error("The fmt chunk of the WAV file is invalid");
+
+	const frames = Math.floor(samples.length / blockAlign);
+	const bytesPerSample = bitsPerSample / 8;
+	const mono = new Int16Array(frames);
+	for (let frame = 0; frame < frames; frame++) {
+		let sum = 0;
+		for (let channel = 0; channel < channels; channel++) sum += readSample(samples, frame * blockAlign + channel * bytesPerSample, format, bitsPerSample);
+		mono[frame] = Math.max(-32768, Math.min(32767, Math.round(sum / channels)));
+	}
+
+	return { sampleRate, channels, bitsPerSample, durationSeconds: frames / sampleRate, samples: mono };
+}
+
+/**
+ * Read the duration of an Ogg/Opus file from the granule positions of its pages, without decoding the audio
+ * @since 0.19.0
+ * @param data The Ogg file
+ * @returns The amount of channels and duration of the first Opus stream
+ *
+ * @example
+ * const { parseOggOpus } = require("snowtransfer")
+ * const { durationSeconds } = parseOggOpus(fs.readFileSync("recording.ogg"))
+ */
+export function parseOggOpus(data: Buffer): OggOpusInfo {
+	if (detectAudioFormat(data) !== "ogg") throw new Error("The file isn't an Ogg file. It doesn't start with an Ogg page");
+
+	let serial: number | undefined = undefined;
+	let channels = 0;
+	let preSkip = 0;
+	let granule = -1n;
+	let offset = 0;
+	while (offset < data.length) {
+		if (offset + 27 > data.length || data.toString("latin1", offset, offset + 4) !== "OggS") throw new Error(`The Ogg file is invalid or cut off. Expected a page at byte ${offset}`);
+		const pageGranule = data.readBigInt64LE(offset + 6);
+		const pageSerial = data.readUInt32LE(offset + 14);
+		const segments = data[offset + 26];
+		const body = offset + 27 + segments;
+		let bodyLength = 0;
+		for (let i = offset + 27; i < body && i < data.length; i++) bodyLength += data[i];
+		if (body + bodyLength > data.length) throw new Error(`The Ogg file is cut off. The page at byte ${offset} is incomplete`);
+
+		if (serial === undefined) {
+			// The first page of a stream only contains its identification header
+			if (bodyLength < 19 || data.toString("latin1", body, body + 8) !== "OpusHead") throw new Error("The Ogg file doesn't contain Opus audio. Only Ogg/Opus is supported");
+			serial = pageSerial;
+			channels = data[body + 9];
+			preSkip = data.readUInt16LE(body + 10);
+		} else if (pageSerial === serial && pageGranule !== -1n) granule = pageGranule;
+
+		offset = body + bodyLength;
+	}
+	if (granule < 0n) throw new Error("The Ogg file doesn't contain any audio");
+
+	return { channels, durationSeconds: Math.max(Number(granule) - preSkip, 0) / OPUS_GRANULE_RATE };
+}
+
+/**
+ * Read a sample scaled to 16 bit
+ */
+function readSample(data: Buffer, offset: number, format: number, bitsPerSample: number): number {
+	if (format === WAVE_FORMAT_IEEE_FLOAT) return (bitsPerSample === 64 ? data.readDoubleLE(offset) : data.readFloatLE(offset)) * 32768;
+	switch (bitsPerSample) {
+	case 8: return (data[offset] - 128) * 256; // 8 bit PCM is unsigned
+	case 16: return data.readInt16LE(offset);
+	case 24: return data.readIntLE(offset, 3) / 256;
+	default: return data.readInt32LE(offset) / 65536;
+	}
+}
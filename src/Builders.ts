@@ -0,0 +1,781 @@
+import {
+	type APIActionRowComponent,
+	type APIAllowedMentions,
+	type APIButtonComponent,
+	type APIComponentInContainer,
+	type APIComponentInMessageActionRow,
+	type APIContainerComponent,
+	type APIEmbed,
+	type APIEmbedAuthor,
+	type APIEmbedField,
+	type APIEmbedFooter,
+	type APIMessageComponentEmoji,
+	type APIMessageTopLevelComponent,
+	type APIPartialEmoji,
+	type APISectionAccessoryComponent,
+	type APISectionComponent,
+	type APISelectMenuComponent,
+	type APISelectMenuDefaultValue,
+	type APISelectMenuOption,
+	type APITextDisplayComponent,
+	type ChannelType,
+	type RESTAPIPoll,
+	type RESTPostAPIChannelMessageJSONBody,
+	type SelectMenuDefaultValueType,
+	ButtonStyle,
+	ComponentType,
+	MessageFlags
+} from "discord-api-types/v10";
+
+import type { Readable } from "node:stream";
+
+import { validateComponents, validateMessage } from "./Validation";
+
+import type { UploadFile } from "./Types";
+
+/**
+ * Builds an embed. Pass it to MessageBuilder#addEmbeds or send toJSON() as one of the embeds of a message
+ * @since 0.19.0
+ *
+ * @example
+ * const { EmbedBuilder } = require("snowtransfer")
+ * const embed = new EmbedBuilder()
+ * 	.setTitle("Weather")
+ * 	.setColor(0x5865f2)
+ * 	.addField("Today", "Snow", true)
+ * 	.addField("Tomorrow", "More snow", true)
+ * 	.setTimestamp()
+ */
+export class EmbedBuilder {
+	private readonly data: APIEmbed;
+
+	/**
+	 * Create a new EmbedBuilder
+	 * @param data An embed to start from
+	 */
+	public constructor(data: APIEmbed = {}) {
+		this.data = { ...data, fields: data.fields ? [...data.fields] : undefined };
+	}
+
+	/**
+	 * Set the title, shown in bold at the top
+	 */
+	public setTitle(title: string): this {
+		this.data.title = title;
+		return this;
+	}
+
+	/**
+	 * Set the description, shown below the title
+	 */
+	public setDescription(description: string): this {
+		this.data.description = description;
+		return this;
+	}
+
+	/**
+	 * Set the URL the title links to
+	 */
+	public setURL(url: string): this {
+		this.data.url = url;
+		return this;
+	}
+
+	/**
+	 * Set the color of the bar on the left
+	 * @param color The color as a number, like 0x5865f2
+	 */
+	public setColor(color: number): this {
+		this.data.color = color;
+		return this;
+	}
+
+	/**
+	 * Set the time shown next to the footer
+	 * @param timestamp The time to show. Defaults to now
+	 */
+	public setTimestamp(timestamp: Date | number | string = Date.now()): this {
+		this.data.timestamp = new Date(timestamp).toISOString();
+		return this;
+	}
+
+	/**
+	 * Set the author, shown above the title
+	 */
+	public setAuthor(author: APIEmbedAuthor): this {
+		this.data.author = author;
+		return this;
+	}
+
+	/**
+	 * Set the footer, shown at the bottom
+	 */
+	public setFooter(footer: APIEmbedFooter): this {
+		this.data.footer = footer;
+		return this;
+	}
+
+	/**
+	 * Set the large image at the bottom
+	 * @param url URL of the image. Use attachment://name to show a file uploaded with the message
+	 */
+	public setImage(url: string): this {
+		this.data.image = { url };
+		return this;
+	}
+
+	/**
+	 * Set the small image at the top right
+	 * @param url URL of the thumbnail. Use attachment://name to show a file uploaded with the message
+	 */
+	public setThumbnail(url: string): this {
+		this.data.thumbnail = { url };
+		return this;
+	}
+
+	/**
+	 * Add a field
+	 */
+	public addField(name: string, value: string, inline = false): this {
+		return this.addFields({ name, value, inline });
+	}
+
+	/**
+	 * Add fields. An embed can have up to 25
+	 */
+	public addFields(...fields: Array<APIEmbedField>): this {
+		(this.data.fields ??= []).push(...fields);
+		return this;
+	}
+
+	/**
+	 * Get the embed
+	 * @returns The embed
+	 */
+	public toJSON(): APIEmbed {
+		return { ...this.data, fields: this.data.fields ? [...this.data.fields] : undefined };
+	}
+}
+
+/**
+ * Builds a poll. Pass it to MessageBuilder#setPoll or send toJSON() as the poll of a message
+ * @since 0.19.0
+ *
+ * @example
+ * const { PollBuilder } = require("snowtransfer")
+ * const poll = new PollBuilder("Best season?")
+ * 	.addAnswer("Winter", { name: "❄️" })
+ * 	.addAnswer("Also winter")
+ * 	.setDuration(48)
+ */
+export class PollBuilder {
+	private readonly data: RESTAPIPoll;
+
+	/**
+	 * Create a new PollBuilder
+	 * @param question The question of the poll
+	 */
+	public constructor(question: string) {
+		this.data = { question: { text: question }, answers: [] };
+	}
+
+	/**
+	 * Set the question of the poll
+	 */
+	public setQuestion(question: string): this {
+		this.data.question = { text: question };
+		return this;
+	}
+
+	/**
+	 * Add an answer. A poll can have up to 10
+	 * @param text The text of the answer
+	 * @param emoji An emoji to show next to it. Either { id } of a custom emoji or { name } of a unicode emoji
+	 */
+	public addAnswer(text: string, emoji?: APIPartialEmoji | Partial<APIPartialEmoji>): this {
+		this.data.answers.push({ poll_media: emoji ? { text, emoji: emoji as APIPartialEmoji } : { text } });
+		return this;
+	}
+
+	/**
+	 * Set how long the poll is open for
+	 * @param hours Hours, up to 768 (32 days). Defaults to 24
+	 */
+	public setDuration(hours: number): this {
+		this.data.duration = hours;
+		return this;
+	}
+
+	/**
+	 * Allow voting for more than one answer
+	 */
+	public setAllowMultiselect(allow = true): this {
+		this.data.allow_multiselect = allow;
+		return this;
+	}
+
+	/**
+	 * Get the poll
+	 * @returns The poll
+	 */
+	public toJSON(): RESTAPIPoll {
+		return { ...this.data, answers: [...this.data.answers] };
+	}
+}
+
+/**
+ * Builds a button. Add it to an ActionRowBuilder or as the accessory of a SectionBuilder
+ * @since 0.19.0
+ *
+ * @example
+ * const { ButtonBuilder } = require("snowtransfer")
+ * const { ButtonStyle } = require("discord-api-types/v10")
+ * const button = new ButtonBuilder(ButtonStyle.Success)
+ * 	.setCustomId("accept")
+ * 	.setLabel("Accept")
+ * 	.setEmoji({ name: "✅" })
+ */
+export class ButtonBuilder {
+	private readonly data: { type: ComponentType.Button; style: ButtonStyle; custom_id?: string; url?: string; sku_id?: string; label?: string; emoji?: APIMessageComponentEmoji; disabled?: boolean; };
+
+	/**
+	 * Create a new ButtonBuilder
+	 * @param style The style of the button. Defaults to Primary. setURL and setSKUId set the Link and Premium style
+	 */
+	public constructor(style: ButtonStyle = ButtonStyle.Primary) {
+		this.data = { type: ComponentType.Button, style };
+	}
+
+	/**
+	 * Set the style of the button
+	 */
+	public setStyle(style: ButtonStyle): this {
+		this.data.style = style;
+		return this;
+	}
+
+	/**
+	 * Set the custom_id sent with the interaction when the button is clicked. Required unless it's a link or premium button
+	 */
+	public setCustomId(customId: string): this {
+		this.data.custom_id = customId;
+		return this;
+	}
+
+	/**
+	 * Make the button a link button that opens a URL
+	 */
+	public setURL(url: string): this {
+		this.data.style = ButtonStyle.Link;
+		this.data.url = url;
+		return this;
+	}
+
+	/**
+	 * Make the button a premium button that shows an SKU to purchase
+	 * @param skuId Id of the SKU
+	 */
+	public setSKUId(skuId: string): this {
+		this.data.style = ButtonStyle.Premium;
+		this.data.sku_id = skuId;
+		return this;
+	}
+
+	/**
+	 * Set the text on the button, up to 80 characters
+	 */
+	public setLabel(label: string): this {
+		this.data.label = label;
+		return this;
+	}
+
+	/**
+	 * Set the emoji on the button. Either { id } of a custom emoji or { name } of a unicode emoji
+	 */
+	public setEmoji(emoji: APIMessageComponentEmoji): this {
+		this.data.emoji = emoji;
+		return this;
+	}
+
+	/**
+	 * Disable the button, so it can't be clicked
+	 */
+	public setDisabled(disabled = true): this {
+		this.data.disabled = disabled;
+		return this;
+	}
+
+	/**
+	 * Get the button
+	 * @returns The button
+	 */
+	public toJSON(): APIButtonComponent {
+		return { ...this.data } as APIButtonComponent;
+	}
+}
+
+/**
+ * Builds a select menu. Add it to an ActionRowBuilder
+ * @since 0.19.0
+ *
+ * @example
+ * const { SelectMenuBuilder } = require("snowtransfer")
+ * const select = new SelectMenuBuilder("season")
+ * 	.setPlaceholder("Pick a season")
+ * 	.addOptions({ label: "Winter", value: "winter" }, { label: "Summer", value: "summer" })
+ */
+export class SelectMenuBuilder {
+	private readonly data: {
+		type: APISelectMenuComponent["type"];
+		custom_id: string;
+		placeholder?: string;
+		min_values?: number;
+		max_values?: number;
+		disabled?: boolean;
+		options?: Array<APISelectMenuOption>;
+		channel_types?: Array<ChannelType>;
+		default_values?: Array<APISelectMenuDefaultValue<SelectMenuDefaultValueType>>;
+	};
+
+	/**
+	 * Create a new SelectMenuBuilder
+	 * @param customId The custom_id sent with the interaction when something is selected
+	 * @param type Which kind of select menu it is. Defaults to StringSelect, the only one with options of its own
+	 */
+	public constructor(customId: string, type: APISelectMenuComponent["type"] = ComponentType.StringSelect) {
+		this.data = { type, custom_id: customId };
+	}
+
+	/**
+	 * Set the text shown when nothing is selected, up to 150 characters
+	 */
+	public setPlaceholder(placeholder: string): this {
+		this.data.placeholder = placeholder;
+		return this;
+	}
+
+	/**
+	 * Set how many items have to be selected at least. Defaults to 1
+	 */
+	public setMinValues(minValues: number): this {
+		this.data.min_values = minValues;
+		return this;
+	}
+
+	/**
+	 * Set how many items can be selected at most. Defaults to 1
+	 */
+	public setMaxValues(maxValues: number): this {
+		this.data.max_values = maxValues;
+		return this;
+	}
+
+	/**
+	 * Disable the select menu, so nothing can be selected
+	 */
+	public setDisabled(disabled = true): this {
+		this.data.disabled = disabled;
+		return this;
+	}
+
+	/**
+	 * Add options. A string select menu can have up to 25
+	 * @throws {Error} If the select menu isn't a string select menu
+	 */
+	public addOptions(...options: Array<APISelectMenuOption>): this {
+		if (this.data.type !== ComponentType.StringSelect) throw new Error("Only string select menus have options");
+		(this.data.options ??= []).push(...options);
+		return this;
+	}
+
+	/**
+	 * Set which types of channels can be selected
+	 * @throws {Error} If the select menu isn't a channel select menu
+	 */
+	public setChannelTypes(...channelTypes: Array<ChannelType>): this {
+		if (this.data.type !== ComponentType.ChannelSelect) throw new Error("Only channel select menus have channel types");
+		this.data.channel_types = channelTypes;
+		return this;
+	}
+
+	/**
+	 * Add users, roles or channels that are selected at first
+	 * @throws {Error} If the select menu is a string select menu, whose options are selected with their default field instead
+	 */
+	public addDefaultValues(...defaultValues: Array<APISelectMenuDefaultValue<SelectMenuDefaultValueType>>): this {
+		if (this.data.type === ComponentType.StringSelect) throw new Error("String select menus select options by their default field instead");
+		(this.data.default_values ??= []).push(...defaultValues);
+		return this;
+	}
+
+	/**
+	 * Get the select menu
+	 * @returns The select menu
+	 */
+	public toJSON(): APISelectMenuComponent {
+		return {
+			...this.data,
+			options: this.data.options ? [...this.data.options] : undefined,
+			default_values: this.data.default_values ? [...this.data.default_values] : undefined
+		} as APISelectMenuComponent;
+	}
+}
+
+/**
+ * Builds an action row of up to 5 buttons or one select menu. build() checks it with validateComponents
+ * @since 0.19.0
+ *
+ * @example
+ * const { ActionRowBuilder, ButtonBuilder } = require("snowtransfer")
+ * const { ButtonStyle } = require("discord-api-types/v10")
+ * const row = new ActionRowBuilder()
+ * 	.addComponents(new ButtonBuilder().setCustomId("yes").setLabel("Yes"), new ButtonBuilder(ButtonStyle.Danger).setCustomId("no").setLabel("No"))
+ * 	.build()
+ */
+export class ActionRowBuilder {
+	private readonly data: APIActionRowComponent<APIComponentInMessageActionRow>;
+
+	/**
+	 * Create a new ActionRowBuilder
+	 * @param data An action row to start from
+	 */
+	public constructor(data: Partial<APIActionRowComponent<APIComponentInMessageActionRow>> = {}) {
+		this.data = { ...data, type: ComponentType.ActionRow, components: [...data.components ?? []] };
+	}
+
+	/**
+	 * Add buttons or a select menu
+	 */
+	public addComponents(...components: Array<APIComponentInMessageActionRow | ButtonBuilder | SelectMenuBuilder>): this {
+		this.data.components.push(...components.map(component => component instanceof ButtonBuilder || component instanceof SelectMenuBuilder ? component.toJSON() : component));
+		return this;
+	}
+
+	/**
+	 * Get the action row without checking it
+	 * @returns The action row without checking it
+	 */
+	public toJSON(): APIActionRowComponent<APIComponentInMessageActionRow> {
+		return { ...this.data, components: [...this.data.components] };
+	}
+
+	/**
+	 * Get the action row after checking it with validateComponents
+	 * @returns The action row
+	 * @throws {MessageValidationError} If the action row breaks any of Discord's limits
+	 */
+	public build(): APIActionRowComponent<APIComponentInMessageActionRow> {
+		const row = this.toJSON();
+		validateComponents([row]);
+		return row;
+	}
+}
+
+/**
+ * Builds a text display of markdown text, which requires the IsComponentsV2 flag. build() checks it with validateComponents
+ * @since 0.19.0
+ *
+ * @example
+ * const { TextDisplayBuilder } = require("snowtransfer")
+ * const text = new TextDisplayBuilder("# Weather\nSnow all week").build()
+ */
+export class TextDisplayBuilder {
+	private readonly data: APITextDisplayComponent;
+
+	/**
+	 * Create a new TextDisplayBuilder
+	 * @param content The markdown text
+	 */
+	public constructor(content = "") {
+		this.data = { type: ComponentType.TextDisplay, content };
+	}
+
+	/**
+	 * Set the markdown text. All text displays of a message can have up to 4000 characters combined
+	 */
+	public setContent(content: string): this {
+		this.data.content = content;
+		return this;
+	}
+
+	/**
+	 * Get the text display without checking it
+	 * @returns The text display without checking it
+	 */
+	public toJSON(): APITextDisplayComponent {
+		return { ...this.data };
+	}
+
+	/**
+	 * Get the text display after checking it with validateComponents
+	 * @returns The text display
+	 * @throws {MessageValidationError} If the text display breaks any of Discord's limits
+	 */
+	public build(): APITextDisplayComponent {
+		const text = this.toJSON();
+		validateComponents([text]);
+		return text;
+	}
+}
+
+/**
+ * Builds a section of up to 3 text displays next to a thumbnail or button, which requires the IsComponentsV2 flag. build() checks it with validateComponents
+ * @since 0.19.0
+ *
+ * @example
+ * const { SectionBuilder } = require("snowtransfer")
+ * const section = new SectionBuilder()
+ * 	.addTextDisplays("**Snow**", "Expected all week")
+ * 	.setThumbnail("attachment://snow.png", "A snowflake")
+ * 	.build()
+ */
+export class SectionBuilder {
+	private readonly data: { type: ComponentType.Section; components: Array<APITextDisplayComponent>; accessory?: APISectionAccessoryComponent; };
+
+	/**
+	 * Create a new SectionBuilder
+	 * @param data A section to start from
+	 */
+	public constructor(data: Partial<APISectionComponent> = {}) {
+		this.data = { ...data, type: ComponentType.Section, components: [...data.components ?? []] };
+	}
+
+	/**
+	 * Add text displays. Strings are added as text displays with that content
+	 */
+	public addTextDisplays(...textDisplays: Array<string | APITextDisplayComponent | TextDisplayBuilder>): this {
+		this.data.components.push(...textDisplays.map(text => typeof text === "string" ? new TextDisplayBuilder(text).toJSON() : text instanceof TextDisplayBuilder ? text.toJSON() : text));
+		return this;
+	}
+
+	/**
+	 * Set the thumbnail or button shown next to the text displays
+	 */
+	public setAccessory(accessory: APISectionAccessoryComponent | ButtonBuilder): this {
+		this.data.accessory = accessory instanceof ButtonBuilder ? accessory.toJSON() : accessory;
+		return this;
+	}
+
+	/**
+	 * Set a thumbnail as the accessory
+	 * @param url URL of the image. Use attachment://name to show a file uploaded with the message
+	 * @param description Alt text of the image
+	 */
+	public setThumbnail(url: string, description?: string): this {
+		return this.setAccessory({ type: ComponentType.Thumbnail, media: { url }, description });
+	}
+
+	/**
+	 * Get the section without checking it
+	 * @returns The section without checking it
+	 */
+	public toJSON(): APISectionComponent {
+		return { ...this.data, components: [...this.data.components] } as APISectionComponent;
+	}
+
+	/**
+	 * Get the section after checking it with validateComponents
+	 * @returns The section
+	 * @throws {MessageValidationError} If the section breaks any of Discord's limits or has no accessory
+	 */
+	public build(): APISectionComponent {
+		const section = this.toJSON();
+		validateComponents([section]);
+		return section;
+	}
+}
+
+/**
+ * Builds a container, which groups components in a box like an embed and requires the IsComponentsV2 flag. build() checks it with validateComponents
+ * @since 0.19.0
+ *
+ * @example
+ * const { SnowTransfer, MessageBuilder, ContainerBuilder, TextDisplayBuilder, ActionRowBuilder, ButtonBuilder } = require("snowtransfer")
+ * const client = new SnowTransfer("TOKEN")
+ * const container = new ContainerBuilder()
+ * 	.setAccentColor(0x5865f2)
+ * 	.addComponents(new TextDisplayBuilder("Snow is coming"), new ActionRowBuilder().addComponents(new ButtonBuilder().setCustomId("notify").setLabel("Notify me")))
+ * 	.build()
+ * await client.channel.createMessage("channel id", new MessageBuilder().setComponentsV2().addComponents(container).build())
+ */
+export class ContainerBuilder {
+	private readonly data: APIContainerComponent;
+
+	/**
+	 * Create a new ContainerBuilder
+	 * @param data A container to start from
+	 */
+	public constructor(data: Partial<APIContainerComponent> = {}) {
+		this.data = { ...data, type: ComponentType.Container, components: [...data.components ?? []] };
+	}
+
+	/**
+	 * Add components. Containers can have action rows, text displays, sections, media galleries, separators and files
+	 */
+	public addComponents(...components: Array<APIComponentInContainer | ActionRowBuilder | TextDisplayBuilder | SectionBuilder>): this {
+		this.data.components.push(...components.map(component => component instanceof ActionRowBuilder || component instanceof TextDisplayBuilder || component instanceof SectionBuilder ? component.toJSON() : component));
+		return this;
+	}
+
+	/**
+	 * Set the color of the bar on the left
+	 * @param color The color as a number, like 0x5865f2, or null for none
+	 */
+	public setAccentColor(color: number | null): this {
+		this.data.accent_color = color;
+		return this;
+	}
+
+	/**
+	 * Blur the container until it's clicked
+	 */
+	public setSpoiler(spoiler = true): this {
+		this.data.spoiler = spoiler;
+		return this;
+	}
+
+	/**
+	 * Get the container without checking it
+	 * @returns The container without checking it
+	 */
+	public toJSON(): APIContainerComponent {
+		return { ...this.data, components: [...this.data.components] };
+	}
+
+	/**
+	 * Get the container after checking it with validateComponents
+	 * @returns The container
+	 * @throws {MessageValidationError} If the container breaks any of Discord's limits
+	 */
+	public build(): APIContainerComponent {
+		const container = this.toJSON();
+		validateComponents([container]);
+		return container;
+	}
+}
+
+/**
+ * Builds a message to pass to createMessage, editMessage, executeWebhook or createFollowupMessage.
+ * build() checks it with validateMessage first
+ * @since 0.19.0
+ *
+ * @example
+ * const { SnowTransfer, MessageBuilder, EmbedBuilder } = require("snowtransfer")
+ * const client = new SnowTransfer("TOKEN")
+ * const message = new MessageBuilder()
+ * 	.setContent("Look at this")
+ * 	.addFile("picture.png", fs.readFileSync("picture.png"))
+ * 	.addEmbeds(new EmbedBuilder().setTitle("A picture").setImage("attachment://picture.png"))
+ * 	.build()
+ * await client.channel.createMessage("channel id", message)
+ */
+export class MessageBuilder {
+	private readonly data: RESTPostAPIChannelMessageJSONBody & { files?: Array<UploadFile>; };
+
+	/**
+	 * Create a new MessageBuilder
+	 * @param data A message to start from
+	 */
+	public constructor(data: RESTPostAPIChannelMessageJSONBody & { files?: Array<UploadFile>; } = {}) {
+		this.data = { ...data };
+	}
+
+	/**
+	 * Set the text of the message
+	 */
+	public setContent(content: string): this {
+		this.data.content = content;
+		return this;
+	}
+
+	/**
+	 * Add embeds. A message can have up to 10
+	 */
+	public addEmbeds(...embeds: Array<APIEmbed | EmbedBuilder>): this {
+		this.data.embeds = [...this.data.embeds ?? [], ...embeds.map(embed => embed instanceof EmbedBuilder ? embed.toJSON() : embed)];
+		return this;
+	}
+
+	/**
+	 * Add top level components, like action rows or, with the IsComponentsV2 flag, containers, sections and text displays
+	 */
+	public addComponents(...components: Array<APIMessageTopLevelComponent | ActionRowBuilder | ContainerBuilder | SectionBuilder | TextDisplayBuilder>): this {
+		this.data.components = [...this.data.components ?? [], ...components.map(component => component instanceof ActionRowBuilder || component instanceof ContainerBuilder || component instanceof SectionBuilder || component instanceof TextDisplayBuilder ? component.toJSON() : component)];
+		return this;
+	}
+
+	/**
+	 * Set the poll of the message
+	 */
+	public setPoll(poll: RESTAPIPoll | PollBuilder): this {
+		this.data.poll = poll instanceof PollBuilder ? poll.toJSON() : poll;
+		return this;
+	}
+
+	/**
+	 * Upload a file with the message. Embeds and components can show it with attachment://name
+	 * @param name The name of the file, including its extension
+	 * @param file The contents of the file
+	 * @param description Alt text of the file
+	 * @param size Size of the file in bytes if it's a stream
+	 */
+	public addFile(name: string, file: Buffer | Blob | Readable | ReadableStream, description?: string, size?: number): this {
+		const files = this.data.files = [...this.data.files ?? [], { name, file, size }];
+		if (description !== undefined) this.data.attachments = [...this.data.attachments ?? [], { id: files.length - 1, filename: name, description }];
+		return this;
+	}
+
+	/**
+	 * Set the flags of the message, replacing the flags set before
+	 */
+	public setFlags(flags: MessageFlags | number): this {
+		this.data.flags = flags;
+		return this;
+	}
+
+	/**
+	 * Set the IsComponentsV2 flag, after which the message is made of components only and can't have content, embeds or a poll
+	 */
+	public setComponentsV2(enabled = true): this {
+		const flags = this.data.flags ?? 0;
+		this.data.flags = enabled ? flags | MessageFlags.IsComponentsV2 : flags & ~MessageFlags.IsComponentsV2;
+		return this;
+	}
+
+	/**
+	 * Set who can be mentioned by the message. Defaults to the allowed_mentions option of SnowTransfer
+	 */
+	public setAllowedMentions(allowedMentions: APIAllowedMentions): this {
+		this.data.allowed_mentions = allowedMentions;
+		return this;
+	}
+
+	/**
+	 * Make the message a reply
+	 * @param messageId Id of the message to reply to
+	 * @param failIfNotExists If sending should fail when the message was deleted. Defaults to true
+	 */
+	public setReply(messageId: string, failIfNotExists?: boolean): this {
+		this.data.message_reference = { message_id: messageId, fail_if_not_exists: failIfNotExists };
+		return this;
+	}
+
+	/**
+	 * Get the message without checking it
+	 * @returns The message without checking it
+	 */
+	public toJSON(): RESTPostAPIChannelMessageJSONBody & { files?: Array<UploadFile>; } {
+		return { ...this.data };
+	}
+
+	/**
+	 * Get the message after checking it with validateMessage
+	 * @returns The message
+	 * @throws {MessageValidationError} If the message breaks any of Discord's limits
+	 */
+	public build(): RESTPostAPIChannelMessageJSONBody & { files?: Array<UploadFile>; } {
+		const message = this.toJSON();
+		validateMessage(message);
+		return message;
+	}
+}
@@ -0,0 +1,298 @@
+import { StickerFormatType } from "discord-api-types/v10";
+
+import Endpoints = require("./Endpoints");
+
+import type { EmojiURLOptions, ImageURLOptions } from "./Types";
+
+type StaticFormat = "png" | "jpeg" | "webp";
+type AnimatedFormat = StaticFormat | "gif";
+
+const staticFormats: ReadonlyArray<string> = ["png", "jpeg", "webp"];
+const animatedFormats: ReadonlyArray<string> = [...staticFormats, "gif"];
+
+/**
+ * Build the URL of an image on the CDN
+ * @param path Path of the image without the extension
+ * @param animated If the image is animated. Animated images default to gif, and are requested animated as webp
+ * @param formats The formats the image is available in
+ * @param options Format and size of the image
+ * @param base The host the image is on
+ */
+function imageURL(path: string, animated: boolean, formats: ReadonlyArray<string>, options: Partial<ImageURLOptions<string>> = {}, base: string = Endpoints.CDN_URL): string {
+	const format = options.format ?? (animated && formats.includes("gif") ? "gif" : "png");
+	if (!formats.includes(format)) throw new Error(`This image is only available as ${formats.join(", ")}`);
+	if (format === "gif" && !animated) throw new Error("Only animated images are available as gif");
+
+	const query = new URLSearchParams();
+	if (options.size !== undefined) {
+		if (!Number.isInteger(Math.log2(options.size)) || options.size < 16 || options.size > 4096) throw new RangeError("The size has to be a power of two between 16 and 4096");
+		query.set("size", String(options.size));
+	}
+	if (animated && format === "webp") query.set("animated", "true");
+
+	const search = query.toString();
+	return `${base}${path}.${format}${search ? `?${search}` : ""}`;
+}
+
+/**
+ * Animated images have hashes starting with a_
+ */
+function isAnimated(hash: string): boolean {
+	return hash.startsWith("a_");
+}
+
+/**
+ * Get the URL of the avatar of a user
+ * @since 0.19.0
+ * @param userId Id of the user
+ * @param hash The avatar hash of the user
+ * @param options Format and size of the avatar. Animated avatars default to gif
+ * @returns The URL of the avatar
+ *
+ * @example
+ * const { CDN } = require("snowtransfer")
+ * const url = CDN.userAvatar(user.id, user.avatar, { size: 256 })
+ */
+function userAvatar(userId: string, hash: string, options?: Partial<ImageURLOptions<AnimatedFormat>>): string {
+	return imageURL(`/avatars/${userId}/${hash}`, isAnimated(hash), animatedFormats, options);
+}
+
+/**
+ * Get the URL of the default avatar of a user, which is shown if the user has no avatar
+ * @since 0.19.0
+ * @param userId Id of the user
+ * @param discriminator The discriminator of the user. Only users who haven't migrated to the new username system still have one that isn't "0"
+ * @returns The URL of the default avatar. Always a png
+ *
+ * @example
+ * const { CDN } = require("snowtransfer")
+ * const url = user.avatar ? CDN.userAvatar(user.id, user.avatar) : CDN.defaultUserAvatar(user.id, user.discriminator)
+ */
+function defaultUserAvatar(userId: string, discriminator?: string): string {
+	const index = discriminator && discriminator !== "0" ? Number(discriminator) % 5 : Number((BigInt(userId) >> 22n) % 6n);
+	return `${Endpoints.CDN_URL}/embed/avatars/${index}.png`;
+}
+
+/**
+ * Get the URL of the banner of a user
+ * @since 0.19.0
+ * @param userId Id of the user
+ * @param hash The banner hash of the user
+ * @param options Format and size of the banner. Animated banners default to gif
+ * @returns The URL of the banner
+ */
+function userBanner(userId: string, hash: string, options?: Partial<ImageURLOptions<AnimatedFormat>>): string {
+	return imageURL(`/banners/${userId}/${hash}`, isAnimated(hash), animatedFormats, options);
+}
+
+/**
+ * Get the URL of the avatar a member set for a guild
+ * @since 0.19.0
+ * @param guildId Id of the guild
+ * @param userId Id of the member
+ * @param hash The avatar hash of the member
+ * @param options Format and size of the avatar. Animated avatars default to gif
+ * @returns The URL of the avatar
+ *
+ * @example
+ * const { CDN } = require("snowtransfer")
+ * const url = member.avatar ? CDN.guildMemberAvatar(guildId, member.user.id, member.avatar) : CDN.userAvatar(member.user.id, member.user.avatar)
+ */
+function guildMemberAvatar(guildId: string, userId: string, hash: string, options?: Partial<ImageURLOptions<AnimatedFormat>>): string {
+	return imageURL(`/guilds/${guildId}/users/${userId}/avatars/${hash}`, isAnimated(hash), animatedFormats, options);
+}
+
+/**
+ * Get the URL of the banner a member set for a guild
+ * @since 0.19.0
+ * @param guildId Id of the guild
+ * @param userId Id of the member
+ * @param hash The banner hash of the member
+ * @param options Format and size of the banner. Animated banners default to gif
+ * @returns The URL of the banner
+ */
+function guildMemberBanner(guildId: string, userId: string, hash: string, options?: Partial<ImageURLOptions<AnimatedFormat>>): string {
+	return imageURL(`/guilds/${guildId}/users/${userId}/banners/${hash}`, isAnimated(hash), animatedFormats, options);
+}
+
+/**
+ * Get the URL of the icon of a guild
+ * @since 0.19.0
+ * @param guildId Id of the guild
+ * @param hash The icon hash of the guild
+ * @param options Format and size of the icon. Animated icons default to gif
+ * @returns The URL of the icon
+ *
+ * @example
+ * const { CDN } = require("snowtransfer")
+ * const url = CDN.guildIcon(guild.id, guild.icon, { format: "webp", size: 128 })
+ */
+function guildIcon(guildId: string, hash: string, options?: Partial<ImageURLOptions<AnimatedFormat>>): string {
+	return imageURL(`/icons/${guildId}/${hash}`, isAnimated(hash), animatedFormats, options);
+}
+
+/**
+ * Get the URL of the invite splash of a guild
+ * @since 0.19.0
+ * @param guildId Id of the guild
+ * @param hash The splash hash of the guild
+ * @param options Format and size of the splash
+ * @returns The URL of the splash
+ */
+function guildSplash(guildId: string, hash: string, options?: Partial<ImageURLOptions<StaticFormat>>): string {
+	return imageURL(`/splashes/${guildId}/${hash}`, false, staticFormats, options);
+}
+
+/**
+ * Get the URL of the discovery splash of a guild
+ * @since 0.19.0
+ * @param guildId Id of the guild
+ * @param hash The discovery splash hash of the guild
+ * @param options Format and size of the splash
+ * @returns The URL of the splash
+ */
+function guildDiscoverySplash(guildId: string, hash: string, options?: Partial<ImageURLOptions<StaticFormat>>): string {
+	return imageURL(`/discovery-splashes/${guildId}/${hash}`, false, staticFormats, options);
+}
+
+/**
+ * Get the URL of the banner of a guild
+ * @since 0.19.0
+ * @param guildId Id of the guild
+ * @param hash The banner hash of the guild
+ * @param options Format and size of the banner. Animated banners default to gif
+ * @returns The URL of the banner
+ */
+function guildBanner(guildId: string, hash: string, options?: Partial<ImageURLOptions<AnimatedFormat>>): string {
+	return imageURL(`/banners/${guildId}/${hash}`, isAnimated(hash), animatedFormats, options);
+}
+
+/**
+ * Get the URL of the icon of a role
+ * @since 0.19.0
+ * @param roleId Id of the role
+ * @param hash The icon hash of the role
+ * @param options Format and size of the icon
+ * @returns The URL of the icon
+ */
+function roleIcon(roleId: string, hash: string, options?: Partial<ImageURLOptions<StaticFormat>>): string {
+	return imageURL(`/role-icons/${roleId}/${hash}`, false, staticFormats, options);
+}
+
+/**
+ * Get the URL of a custom emoji
+ * @since 0.19.0
+ * @param emojiId Id of the emoji
+ * @param options If the emoji is animated and its format and size. Animated emojis default to gif
+ * @returns The URL of the emoji
+ *
+ * @example
+ * const { CDN } = require("snowtransfer")
+ * const url = CDN.emoji(emoji.id, { animated: emoji.animated, size: 64 })
+ */
+function emoji(emojiId: string, options: Partial<EmojiURLOptions> = {}): string {
+	return imageURL(`/emojis/${emojiId}`, options.animated ?? false, animatedFormats, options);
+}
+
+/**
+ * Get the URL of a sticker. Which file the URL points to depends on the format type of the sticker
+ * @since 0.19.0
+ * @param stickerId Id of the sticker
+ * @param formatType The format_type of the sticker
+ * @param options Size of the sticker. Lottie stickers are JSON and have no size
+ * @returns The URL of the sticker. A png for PNG and APNG stickers, a gif for GIF stickers and a json for Lottie stickers
+ *
+ * @example
+ * const { CDN } = require("snowtransfer")
+ * const url = CDN.sticker(sticker.id, sticker.format_type)
+ */
+function sticker(stickerId: string, formatType: StickerFormatType, options?: Partial<Omit<ImageURLOptions<never>, "format">>): string {
+	switch (formatType) {
+	case StickerFormatType.Lottie:
+		return `${Endpoints.CDN_URL}/stickers/${stickerId}.json`;
+	case StickerFormatType.GIF:
+		// GIF stickers aren't on the CDN
+		return imageURL(`/stickers/${stickerId}`, true, ["gif"], { ...options, format: "gif" }, Endpoints.MEDIA_URL);
+	default:
+		return imageURL(`/stickers/${stickerId}`, false, ["png"], { ...options, format: "png" });
+	}
+}
+
+/**
+ * Get the URL of the icon of an application
+ * @since 0.19.0
+ * @param appId Id of the application
+ * @param hash The icon hash of the application
+ * @param options Format and size of the icon
+ * @returns The URL of the icon
+ */
+function applicationIcon(appId: string, hash: string, options?: Partial<ImageURLOptions<StaticFormat>>): string {
+	return imageURL(`/app-icons/${appId}/${hash}`, false, staticFormats, options);
+}
+
+/**
+ * Get the URL of the cover image of an application
+ * @since 0.19.0
+ * @param appId Id of the application
+ * @param hash The cover image hash of the application
+ * @param options Format and size of the cover image
+ * @returns The URL of the cover image
+ */
+function applicationCover(appId: string, hash: string, options?: Partial<ImageURLOptions<StaticFormat>>): string {
+	return imageURL(`/app-icons/${appId}/${hash}`, false, staticFormats, options);
+}
+
+/**
+ * Get the URL of the cover image of a guild scheduled event
+ * @since 0.19.0
+ * @param eventId Id of the scheduled event
+ * @param hash The cover image hash of the scheduled event
+ * @param options Format and size of the cover image
+ * @returns The URL of the cover image
+ */
+function guildScheduledEventCover(eventId: string, hash: string, options?: Partial<ImageURLOptions<StaticFormat>>): string {
+	return imageURL(`/guild-events/${eventId}/${hash}`, false, staticFormats, options);
+}
+
+/**
+ * Get the URL of an avatar decoration
+ * @since 0.19.0
+ * @param asset The asset of the avatar_decoration_data of a user
+ * @param options Size of the avatar decoration
+ * @returns The URL of the avatar decoration. Always a png, which is animated if the decoration is
+ */
+function avatarDecoration(asset: string, options?: Partial<Omit<ImageURLOptions<never>, "format">>): string {
+	return imageURL(`/avatar-decoration-presets/${asset}`, false, ["png"], { ...options, format: "png" });
+}
+
+/**
+ * Get the URL of the icon of a team
+ * @since 0.19.0
+ * @param teamId Id of the team
+ * @param hash The icon hash of the team
+ * @param options Format and size of the icon
+ * @returns The URL of the icon
+ */
+function teamIcon(teamId: string, hash: string, options?: Partial<ImageURLOptions<StaticFormat>>): string {
+	return imageURL(`/team-icons/${teamId}/${hash}`, false, staticFormats, options);
+}
+
+export = {
+	userAvatar,
+	defaultUserAvatar,
+	userBanner,
+	guildMemberAvatar,
+	guildMemberBanner,
+	guildIcon,
+	guildSplash,
+	guildDiscoverySplash,
+	guildBanner,
+	roleIcon,
+	emoji,
+	sticker,
+	applicationIcon,
+	applicationCover,
+	guildScheduledEventCover,
+	avatarDecoration,
+	teamIcon
+};
@@ -0,0 +1,84 @@
+import { Readable } from "node:stream";
+
+import Endpoints = require("./Endpoints");
+
+import type { RESTAPIAttachment } from "discord-api-types/v10";
+
+import type { RequestHandler } from "./RequestHandler";
+import type { RequestOptions, UploadFile } from "./Types";
+
+type UploadSlot = {
+	id: number | string;
+	upload_url: string;
+	upload_filename: string;
+};
+
+/**
+ * Upload files to Discord's storage, so messages can refer to them by their uploaded_filename instead of containing them
+ * @param requestHandler The RequestHandler to ask for upload URLs with. Its fetch uploads the files
+ * @param channelId Id of the channel the files will be sent in
+ * @param files The files. Streams need a size
+ * @param requestOptions Options for the requests, like an AbortSignal
+ * @returns The uploaded_filename of every file, in the order of the files
+ */
+export async function uploadFiles(requestHandler: RequestHandler, channelId: string, files: Array<UploadFile>, requestOptions?: Partial<RequestOptions>): Promise<Array<string>> {
+	const sizes = files.map((file, index) => {
+		const size = sizeOf(file);
+		if (size === undefined) throw new Error(`files[${index}] is a stream without a size. Files uploaded before sending the message need a size`);
+		return size;
+	});
+
+	const { attachments }: { attachments: Array<UploadSlot> } = await requestHandler.request(Endpoints.CHANNEL_ATTACHMENTS(channelId), {}, "post", "json", {
+		files: files.map((file, index) => ({ id: String(index), filename: file.name, file_size: sizes[index] }))
+	}, undefined, undefined, undefined, requestOptions);
+
+	return Promise.all(files.map(async (file, index) => {
+		const slot = attachments.find(a => String(a.id) === String(index));
+		if (!slot) throw new Error(`Discord didn't return an upload URL for files[${index}]`);
+
+		const response = await requestHandler.options.fetch(slot.upload_url, {
+			method: "PUT",
+			headers: { "Content-Length": String(sizes[index]) },
+			body: file.file instanceof Readable ? Readable.toWeb(file.file) : file.file,
+			// fetch only sends streams with half duplex
+			duplex: "half",
+			// Unless redirects are errors, fetch sends a clone of the request, whose body is a tee of the stream that keeps every chunk in memory
+			redirect: "error",
+			signal: requestOptions?.signal
+		} as Parameters<typeof fetch>[1]);
+		await response.body?.cancel();
+		if (!response.ok) throw new Error(`Uploading files[${index}] (${file.name}) failed with status ${response.status}`);
+
+		return slot.upload_filename;
+	}));
+}
+
+/**
+ * Upload the files of a message and replace them with attachments referring to the uploaded files, so the message can be sent as JSON
+ * @param requestHandler The RequestHandler to upload with
+ * @param channelId Id of the channel the message will be sent in
+ * @param payload The message. Attachments with the id of a file (its index) keep their other fields
+ * @param requestOptions Options for the requests, like an AbortSignal
+ * @returns The message without files
+ */
+export async function uploadMessageFiles<T extends { files?: Array<UploadFile>; attachments?: Array<RESTAPIAttachment> | undefined; }>(requestHandler: RequestHandler, channelId: string, payload: T, requestOptions?: Partial<RequestOptions>): Promise<Omit<T, "files">> {
+	const { files, ...message } = payload;
+	if (!files?.length) return message;
+
+	const uploadedFilenames = await uploadFiles(requestHandler, channelId, files, requestOptions);
+	const attachments: Array<RESTAPIAttachment & { uploaded_filename?: string; }> = [...message.attachments ?? []];
+	files.forEach((file, index) => {
+		const existing = attachments.findIndex(a => String(a.id) === String(index));
+		const attachment = { ...attachments[existing], id: index, filename: attachments[existing]?.filename ?? file.name, uploaded_filename: uploadedFilenames[index] };
+		if (existing === -1) attachments.push(attachment);
+		else attachments[existing] = attachment;
+	});
+
+	return { ...message, attachments };
+}
+
+function sizeOf(file: UploadFile): number | undefined {
+	if (Buffer.isBuffer(file.file)) return file.file.length;
+	if (file.file instanceof Blob) return file.file.size;
+	return file.size;
+}
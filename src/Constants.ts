@@ -1,31 +1,129 @@
 import { Readable } from "node:stream";
 
+import MultipartBody = require("./Multipart");
+
+import type { RetryPolicy, UploadFile } from "./Types";
+
 const Constants = {
 	REST_API_VERSION: 10 as const,
 	GET_CHANNEL_MESSAGES_MIN_RESULTS: 1 as const,
 	GET_CHANNEL_MESSAGES_MAX_RESULTS: 100 as const,
 	GET_GUILD_SCHEDULED_EVENT_USERS_MIN_RESULTS: 1 as const,
 	GET_GUILD_SCHEDULED_EVENT_USERS_MAX_RESULTS: 100 as const,
+	GET_REACTIONS_MAX_RESULTS: 100 as const,
+	GET_THREAD_MEMBERS_MAX_RESULTS: 100 as const,
+	GET_POLL_ANSWER_VOTERS_MAX_RESULTS: 100 as const,
+	GET_GUILD_MEMBERS_MAX_RESULTS: 1000 as const,
+	GET_GUILD_BANS_MAX_RESULTS: 1000 as const,
+	GET_AUDIT_LOG_MAX_RESULTS: 100 as const,
+	GET_ENTITLEMENTS_MAX_RESULTS: 100 as const,
+	GUILD_ONBOARDING_MAX_PROMPTS: 15 as const,
+	GUILD_ONBOARDING_MIN_PROMPT_OPTIONS: 1 as const,
+	GUILD_ONBOARDING_MAX_PROMPT_OPTIONS: 50 as const,
+	GUILD_ONBOARDING_MIN_DEFAULT_CHANNELS: 7 as const,
+	LOBBY_MAX_MEMBERS: 25 as const,
+	/** In seconds */
+	LOBBY_MIN_IDLE_TIMEOUT: 5 as const,
+	/** In seconds */
+	LOBBY_MAX_IDLE_TIMEOUT: 604800 as const,
+	ROLE_CONNECTION_METADATA_MAX_RECORDS: 5 as const,
+	ROLE_CONNECTION_METADATA_KEY_MAX_LENGTH: 50 as const,
+	ROLE_CONNECTION_METADATA_NAME_MAX_LENGTH: 100 as const,
+	ROLE_CONNECTION_METADATA_DESCRIPTION_MAX_LENGTH: 200 as const,
+	ROLE_CONNECTION_PLATFORM_NAME_MAX_LENGTH: 50 as const,
+	ROLE_CONNECTION_PLATFORM_USERNAME_MAX_LENGTH: 100 as const,
+	ROLE_CONNECTION_METADATA_VALUE_MAX_LENGTH: 100 as const,
 	SEARCH_MEMBERS_MIN_RESULTS: 1 as const,
 	SEARCH_MEMBERS_MAX_RESULTS: 1000 as const,
+	BULK_BAN_MAX_USERS: 200 as const,
+	/** In seconds */
+	BAN_DELETE_MESSAGE_MAX_SECONDS: 604800 as const,
 	BULK_DELETE_MESSAGES_MIN: 2 as const,
 	BULK_DELETE_MESSAGES_MAX: 100 as const,
+	SOUNDBOARD_SOUND_NAME_MIN_LENGTH: 2 as const,
+	SOUNDBOARD_SOUND_NAME_MAX_LENGTH: 32 as const,
+	/** In bytes */
+	SOUNDBOARD_SOUND_MAX_SIZE: 512 * 1024,
+	/** In seconds */
+	SOUNDBOARD_SOUND_MAX_DURATION: 5.2,
 	OK_STATUS_CODES: new Set([200, 201, 204, 304]),
+	/** @deprecated Unused since 0.19.0. Only the statusCodes of the retry policy are retried */
 	DO_NOT_RETRY_STATUS_CODES: new Set([401, 403, 404, 405, 411, 413]),
 	DEFAULT_RETRY_LIMIT: 3,
+	DEFAULT_RETRY_POLICY: {
+		baseDelay: 500,
+		maxDelay: 30000,
+		jitter: 0.5,
+		statusCodes: [500, 502, 503, 504],
+		networkErrorCodes: ["ECONNRESET", "ECONNREFUSED", "ETIMEDOUT", "EPIPE", "EAI_AGAIN", "UND_ERR_SOCKET", "UND_ERR_CONNECT_TIMEOUT"],
+		retryNonIdempotent: false
+	} as RetryPolicy,
+	IDEMPOTENT_METHODS: new Set(["GET", "HEAD", "PUT", "DELETE", "OPTIONS", "TRACE"]),
 	GLOBAL_REQUESTS_PER_SECOND: 50,
-	async standardMultipartHandler(data: { files: Array<{ name: string; file: Buffer | Blob | File | Readable | ReadableStream }>; data?: any; }): Promise<FormData> {
-		const form = new FormData();
+	/** The largest request body in bytes a SnowTransferProxy reads by default. Large enough for the uploads of guilds with the highest boost level */
+	PROXY_MAX_BODY_SIZE: 100 * 1024 * 1024,
+	/** The largest request body in bytes an InteractionServer reads by default */
+	INTERACTION_MAX_BODY_SIZE: 1024 * 1024,
+	/** How long in milliseconds after receiving an interaction it can be responded to */
+	INTERACTION_RESPONSE_TIMEOUT: 3000,
+	/** How long in milliseconds after receiving an interaction its token can be used for edits and followups */
+	INTERACTION_TOKEN_LIFETIME: 15 * 60 * 1000,
+	/** How long in milliseconds after receiving an interaction an InteractionContext defers it if it wasn't responded to yet */
+	INTERACTION_AUTO_DEFER_AFTER: 2500,
+	/** How long in milliseconds before the access token of an OAuth2Session expires it's refreshed */
+	SESSION_REFRESH_MARGIN: 60000,
+	/** Limits of message payloads validateMessage checks. Lengths are in characters */
+	MESSAGE_LIMITS: {
+		contentLength: 2000,
+		stickers: 3,
+		embeds: 10,
+		/** Combined length of the title, description, field names and values, footer text and author name of all embeds */
+		embedsTotalLength: 6000,
+		embedTitleLength: 256,
+		embedDescriptionLength: 4096,
+		embedFields: 25,
+		embedFieldNameLength: 256,
+		embedFieldValueLength: 1024,
+		embedFooterTextLength: 2048,
+		embedAuthorNameLength: 256,
+		actionRows: 5,
+		actionRowButtons: 5,
+		/** Components in a message with the IsComponentsV2 flag, including nested ones */
+		components: 40,
+		/** Combined length of all text displays in a message with the IsComponentsV2 flag */
+		textDisplaysTotalLength: 4000,
+		sectionTextDisplays: 3,
+		mediaGalleryItems: 10,
+		mediaDescriptionLength: 1024,
+		customIdLength: 100,
+		buttonLabelLength: 80,
+		selectOptions: 25,
+		selectPlaceholderLength: 150,
+		selectOptionLength: 100,
+		pollQuestionLength: 300,
+		pollAnswers: 10,
+		pollAnswerLength: 55,
+		/** In hours */
+		pollDuration: 768
+	} as const,
+	/**
+	 * Encode a payload with files as multipart/form-data. The files are added as files[n] and everything else as payload_json
+	 * @param data The payload. Its files are removed from the payload_json
+	 * @returns The body. Streams aren't read until it's sent
+	 */
+	async standardMultipartHandler(data: { files: Array<UploadFile>; data?: any; }): Promise<MultipartBody> {
+		const form = new MultipartBody();
 		const payload = { ...data };
 		payload.files = payload.files?.map(f => ({ ...f }));
 
 		if (payload.files && Array.isArray(payload.files) && payload.files.every(f => !!f.name && !!f.file)) {
 			let index = 0;
 			for (const file of payload.files) {
-				await Constants.standardAddToFormHandler(form, `files[${index}]`, file.file, file.name);
+				await Constants.standardAddToFormHandler(form, `files[${index}]`, file.file, file.name, file.size);
 
 				// @ts-expect-error Cannot delete non optional, but I have to
 				delete file.file;
+				delete file.size;
 				index++;
 			}
 		}
@@ -35,7 +133,21 @@ const Constants = {
 		form.append("payload_json", JSON.stringify(payload));
 		return form;
 	},
-	async standardAddToFormHandler(form: FormData, name: string, value: string | Buffer | Blob | File | Readable | ReadableStream, filename?: string): Promise<void> {
+	/**
+	 * Add a field or file to a form. Streams are read into memory first if the form is FormData, but are only read while sending if it's a MultipartBody
+	 * @param form The form to add to
+	 * @param name Name of the field
+	 * @param value Value of the field
+	 * @param filename Name of the file
+	 * @param size Size of the value in bytes if it's a stream. Only used by MultipartBody
+	 */
+	async standardAddToFormHandler(form: FormData | MultipartBody, name: string, value: string | Buffer | Blob | File | Readable | ReadableStream, filename?: string, size?: number): Promise<void> {
+		if (form instanceof MultipartBody) {
+			if (typeof value === "string" || value instanceof Buffer || value instanceof Blob || value instanceof Readable || value instanceof ReadableStream) form.append(name, value, filename, size);
+			else throw new Error(`Don't know how to add ${(value as unknown)?.constructor?.name ?? typeof value} to form`);
+			return;
+		}
+
 		// @ts-expect-error It's a Buffer. If the user experiences an error, then let it be known that I don't care
 		if (value instanceof Buffer || typeof value === "string") form.append(name, new Blob([value]), filename);
 		else if (value instanceof Blob || value instanceof File) form.append(name, value, filename);
@@ -60,15 +172,15 @@ const Constants = {
 	 * so each byte represents the amplitude of one time slice of the recording, left to right.
 	 *
 	 * To get `pcmSamples` in the first place:
-	 * WAV is the only format decodable without extra tooling, since it's just a header followed by raw PCM.
+	 * WAV is the only format decodable without extra tooling, since it's just a header followed by raw PCM. parseWav reads its samples.
 	 * For Ogg/Opus, MP3, M4A, FLAC, etc., you'll need to decode to PCM first, e.g. by shelling out to ffmpeg
 	 * (`ffmpeg -i input -f s16le -ac 1 -ar 48000 -`) or using a native/wasm decoder of your choice.
 	 * prism-media is an option and is the backend of discord.js' voice package for the purpose of converting arbitrary
 	 * audio formats into PCM for some functionality, like gain modification, to then convert into opus packets for Discord.
 	 * Though it does depend on ffmpeg for unrecognized formats.
-	 * @param pcmSamples mono PCM, e.g. Int16 samples in the range -32768..32767
+	 * @param pcmSamples mono PCM, e.g. Int16 samples in the range -32768..32767. An Int16Array, like the samples of parseWav, works too
 	 */
-	generateWaveform(pcmSamples: Array<number>, durationSeconds: number, maxPoints = 256) {
+	generateWaveform(pcmSamples: ArrayLike<number>, durationSeconds: number, maxPoints = 256) {
 		if (maxPoints > 256) maxPoints = 256;
 		const points = Math.min(maxPoints, Math.ceil(durationSeconds * 10)); // Discord samples at most once per 100ms
 		const chunkSize = Math.ceil(pcmSamples.length / points);
@@ -77,15 +189,15 @@ const Constants = {
 		for (let i = 0; i < points; i++) {
 			const start = i * chunkSize;
 			const end = Math.min(start + chunkSize, pcmSamples.length);
-			const chunk = pcmSamples.slice(start, end);
 
-			if (chunk.length === 0) {
+			if (end <= start) {
 				waveformArr[i] = 0;
 				continue;
 			}
 
-			const sumSquares = chunk.reduce((acc, cur) => acc + (cur * cur), 0);
-			const rms = Math.sqrt(sumSquares / chunk.length); // root-mean-square amplitude of this chunk
+			let sumSquares = 0;
+			for (let j = start; j < end; j++) sumSquares += pcmSamples[j] * pcmSamples[j];
+			const rms = Math.sqrt(sumSquares / (end - start)); // root-mean-square amplitude of this chunk
 			waveformArr[i] = Math.round((rms / 32768) * 255);
 		}
 
@@ -9,6 +9,7 @@ const Endpoints = {
 	BASE_URL: "/api/v" + Constants.REST_API_VERSION as `/api/v${typeof Constants.REST_API_VERSION}`,
 	BASE_HOST: "https://discord.com" as const,
 	CDN_URL: "https://cdn.discordapp.com" as const,
+	MEDIA_URL: "https://media.discordapp.net" as const,
 
 	APPLICATION_COMMAND: (appId: string, cmdId: string) => `${Endpoints.APPLICATION_COMMANDS(appId)}/${cmdId}` as `${ReturnType<typeof Endpoints.APPLICATION_COMMANDS>}/{cmd_id}`,
 	APPLICATION_COMMANDS: (appId: string) => `/applications/${appId}/commands` as "/applications/{app_id}/commands",
@@ -21,6 +22,7 @@ const Endpoints = {
 	APPLICATION_GUILD_COMMAND_PERMISSIONS: (appId: string, guildId: string, cmdId: string) => `${Endpoints.APPLICATION_GUILD_COMMAND(appId, guildId, cmdId)}/permissions` as `${ReturnType<typeof Endpoints.APPLICATION_GUILD_COMMAND>}/permissions`,
 	APPLICATION_GUILD_COMMAND: (appId: string, guildId: string, cmdId: string) => `${Endpoints.APPLICATION_GUILD_COMMANDS(appId, guildId)}/${cmdId}` as `${ReturnType<typeof Endpoints.APPLICATION_GUILD_COMMANDS>}/{cmd_id}`,
 	APPLICATION_GUILD_COMMANDS: (appId: string, guildId: string) => `/applications/${appId}/guilds/${guildId}/commands` as "/applications/{app_id}/guilds/{guild_id}/commands",
+	APPLICATION_ROLE_CONNECTION_METADATA: (appId: string) => `/applications/${appId}/role-connections/metadata` as "/applications/{app_id}/role-connections/metadata",
 	APPLICATION_SKUS: (appId: string) => `/applications/${appId}/skus` as "/applications/{app_id}/skus",
 	ATTACHMENTS_REFRESH_URLS: "/attachments/refresh-urls" as const,
 	CHANNEL: (chanId: string) => `${Endpoints.CHANNELS}/${chanId}` as `${typeof Endpoints.CHANNELS}/{channel_id}`,
@@ -40,6 +42,7 @@ const Endpoints = {
 	CHANNEL_PIN: (chanId: string, msgId: string) => `${Endpoints.CHANNEL_PINS(chanId)}/${msgId}` as `${ReturnType<typeof Endpoints.CHANNEL_PINS>}/{message_id}`,
 	CHANNEL_PINS: (chanId: string) => `${Endpoints.CHANNEL(chanId)}/messages/pins` as `${ReturnType<typeof Endpoints.CHANNEL>}/messages/pins`,
 	CHANNEL_RECIPIENT: (chanId: string, userId: string) => `${Endpoints.CHANNEL(chanId)}/recipients/${userId}` as `${ReturnType<typeof Endpoints.CHANNEL>}/recipients/{user_id}`,
+	CHANNEL_SEND_SOUNDBOARD_SOUND: (chanId: string) => `${Endpoints.CHANNEL(chanId)}/send-soundboard-sound` as `${ReturnType<typeof Endpoints.CHANNEL>}/send-soundboard-sound`,
 	CHANNEL_THREADS: (chanId: string) => `${Endpoints.CHANNEL(chanId)}/threads` as `${ReturnType<typeof Endpoints.CHANNEL>}/threads`,
 	CHANNEL_THREAD_MEMBER: (chanId: string, memberId: string) => `${Endpoints.CHANNEL_THREAD_MEMBERS(chanId)}/${memberId}` as `${ReturnType<typeof Endpoints.CHANNEL_THREAD_MEMBERS>}/{member_id}`,
 	CHANNEL_THREAD_MEMBERS: (chanId: string) => `${Endpoints.CHANNEL(chanId)}/thread-members` as `${ReturnType<typeof Endpoints.CHANNEL>}/thread-members`,
@@ -59,6 +62,7 @@ const Endpoints = {
 	GUILD_AUTO_MOD_RULES: (guildId: string) => `${Endpoints.GUILD(guildId)}/auto-moderation/rules` as `${ReturnType<typeof Endpoints.GUILD>}/auto-moderation/rules`,
 	GUILD_BAN: (guildId: string, memberId: string) => `${Endpoints.GUILD_BANS(guildId)}/${memberId}` as `${ReturnType<typeof Endpoints.GUILD_BANS>}/{member_id}`,
 	GUILD_BANS: (guildId: string) => `${Endpoints.GUILD(guildId)}/bans` as `${ReturnType<typeof Endpoints.GUILD>}/bans`,
+	GUILD_BULK_BAN: (guildId: string) => `${Endpoints.GUILD(guildId)}/bulk-ban` as `${ReturnType<typeof Endpoints.GUILD>}/bulk-ban`,
 	GUILD_CHANNELS: (guildId: string) => `${Endpoints.GUILD(guildId)}/channels` as `${ReturnType<typeof Endpoints.GUILD>}/channels`,
 	GUILD_EMOJI: (guildId: string, emojiId: string) => `${Endpoints.GUILD_EMOJIS(guildId)}/${emojiId}` as `${ReturnType<typeof Endpoints.GUILD_EMOJIS>}/{emoji_id}`,
 	GUILD_EMOJIS: (guildId: string) => `${Endpoints.GUILD(guildId)}/emojis` as `${ReturnType<typeof Endpoints.GUILD>}/emojis`,
@@ -70,6 +74,7 @@ const Endpoints = {
 	GUILD_MEMBERS: (guildId: string) => `${Endpoints.GUILD(guildId)}/members` as `${ReturnType<typeof Endpoints.GUILD>}/members`,
 	GUILD_MEMBERS_SEARCH: (guildId: string) => `${Endpoints.GUILD_MEMBERS(guildId)}/search` as `${ReturnType<typeof Endpoints.GUILD_MEMBERS>}/search`,
 	GUILD_MESSAGES_SEARCH: (guildId: string) => `${Endpoints.GUILD(guildId)}/messages/search` as `${ReturnType<typeof Endpoints.GUILD>}/messages/search`,
+	GUILD_ONBOARDING: (guildId: string) => `${Endpoints.GUILD(guildId)}/onboarding` as `${ReturnType<typeof Endpoints.GUILD>}/onboarding`,
 	GUILD_PREVIEW: (guildId: string) => `${Endpoints.GUILD(guildId)}/preview` as `${ReturnType<typeof Endpoints.GUILD>}/preview`,
 	GUILD_PRUNE: (guildId: string) => `${Endpoints.GUILD(guildId)}/prune` as `${ReturnType<typeof Endpoints.GUILD>}/prune`,
 	GUILD_ROLE: (guildId: string, roleId: string) => `${Endpoints.GUILD_ROLES(guildId)}/${roleId}` as `${ReturnType<typeof Endpoints.GUILD_ROLES>}/{role_id}`,
@@ -77,6 +82,8 @@ const Endpoints = {
 	GUILD_SCHEDULED_EVENTS: (guildId: string) => `${Endpoints.GUILD(guildId)}/scheduled-events` as `${ReturnType<typeof Endpoints.GUILD>}/scheduled-events`,
 	GUILD_SCHEDULED_EVENT: (guildId: string, eventId: string) => `${Endpoints.GUILD_SCHEDULED_EVENTS(guildId)}/${eventId}` as `${ReturnType<typeof Endpoints.GUILD_SCHEDULED_EVENTS>}/{event_id}`,
 	GUILD_SCHEDULED_EVENT_USERS: (guildId: string, eventId: string) => `${Endpoints.GUILD_SCHEDULED_EVENT(guildId, eventId)}/users` as `${ReturnType<typeof Endpoints.GUILD_SCHEDULED_EVENT>}/users`,
+	GUILD_SOUNDBOARD_SOUND: (guildId: string, soundId: string) => `${Endpoints.GUILD_SOUNDBOARD_SOUNDS(guildId)}/${soundId}` as `${ReturnType<typeof Endpoints.GUILD_SOUNDBOARD_SOUNDS>}/{sound_id}`,
+	GUILD_SOUNDBOARD_SOUNDS: (guildId: string) => `${Endpoints.GUILD(guildId)}/soundboard-sounds` as `${ReturnType<typeof Endpoints.GUILD>}/soundboard-sounds`,
 	GUILD_STICKER: (guildId: string, stickerId: string) => `${Endpoints.GUILD_STICKERS(guildId)}/${stickerId}` as `${ReturnType<typeof Endpoints.GUILD_STICKERS>}/{sticker_id}`,
 	GUILD_STICKERS: (guildId: string) => `${Endpoints.GUILD(guildId)}/stickers` as `${ReturnType<typeof Endpoints.GUILD>}/stickers`,
 	GUILD_TEMPLATE: (guildId: string, code: string) => `${Endpoints.GUILD_TEMPLATES(guildId)}/${code}` as `${ReturnType<typeof Endpoints.GUILD_TEMPLATES>}/{code}`,
@@ -94,12 +101,21 @@ const Endpoints = {
 	INVITES: (inviteId: string) => `/invites/${inviteId}` as "/invites/{invite_id}",
 	INVITE_TARGET_USERS: (inviteId: string) => `${Endpoints.INVITES(inviteId)}/target-users` as `${ReturnType<typeof Endpoints.INVITES>}/target-users`,
 	INVITE_TARGET_USERS_JOB_STATUS: (inviteId: string) => `${Endpoints.INVITE_TARGET_USERS(inviteId)}/job-status` as `${ReturnType<typeof Endpoints.INVITE_TARGET_USERS>}/job-status`,
+	LOBBIES: "/lobbies" as const,
+	LOBBY: (lobbyId: string) => `${Endpoints.LOBBIES}/${lobbyId}` as `${typeof Endpoints.LOBBIES}/{lobby_id}`,
+	LOBBY_CHANNEL_LINKING: (lobbyId: string) => `${Endpoints.LOBBY(lobbyId)}/channel-linking` as `${ReturnType<typeof Endpoints.LOBBY>}/channel-linking`,
+	LOBBY_MEMBER: (lobbyId: string, userId: string) => `${Endpoints.LOBBY(lobbyId)}/members/${userId}` as `${ReturnType<typeof Endpoints.LOBBY>}/members/{user_id}`,
+	LOBBY_MESSAGES: (lobbyId: string) => `${Endpoints.LOBBY(lobbyId)}/messages` as `${ReturnType<typeof Endpoints.LOBBY>}/messages`,
 	OAUTH2_APPLICATION: (appId: string) => `/oauth2/applications/${appId}` as "/oauth2/applications/{app_id}",
+	OAUTH2_AUTHORIZE: "/oauth2/authorize" as const,
+	OAUTH2_CURRENT_AUTHORIZATION: "/oauth2/@me" as const,
 	OAUTH2_TOKEN: "/api/oauth2/token" as const,
+	OAUTH2_TOKEN_REVOKE: "/api/oauth2/token/revoke" as const,
 	POLL_ANSWER: (chanId: string, msgId: string, answerId: string) => `${Endpoints.CHANNEL(chanId)}/polls/${msgId}/answers/${answerId}` as `${ReturnType<typeof Endpoints.CHANNEL>}/polls/{message_id}/answers/{answer_id}`,
 	POLL_EXPIRE: (chanId: string, msgId: string) => `${Endpoints.CHANNEL(chanId)}/polls/${msgId}/expire` as `${ReturnType<typeof Endpoints.CHANNEL>}/polls/{message_id}/expire`,
 	SKU_SUBSCRIPTIONS: (skuId: string) => `/skus/${skuId}/subscriptions` as "/skus/{sku_id}/subscriptions",
 	SKU_SUBSCRIPTION: (skuId: string, subscriptionId: string) => `${Endpoints.SKU_SUBSCRIPTIONS(skuId)}/${subscriptionId}` as `${ReturnType<typeof Endpoints.SKU_SUBSCRIPTIONS>}/{subscription_id}`,
+	SOUNDBOARD_DEFAULT_SOUNDS: "/soundboard-default-sounds" as const,
 	STAGE_INSTANCE_CHANNEL: (chanId: string) => `${Endpoints.STAGE_INSTANCES}/${chanId}` as `${typeof Endpoints.STAGE_INSTANCES}/{channel_id}`,
 	STAGE_INSTANCES: "/stage-instances" as const,
 	STICKER: (stickerId: string) => `/stickers/${stickerId}` as "/stickers/{sticker_id}",
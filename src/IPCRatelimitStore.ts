@@ -0,0 +1,247 @@
+import net = require("node:net");
+
+import Constants = require("./Constants");
+import { type Bucket, IntervalCounter, MemoryRatelimitStore } from "./RequestHandler";
+
+type IPCMessage = {
+	op: "acquire";
+	id: number;
+	key: string;
+} | {
+	op: "granted";
+	id: number;
+} | {
+	op: "apply";
+	key: string;
+	limit: number;
+	remaining: number;
+	resetAfter: number;
+} | {
+	op: "global";
+	ms: number;
+}
+
+/**
+ * Calls cb for every newline delimited JSON message received over a socket
+ */
+function readMessages(socket: net.Socket, cb: (message: IPCMessage) => unknown): void {
+	let buffered = "";
+	socket.setEncoding("utf8");
+	socket.on("data", (chunk: string) => {
+		buffered += chunk;
+		let index = buffered.indexOf("\n");
+		while (index !== -1) {
+			const line = buffered.slice(0, index);
+			buffered = buffered.slice(index + 1);
+			index = buffered.indexOf("\n");
+			if (!line) continue;
+			let message: IPCMessage;
+			try {
+				message = JSON.parse(line);
+			} catch {
+				continue;
+			}
+			cb(message);
+		}
+	});
+}
+
+function writeMessage(socket: net.Socket, message: IPCMessage): void {
+	if (!socket.writable) return;
+	socket.write(`${JSON.stringify(message)}\n`);
+}
+
+/**
+ * A RatelimitStore that asks a RatelimitCoordinator listening on a Unix socket (or Windows named pipe) before sending a request,
+ * so multiple processes using the same token share rate limits instead of each assuming they're the only one.
+ *
+ * Buckets still exist per process, which keeps requests for the same route sequential within a process.
+ * If the coordinator cannot be reached, requests are only limited by the Buckets of this process until the connection comes back.
+ * @since 0.19.0
+ *
+ * @example
+ * // In every worker process
+ * const { SnowTransfer, IPCRatelimitStore } = require("snowtransfer")
+ * const client = new SnowTransfer("TOKEN", { ratelimitStore: new IPCRatelimitStore("/tmp/snowtransfer.sock") })
+ */
+export class IPCRatelimitStore extends MemoryRatelimitStore {
+	private socket: net.Socket | null = null;
+	private nextId = 0;
+	private readonly pending = new Map<number, () => void>();
+
+	/**
+	 * Create a new IPCRatelimitStore. The connection is made once the first request is queued
+	 * @param path Path of the socket the RatelimitCoordinator is listening on
+	 */
+	public constructor(public readonly path: string) {
+		super();
+	}
+
+	private connect(): net.Socket {
+		if (this.socket) return this.socket;
+		const socket = net.createConnection(this.path);
+		socket.unref();
+		readMessages(socket, message => {
+			if (message.op === "granted") {
+				const resolve = this.pending.get(message.id);
+				this.pending.delete(message.id);
+				resolve?.();
+			} else if (message.op === "global") super.setGlobal(message.ms);
+		});
+		socket.on("error", e => {
+			if (globalThis.snowtransferDebugLogging) console.log(`${new Date().toISOString()} [ipc] coordinator connection error: ${e.message}`);
+		});
+		socket.on("close", () => {
+			this.socket = null;
+			// Nobody is going to answer these anymore
+			for (const resolve of this.pending.values()) resolve();
+			this.pending.clear();
+		});
+		this.socket = socket;
+		return socket;
+	}
+
+	public acquire(routeKey: string): Promise<void> {
+		const socket = this.connect();
+		if (socket.connecting === false && !socket.writable) return Promise.resolve();
+		return new Promise(resolve => {
+			const id = this.nextId++;
+			this.pending.set(id, resolve);
+			writeMessage(socket, { op: "acquire", id, key: routeKey });
+		});
+	}
+
+	public applyCount(routeKey: string, bucket: Bucket, limit: number | null, remaining: number, resetAfter: number): void {
+		super.applyCount(routeKey, bucket, limit, remaining, resetAfter);
+		// A null limit means Discord didn't send any info, so there's nothing for the other processes to learn
+		if (limit != null && this.socket) writeMessage(this.socket, { op: "apply", key: routeKey, limit, remaining, resetAfter });
+	}
+
+	public setGlobal(ms: number): void {
+		super.setGlobal(ms);
+		if (this.socket) writeMessage(this.socket, { op: "global", ms });
+	}
+
+	/**
+	 * Disconnect from the coordinator
+	 * @since 0.19.0
+	 */
+	public close(): void {
+		this.socket?.destroy();
+	}
+}
+
+/**
+ * The process side of IPCRatelimitStore. Keeps the rate limit state every connected IPCRatelimitStore reports and only grants
+ * requests when both the route's counter and the global counter allow it.
+ *
+ * Run exactly one per token, either in a dedicated process or in one of the processes that also make requests.
+ * @since 0.19.0
+ *
+ * @example
+ * const { RatelimitCoordinator } = require("snowtransfer")
+ * const coordinator = new RatelimitCoordinator()
+ * await coordinator.listen("/tmp/snowtransfer.sock")
+ */
+export class RatelimitCoordinator {
+	/** Counters keyed by route keys, created once Discord sent rate limit info for a route */
+	public readonly counters = new Map<string, IntervalCounter>();
+	/** The counter that limits how many requests per second all connected processes can make */
+	public readonly globalCounter = new IntervalCounter(Constants.GLOBAL_REQUESTS_PER_SECOND, 1000);
+
+	private readonly server = net.createServer(socket => this.onConnection(socket));
+	private readonly sockets = new Set<net.Socket>();
+	private readonly waiting = new Map<string, Array<{ socket: net.Socket; id: number; }>>();
+	private readonly timers = new Map<string, ReturnType<typeof setTimeout>>();
+
+	/**
+	 * Start listening for IPCRatelimitStores
+	 * @since 0.19.0
+	 * @param path Path of the Unix socket or Windows named pipe to listen on
+	 */
+	public listen(path: string): Promise<void> {
+		return new Promise((resolve, reject) => {
+			this.server.once("error", reject);
+			this.server.listen(path, () => {
+				this.server.off("error", reject);
+				resolve();
+			});
+		});
+	}
+
+	/**
+	 * Stop listening and disconnect all IPCRatelimitStores
+	 * @since 0.19.0
+	 */
+	public close(): Promise<void> {
+		for (const timer of this.timers.values()) clearTimeout(timer);
+		this.timers.clear();
+		this.waiting.clear();
+		for (const socket of this.sockets) socket.destroy();
+		return new Promise(resolve => this.server.close(() => resolve()));
+	}
+
+	private onConnection(socket: net.Socket): void {
+		this.sockets.add(socket);
+		socket.on("error", () => void 0);
+		socket.on("close", () => {
+			this.sockets.delete(socket);
+			for (const queue of this.waiting.values()) {
+				for (let i = queue.length - 1; i >= 0; i--) {
+					if (queue[i].socket === socket) queue.splice(i, 1);
+				}
+			}
+		});
+
+		readMessages(socket, message => {
+			switch (message.op) {
+			case "acquire": {
+				const queue = this.waiting.get(message.key) ?? [];
+				queue.push({ socket, id: message.id });
+				this.waiting.set(message.key, queue);
+				this.drain(message.key);
+				break;
+			}
+			case "apply": {
+				let counter = this.counters.get(message.key);
+				if (!counter) {
+					counter = new IntervalCounter(message.limit, message.resetAfter);
+					this.counters.set(message.key, counter);
+				}
+				counter.applyCount(message.limit, message.remaining, message.resetAfter);
+				break;
+			}
+			case "global":
+				this.globalCounter.applyCount(Constants.GLOBAL_REQUESTS_PER_SECOND, 0, message.ms);
+				for (const other of this.sockets) {
+					if (other !== socket) writeMessage(other, message);
+				}
+				break;
+			}
+		});
+	}
+
+	/**
+	 * Grant as many waiting requests for a route key as the counters allow and check back once they reset
+	 */
+	private drain(key: string): void {
+		if (this.timers.has(key)) return;
+		const queue = this.waiting.get(key);
+		while (queue?.length) {
+			const counter = this.counters.get(key);
+			if (!this.globalCounter.canTake() || (counter && !counter.canTake())) {
+				const wait = Math.max(this.globalCounter.canTake() ? 0 : this.globalCounter.timeUntilReset(), counter?.timeUntilReset() ?? 0, 1);
+				this.timers.set(key, setTimeout(() => {
+					this.timers.delete(key);
+					this.drain(key);
+				}, wait));
+				return;
+			}
+			this.globalCounter.take();
+			counter?.take();
+			const next = queue.shift()!;
+			writeMessage(next.socket, { op: "granted", id: next.id });
+		}
+		this.waiting.delete(key);
+	}
+}
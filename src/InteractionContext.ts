@@ -0,0 +1,221 @@
+import Constants = require("./Constants");
+
+import type InteractionMethods = require("./methods/Interaction");
+import type { InteractionContextOptions, UploadFile } from "./Types";
+
+import {
+	type APIApplicationCommandOptionChoice,
+	type APIInteraction,
+	type APIInteractionResponseCallbackData,
+	type APIModalInteractionResponseCallbackData,
+	type RESTPatchAPIInteractionOriginalResponseJSONBody,
+	type RESTPatchAPIInteractionOriginalResponseResult,
+	type RESTPostAPIInteractionCallbackJSONBody,
+	type RESTPostAPIInteractionFollowupJSONBody,
+	type RESTPostAPIInteractionFollowupResult,
+	InteractionResponseType,
+	InteractionType,
+	MessageFlags
+} from "discord-api-types/v10";
+
+type Files = { files?: Array<UploadFile>; upload_channel_id?: string };
+
+/**
+ * Wraps a received interaction and keeps track of how it was responded to, so responding doesn't require knowing which endpoint to use when.
+ *
+ * The interaction has to be responded to within 3 seconds of receiving it, which the context does by deferring it if the handler didn't respond in time.
+ * Replies and updates after that edit the deferred response instead, except replies to deferred component interactions, which are sent as followups. Edits and followups are possible for 15 minutes after receiving the interaction.
+ * @since 0.19.0
+ *
+ * @example
+ * const { SnowTransfer, InteractionContext } = require("snowtransfer")
+ * const client = new SnowTransfer()
+ * const context = new InteractionContext(client.interaction, interaction)
+ * const result = await someSlowWork() // Deferred after 2.5 seconds
+ * await context.reply({ content: result }) // Edits the deferred response
+ * await context.followUp({ content: "Anything else?" })
+ */
+class InteractionContext<T extends APIInteraction = APIInteraction> {
+	/** If the interaction was responded to, including deferring it */
+	public acknowledged = false;
+	/** If the interaction was deferred, so replies and updates edit the original response */
+	public deferred = false;
+	/** How the interaction was deferred. Replies after a DeferredMessageUpdate are sent as followups, since the original response is the message the component is on */
+	public deferralType: InteractionResponseType.DeferredChannelMessageWithSource | InteractionResponseType.DeferredMessageUpdate | null = null;
+	/** Unix timestamp in milliseconds of when the interaction was received */
+	public readonly receivedAt: number;
+
+	private readonly options: InteractionContextOptions;
+	private autoDeferTimer: ReturnType<typeof setTimeout> | null = null;
+	/** The initial response in flight. Edits wait for it, since they fail until Discord has it */
+	private initialResponse: Promise<unknown> = Promise.resolve();
+
+	/**
+	 * Create a new InteractionContext
+	 * @param interactions The InteractionMethods to respond with
+	 * @param interaction The received interaction
+	 * @param options When to defer the interaction on its own
+	 */
+	public constructor(public readonly interactions: InteractionMethods, public readonly interaction: T, options?: Partial<InteractionContextOptions>) {
+		this.options = {
+			autoDefer: options?.autoDefer ?? true,
+			autoDeferAfter: options?.autoDeferAfter ?? Constants.INTERACTION_AUTO_DEFER_AFTER,
+			ephemeral: options?.ephemeral ?? false,
+			receivedAt: options?.receivedAt ?? Date.now()
+		};
+		this.receivedAt = this.options.receivedAt;
+
+		// Autocomplete can't be deferred and PINGs are answered by whatever received them
+		if (this.options.autoDefer && interaction.type !== InteractionType.ApplicationCommandAutocomplete && interaction.type !== InteractionType.Ping) {
+			this.autoDeferTimer = setTimeout(() => {
+				this.autoDeferTimer = null;
+				const deferral = interaction.type === InteractionType.MessageComponent ? this.deferUpdate() : this.defer(this.options.ephemeral);
+				// Failing to defer leaves the interaction unacknowledged, which the next response attempt reports
+				deferral.catch(() => void 0);
+			}, Math.max(this.receivedAt + this.options.autoDeferAfter - Date.now(), 0));
+		}
+	}
+
+	/**
+	 * If the interaction token expired, after which the interaction can't be edited or followed up anymore
+	 */
+	public get expired(): boolean {
+		return Date.now() - this.receivedAt >= Constants.INTERACTION_TOKEN_LIFETIME;
+	}
+
+	/**
+	 * Respond with a message, or edit the deferred response if the interaction was deferred with defer.
+	 * If it was deferred with deferUpdate, the message is sent as a followup so the message the component is on stays as is
+	 * @since 0.19.0
+	 * @param data The message. Whether it's ephemeral can't be changed anymore once the interaction was deferred with defer
+	 * @returns Resolves the Promise on successful execution
+	 */
+	public async reply(data: APIInteractionResponseCallbackData & Files): Promise<void> {
+		if (this.deferralType === InteractionResponseType.DeferredMessageUpdate) return void await this.followUp(data);
+		if (this.deferred) return void await this.editReply(toEdit(data));
+		await this.respond({ type: InteractionResponseType.ChannelMessageWithSource, data });
+	}
+
+	/**
+	 * Acknowledge the interaction to respond to it later with reply or editReply. Shows a loading state to the user
+	 * @since 0.19.0
+	 * @param ephemeral If the response will be ephemeral
+	 * @returns Resolves the Promise on successful execution
+	 */
+	public async defer(ephemeral = false): Promise<void> {
+		await this.respond({ type: InteractionResponseType.DeferredChannelMessageWithSource, data: ephemeral ? { flags: MessageFlags.Ephemeral } : undefined });
+	}
+
+	/**
+	 * Acknowledge a component interaction to update the message it's on later with update or editReply. Doesn't show a loading state
+	 * @since 0.19.0
+	 * @returns Resolves the Promise on successful execution
+	 */
+	public async deferUpdate(): Promise<void> {
+		await this.respond({ type: InteractionResponseType.DeferredMessageUpdate });
+	}
+
+	/**
+	 * Update the message a component is on, or edit it if the interaction was deferred
+	 * @since 0.19.0
+	 * @param data The new message
+	 * @returns Resolves the Promise on successful execution
+	 */
+	public async update(data: APIInteractionResponseCallbackData & Files): Promise<void> {
+		if (this.deferred) return void await this.editReply(toEdit(data));
+		await this.respond({ type: InteractionResponseType.UpdateMessage, data });
+	}
+
+	/**
+	 * Respond with a modal. Only possible as the first response
+	 * @since 0.19.0
+	 * @param data The modal
+	 * @returns Resolves the Promise on successful execution
+	 */
+	public async showModal(data: APIModalInteractionResponseCallbackData): Promise<void> {
+		await this.respond({ type: InteractionResponseType.Modal, data });
+	}
+
+	/**
+	 * Respond to an autocomplete interaction with choices
+	 * @since 0.19.0
+	 * @param choices Up to 25 choices
+	 * @returns Resolves the Promise on successful execution
+	 */
+	public async autocomplete(choices: Array<APIApplicationCommandOptionChoice>): Promise<void> {
+		if (this.interaction.type !== InteractionType.ApplicationCommandAutocomplete) throw new Error("Only autocomplete interactions can be responded to with choices");
+		await this.respond({ type: InteractionResponseType.ApplicationCommandAutocompleteResult, data: { choices } });
+	}
+
+	/**
+	 * Edit the original response
+	 * @since 0.19.0
+	 * @param data The new message
+	 * @returns A [message](https://discord.com/developers/docs/resources/channel#message-object) object
+	 */
+	public async editReply(data: RESTPatchAPIInteractionOriginalResponseJSONBody & Files): Promise<RESTPatchAPIInteractionOriginalResponseResult> {
+		this.assertUsable("edited");
+		await this.initialResponse;
+		return this.interactions.editOriginalInteractionResponse(this.interaction.application_id, this.interaction.token, data);
+	}
+
+	/**
+	 * Send a followup message
+	 * @since 0.19.0
+	 * @param data The message
+	 * @returns A [message](https://discord.com/developers/docs/resources/channel#message-object) object
+	 */
+	public async followUp(data: RESTPostAPIInteractionFollowupJSONBody & Files): Promise<RESTPostAPIInteractionFollowupResult> {
+		this.assertUsable("followed up");
+		await this.initialResponse;
+		return this.interactions.createFollowupMessage(this.interaction.application_id, this.interaction.token, data);
+	}
+
+	/**
+	 * Send the initial response
+	 * @param data The response. Deferrals are recorded, so later replies and updates know how to respond
+	 */
+	private async respond(data: RESTPostAPIInteractionCallbackJSONBody & Files): Promise<void> {
+		if (this.acknowledged) throw new Error("The interaction was already responded to. Use editReply or followUp instead");
+		if (Date.now() - this.receivedAt > Constants.INTERACTION_RESPONSE_TIMEOUT) throw new Error("Interactions can only be responded to within 3 seconds of receiving them. Defer interactions that take longer");
+
+		if (this.autoDeferTimer) clearTimeout(this.autoDeferTimer);
+		this.autoDeferTimer = null;
+		// Set before sending, so responses started while this one is in flight know about it
+		this.acknowledged = true;
+		this.deferralType = data.type === InteractionResponseType.DeferredChannelMessageWithSource || data.type === InteractionResponseType.DeferredMessageUpdate ? data.type : null;
+		this.deferred = this.deferralType !== null;
+
+		const response = this.interactions.createInteractionResponse(this.interaction.id, this.interaction.token, data);
+		this.initialResponse = response.catch(() => void 0);
+		try {
+			await response;
+		} catch (e) {
+			this.acknowledged = false;
+			this.deferred = false;
+			this.deferralType = null;
+			throw e;
+		}
+	}
+
+	/**
+	 * Throw if the interaction can't be edited or followed up right now
+	 * @param action What is about to be done, for the error message
+	 */
+	private assertUsable(action: string): void {
+		if (!this.acknowledged) throw new Error(`The interaction has to be responded to before it can be ${action}`);
+		if (this.expired) throw new Error(`The interaction token expired 15 minutes after the interaction was received, so it can't be ${action} anymore`);
+	}
+}
+
+/**
+ * Turn a message response into an edit of the original response. tts and the ephemeral flag can't be edited
+ */
+function toEdit(data: APIInteractionResponseCallbackData & Files): RESTPatchAPIInteractionOriginalResponseJSONBody & Files {
+	const edit: APIInteractionResponseCallbackData & Files = { ...data };
+	delete edit.tts;
+	if (edit.flags !== undefined) edit.flags &= ~MessageFlags.Ephemeral;
+	return edit as RESTPatchAPIInteractionOriginalResponseJSONBody & Files;
+}
+
+export = InteractionContext;
@@ -0,0 +1,182 @@
+import http = require("node:http");
+import nodeCrypto = require("node:crypto");
+import { EventEmitter } from "node:events";
+
+import { type APIInteraction, type APIInteractionResponse, InteractionResponseType, InteractionType } from "discord-api-types/v10";
+
+import Constants = require("./Constants");
+
+import type { InteractionHandlers, InteractionServerOptions } from "./Types";
+
+/**
+ * Verify that an interaction was sent by Discord, using the headers Discord signs every interaction it sends to an interactions endpoint with
+ * @since 0.19.0
+ * @param publicKey The public key of the application, as hex like shown on the application page
+ * @param signature The X-Signature-Ed25519 header
+ * @param timestamp The X-Signature-Timestamp header
+ * @param body The raw body of the request, before it was parsed
+ * @returns If the signature is valid. Requests with invalid signatures have to be answered with a 401
+ *
+ * @example
+ * const { verifyInteractionSignature } = require("snowtransfer")
+ * const valid = verifyInteractionSignature(publicKey, req.headers["x-signature-ed25519"], req.headers["x-signature-timestamp"], rawBody)
+ */
+export function verifyInteractionSignature(publicKey: string, signature: string, timestamp: string, body: string | Buffer): boolean {
+	try {
+		const key = nodeCrypto.createPublicKey({ key: { kty: "OKP", crv: "Ed25519", x: Buffer.from(publicKey, "hex").toString("base64url") }, format: "jwk" });
+		return nodeCrypto.verify(null, Buffer.concat([Buffer.from(timestamp), Buffer.from(body)]), key, Buffer.from(signature, "hex"));
+	} catch {
+		// Malformed keys or signatures can't be valid
+		return false;
+	}
+}
+
+/**
+ * A minimal node:http server to use as the interactions endpoint of an application.
+ *
+ * Verifies the signature of every request, answers PINGs and passes interactions to the handler for their type.
+ * Whatever a handler returns is sent to Discord as the response to the interaction.
+ * @since 0.19.0
+ *
+ * @example
+ * const { InteractionServer } = require("snowtransfer")
+ * const server = new InteractionServer(publicKey, {
+ * 	applicationCommand: interaction => ({ type: 4, data: { content: `Hi <@${interaction.member?.user.id ?? interaction.user?.id}>` } })
+ * })
+ * await server.listen(8080)
+ *
+ * @example
+ * // Mount it in an existing server instead
+ * http.createServer((req, res) => {
+ * 	if (req.url === "/interactions") return server.handle(req, res)
+ * })
+ */
+export class InteractionServer extends EventEmitter<{ handlerError: [Error, APIInteraction] }> {
+	public readonly options: InteractionServerOptions;
+	/** The underlying node:http server, which isn't listening unless listen was called */
+	public readonly server = http.createServer((req, res) => {
+		this.handle(req, res).catch(() => {
+			if (!res.headersSent) res.writeHead(500);
+			res.end();
+		});
+	});
+
+	/**
+	 * Create a new InteractionServer
+	 * @param publicKey The public key of the application, as hex like shown on the application page
+	 * @param handlers Handlers for the types of interactions to handle. Interactions without a handler are answered with a 501. Errors thrown by handlers are emitted as handlerError and answered with a 500
+	 * @param options How large request bodies can be
+	 */
+	public constructor(public readonly publicKey: string, public readonly handlers: Partial<InteractionHandlers>, options: Partial<InteractionServerOptions> = {}) {
+		super();
+		this.options = { maxBodySize: Constants.INTERACTION_MAX_BODY_SIZE, ...options };
+	}
+
+	/**
+	 * Start listening for interactions
+	 * @since 0.19.0
+	 * @param port Port to listen on
+	 * @param host Host to listen on
+	 */
+	public listen(port: number, host?: string): Promise<void> {
+		return new Promise((resolve, reject) => {
+			this.server.once("error", reject);
+			this.server.listen(port, host, () => {
+				this.server.off("error", reject);
+				resolve();
+			});
+		});
+	}
+
+	/**
+	 * Stop listening for interactions
+	 * @since 0.19.0
+	 */
+	public close(): Promise<void> {
+		return new Promise((resolve, reject) => this.server.close(e => e ? reject(e) : resolve()));
+	}
+
+	/**
+	 * Handle a request. Only needed to mount the InteractionServer in another node:http server
+	 * @since 0.19.0
+	 * @param req The request
+	 * @param res The response to answer with
+	 */
+	public async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+		if (req.method !== "POST") return sendJSON(res, 405, { message: "Method Not Allowed" });
+
+		// Requests aren't verified until their body was read, so anyone could make the body be held in memory
+		if (Number(req.headers["content-length"]) > this.options.maxBodySize) return sendTooLarge(res);
+		const chunks: Array<Buffer> = [];
+		let size = 0;
+		try {
+			for await (const chunk of req) {
+				size += chunk.length;
+				if (size > this.options.maxBodySize) return sendTooLarge(res);
+				chunks.push(chunk);
+			}
+		} catch {
+			return sendJSON(res, 400, { message: "Bad Request" });
+		}
+		const body = Buffer.concat(chunks);
+
+		const signature = req.headers["x-signature-ed25519"];
+		const timestamp = req.headers["x-signature-timestamp"];
+		if (typeof signature !== "string" || typeof timestamp !== "string" || !verifyInteractionSignature(this.publicKey, signature, timestamp, body)) return sendJSON(res, 401, { message: "Invalid request signature" });
+
+		let interaction: APIInteraction;
+		try {
+			interaction = JSON.parse(body.toString("utf8"));
+		} catch {
+			return sendJSON(res, 400, { message: "Bad Request" });
+		}
+
+		let result: APIInteractionResponse | undefined;
+		try {
+			switch (interaction.type) {
+			case InteractionType.Ping:
+				return sendJSON(res, 200, { type: InteractionResponseType.Pong });
+			case InteractionType.ApplicationCommand:
+				if (!this.handlers.applicationCommand) return sendJSON(res, 501, { message: "Not Implemented" });
+				result = await this.handlers.applicationCommand(interaction);
+				break;
+			case InteractionType.MessageComponent:
+				if (!this.handlers.messageComponent) return sendJSON(res, 501, { message: "Not Implemented" });
+				result = await this.handlers.messageComponent(interaction);
+				break;
+			case InteractionType.ApplicationCommandAutocomplete:
+				if (!this.handlers.autocomplete) return sendJSON(res, 501, { message: "Not Implemented" });
+				result = await this.handlers.autocomplete(interaction);
+				break;
+			case InteractionType.ModalSubmit:
+				if (!this.handlers.modalSubmit) return sendJSON(res, 501, { message: "Not Implemented" });
+				result = await this.handlers.modalSubmit(interaction);
+				break;
+			default:
+				return sendJSON(res, 501, { message: "Not Implemented" });
+			}
+		} catch (e) {
+			this.emit("handlerError", e instanceof Error ? e : new Error(String(e)), interaction);
+			return sendJSON(res, 500, { message: "Internal Server Error" });
+		}
+
+		if (result === undefined) {
+			res.writeHead(202);
+			return void res.end();
+		}
+		sendJSON(res, 200, result);
+	}
+}
+
+/**
+ * Answer with a 413 and close the connection, so the rest of the body isn't read
+ */
+function sendTooLarge(res: http.ServerResponse): void {
+	res.setHeader("Connection", "close");
+	sendJSON(res, 413, { message: "Payload Too Large" });
+}
+
+function sendJSON(res: http.ServerResponse, status: number, body: unknown): void {
+	res.writeHead(status, { "Content-Type": "application/json" });
+	res.end(JSON.stringify(body));
+}
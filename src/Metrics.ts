@@ -0,0 +1,214 @@
+import http = require("node:http");
+
+import { type Bucket, DiscordAPIError, type RequestHandler } from "./RequestHandler";
+
+import type { HandlerEvents } from "./Types";
+
+const defaultDurationBuckets = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+type Histogram = {
+	counts: Array<number>;
+	sum: number;
+	count: number;
+}
+
+/**
+ * Collects metrics about the requests a RequestHandler sends and renders them in the Prometheus text exposition format.
+ *
+ * Routes are the ones returned by Ratelimiter#routeName, so there is one series per route instead of one per channel and no tokens end up in labels.
+ *
+ * | Metric                                       | Type      | Labels                |
+ * |----------------------------------------------|-----------|-----------------------|
+ * | snowtransfer_requests_total                  | counter   | method, route, status |
+ * | snowtransfer_request_duration_seconds        | histogram | method, route         |
+ * | snowtransfer_retries_total                   | counter   | method, route         |
+ * | snowtransfer_ratelimits_total                | counter   | method, route, global |
+ * | snowtransfer_bucket_cooldown_seconds_total   | counter   | route                 |
+ * | snowtransfer_bucket_queue_depth              | gauge     | route                 |
+ *
+ * status is the HTTP status code of the response, or "error" if there was none.
+ * @since 0.19.0
+ *
+ * @example
+ * const { SnowTransfer, MetricsCollector } = require("snowtransfer")
+ * const client = new SnowTransfer("TOKEN")
+ * const metrics = new MetricsCollector(client.requestHandler)
+ * await metrics.listen(9100) // Scrape http://127.0.0.1:9100/metrics
+ */
+class MetricsCollector {
+	/** The node:http server serving the metrics once listen was called */
+	public server: http.Server | null = null;
+
+	private readonly started = new Map<string, { route: string; method: string; time: number; }>();
+	private readonly requests = new Map<string, number>();
+	private readonly durations = new Map<string, Histogram>();
+	private readonly retries = new Map<string, number>();
+	private readonly ratelimits = new Map<string, number>();
+	private readonly cooldowns = new Map<string, number>();
+	/** Routes of the Buckets requests were sent from */
+	private readonly bucketRoutes = new WeakMap<Bucket, string>();
+	/** The listeners counting the cooldowns of Buckets, so close can remove them */
+	private readonly bucketListeners = new Map<Bucket, (state: string) => void>();
+
+	private readonly listeners: { [E in keyof HandlerEvents]?: (...args: HandlerEvents[E]) => void } = {
+		request: (reqId, request) => {
+			const route = this.route(request.endpoint, request.method);
+			this.started.set(reqId, { route, method: request.method, time: Date.now() });
+			this.watchBucket(request.endpoint, request.method, route);
+		},
+		done: (reqId, response) => this.finish(reqId, String(response.status)),
+		requestError: (reqId, error) => this.finish(reqId, error instanceof DiscordAPIError ? String(error.httpStatus) : "error"),
+		retry: (reqId, retry) => {
+			this.finish(reqId, retry.status !== undefined ? String(retry.status) : "error");
+			increment(this.retries, labels({ method: retry.method, route: this.route(retry.endpoint, retry.method) }));
+		},
+		rateLimit: info => increment(this.ratelimits, labels({ method: info.method, route: this.route(info.path, info.method), global: String(info.global) }))
+	};
+
+	/**
+	 * Create a new MetricsCollector and start collecting
+	 * @param requestHandler The request handler to collect metrics of
+	 * @param durationBuckets Upper bounds in seconds of the buckets of the request duration histogram
+	 */
+	public constructor(public readonly requestHandler: RequestHandler, public readonly durationBuckets: Array<number> = defaultDurationBuckets) {
+		for (const [event, listener] of Object.entries(this.listeners)) requestHandler.on(event as keyof HandlerEvents, listener as (...args: Array<any>) => void);
+	}
+
+	/**
+	 * Render all metrics in the Prometheus text exposition format
+	 * @since 0.19.0
+	 * @returns The metrics. Serve them with the Content-Type `text/plain; version=0.0.4`
+	 */
+	public render(): string {
+		const lines: Array<string> = [];
+
+		addHeader(lines, "snowtransfer_requests_total", "counter", "Requests sent to Discord by route and status code");
+		for (const [key, value] of this.requests) lines.push(`snowtransfer_requests_total{${key}} ${value}`);
+
+		addHeader(lines, "snowtransfer_request_duration_seconds", "histogram", "Time from sending a request until the response headers were received");
+		for (const [key, histogram] of this.durations) {
+			this.durationBuckets.forEach((bound, i) => lines.push(`snowtransfer_request_duration_seconds_bucket{${key},le="${bound}"} ${histogram.counts[i]}`));
+			lines.push(`snowtransfer_request_duration_seconds_bucket{${key},le="+Inf"} ${histogram.count}`);
+			lines.push(`snowtransfer_request_duration_seconds_sum{${key}} ${histogram.sum}`);
+			lines.push(`snowtransfer_request_duration_seconds_count{${key}} ${histogram.count}`);
+		}
+
+		addHeader(lines, "snowtransfer_retries_total", "counter", "Requests that were retried");
+		for (const [key, value] of this.retries) lines.push(`snowtransfer_retries_total{${key}} ${value}`);
+
+		addHeader(lines, "snowtransfer_ratelimits_total", "counter", "Responses with status 429");
+		for (const [key, value] of this.ratelimits) lines.push(`snowtransfer_ratelimits_total{${key}} ${value}`);
+
+		addHeader(lines, "snowtransfer_bucket_cooldown_seconds_total", "counter", "Time rate limit buckets spent waiting for their rate limit to reset");
+		for (const [key, value] of this.cooldowns) lines.push(`snowtransfer_bucket_cooldown_seconds_total{${key}} ${value / 1000}`);
+
+		addHeader(lines, "snowtransfer_bucket_queue_depth", "gauge", "Requests waiting in the rate limit buckets of a route");
+		const queued = new Map<string, number>();
+		// Bucket keys contain ids and the tokens of interactions, so Buckets nothing was sent from yet are named by their key with those removed
+		for (const [key, bucket] of this.requestHandler.ratelimiter.buckets) increment(queued, labels({ route: this.bucketRoutes.get(bucket) ?? this.requestHandler.ratelimiter.routeName(key, "") }), bucket.calls.length);
+		for (const [key, value] of queued) lines.push(`snowtransfer_bucket_queue_depth{${key}} ${value}`);
+
+		return `${lines.join("\n")}\n`;
+	}
+
+	/**
+	 * Serve the metrics over HTTP on /metrics
+	 * @since 0.19.0
+	 * @param port Port to listen on
+	 * @param host Host to listen on
+	 */
+	public listen(port: number, host = "127.0.0.1"): Promise<void> {
+		const server = http.createServer((req, res) => {
+			if (new URL(req.url ?? "/", "http://localhost").pathname !== "/metrics") {
+				res.writeHead(404);
+				return res.end();
+			}
+			res.writeHead(200, { "Content-Type": "text/plain; version=0.0.4; charset=utf-8" });
+			res.end(this.render());
+		});
+		this.server = server;
+
+		return new Promise((resolve, reject) => {
+			server.once("error", reject);
+			server.listen(port, host, () => {
+				server.off("error", reject);
+				resolve();
+			});
+		});
+	}
+
+	/**
+	 * Stop collecting metrics and stop serving them if listen was called
+	 * @since 0.19.0
+	 */
+	public close(): Promise<void> {
+		for (const [event, listener] of Object.entries(this.listeners)) this.requestHandler.off(event as keyof HandlerEvents, listener as (...args: Array<any>) => void);
+		for (const [bucket, listener] of this.bucketListeners) bucket.sm.off("enter", listener);
+		this.bucketListeners.clear();
+		const server = this.server;
+		this.server = null;
+		if (!server) return Promise.resolve();
+		return new Promise((resolve, reject) => server.close(e => e ? reject(e) : resolve()));
+	}
+
+	private route(endpoint: string, method: string): string {
+		return this.requestHandler.ratelimiter.routeName(endpoint, method);
+	}
+
+	private finish(reqId: string, status: string): void {
+		const started = this.started.get(reqId);
+		if (!started) return;
+		this.started.delete(reqId);
+
+		increment(this.requests, labels({ method: started.method, route: started.route, status }));
+
+		const key = labels({ method: started.method, route: started.route });
+		let histogram = this.durations.get(key);
+		if (!histogram) {
+			histogram = { counts: this.durationBuckets.map(() => 0), sum: 0, count: 0 };
+			this.durations.set(key, histogram);
+		}
+		const seconds = (Date.now() - started.time) / 1000;
+		this.durationBuckets.forEach((bound, i) => {
+			if (seconds <= bound) histogram.counts[i]++;
+		});
+		histogram.sum += seconds;
+		histogram.count++;
+	}
+
+	/**
+	 * Start counting the time the Bucket a request was sent from spends in cooldown. Cooldowns before the first request of a Bucket aren't counted
+	 */
+	private watchBucket(endpoint: string, method: string, route: string): void {
+		const ratelimiter = this.requestHandler.ratelimiter;
+		const bucket = ratelimiter.buckets.get(ratelimiter.getBucketKey(endpoint, method));
+		if (!bucket || this.bucketRoutes.has(bucket)) return;
+		this.bucketRoutes.set(bucket, route);
+
+		const key = labels({ route });
+		let since: number | null = null;
+		const listener = (state: string) => {
+			if (state === "cooldown") since = Date.now();
+			else if (since !== null) {
+				increment(this.cooldowns, key, Date.now() - since);
+				since = null;
+			}
+		};
+		bucket.sm.on("enter", listener);
+		this.bucketListeners.set(bucket, listener);
+	}
+}
+
+function increment(map: Map<string, number>, key: string, amount = 1): void {
+	map.set(key, (map.get(key) ?? 0) + amount);
+}
+
+function labels(values: Record<string, string>): string {
+	return Object.entries(values).map(([name, value]) => `${name}="${value.replaceAll("\\", "\\\\").replaceAll("\"", "\\\"").replaceAll("\n", "\\n")}"`).join(",");
+}
+
+function addHeader(lines: Array<string>, name: string, type: string, help: string): void {
+	lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`);
+}
+
+export = MetricsCollector;
@@ -0,0 +1,156 @@
+import nodeCrypto = require("node:crypto");
+import { Readable } from "node:stream";
+
+type PartValue = string | Buffer | Blob | Readable | ReadableStream;
+
+type Part = {
+	name: string;
+	/** The Content-Disposition and Content-Type headers of the part and the blank line after them */
+	head: Buffer;
+	value: PartValue;
+	/** Size of the value in bytes. Undefined for streams whose size wasn't given */
+	size: number | undefined;
+};
+
+const CRLF = Buffer.from("\r\n");
+
+/**
+ * A multipart/form-data body that is encoded while it's sent. Unlike FormData, streams aren't read into memory first, so uploading large files doesn't need as much memory as the files are big
+ *
+ * Every method that uploads files uses it. Streams can only be read once, so requests with a body that contains streams aren't retried
+ * @since 0.19.0
+ *
+ * @example
+ * const { SnowTransfer, MultipartBody } = require("snowtransfer")
+ * const client = new SnowTransfer("TOKEN")
+ * const body = new MultipartBody()
+ * 	.append("files[0]", fs.createReadStream("video.mp4"), "video.mp4", fs.statSync("video.mp4").size)
+ * 	.append("payload_json", JSON.stringify({ content: "A video" }))
+ * await client.requestHandler.request("/channels/channel id/messages", {}, "post", "multipart", body)
+ */
+class MultipartBody {
+	/** The boundary between parts */
+	public readonly boundary = `----SnowTransferBoundary${nodeCrypto.randomBytes(16).toString("hex")}`;
+
+	private readonly parts: Array<Part> = [];
+	private sent = false;
+
+	/**
+	 * Add a part
+	 * @since 0.19.0
+	 * @param name Name of the field
+	 * @param value Value of the field. Strings are fields, everything else is sent as a file
+	 * @param filename Name of the file. Makes strings files too
+	 * @param size Size of the value in bytes if it's a stream. Lets the body have a known length, which is sent as the Content-Length and used as the total of upload progress
+	 * @returns The MultipartBody
+	 */
+	public append(name: string, value: PartValue, filename?: string, size?: number): this {
+		let head = `--${this.boundary}\r\nContent-Disposition: form-data; name="${escapeQuoted(name)}"`;
+		if (filename !== undefined || typeof value !== "string") {
+			head += `; filename="${escapeQuoted(filename ?? "blob")}"\r\nContent-Type: ${value instanceof Blob && value.type ? value.type : "application/octet-stream"}`;
+		}
+		head += "\r\n\r\n";
+
+		this.parts.push({ name, head: Buffer.from(head), value, size: sizeOf(value) ?? size });
+		return this;
+	}
+
+	/**
+	 * The Content-Type header to send the body with
+	 */
+	public get contentType(): string {
+		return `multipart/form-data; boundary=${this.boundary}`;
+	}
+
+	/**
+	 * Size of the encoded body in bytes. Undefined if it contains streams whose size wasn't given
+	 */
+	public get length(): number | undefined {
+		let length = Buffer.byteLength(`--${this.boundary}--\r\n`);
+		for (const part of this.parts) {
+			if (part.size === undefined) return undefined;
+			length += part.head.length + part.size + CRLF.length;
+		}
+		return length;
+	}
+
+	/**
+	 * If the body can be sent more than once. Bodies containing streams can only be sent once, since streams can only be read once
+	 */
+	public get replayable(): boolean {
+		return this.parts.every(part => !isStream(part.value));
+	}
+
+	/**
+	 * Encode the body while it's read
+	 * @since 0.19.0
+	 * @param onProgress Called with the amount of bytes read so far every time a chunk is read
+	 * @returns A stream of the encoded body to send as the body of a fetch
+	 */
+	public stream(onProgress?: (sent: number) => void): ReadableStream<Uint8Array> {
+		if (this.sent && !this.replayable) throw new Error("The multipart body contains streams that were already read, so it can't be sent again");
+		this.sent = true;
+
+		const chunks = this.chunks();
+		let sent = 0;
+		return new ReadableStream<Uint8Array>({
+			async pull(controller) {
+				const { value, done } = await chunks.next();
+				if (done) return controller.close();
+				sent += value.byteLength;
+				controller.enqueue(value);
+				onProgress?.(sent);
+			},
+			async cancel() {
+				await chunks.return(undefined);
+			}
+		});
+	}
+
+	private async *chunks(): AsyncGenerator<Uint8Array, void, undefined> {
+		for (const part of this.parts) {
+			yield part.head;
+
+			if (typeof part.value === "string") yield Buffer.from(part.value);
+			else if (Buffer.isBuffer(part.value)) yield part.value;
+			else {
+				// A size that doesn't match would make the Content-Length wrong, which Discord answers with an unhelpful error, if at all
+				let size = 0;
+				for await (const chunk of toIterable(part.value)) {
+					size += chunk.byteLength;
+					if (part.size !== undefined && size > part.size) throw new Error(`The part ${part.name} is larger than its size of ${part.size} bytes`);
+					yield chunk;
+				}
+				if (part.size !== undefined && size !== part.size) throw new Error(`The part ${part.name} is ${size} bytes instead of its size of ${part.size} bytes`);
+			}
+
+			yield CRLF;
+		}
+		yield Buffer.from(`--${this.boundary}--\r\n`);
+	}
+}
+
+function isStream(value: PartValue): value is Readable | ReadableStream {
+	return value instanceof Readable || value instanceof ReadableStream;
+}
+
+function sizeOf(value: PartValue): number | undefined {
+	if (typeof value === "string") return Buffer.byteLength(value);
+	if (Buffer.isBuffer(value)) return value.length;
+	if (value instanceof Blob) return value.size;
+	return undefined;
+}
+
+async function* toIterable(value: Blob | Readable | ReadableStream): AsyncGenerator<Uint8Array, void, undefined> {
+	const iterable = (value instanceof Blob ? value.stream() : value) as AsyncIterable<Uint8Array | string>;
+	for await (const chunk of iterable) yield typeof chunk === "string" ? Buffer.from(chunk) : chunk;
+}
+
+/**
+ * Escape a name for a quoted Content-Disposition parameter the way browsers do for FormData
+ */
+function escapeQuoted(value: string): string {
+	return value.replaceAll("\"", "%22").replaceAll("\r", "%0D").replaceAll("\n", "%0A");
+}
+
+export = MultipartBody;
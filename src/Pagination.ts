@@ -0,0 +1,52 @@
+import type { PaginationOptions } from "./Types";
+
+type PageQuery = {
+	before?: string;
+	after?: string;
+	limit: number;
+}
+
+/** The highest snowflake Discord accepts. Where to start from when walking before without a start */
+const MAX_SNOWFLAKE = "9223372036854775807";
+
+/**
+ * Walks a cursor based list endpoint page by page and yields every item in the order it was walked
+ * @param fetchPage Requests a single page using the before/after cursor and limit given
+ * @param getId Gets the snowflake the endpoint uses as cursor from an item
+ * @param maxPageSize The max amount of items the endpoint returns per request
+ * @param directions The directions the endpoint supports. The first one is the default
+ * @param options Options for walking
+ */
+export function paginate<T>(fetchPage: (query: PageQuery) => Promise<Array<T>>, getId: (item: T) => string, maxPageSize: number, directions: ReadonlyArray<PaginationOptions["direction"]>, options: Partial<PaginationOptions> = {}): AsyncGenerator<T, void, undefined> {
+	const direction = options.direction ?? directions[0];
+	if (!directions.includes(direction)) throw new Error(`This endpoint can only be paginated ${directions.join(" or ")}`);
+	const pageSize = options.pageSize ?? maxPageSize;
+	if (pageSize < 1 || pageSize > maxPageSize) throw new RangeError(`The page size has to be between 1 and ${maxPageSize}`);
+	return walk(fetchPage, getId, direction, pageSize, options);
+}
+
+async function* walk<T>(fetchPage: (query: PageQuery) => Promise<Array<T>>, getId: (item: T) => string, direction: PaginationOptions["direction"], pageSize: number, options: Partial<PaginationOptions>): AsyncGenerator<T, void, undefined> {
+	const end = options.end !== undefined ? BigInt(options.end) : undefined;
+	let cursor = options.start ?? (direction === "before" ? MAX_SNOWFLAKE : "0");
+	let remaining = options.limit ?? Infinity;
+
+	while (remaining > 0) {
+		options.signal?.throwIfAborted();
+		const limit = Math.min(pageSize, remaining);
+		const page = await fetchPage({ [direction]: cursor, limit });
+		// Not every endpoint returns pages in the order they are walked in
+		const sorted = page.map(item => ({ item, id: BigInt(getId(item)) }))
+			.sort((a, b) => (a.id === b.id ? 0 : a.id < b.id ? -1 : 1) * (direction === "before" ? -1 : 1));
+
+		for (const { item, id } of sorted) {
+			if (end !== undefined && (direction === "before" ? id <= end : id >= end)) return;
+			options.signal?.throwIfAborted();
+			yield item;
+			if (--remaining === 0) return;
+		}
+
+		// Discord returning less than asked for means there is nothing left
+		if (page.length < limit) return;
+		cursor = String(sorted[sorted.length - 1].id);
+	}
+}
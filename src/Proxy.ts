@@ -0,0 +1,143 @@
+import http = require("node:http");
+
+import Constants = require("./Constants");
+
+import { DiscordAPIError, type RequestHandler } from "./RequestHandler";
+
+import type { HTTPMethod, ProxyOptions } from "./Types";
+
+// fetch already decoded the body and http sets these itself, so passing them along would describe a body the client doesn't receive
+const skippedResponseHeaders = new Set(["connection", "content-encoding", "content-length", "keep-alive", "transfer-encoding"]);
+
+/**
+ * A local HTTP server that forwards requests shaped like `/api/v10/...` to Discord through a single RequestHandler
+ * and answers with Discord's status, headers and body.
+ *
+ * Point the baseHost option of other SnowTransfer instances (or anything else that speaks the Discord API) at it,
+ * so only one process owns the token and the rate limits.
+ * @since 0.19.0
+ *
+ * @example
+ * // In the process that owns the token
+ * const { SnowTransfer, SnowTransferProxy } = require("snowtransfer")
+ * const proxy = new SnowTransferProxy(new SnowTransfer("TOKEN").requestHandler)
+ * await proxy.listen(8080)
+ *
+ * @example
+ * // Everywhere else. The proxy already waits for rate limits
+ * const client = new SnowTransfer(undefined, { baseHost: "http://127.0.0.1:8080", bypassBuckets: true })
+ */
+class SnowTransferProxy {
+	/** The underlying node:http server */
+	public readonly server = http.createServer((req, res) => {
+		this.handle(req, res).catch(() => {
+			if (!res.headersSent) res.writeHead(500);
+			res.end();
+		});
+	});
+
+	public readonly options: ProxyOptions;
+
+	/**
+	 * Create a new proxy
+	 * @param requestHandler The request handler all requests are sent through. Its token is used unless it has none, in which case the Authorization header of incoming requests is passed along
+	 * @param options How large request bodies can be
+	 */
+	public constructor(public readonly requestHandler: RequestHandler, options: Partial<ProxyOptions> = {}) {
+		this.options = { maxBodySize: Constants.PROXY_MAX_BODY_SIZE, ...options };
+	}
+
+	/**
+	 * Start listening for requests
+	 * @since 0.19.0
+	 * @param port Port to listen on
+	 * @param host Host to listen on. Defaults to 127.0.0.1 so the token isn't shared with the entire network by accident
+	 */
+	public listen(port: number, host = "127.0.0.1"): Promise<void> {
+		return new Promise((resolve, reject) => {
+			this.server.once("error", reject);
+			this.server.listen(port, host, () => {
+				this.server.off("error", reject);
+				resolve();
+			});
+		});
+	}
+
+	/**
+	 * Stop listening for requests
+	 * @since 0.19.0
+	 */
+	public close(): Promise<void> {
+		return new Promise((resolve, reject) => this.server.close(e => e ? reject(e) : resolve()));
+	}
+
+	private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+		const url = new URL(req.url ?? "/", "http://localhost");
+		const baseURL = this.requestHandler.options.baseURL;
+		if (!url.pathname.startsWith(`${baseURL}/`)) return sendJSON(res, 404, { message: "404: Not Found", code: 0 });
+
+		const endpoint = url.pathname.slice(baseURL.length);
+		const method = (req.method ?? "GET").toLowerCase() as HTTPMethod;
+		const params = Object.fromEntries(url.searchParams);
+
+		const extraHeaders: Record<string, string> = {};
+		const reason = req.headers["x-audit-log-reason"];
+		if (typeof reason === "string") extraHeaders["X-Audit-Log-Reason"] = reason;
+		if (!this.requestHandler.options.headers.Authorization && req.headers.authorization) extraHeaders.Authorization = req.headers.authorization;
+
+		if (Number(req.headers["content-length"]) > this.options.maxBodySize) return sendTooLarge(res);
+		const chunks: Array<Buffer> = [];
+		let size = 0;
+		for await (const chunk of req) {
+			size += chunk.length;
+			if (size > this.options.maxBodySize) return sendTooLarge(res);
+			chunks.push(chunk);
+		}
+		const body = Buffer.concat(chunks);
+		const contentType = req.headers["content-type"] ?? "";
+
+		let response: Response;
+		try {
+			if (contentType.startsWith("multipart/form-data")) {
+				const form = await new Request("http://localhost", { method: "POST", headers: { "Content-Type": contentType }, body }).formData();
+				response = await this.requestHandler.request(endpoint, params, method, "multipart", form, extraHeaders, undefined, true);
+			} else {
+				const text = body.toString("utf8");
+				let data: any = undefined;
+				if (text) {
+					try {
+						data = JSON.parse(text);
+					} catch {
+						data = text;
+					}
+				}
+				response = await this.requestHandler.request(endpoint, params, method, "json", data, extraHeaders, undefined, true);
+			}
+		} catch (e) {
+			if (e instanceof DiscordAPIError) response = e.response;
+			else return sendJSON(res, 502, { message: e instanceof Error ? e.message : String(e), code: 0 });
+		}
+
+		const headers: Record<string, string> = {};
+		response.headers.forEach((value, key) => {
+			if (!skippedResponseHeaders.has(key)) headers[key] = value;
+		});
+		res.writeHead(response.status, response.statusText, headers);
+		res.end(Buffer.from(await response.arrayBuffer()));
+	}
+}
+
+/**
+ * Answer with a 413 and close the connection, so the rest of the body isn't read
+ */
+function sendTooLarge(res: http.ServerResponse): void {
+	res.setHeader("Connection", "close");
+	sendJSON(res, 413, { message: "413: Request entity too large", code: 40005 });
+}
+
+function sendJSON(res: http.ServerResponse, status: number, body: unknown): void {
+	res.writeHead(status, { "Content-Type": "application/json" });
+	res.end(JSON.stringify(body));
+}
+
+export = SnowTransferProxy;
@@ -9,9 +9,13 @@ import nodeCrypto = require("node:crypto");
 import Endpoints = require("./Endpoints");
 const { version } = JSON.parse(fs.readFileSync(path.join(__dirname, "../package.json"), { encoding: "utf8" })); // otherwise, the json was included in the build
 import Constants = require("./Constants");
+import MultipartBody = require("./Multipart");
 import SM = require("./StateMachine");
+import tokenless = require("./tokenless");
 
-import type { HTTPMethod, RatelimitInfo, RequestEventData, HandlerEvents } from "./Types";
+import type { RESTErrorData, RESTJSONErrorCodes } from "discord-api-types/v10";
+
+import type { DiscordAPIFieldError, HTTPMethod, Middleware, MiddlewareContext, OAuth2Session, RatelimitInfo, RequestEventData, HandlerEvents, RequestOptions, RetryPolicy, TraceSpan, Tracer } from "./Types";
 
 declare global {
 	var snowtransferDebugLogging: boolean;
@@ -25,6 +29,8 @@ const webhooksRegex = /^\/webhooks\/(\d+)\/[A-Za-z0-9-_]{64,}/;
 const isMessageEndpointRegex = /\/messages\/:id$/;
 const isGuildChannelsRegex = /\/guilds\/\d+\/channels$/;
 const messagesRegex = /\/messages\/\d+$/;
+const majorParameterRegex = /\/(channels|guilds|webhooks)\/(\d+)/;
+const interactionTokenRegex = /^\/interactions\/(\d+|:id)\/[^/]+/;
 
 const disallowedBodyMethods = new Set(["head", "get", "delete"]);
 
@@ -35,17 +41,24 @@ const disallowedBodyMethods = new Set(["head", "get", "delete"]);
 export class DiscordAPIError extends Error {
 	public method: string;
 	public path: string;
-	public code: number;
+	/** The [JSON error code](https://discord.com/developers/docs/topics/opcodes-and-status-codes#json) Discord sent. Compare it against RESTJSONErrorCodes. 4000 if Discord didn't send one */
+	public code: RESTJSONErrorCodes | number;
 	public httpStatus: number;
+	/**
+	 * Every invalid field of the request body, flattened from the errors object Discord sent
+	 * @since 0.19.0
+	 */
+	public errors: Array<DiscordAPIFieldError>;
 	// @ts-expect-error Is assigned by Object.defineProperties
 	public request: RequestEventData;
 	// @ts-expect-error Is assigned by Object.defineProperties
 	public response: Response;
 
-	public constructor(error: { message?: string; code?: number; }, request: RequestEventData, response: Response) {
+	public constructor(error: { message?: string; code?: number; errors?: RESTErrorData; }, request: RequestEventData, response: Response) {
 		super();
 		this.name = "DiscordAPIError";
-		this.message = error.message ?? util.inspect(error);
+		this.errors = error.errors ? flattenErrors(error.errors) : [];
+		this.message = (error.message ?? util.inspect(error)) + this.errors.map(e => `\n${e.path}: ${e.message} (${e.code})`).join("");
 		this.method = request.method;
 		this.path = request.endpoint;
 		this.code = error.code ?? 4000;
@@ -58,6 +71,33 @@ export class DiscordAPIError extends Error {
 	}
 }
 
+/**
+ * Rejected with when a request was aborted through the signal passed in its RequestOptions before it could finish
+ * @since 0.19.0
+ */
+export class AbortError extends Error {
+	public method: string;
+	public path: string;
+
+	public constructor(method: string, path: string, message = "The request was aborted", options?: ErrorOptions) {
+		super(message, options);
+		this.name = "AbortError";
+		this.method = method;
+		this.path = path;
+	}
+}
+
+/**
+ * Rejected with when a request took longer than the timeoutMs passed in its RequestOptions, including the time it waited in its Bucket
+ * @since 0.19.0
+ */
+export class TimeoutError extends AbortError {
+	public constructor(method: string, path: string, public timeoutMs: number) {
+		super(method, path, `The request did not finish within ${timeoutMs}ms`);
+		this.name = "TimeoutError";
+	}
+}
+
 /**
  * @since 0.17.0
  */
@@ -356,13 +396,26 @@ export class Bucket {
 	 * Queue a function to be executed
 	 * @since 0.12.0
 	 * @param fn function to be executed
+	 * @param signal Removes the function from the queue if it's aborted before the function was executed and rejects with the signal's reason
 	 * @returns Result of the function if any
 	 */
-	public enqueue<T>(fn: (bkt: this) => Promise<T>): Promise<T> {
+	public enqueue<T>(fn: (bkt: this) => Promise<T>, signal?: AbortSignal): Promise<T> {
 		return new Promise((resolve, reject) => {
-			this.calls.push(() => {
+			if (signal?.aborted) return reject(signal.reason);
+
+			const call = () => {
+				signal?.removeEventListener("abort", onAbort);
 				return fn(this).then(resolve).catch(reject);
-			});
+			};
+			const onAbort = () => {
+				const index = this.calls.indexOf(call);
+				if (index === -1) return;
+				this.calls.splice(index, 1);
+				reject(signal!.reason);
+			};
+
+			signal?.addEventListener("abort", onAbort, { once: true });
+			this.calls.push(call);
 
 			if (this.sm.currentStateName === "ready") this.sm.doTransition("enqueue");
 		});
@@ -396,6 +449,58 @@ export class Bucket {
 	}
 }
 
+/**
+ * Where a Ratelimiter keeps its Buckets and shares the rate limit info it receives from Discord.
+ *
+ * The Buckets themselves always live in the process that queues requests. A store decides if anything outside of the process
+ * has a say in when a request may be sent, like other processes using the same token.
+ * @since 0.19.0
+ */
+export interface RatelimitStore {
+	/** A Map of Buckets keyed by route keys that store rate limit info */
+	readonly buckets: Map<string, Bucket>;
+	/** The bucket that limits how many requests per second you can make globally */
+	readonly globalBucket: Bucket;
+	/**
+	 * Resolves once the store allows a request for the route key to be sent. Called after the Bucket of the route key allowed it.
+	 * @since 0.19.0
+	 */
+	acquire(routeKey: string): Promise<void>;
+	/**
+	 * Apply rate limit info received from Discord to the Bucket of a route key
+	 * @since 0.19.0
+	 */
+	applyCount(routeKey: string, bucket: Bucket, limit: number | null, remaining: number, resetAfter: number): void;
+	/**
+	 * Set if requests are hitting a global ratelimit for `ms` duration
+	 * @since 0.19.0
+	 */
+	setGlobal(ms: number): void;
+}
+
+/**
+ * The default RatelimitStore which only knows about requests made by the current process
+ * @since 0.19.0
+ */
+export class MemoryRatelimitStore implements RatelimitStore {
+	public readonly buckets = new Map<string, Bucket>();
+	public readonly globalBucket = new Bucket([new IntervalCounter(Constants.GLOBAL_REQUESTS_PER_SECOND, 1000)]);
+
+	// Stores extending this one need the route key, which the memory store itself doesn't
+	public acquire(routeKey: string): Promise<void>;
+	public acquire(): Promise<void> {
+		return Promise.resolve();
+	}
+
+	public applyCount(_routeKey: string, bucket: Bucket, limit: number | null, remaining: number, resetAfter: number): void {
+		bucket.counters[0].applyCount(limit, remaining, resetAfter);
+	}
+
+	public setGlobal(ms: number): void {
+		this.globalBucket.counters[0].applyCount(Constants.GLOBAL_REQUESTS_PER_SECOND, 0, ms);
+	}
+}
+
 /**
  * Ratelimiter used for handling the ratelimits imposed by the rest api
  * @since 0.1.0
@@ -403,13 +508,23 @@ export class Bucket {
  */
 export class Ratelimiter {
 	/**
-	 * A Map of Buckets keyed by route keys that store rate limit info
+	 * A Map of Buckets keyed by route keys or bucket hash keys that store rate limit info. See getBucketKey
 	 */
-	public readonly buckets = new Map<string, Bucket>();
+	public get buckets(): Map<string, Bucket> {
+		return this.store.buckets;
+	}
+
+	/**
+	 * A Map of bucket hashes Discord sent in the X-RateLimit-Bucket header keyed by method and route with the major parameter removed
+	 */
+	public readonly bucketHashes = new Map<string, string>();
+
 	/**
 	 * The bucket that limits how many requests per second you can make globally
 	 */
-	public readonly globalBucket = new Bucket([new IntervalCounter(Constants.GLOBAL_REQUESTS_PER_SECOND, 1000)]);
+	public get globalBucket(): Bucket {
+		return this.store.globalBucket;
+	}
 
 	/**
 	 * If you're being globally rate limited
@@ -418,7 +533,11 @@ export class Ratelimiter {
 		return !this.globalBucket.counters[0].canTake();
 	}
 
-	public constructor() {
+	/**
+	 * Create a new Ratelimiter
+	 * @param store Where Buckets are kept and rate limit info is shared. Defaults to a MemoryRatelimitStore
+	 */
+	public constructor(public readonly store: RatelimitStore = new MemoryRatelimitStore()) {
 		setInterval(() => {
 			for (const [key, value] of this.buckets.entries()) {
 				const counter = value.counters[0];
@@ -452,24 +571,89 @@ export class Ratelimiter {
 	}
 
 	/**
-	 * Choose a bucket from the route and enqueue a rest call in it
-	 * @since 0.1.0
-	 * @param fn function to call once the ratelimit is ready
+	 * Returns the route of a request without any ids or tokens, which is safe to use as the name of a request in logs, metrics and traces
+	 * @since 0.19.0
+	 * @param url Endpoint of the request
+	 * @param method Http method used by the request
+	 * @returns The route like /channels/:id/messages/:id
+	 */
+	public routeName(url: string, method: string): string {
+		return this.routify(url, method).replace(majorParameterRegex, "/$1/:id").replace(interactionTokenRegex, "/interactions/$1/:token");
+	}
+
+	/**
+	 * Returns the key the Bucket for a request is stored under.
+	 *
+	 * Once Discord told us which bucket hash a route belongs to, routes sharing that hash and major parameter (channel, guild or webhook)
+	 * share a Bucket. Until then, the key is the one returned by routify.
+	 * @since 0.19.0
 	 * @param url Endpoint of the request
 	 * @param method Http method used by the request
+	 * @returns The hash and major parameter like a1b2c3:/channels/266277541646434305 if the hash is known, otherwise the routified url
 	 */
-	public queue<T>(fn: (bucket: Bucket) => Promise<T>, url: string, method: string): Promise<T> {
+	public getBucketKey(url: string, method: string): string {
 		const routeKey = this.routify(url, method);
+		const hash = this.bucketHashes.get(hashRouteKey(routeKey, method));
+		if (!hash) return routeKey;
+		return `${hash}:${majorParameterRegex.exec(routeKey)?.[0] ?? ""}`;
+	}
+
+	/**
+	 * Remember the bucket hash Discord sent for a route and move the route's Bucket over to the hash based key if nothing is using it yet
+	 * @since 0.19.0
+	 * @param url Endpoint of the request
+	 * @param method Http method used by the request
+	 * @param hash The value of the X-RateLimit-Bucket header
+	 * @param bucket The Bucket the request was sent from
+	 */
+	public setBucketHash(url: string, method: string, hash: string, bucket: Bucket): void {
+		const routeKey = this.routify(url, method);
+		const hashKey = hashRouteKey(routeKey, method);
+		if (this.bucketHashes.get(hashKey) === hash) return;
+
+		const oldKey = this.getBucketKey(url, method);
+		this.bucketHashes.set(hashKey, hash);
+		const newKey = this.getBucketKey(url, method);
+
+		if (!this.buckets.has(newKey)) this.buckets.set(newKey, bucket);
+		// Calls already in the old Bucket still run from it. New calls go to the Bucket under the new key
+		if (this.buckets.get(oldKey) === bucket && oldKey !== newKey) this.buckets.delete(oldKey);
+	}
+
+	/**
+	 * Get the Bucket a request would be queued in, creating it if there is none yet
+	 * @since 0.19.0
+	 * @param url Endpoint of the request
+	 * @param method Http method used by the request
+	 * @returns The Bucket stored under the bucket key of the request
+	 */
+	public getBucket(url: string, method: string): Bucket {
+		const bucketKey = this.getBucketKey(url, method);
 
-		let bucket = this.buckets.get(routeKey);
+		let bucket = this.buckets.get(bucketKey);
 		if (!bucket) {
 			if (method === "DELETE" && messagesRegex.test(url)) {
 				bucket = new Bucket([new LeakyCounter(1), new IntervalCounter(5, 5000), this.globalBucket.counters[0]]);
 			} else bucket = new Bucket([new LeakyCounter(1), this.globalBucket.counters[0]]);
-			this.buckets.set(routeKey, bucket);
+			this.buckets.set(bucketKey, bucket);
 		}
+		return bucket;
+	}
 
-		return bucket.enqueue(fn);
+	/**
+	 * Choose a bucket from the route and enqueue a rest call in it
+	 * @since 0.1.0
+	 * @param fn function to call once the ratelimit is ready
+	 * @param url Endpoint of the request
+	 * @param method Http method used by the request
+	 * @param signal Removes the call from its Bucket if it's aborted before the call was made
+	 */
+	public queue<T>(fn: (bucket: Bucket) => Promise<T>, url: string, method: string, signal?: AbortSignal): Promise<T> {
+		const bucketKey = this.getBucketKey(url, method);
+		return this.getBucket(url, method).enqueue(async bkt => {
+			await this.store.acquire(bucketKey);
+			return fn(bkt);
+		}, signal);
 	}
 
 	/**
@@ -478,7 +662,7 @@ export class Ratelimiter {
 	 * @param ms How long in milliseconds this Ratelimiter is globally ratelimited for
 	 */
 	public setGlobal(ms: number): void {
-		this.globalBucket.counters[0].applyCount(Constants.GLOBAL_REQUESTS_PER_SECOND, 0, ms);
+		this.store.setGlobal(ms);
 	}
 }
 
@@ -493,6 +677,12 @@ export type RequestHandlerOptions = {
 	retryFailed: boolean;
 	/** How many times requests should be retried if they fail and can be retried. */
 	retryLimit: number;
+	/** How long to wait between retries and what gets retried */
+	retryPolicy: RetryPolicy;
+	/** Opens a span for every request if set. See SnowTransferOptions#tracer */
+	tracer: Tracer | undefined;
+	/** The OAuth2 session requests are made with if set. See SnowTransferOptions#session */
+	session: OAuth2Session | undefined;
 	headers: {
 		Authorization?: string;
 		"User-Agent": string;
@@ -511,13 +701,25 @@ export class RequestHandler extends EventEmitter<HandlerEvents> {
 	public options: RequestHandlerOptions;
 	public latency: number;
 	public apiURL: string;
+	/** Middlewares every request runs through, in the order they were added with use */
+	public readonly middlewares: Array<Middleware> = [];
+	/** Spans of requests keyed by the signal their retries are passed, so retries continue the span of the request they retry */
+	private readonly spans = new WeakMap<AbortSignal, TraceSpan>();
+	/** Spans of requests waiting in a Bucket, which get an event whenever the Bucket goes into cooldown */
+	private readonly waitingSpans = new WeakMap<Bucket, Set<TraceSpan>>();
+	/** How many attempts were made before a retry, keyed by the signal the retry is passed */
+	private readonly attempts = new WeakMap<AbortSignal, number>();
+	/** Signals passed to requests resent after refreshing the session because of a 401, so they aren't resent again */
+	private readonly sessionRetried = new WeakSet<AbortSignal>();
+	/** The refresh of the session in progress */
+	private sessionRefresh: Promise<OAuth2Session> | null = null;
 
 	/**
 	 * Create a new request handler
 	 * @param ratelimiter ratelimiter to use for ratelimiting requests
 	 * @param options options
 	 */
-	public constructor(public ratelimiter: Ratelimiter, options?: { token?: string; } & Partial<Omit<RequestHandlerOptions, "headers">>) {
+	public constructor(public ratelimiter: Ratelimiter, options?: { token?: string; retryPolicy?: Partial<RetryPolicy>; } & Partial<Omit<RequestHandlerOptions, "headers" | "retryPolicy">>) {
 		super();
 
 		this.options = {
@@ -526,12 +728,16 @@ export class RequestHandler extends EventEmitter<HandlerEvents> {
 			bypassBuckets: options?.bypassBuckets ?? false,
 			retryFailed: options?.retryFailed ?? false,
 			retryLimit: options?.retryLimit ?? Constants.DEFAULT_RETRY_LIMIT,
+			retryPolicy: { ...Constants.DEFAULT_RETRY_POLICY, ...options?.retryPolicy },
+			tracer: options?.tracer,
+			session: options?.session,
 			headers: {
 				"User-Agent": `Discordbot (https://github.com/DasWolke/SnowTransfer, ${version}) Node.js/${process.version}`
 			},
 			fetch: options?.fetch ?? fetch
 		};
 		if (options?.token) this.options.headers.Authorization = options.token;
+		if (this.options.session) this.options.headers.Authorization = `Bearer ${this.options.session.accessToken}`;
 
 		this.apiURL = this.options.baseHost + Endpoints.BASE_URL;
 		this.latency = 500;
@@ -546,58 +752,138 @@ export class RequestHandler extends EventEmitter<HandlerEvents> {
 	 * @param dataType type of the data being sent
 	 * @param data data to send, if any
 	 * @param extraHeaders Any headers to send on top of the existing ones for this request
-	 * @param retries How many retries should be performed for this request if it fails when possible and not a bad status code is returned
+	 * @param retries How many retries should be performed for this request if it fails and the retry policy allows retrying it
 	 * @param rawResponse If the raw Response Object from fetch should be returned instead of trying to return a response.json() or undefined if no body
+	 * @param requestOptions Options to abort the request or let it time out, in which case the request rejects with an AbortError or TimeoutError, to override the retry policy and to set the parent of its span
 	 * @returns Result of the request
 	 */
-	public request(endpoint: string, params: Record<string, any> | undefined, method: HTTPMethod, dataType: "json", data?: any, extraHeaders?: Record<string, string>, retries?: number, rawResponse?: boolean): Promise<any>
-	public request(endpoint: string, params: Record<string, any> | undefined, method: HTTPMethod, dataType: "multipart", data?: FormData, extraHeaders?: Record<string, string>, retries?: number, rawResponse?: boolean): Promise<any>
-	public request(endpoint: string, params: Record<string, any> | undefined, method: HTTPMethod, dataType: "json" | "multipart", data?: any, extraHeaders?: Record<string, string>, retries?: number, rawResponse?: true): Promise<Response>
-	public request(endpoint: string, params: Record<string, any> = {}, method: HTTPMethod, dataType: "json" | "multipart", data?: any, extraHeaders?: Record<string, string>, retries = this.options.retryLimit, rawResponse = false): Promise<any> {
+	public request(endpoint: string, params: Record<string, any> | undefined, method: HTTPMethod, dataType: "json", data?: any, extraHeaders?: Record<string, string>, retries?: number, rawResponse?: boolean, requestOptions?: Partial<RequestOptions>): Promise<any>
+	public request(endpoint: string, params: Record<string, any> | undefined, method: HTTPMethod, dataType: "multipart", data?: FormData | MultipartBody, extraHeaders?: Record<string, string>, retries?: number, rawResponse?: boolean, requestOptions?: Partial<RequestOptions>): Promise<any>
+	public request(endpoint: string, params: Record<string, any> | undefined, method: HTTPMethod, dataType: "json" | "multipart", data?: any, extraHeaders?: Record<string, string>, retries?: number, rawResponse?: true, requestOptions?: Partial<RequestOptions>): Promise<Response>
+	public request(endpoint: string, params: Record<string, any> = {}, method: HTTPMethod, dataType: "json" | "multipart", data?: any, extraHeaders?: Record<string, string>, retries = this.options.retryLimit, rawResponse = false, requestOptions?: Partial<RequestOptions>): Promise<any> {
 		const stack = new Error().stack as string;
-		return new Promise(async (resolve, reject) => {
+		const controller = new AbortController();
+		const onAbort = () => {
+			const reason = requestOptions!.signal!.reason;
+			// Retries pass the signal of the original request along, which already has a fitting reason
+			controller.abort(reason instanceof AbortError ? reason : new AbortError(method.toUpperCase(), endpoint, undefined, { cause: reason }));
+		};
+		if (requestOptions?.signal?.aborted) onAbort();
+		else requestOptions?.signal?.addEventListener("abort", onAbort, { once: true });
+		const timeout = requestOptions?.timeoutMs !== undefined ? setTimeout(() => controller.abort(new TimeoutError(method.toUpperCase(), endpoint, requestOptions.timeoutMs!)), requestOptions.timeoutMs) : undefined;
+
+		const policy: RetryPolicy = { ...this.options.retryPolicy, ...requestOptions?.retryPolicy };
+		// Streams in the body were read by the first attempt, so it can't be sent again
+		const replayable = !(data instanceof MultipartBody) || data.replayable;
+		const canRetry = this.options.retryFailed && retries !== 0 && replayable;
+		const isIdempotent = policy.retryNonIdempotent || Constants.IDEMPOTENT_METHODS.has(method.toUpperCase());
+		// Counted apart from retries, since callers can start with any amount of retries
+		const attempt = (requestOptions?.signal ? this.attempts.get(requestOptions.signal) ?? 0 : 0) + 1;
+
+		const route = this.ratelimiter.routeName(endpoint, method.toUpperCase());
+		const inheritedSpan = requestOptions?.signal ? this.spans.get(requestOptions.signal) : undefined;
+		const span = inheritedSpan ?? this.options.tracer?.startSpan(`${method.toUpperCase()} ${route}`, {
+			kind: 2, // CLIENT
+			attributes: { "http.request.method": method.toUpperCase(), "http.route": route, "url.path": endpoint.replace(webhooksRegex, "/webhooks/$1/:token").replace(interactionTokenRegex, "/interactions/$1/:token") }
+		}, requestOptions?.traceContext);
+		if (span) this.spans.set(controller.signal, span);
+		// Retries end up in the span of the request they retry, which ends it once it settles
+		const ownSpan = inheritedSpan ? undefined : span;
+		const queuedAt = Date.now();
+		const sessionRetried = requestOptions?.signal !== undefined && this.sessionRetried.has(requestOptions.signal);
+		if (sessionRetried) this.sessionRetried.add(controller.signal);
+		let stopWatchingBucket: (() => void) | undefined = undefined;
+
+		return new Promise<any>(async (resolve, reject) => {
+			// Scheduled instead of awaited, so the Bucket call this comes from can finish and the retry isn't queued behind it
+			const retry = (reqId: string, delay: number, status: number | undefined, error: Error | undefined) => {
+				this.emit("retry", reqId, { endpoint, method: method.toUpperCase(), attempt, delay, status, error });
+				span?.addEvent("retry", { "snowtransfer.attempt": attempt, "snowtransfer.delay_ms": delay, "http.response.status_code": status, "error.type": error?.name });
+				const onAbort = () => {
+					clearTimeout(timer);
+					reject(controller.signal.reason);
+				};
+				const timer = setTimeout(() => {
+					controller.signal.removeEventListener("abort", onAbort);
+					this.attempts.set(controller.signal, attempt);
+					this.request(endpoint, params, method, dataType as "json", data, extraHeaders, retries - 1, rawResponse, { signal: controller.signal, retryPolicy: requestOptions?.retryPolicy, traceContext: requestOptions?.traceContext }).then(resolve, reject);
+				}, delay);
+				controller.signal.addEventListener("abort", onAbort, { once: true });
+			};
+
 			const fn = async (bkt?: Bucket | undefined) => {
+				stopWatchingBucket?.();
+				if (bkt) span?.addEvent("bucket.acquired", { "snowtransfer.wait_ms": Date.now() - queuedAt });
 				const reqId = nodeCrypto.randomBytes(20).toString("hex");
+				let response: Response | undefined = undefined;
 				try {
+					const session = this.options.session;
+					if (session && Date.now() >= session.expiresAt - Constants.SESSION_REFRESH_MARGIN) await this.refreshSession();
+					const authorization = this.options.headers.Authorization;
+
 					const request = { endpoint, method: method.toUpperCase(), dataType, data: data ?? {} };
 					this.emit("request", reqId, request);
 
 					const before = Date.now();
-
-					let response: Response;
-					switch (dataType) {
-					case "json":
-						response = await this._request(endpoint, params, method, data, extraHeaders);
-						break;
-					case "multipart":
-						if (!data) throw new Error("No multipart data");
-						response = await this._multiPartRequest(endpoint, params, method, data, extraHeaders);
-						break;
-					default:
-						throw new Error("Forbidden dataType. Use json or multipart or ensure multipart has FormData");
-					}
+					span?.addEvent("fetch.start");
+
+					response = await this._runMiddlewares({
+						reqId,
+						endpoint,
+						method,
+						params,
+						headers: { ...this.options.headers, ...extraHeaders } as Record<string, string>,
+						dataType,
+						body: data,
+						signal: controller.signal
+					});
 
 					this.latency = Date.now() - before;
+					span?.setAttribute("http.response.status_code", response.status);
+					span?.addEvent("fetch.end", { "http.response.status_code": response.status, "snowtransfer.latency_ms": this.latency });
 					bkt?.counters.forEach(c => c.responseReceived());
 
-					if (bkt) this._applyRatelimitHeaders(bkt, response.headers);
+					if (bkt) this._applyRatelimitHeaders(bkt, response.headers, endpoint, method.toUpperCase());
+
+					// The access token expired early or was replaced. Resent once with a fresh one, which doesn't count towards retryLimit
+					if (response.status === 401 && this.options.session && !sessionRetried && replayable) {
+						this.emit("retry", reqId, { endpoint, method: method.toUpperCase(), attempt, delay: 0, status: 401, error: undefined });
+						span?.addEvent("session.refresh");
+						this.sessionRetried.add(controller.signal);
+						this.attempts.set(controller.signal, attempt - 1);
+						// Another request may have refreshed the session while this one was sent
+						const refreshed = this.options.headers.Authorization === authorization ? this.refreshSession() : Promise.resolve();
+						// Not awaited, so the Bucket can go on while the session is refreshed
+						refreshed.then(() => this.request(endpoint, params, method, dataType as "json", data, extraHeaders, retries, rawResponse, { signal: controller.signal, retryPolicy: requestOptions?.retryPolicy, traceContext: requestOptions?.traceContext }), error => {
+							this.emit("requestError", reqId, error);
+							throw error;
+						}).then(resolve, reject);
+						return;
+					}
 
 					if (response.status && !Constants.OK_STATUS_CODES.has(response.status) && response.status !== 429) {
-						if (this.options.retryFailed && !Constants.DO_NOT_RETRY_STATUS_CODES.has(response.status) && retries !== 0) return this.request(endpoint, params, method, dataType, data, extraHeaders, retries - 1).then(resolve).catch(reject);
-						throw new DiscordAPIError({ message: await response.text() }, request, response);
+						if (canRetry && isIdempotent && policy.statusCodes.includes(response.status)) {
+							// The body isn't read, so cancel it to free the connection
+							await response.body?.cancel();
+							return retry(reqId, retryDelay(policy, attempt, response.headers), response.status, undefined);
+						}
+						throw new DiscordAPIError(parseErrorBody(await response.clone().text()), request, response);
 					}
 
 					if (response.status === 429) {
-						const b = await response.json() as RatelimitInfo; // Discord says it will be a JSON, so if there's an error, sucks
+						const b = await response.clone().json() as RatelimitInfo; // Discord says it will be a JSON, so if there's an error, sucks. Cloned so the body of DiscordAPIError#response can still be read
 						if (b.global) this.ratelimiter.setGlobal(b.retry_after * 1000);
 						if (globalThis.snowtransferDebugLogging) console.log(`${new Date().toISOString()} [rate] [${bkt?.counters[0].id}] !! 429 - guess there was 0 remaining, wait another ${b.retry_after*1000} (route: ${this.ratelimiter.routify(endpoint, method.toUpperCase())})`);
+						span?.addEvent("ratelimited", { "discord.global": b.global, "discord.retry_after": b.retry_after });
 						this.emit("rateLimit", {
 							method: method.toUpperCase(),
 							path: endpoint,
-							route: this.ratelimiter.routify(endpoint, method.toUpperCase())
+							route: this.ratelimiter.routify(endpoint, method.toUpperCase()),
+							global: b.global
 						});
 
-						if (this.options.retryFailed && retries !== 0) return this.request(endpoint, params, method, dataType, data, extraHeaders, 0).then(resolve).catch(reject);
+						// Discord didn't act on rate limited requests, so they're safe to retry no matter the method
+						if (canRetry) return retry(reqId, retryDelay(policy, attempt, response.headers, b.retry_after), 429, undefined);
 
 						throw new DiscordAPIError({ message: b.message, code: b.code ?? 429 }, request, response);
 					}
@@ -611,41 +897,173 @@ export class RequestHandler extends EventEmitter<HandlerEvents> {
 						try {
 							b = await response.json();
 						} catch {
+							if (controller.signal.aborted) throw controller.signal.reason;
 							return resolve(undefined);
 						}
 						return resolve(b);
 					} else return resolve(undefined);
-				} catch (error: any) {
+				} catch (e: any) {
+					// Without headers to go off of, the Bucket has to be reset now, or it'll never reset again
+					if (bkt && !response) this._applyRatelimitHeaders(bkt, new Headers(), endpoint, method.toUpperCase());
+					if (!response && !controller.signal.aborted && canRetry && isIdempotent && policy.networkErrorCodes.includes(e?.code ?? e?.cause?.code)) return retry(reqId, retryDelay(policy, attempt), undefined, e);
+					// fetch rejects with the abort reason, but reading the body may not
+					const error = controller.signal.aborted ? controller.signal.reason : e;
 					if (error?.stack) error.stack = error.stack + `\n${stack.split("\n").slice(1).join("\n")}`;
 					this.emit("requestError", reqId, error);
 					return reject(error as Error);
 				}
 			};
 
-			if (this.options.bypassBuckets) fn();
-			else this.ratelimiter.queue(fn, endpoint, method.toUpperCase());
+			if (this.options.bypassBuckets) return fn();
+
+			if (span) stopWatchingBucket = this._traceCooldowns(this.ratelimiter.getBucket(endpoint, method.toUpperCase()), span);
+			this.ratelimiter.queue(fn, endpoint, method.toUpperCase(), controller.signal).catch(reject);
+		}).then(result => {
+			ownSpan?.end();
+			return result;
+		}, error => {
+			if (ownSpan) {
+				if (error instanceof DiscordAPIError) ownSpan.setAttribute("discord.error_code", error.code);
+				ownSpan.recordException(error);
+				ownSpan.setStatus({ code: 2, message: error?.message }); // ERROR
+				ownSpan.end();
+			}
+			throw error;
+		}).finally(() => {
+			clearTimeout(timeout);
+			stopWatchingBucket?.();
+			requestOptions?.signal?.removeEventListener("abort", onAbort);
 		});
 	}
 
+	/**
+	 * Refresh the access token of the session. Happens on its own before the access token expires or once Discord rejects it
+	 * @since 0.19.0
+	 * @returns The refreshed session, which is also emitted as tokenRefreshed
+	 *
+	 * @example
+	 * const client = new SnowTransfer(undefined, { session: { accessToken, refreshToken, expiresAt, clientId, clientSecret } })
+	 * client.requestHandler.on("tokenRefreshed", session => db.saveSession(userId, session))
+	 */
+	public refreshSession(): Promise<OAuth2Session> {
+		// Refresh tokens can only be used once, so concurrent refreshes have to share one
+		if (!this.sessionRefresh) {
+			this.sessionRefresh = this._refreshSession().finally(() => {
+				this.sessionRefresh = null;
+			});
+		}
+		return this.sessionRefresh;
+	}
+
+	/**
+	 * Exchange the refresh token of the session for a new access token and start using it
+	 * @since 0.19.0
+	 * @returns The refreshed session
+	 */
+	private async _refreshSession(): Promise<OAuth2Session> {
+		const session = this.options.session;
+		if (!session) throw new Error("There is no session to refresh");
+
+		const result = await tokenless.refreshOauth2Token(session.clientId, session.clientSecret, session.refreshToken, { baseHost: this.options.baseHost, fetch: this.options.fetch });
+		const refreshed: OAuth2Session = { ...session, accessToken: result.access_token, refreshToken: result.refresh_token, expiresAt: Date.now() + result.expires_in * 1000 };
+		this.options.session = refreshed;
+		this.options.headers.Authorization = `Bearer ${refreshed.accessToken}`;
+		this.emit("tokenRefreshed", refreshed);
+		return refreshed;
+	}
+
+	/**
+	 * Add a middleware that runs for every request after the ones added before it. Middlewares run once a request leaves its Bucket, so they run again for retries
+	 * @since 0.19.0
+	 * @param middleware The middleware to add
+	 * @returns This RequestHandler, so calls can be chained
+	 *
+	 * @example
+	 * // Add a header to every request and log how long Discord took to respond
+	 * const client = new SnowTransfer("TOKEN")
+	 * client.requestHandler.use(async (context, next) => {
+	 * 	context.headers["X-Trace-Id"] = crypto.randomUUID()
+	 * 	const before = Date.now()
+	 * 	const response = await next()
+	 * 	console.log(`${context.method} ${context.endpoint} took ${Date.now() - before}ms`)
+	 * 	return response
+	 * })
+	 */
+	public use(middleware: Middleware): this {
+		this.middlewares.push(middleware);
+		return this;
+	}
+
+	/**
+	 * Run the middlewares starting at index and send the request once all of them called next
+	 * @since 0.19.0
+	 * @param context The request as the middlewares see it
+	 * @param index Index of the middleware to run
+	 * @returns Response of the request, or whatever a middleware returned instead
+	 */
+	private async _runMiddlewares(context: MiddlewareContext, index = 0): Promise<Response> {
+		const middleware = this.middlewares[index];
+		if (middleware) return middleware(context, () => this._runMiddlewares(context, index + 1));
+
+		switch (context.dataType) {
+		case "json":
+			return this._request(context.endpoint, context.params, context.method, context.body, context.headers, context.signal);
+		case "multipart":
+			if (!context.body) throw new Error("No multipart data");
+			return this._multiPartRequest(context.endpoint, context.params, context.method, context.body, context.headers, context.signal, context.reqId);
+		default:
+			throw new Error("Forbidden dataType. Use json or multipart or ensure multipart has FormData");
+		}
+	}
+
+	/**
+	 * Add a ratelimit.cooldown event to a span every time a Bucket goes into cooldown until the returned function is called
+	 * @since 0.19.0
+	 * @param bucket The Bucket the request of the span waits in
+	 * @param span The span of the request
+	 * @returns A function to stop adding events
+	 */
+	private _traceCooldowns(bucket: Bucket, span: TraceSpan): () => void {
+		let spans = this.waitingSpans.get(bucket);
+		if (!spans) {
+			const waiting = spans = new Set();
+			this.waitingSpans.set(bucket, waiting);
+			// One listener per Bucket instead of one per request, since a lot of requests can wait in the same Bucket
+			bucket.sm.on("enter", state => {
+				if (state !== "cooldown") return;
+				const global = this.ratelimiter.global;
+				for (const waitingSpan of waiting) waitingSpan.addEvent("ratelimit.cooldown", { "snowtransfer.global": global });
+			});
+		}
+		spans.add(span);
+		return () => spans.delete(span);
+	}
+
 	/**
 	 * Apply the received ratelimit headers to the ratelimit bucket
 	 * @since 0.1.0
 	 * @param bkt Ratelimit bucket to apply the headers to
 	 * @param headers Http headers received from discord
+	 * @param endpoint Endpoint of the request
+	 * @param method Http method used by the request
 	 */
-	private _applyRatelimitHeaders(bkt: Bucket, headers: Headers): void {
+	private _applyRatelimitHeaders(bkt: Bucket, headers: Headers, endpoint: string, method: string): void {
 		const remaining = headers.get("x-ratelimit-remaining");
 		const limit = headers.get("x-ratelimit-limit");
 		const resetAfter = headers.get("x-ratelimit-reset-after");
 		const isGlobal = headers.get("x-ratelimit-global");
+		const hash = headers.get("x-ratelimit-bucket");
+
+		if (hash && !isGlobal) this.ratelimiter.setBucketHash(endpoint, method, hash, bkt);
+		const routeKey = this.ratelimiter.getBucketKey(endpoint, method);
 
 		if (remaining === null && !bkt.counters[0].canTake() && !isGlobal) {
 			// have to reset it now, or it'll never reset again
-			bkt.counters[0].applyCount(null, 1, 0);
+			this.ratelimiter.store.applyCount(routeKey, bkt, null, 1, 0);
 		}
 
 		if (remaining && limit && resetAfter && !isGlobal) {
-			bkt.counters[0].applyCount(Number.parseInt(limit), Number.parseInt(remaining), Number.parseFloat(resetAfter) * 1000);
+			this.ratelimiter.store.applyCount(routeKey, bkt, Number.parseInt(limit), Number.parseInt(remaining), Number.parseFloat(resetAfter) * 1000);
 		}
 	}
 
@@ -655,10 +1073,12 @@ export class RequestHandler extends EventEmitter<HandlerEvents> {
 	 * @param endpoint Endpoint to use
 	 * @param params URL query parameters to add on to the URL
 	 * @param data Data to send
+	 * @param requestHeaders All headers to send
+	 * @param signal Signal to abort the request
 	 * @returns Result of the request
 	 */
-	private async _request(endpoint: string, params: Record<string, any> = {}, method: HTTPMethod, data?: any, extraHeaders?: Record<string, string>): Promise<Response> {
-		const headers = { ...this.options.headers, ...extraHeaders } as Record<string, string>;
+	private async _request(endpoint: string, params: Record<string, any> = {}, method: HTTPMethod, data: any, requestHeaders: Record<string, string>, signal?: AbortSignal): Promise<Response> {
+		const headers = { ...requestHeaders };
 
 		let body: string | undefined = undefined;
 		if (!disallowedBodyMethods.has(method)) {
@@ -671,7 +1091,8 @@ export class RequestHandler extends EventEmitter<HandlerEvents> {
 		return this.options.fetch(`${this.apiURL}${endpoint}${appendQuery(params)}`, {
 			method: method.toUpperCase(),
 			headers,
-			body
+			body,
+			signal
 		});
 	}
 
@@ -682,19 +1103,104 @@ export class RequestHandler extends EventEmitter<HandlerEvents> {
 	 * @param params URL query parameters to add on to the URL
 	 * @param method Http Method to use
 	 * @param data data to send
+	 * @param headers All headers to send
+	 * @param signal Signal to abort the request
+	 * @param reqId Id of the request to emit uploadProgress events with
 	 * @returns Result of the request
 	 */
-	private async _multiPartRequest(endpoint: string, params: Record<string, any> = {}, method: HTTPMethod, data: FormData, extraHeaders?: Record<string, string>): Promise<Response> {
-		const headers = { ...this.options.headers, ...extraHeaders } as Record<string, string>;
+	private async _multiPartRequest(endpoint: string, params: Record<string, any> = {}, method: HTTPMethod, data: FormData | MultipartBody, headers: Record<string, string>, signal?: AbortSignal, reqId?: string): Promise<Response> {
+		if (data instanceof MultipartBody) {
+			const total = data.length;
+			const progress = { endpoint, method: method.toUpperCase(), total };
+			return this.options.fetch(`${this.apiURL}${endpoint}${appendQuery(params)}`, {
+				method: method.toUpperCase(),
+				headers: { ...headers, "Content-Type": data.contentType, ...(total !== undefined ? { "Content-Length": String(total) } : {}) },
+				body: data.stream(reqId ? sent => this.emit("uploadProgress", reqId, { ...progress, sent }) : undefined),
+				// fetch only sends streams with half duplex
+				duplex: "half",
+				// Unless redirects are errors, fetch sends a clone of the request, whose body is a tee of the stream that keeps every chunk in memory
+				redirect: "error",
+				signal
+			} as Parameters<typeof fetch>[1]);
+		}
 
 		return this.options.fetch(`${this.apiURL}${endpoint}${appendQuery(params)}`, {
 			method: method.toUpperCase(),
 			headers,
-			body: data
+			body: data,
+			signal
 		});
 	}
 }
 
+/**
+ * The key bucket hashes are saved under. The major parameter is removed, since Discord uses the same hash for all of them
+ */
+function hashRouteKey(routeKey: string, method: string): string {
+	return `${method}:${routeKey.replace(majorParameterRegex, "/$1/:major")}`;
+}
+
+/**
+ * Flattens the nested errors object Discord sends for invalid request bodies. Keys are fields or Array indexes and _errors holds the errors of that field
+ */
+function flattenErrors(data: RESTErrorData, path = ""): Array<DiscordAPIFieldError> {
+	if (typeof data === "string") return [{ path, code: "UNKNOWN", message: data }];
+	if ("code" in data && "message" in data && typeof data.code === "string" && typeof data.message === "string") return [{ path, code: data.code, message: data.message }];
+
+	const result: Array<DiscordAPIFieldError> = [];
+	for (const [key, value] of Object.entries(data)) {
+		if (key === "_errors" && Array.isArray(value)) {
+			for (const e of value) result.push(...flattenErrors(e, path));
+		} else result.push(...flattenErrors(value as RESTErrorData, path ? `${path}.${key}` : key));
+	}
+	return result;
+}
+
+/**
+ * Parses the body of a failed response into what DiscordAPIError takes. OAuth2 endpoints answer with { error, error_description } instead, which becomes the message
+ * @since 0.19.0
+ * @param text The body of the response
+ * @returns The message, JSON error code and field errors of the body
+ */
+export function parseErrorBody(text: string): { message?: string; code?: number; errors?: RESTErrorData; } {
+	let error: { message?: string; code?: number; errors?: RESTErrorData; error?: unknown; error_description?: string; };
+	try {
+		error = JSON.parse(text);
+	} catch {
+		return { message: text };
+	}
+	// A JSON body that isn't an error object (like a proxy answering with a string) is still better shown as is
+	if (typeof error !== "object" || error === null) return { message: text };
+	if (typeof error.error === "string") return { message: error.error_description ? `${error.error}: ${error.error_description}` : error.error };
+	if (error.message === undefined && error.code === undefined) return { message: text };
+	return error;
+}
+
+/**
+ * How long to wait before a retry. Honours how long Discord asked to wait for if it did, otherwise backs off exponentially with jitter.
+ * Only 429s wait as long as they ask for. Other responses with a Retry-After wait at most policy.maxDelay
+ * @param policy The retry policy of the request
+ * @param attempt Which retry this is, starting at 1
+ * @param headers Headers of the response that caused the retry, if there was one
+ * @param retryAfterSeconds retry_after of a 429 body. Only passed for 429s
+ */
+function retryDelay(policy: RetryPolicy, attempt: number, headers?: Headers, retryAfterSeconds?: number): number {
+	const ratelimited = retryAfterSeconds !== undefined;
+	let requested: number | undefined = undefined;
+	const retryAfter = headers?.get("retry-after");
+	if (retryAfter) {
+		const seconds = Number(retryAfter);
+		const date = Date.parse(retryAfter);
+		if (!Number.isNaN(seconds)) requested = Math.ceil(seconds * 1000);
+		else if (!Number.isNaN(date)) requested = Math.max(date - Date.now(), 0);
+	}
+	if (requested === undefined && ratelimited) requested = Math.ceil(retryAfterSeconds * 1000);
+	if (requested !== undefined) return ratelimited ? requested : Math.min(requested, policy.maxDelay);
+
+	const delay = Math.min(policy.maxDelay, policy.baseDelay * 2 ** (attempt - 1));
+	return Math.round(delay * (1 - policy.jitter * Math.random()));
+}
+
 function appendQuery(query: Record<string, any>): string {
 	let count = 0;
 	for (const [key, value] of Object.entries(query)) {
@@ -10,7 +10,9 @@ import GuildScheduledEventMethods = require("./methods/GuildScheduledEvent");
 import GuildTemplateMethods = require("./methods/GuildTemplate");
 import InteractionMethods = require("./methods/Interaction");
 import InviteMethods = require("./methods/Invite");
+import LobbyMethods = require("./methods/Lobby");
 import SkuMethods = require("./methods/Sku");
+import SoundboardMethods = require("./methods/Soundboard");
 import StageInstanceMethods = require("./methods/StageInstance");
 import UserMethods = require("./methods/User");
 import VoiceMethods = require("./methods/Voice");
@@ -61,8 +63,12 @@ class SnowTransfer {
 	public readonly autoMod: AutoModerationMethods;
 	/** Methods related to entitlements */
 	public readonly entitlement: EntitlementMethods;
+	/** Methods related to lobbies of games using the Social SDK */
+	public readonly lobby: LobbyMethods;
 	/** Methods related to SKUs */
 	public readonly sku: SkuMethods;
+	/** Methods related to soundboard sounds */
+	public readonly soundboard: SoundboardMethods;
 	/** Ratelimiter used for handling the ratelimits imposed by the rest api */
 	public readonly ratelimiter: Ratelimiter;
 
@@ -74,15 +80,22 @@ class SnowTransfer {
 	public constructor(token?: string, options?: Partial<SnowTransferOptions>) {
 		if (typeof token === "string" && token === "") throw new Error("Missing token");
 		if (token && (!token.startsWith("Bot") && !token.startsWith("Bearer"))) token = `Bot ${token}`;
-		this.options = { baseHost: Endpoints.BASE_HOST, allowed_mentions: undefined, bypassBuckets: false, retryRequests: false, retryLimit: Constants.DEFAULT_RETRY_LIMIT, ...options };
+		this.options = { baseHost: Endpoints.BASE_HOST, allowed_mentions: undefined, bypassBuckets: false, retryRequests: false, retryLimit: Constants.DEFAULT_RETRY_LIMIT, ratelimitStore: undefined, retryPolicy: undefined, tracer: undefined, session: undefined, validateMessages: false, cloudUploads: false, ...options };
 		this.token = token;
-		this.ratelimiter = new Ratelimiter();
+		this.ratelimiter = new Ratelimiter(this.options.ratelimitStore);
 		this.requestHandler = new RequestHandler(this.ratelimiter, {
 			token: this.token,
 			baseHost: this.options.baseHost,
 			bypassBuckets: this.options.bypassBuckets,
 			retryFailed: this.options.retryRequests,
-			retryLimit: this.options.retryLimit
+			retryLimit: this.options.retryLimit,
+			retryPolicy: this.options.retryPolicy,
+			tracer: this.options.tracer,
+			session: this.options.session
+		});
+		if (this.options.session) this.token = `Bearer ${this.options.session.accessToken}`;
+		this.requestHandler.on("tokenRefreshed", session => {
+			this.token = `Bearer ${session.accessToken}`;
 		});
 		this.channel = new ChannelMethods(this.requestHandler, this.options);
 		this.user = new UserMethods(this.requestHandler);
@@ -99,7 +112,9 @@ class SnowTransfer {
 		this.stageInstance = new StageInstanceMethods(this.requestHandler);
 		this.autoMod = new AutoModerationMethods(this.requestHandler);
 		this.entitlement = new EntitlementMethods(this.requestHandler);
+		this.lobby = new LobbyMethods(this.requestHandler);
 		this.sku = new SkuMethods(this.requestHandler);
+		this.soundboard = new SoundboardMethods(this.requestHandler);
 	}
 }
 
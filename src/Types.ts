@@ -1,4 +1,8 @@
-import type { APIAllowedMentions } from "discord-api-types/v10";
+import type { APIAllowedMentions, APIApplicationCommand, APIApplicationCommandAutocompleteInteraction, APIApplicationCommandInteraction, APIChannel, APIInteractionResponse, APIMessageComponentInteraction, APIModalSubmitInteraction, ApplicationIntegrationType, APIUser, ImageSize, RESTPostAPIApplicationCommandsJSONBody, RESTPostAPIGuildBulkBanResult } from "discord-api-types/v10";
+
+import type { Readable } from "node:stream";
+
+import type { RatelimitStore } from "./RequestHandler";
 
 export type HTTPMethod = "get" | "post" | "patch" | "head" | "put" | "delete" | "connect" | "options" | "trace";
 
@@ -13,6 +17,129 @@ export type SnowTransferOptions = {
 	retryRequests: boolean;
 	/** How many times requests should be retried if they fail and can be retried. */
 	retryLimit: number;
+	/** Where rate limit buckets are kept. Defaults to an in process store. Use an IPCRatelimitStore to share rate limits between processes */
+	ratelimitStore: RatelimitStore | undefined;
+	/** How long to wait between retries and what gets retried if retryRequests is enabled. Missing values are taken from Constants.DEFAULT_RETRY_POLICY */
+	retryPolicy: Partial<RetryPolicy> | undefined;
+	/** Opens a span for every request. Pass a Tracer of @opentelemetry/api like `trace.getTracer("snowtransfer")` */
+	tracer: Tracer | undefined;
+	/** The OAuth2 session of a user to make requests as instead of a token. Its access token is refreshed before it expires or once Discord rejects it */
+	session: OAuth2Session | undefined;
+	/** If messages should be checked with validateMessage before they're sent, which throws a MessageValidationError instead of sending messages Discord would reject */
+	validateMessages: boolean;
+	/**
+	 * If files of messages should be uploaded to Discord's storage before sending the message, which is then sent without them.
+	 * Lifts the size limit of request bodies, and retries don't upload the files again. Streams need a size.
+	 * Webhook and interaction messages are only uploaded this way if upload_channel_id is set, since the files are uploaded to a channel using the token of the client.
+	 * The initial response to an interaction always contains its files
+	 */
+	cloudUploads: boolean;
+};
+
+export type OAuth2Session = {
+	/** The access token requests are made with */
+	accessToken: string;
+	/** The refresh token used to get a new access token */
+	refreshToken: string;
+	/** Unix timestamp in milliseconds of when the access token expires. The expires_in of a token result is in seconds, so use Date.now() + expires_in * 1000 */
+	expiresAt: number;
+	/** The ID of the application the session belongs to */
+	clientId: string;
+	/** The secret of the application the session belongs to */
+	clientSecret: string;
+};
+
+export type RetryPolicy = {
+	/** How long to wait before the first retry in milliseconds. Doubles with every retry after that */
+	baseDelay: number;
+	/** The longest to wait before a retry in milliseconds. Only 429s can ask for longer with a Retry-After header */
+	maxDelay: number;
+	/** How much of the delay is random, from 0 (none) to 1 (anywhere between 0 and the delay), so clients don't all retry at once */
+	jitter: number;
+	/** Status codes of responses to retry. 429s are always retried since Discord didn't act on those requests */
+	statusCodes: Array<number>;
+	/** Codes of network errors to retry. eg: ECONNRESET */
+	networkErrorCodes: Array<string>;
+	/** If POST and PATCH requests should be retried. Discord may already have acted on them, like sending a message a second time */
+	retryNonIdempotent: boolean;
+};
+
+export type RequestOptions = {
+	/** Signal to abort the request. Removes it from its Bucket if it wasn't sent yet, otherwise aborts the fetch */
+	signal: AbortSignal | undefined;
+	/** How long the request may take in milliseconds, including the time spent waiting in its Bucket and retries */
+	timeoutMs: number | undefined;
+	/** Overrides parts of the retry policy of the RequestHandler for this request */
+	retryPolicy: Partial<RetryPolicy> | undefined;
+	/** Context the span of this request is a child of if the RequestHandler has a tracer. eg: `context.active()` of @opentelemetry/api */
+	traceContext: unknown;
+};
+
+export type PaginationOptions = {
+	/** Which way to walk. before goes from newer to older items, after from older to newer. Not every endpoint supports both */
+	direction: "before" | "after";
+	/** Id of the item to start after (exclusive). Defaults to the newest item when walking before and the oldest when walking after */
+	start: string | undefined;
+	/** Id of the item to stop at (exclusive) */
+	end: string | undefined;
+	/** Max amount of items to yield in total */
+	limit: number | undefined;
+	/** Amount of items to request at once. Defaults to the max the endpoint allows */
+	pageSize: number | undefined;
+	/** Signal to stop walking. Aborts the request for the page in flight, and pending iterations reject with an AbortError */
+	signal: AbortSignal | undefined;
+};
+
+export type TokenlessOptions = {
+	/** The URL to start requests from. Defaults to https://discord.com */
+	baseHost: string;
+	/** The fetch function requests are made with. Defaults to the global fetch */
+	fetch: typeof fetch;
+};
+
+export type RoleConnectionUpdate = {
+	/** The name of the platform the user connected, like the name of your service (max 50 characters) */
+	platform_name?: string;
+	/** The name of the user on the platform (max 100 characters) */
+	platform_username?: string;
+	/**
+	 * Values of the user by the keys of the role connection metadata of the application.
+	 * Use numbers for integer metadata, booleans for boolean metadata and Dates (or ISO8601 strings) for datetime metadata
+	 */
+	metadata?: Record<string, string | number | boolean | Date>;
+};
+
+export type OAuth2AuthorizationURLOptions = {
+	/** Where Discord redirects the user to once they authorized. Has to be one of the redirects of the application */
+	redirectURI: string | undefined;
+	/** A value only you know, which Discord passes back to the redirect URI to prevent CSRF */
+	state: string | undefined;
+	/** If the user has to authorize again even if they already did (consent, default), or is redirected right away (none) */
+	prompt: "consent" | "none" | undefined;
+	/** code for the authorization code grant (default), token for the implicit grant */
+	responseType: "code" | "token" | undefined;
+	/** Permissions to ask for when adding a bot to a guild */
+	permissions: string | bigint | undefined;
+	/** Guild to preselect when adding a bot to a guild */
+	guildId: string | undefined;
+	/** If the user may not pick another guild than guildId */
+	disableGuildSelect: boolean | undefined;
+	/** Where to install the application to */
+	integrationType: ApplicationIntegrationType | undefined;
+	/** The PKCE code challenge, created by tokenless.generatePKCE. The code verifier then has to be passed when getting the token */
+	codeChallenge: string | undefined;
+};
+
+export type ImageURLOptions<Format extends string> = {
+	/** Format of the image. Defaults to gif for animated images and png for everything else */
+	format: Format | undefined;
+	/** Width and height of the image in pixels. A power of two between 16 and 4096 */
+	size: ImageSize | undefined;
+};
+
+export type EmojiURLOptions = ImageURLOptions<"png" | "jpeg" | "webp" | "gif"> & {
+	/** If the emoji is animated. Emoji ids don't tell, so check the animated property of the emoji */
+	animated: boolean | undefined;
 };
 
 export type RESTPostAPIAttachmentsRefreshURLsResult = {
@@ -22,6 +149,64 @@ export type RESTPostAPIAttachmentsRefreshURLsResult = {
 	}>;
 }
 
+export type APILobbyMember = {
+	/** Id of the user */
+	id: string;
+	/** Values the game keeps about the member, which are only visible to the game */
+	metadata?: Record<string, string> | null;
+	/** 1 << 0 (CanLinkLobby) lets the member link the lobby to a channel */
+	flags?: number;
+};
+
+export type APILobby = {
+	id: string;
+	application_id: string;
+	/** Values the game keeps about the lobby, which are only visible to the game */
+	metadata: Record<string, string> | null;
+	members: Array<APILobbyMember>;
+	/** The channel the lobby is linked to, if any */
+	linked_channel?: APIChannel;
+};
+
+export type APILobbyMessage = {
+	id: string;
+	type: number;
+	content: string;
+	lobby_id: string;
+	channel_id: string;
+	author: APIUser;
+	metadata?: Record<string, string> | null;
+	flags: number;
+	application_id?: string;
+};
+
+export type RESTPostAPILobbyJSONBody = {
+	metadata?: Record<string, string> | null;
+	/** Users to add to the lobby, at most 25 */
+	members?: Array<APILobbyMember>;
+	/** How long in seconds the lobby can be without members before it's deleted, between 5 and 604800 (7 days). Defaults to 300 */
+	idle_timeout_seconds?: number;
+};
+
+/** Members replace all members of the lobby if set */
+export type RESTPatchAPILobbyJSONBody = RESTPostAPILobbyJSONBody;
+
+export type RESTPutAPILobbyMemberJSONBody = Omit<APILobbyMember, "id">;
+
+export type RESTPostAPILobbyMessageJSONBody = {
+	content: string;
+	metadata?: Record<string, string> | null;
+};
+
+export type DiscordAPIFieldError = {
+	/** Dot separated path to the invalid field in the request body. eg: embeds.0.title */
+	path: string;
+	/** Discord's code for what is wrong with the field. eg: BASE_TYPE_REQUIRED */
+	code: string;
+	/** Human readable description of what is wrong with the field */
+	message: string;
+};
+
 export type RatelimitInfo = {
 	message: string;
 	retry_after: number;
@@ -29,6 +214,40 @@ export type RatelimitInfo = {
 	code?: number;
 }
 
+export type UploadProgress = {
+	endpoint: string;
+	method: string;
+	/** Bytes of the body sent so far */
+	sent: number;
+	/** Size of the body in bytes. Undefined if it contains streams whose size wasn't given */
+	total: number | undefined;
+};
+
+export type UploadFile = {
+	/** Name of the file, including its extension */
+	name: string;
+	/** Contents of the file. Streams are sent while they're read instead of being read into memory first */
+	file: Buffer | Blob | Readable | ReadableStream;
+	/** Size of the file in bytes if it's a stream. Lets the request have a Content-Length and upload progress a total */
+	size?: number;
+};
+
+export type WavInfo = {
+	/** Samples per second of each channel */
+	sampleRate: number;
+	channels: number;
+	bitsPerSample: number;
+	durationSeconds: number;
+	/** The samples mixed down to mono and scaled to 16 bit (-32768 to 32767) */
+	samples: Int16Array;
+};
+
+export type OggOpusInfo = {
+	channels: number;
+	/** Duration of the audio, without the samples the decoder skips at the start */
+	durationSeconds: number;
+};
+
 export type RequestEventData = {
 	endpoint: string;
 	method: string;
@@ -36,13 +255,162 @@ export type RequestEventData = {
 	data: any;
 }
 
+export type MiddlewareContext = {
+	/** Id of the request, the same as in the events of the RequestHandler */
+	reqId: string;
+	/** Endpoint to request, relative to the API URL. eg: /channels/266277541646434305 */
+	endpoint: string;
+	method: HTTPMethod;
+	/** URL query parameters to add on to the URL */
+	params: Record<string, any>;
+	/** All headers that will be sent, including Authorization and User-Agent */
+	headers: Record<string, string>;
+	dataType: "json" | "multipart";
+	/** Data to send. A MultipartBody or FormData if the dataType is multipart, otherwise anything that gets JSON stringified */
+	body: any;
+	/** Aborted when the request is aborted or times out */
+	signal: AbortSignal;
+};
+
+/**
+ * Runs for every request sent through a RequestHandler. Calling next sends the request (or runs the next middleware) with the context as it is at that point.
+ * Return its Response, a different one or one without calling next at all
+ */
+export type Middleware = (context: MiddlewareContext, next: () => Promise<Response>) => Promise<Response>;
+
+export type RetryEventData = {
+	endpoint: string;
+	method: string;
+	/** Which retry this is, starting at 1 */
+	attempt: number;
+	/** How long until the request is sent again in milliseconds */
+	delay: number;
+	/** The status code of the response that caused the retry, if there was one */
+	status: number | undefined;
+	/** The network error that caused the retry, if there was one */
+	error: Error | undefined;
+}
+
+export type SpanAttributes = Record<string, string | number | boolean | undefined>;
+
+/**
+ * The parts of an OpenTelemetry Span SnowTransfer uses. Spans of @opentelemetry/api fit this shape
+ */
+export type TraceSpan = {
+	setAttribute(key: string, value: string | number | boolean): unknown;
+	addEvent(name: string, attributes?: SpanAttributes): unknown;
+	/** code is 1 for OK and 2 for ERROR */
+	setStatus(status: { code: number; message?: string; }): unknown;
+	recordException(exception: Error): unknown;
+	end(): void;
+};
+
+/**
+ * The parts of an OpenTelemetry Tracer SnowTransfer uses. Tracers of @opentelemetry/api fit this shape
+ */
+export type Tracer = {
+	/** kind is 2 (CLIENT) for requests */
+	startSpan(name: string, options?: { kind?: number; attributes?: SpanAttributes; }, context?: any): TraceSpan;
+};
+
 export type HandlerEvents = {
 	request: [string, RequestEventData];
 	done: [string, Response, RequestEventData];
 	requestError: [string, Error];
-	rateLimit: [{ method: string; path: string; route: string; }];
+	retry: [string, RetryEventData];
+	rateLimit: [{ method: string; path: string; route: string; global: boolean; }];
+	tokenRefreshed: [OAuth2Session];
+	uploadProgress: [string, UploadProgress];
 }
 
+/**
+ * What an interaction handler returns. Sent to Discord as the response to the interaction. Nothing if the handler responded through InteractionMethods#createInteractionResponse itself
+ */
+export type InteractionHandlerResult = APIInteractionResponse | undefined | Promise<APIInteractionResponse | undefined>;
+
+export type InteractionHandlers = {
+	/** Handles slash commands and context menu commands */
+	applicationCommand: ((interaction: APIApplicationCommandInteraction) => InteractionHandlerResult) | undefined;
+	/** Handles buttons and select menus */
+	messageComponent: ((interaction: APIMessageComponentInteraction) => InteractionHandlerResult) | undefined;
+	/** Handles autocomplete of command options */
+	autocomplete: ((interaction: APIApplicationCommandAutocompleteInteraction) => InteractionHandlerResult) | undefined;
+	/** Handles submitted modals */
+	modalSubmit: ((interaction: APIModalSubmitInteraction) => InteractionHandlerResult) | undefined;
+};
+
+export type ProxyOptions = {
+	/** The largest request body in bytes to read. Larger requests are answered with a 413 without being forwarded. Defaults to Constants.PROXY_MAX_BODY_SIZE */
+	maxBodySize: number;
+};
+
+export type InteractionServerOptions = {
+	/** The largest request body in bytes to read. Larger requests are answered with a 413 before their signature is checked. Defaults to Constants.INTERACTION_MAX_BODY_SIZE */
+	maxBodySize: number;
+};
+
+export type InteractionContextOptions = {
+	/** If the interaction should be deferred when it wasn't responded to after autoDeferAfter. Defaults to true */
+	autoDefer: boolean;
+	/** How long in milliseconds after receiving the interaction it's deferred. Defaults to Constants.INTERACTION_AUTO_DEFER_AFTER */
+	autoDeferAfter: number;
+	/** If the response is ephemeral when the interaction is deferred automatically. Defaults to false */
+	ephemeral: boolean;
+	/** Unix timestamp in milliseconds of when the interaction was received, which the response windows start at. Defaults to when the InteractionContext was created */
+	receivedAt: number;
+};
+
+export type BulkBanOptions = {
+	/** How many seconds of messages of the users to delete, up to 604800 (7 days). Defaults to 0 */
+	deleteMessageSeconds: number | undefined;
+	/** Reason for the bans, shown in the audit log */
+	reason: string | undefined;
+	/** Called after every chunk of users was banned */
+	onProgress: ((progress: BulkBanProgress) => void) | undefined;
+};
+
+export type BulkBanProgress = {
+	/** Amount of users a ban was attempted for so far */
+	processed: number;
+	/** Amount of users to ban in total */
+	total: number;
+	/** Ids of the users banned so far */
+	banned_users: Array<string>;
+	/** Ids of the users that couldn't be banned so far, because they're already banned or can't be banned by the current user */
+	failed_users: Array<string>;
+};
+
+/** What bulkBanGuildMembers throws when a chunk fails */
+export type BulkBanError = Error & {
+	/** The banned_users and failed_users of the chunks before the one that failed */
+	partialResult: RESTPostAPIGuildBulkBanResult;
+};
+
+export type ApplicationCommandSyncOptions = {
+	/** Id of the guild to sync the commands of. Global commands are synced if not set */
+	guildId: string | undefined;
+	/** If the changes should only be worked out and not made. Defaults to false */
+	dryRun: boolean;
+};
+
+export type ApplicationCommandSyncResult = {
+	/** Commands that were created, as they were defined */
+	created: Array<RESTPostAPIApplicationCommandsJSONBody>;
+	/** Commands that were edited, with the fields that were different */
+	edited: Array<{ command: APIApplicationCommand; data: RESTPostAPIApplicationCommandsJSONBody; changes: Array<string>; }>;
+	/** Commands that were deleted since they weren't defined anymore */
+	deleted: Array<APIApplicationCommand>;
+	/** Commands that already matched their definition */
+	unchanged: Array<APIApplicationCommand>;
+};
+
+export type MessageValidationIssue = {
+	/** Dot separated path to the invalid field of the message. eg: embeds.0.fields.3.value */
+	path: string;
+	/** Human readable description of what is wrong with the field */
+	message: string;
+};
+
 export type SMState = {
 	onEnter: Array<(event: string) => unknown>;
 	onLeave: Array<(event: string) => unknown>;
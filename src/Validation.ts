@@ -0,0 +1,326 @@
+import {
+	type APIComponentInMessageActionRow,
+	type APIEmbed,
+	type APIMessageComponent,
+	type APIMessageTopLevelComponent,
+	type RESTAPIAttachment,
+	type RESTAPIPoll,
+	ButtonStyle,
+	ComponentType,
+	MessageFlags
+} from "discord-api-types/v10";
+
+import Constants = require("./Constants");
+
+import type { MessageValidationIssue } from "./Types";
+
+const limits = Constants.MESSAGE_LIMITS;
+
+/**
+ * Any payload that becomes a message, like the data of createMessage, editMessage, executeWebhook or a message interaction response
+ */
+export type ValidatableMessage = {
+	content?: string | null | undefined;
+	embeds?: Array<APIEmbed> | null | undefined;
+	components?: Array<APIMessageTopLevelComponent> | null | undefined;
+	poll?: RESTAPIPoll | null | undefined;
+	flags?: number | null | undefined;
+	sticker_ids?: Array<string> | null | undefined;
+	attachments?: Array<RESTAPIAttachment> | null | undefined;
+	files?: Array<{ name: string; }> | undefined;
+};
+
+/**
+ * Thrown by validateMessage with every limit the message breaks
+ * @since 0.19.0
+ */
+export class MessageValidationError extends Error {
+	/** Every invalid field of the message */
+	public errors: Array<MessageValidationIssue>;
+
+	public constructor(errors: Array<MessageValidationIssue>) {
+		super();
+		this.name = "MessageValidationError";
+		this.errors = errors;
+		this.message = `Invalid message${errors.map(e => `\n${e.path}: ${e.message}`).join("")}`;
+	}
+}
+
+type Context = {
+	issues: Array<MessageValidationIssue>;
+	/** If the message has the IsComponentsV2 flag. Undefined if that isn't known, since it's an edit without flags */
+	v2: boolean | undefined;
+	/** Path of the first component that used each custom_id */
+	customIds: Map<string, string>;
+	components: number;
+	textLength: number;
+	/** Names files can be referenced by with attachment://name. Null if the files aren't known, since components are checked on their own */
+	fileNames: Set<string> | null;
+};
+
+/**
+ * Check a message against Discord's limits before sending it, instead of having Discord answer with an Invalid Form Body error.
+ *
+ * Checks the length of the content and embeds (including the 6000 character total), the amount of embeds, fields and stickers,
+ * which components can be nested where and how many (for components v2 too), that custom_ids are unique, the length and amount of poll answers, the poll duration
+ * and that attachment://name URLs and attachments refer to files that are uploaded with the message.
+ * See Constants.MESSAGE_LIMITS for the limits
+ * @since 0.19.0
+ * @param data The message. Files are taken from data.files, like the methods that send messages take them
+ * @param edit If the message is an edit. Edits don't have to include the flags of the message, so if they don't, components are only checked against the rules of components v2, which are less strict
+ * @throws {MessageValidationError} Listing every invalid field with its path, like embeds.0.fields.3.value
+ *
+ * @example
+ * const { validateMessage } = require("snowtransfer")
+ * try {
+ * 	validateMessage({ embeds: [{ title: "a".repeat(300) }] })
+ * } catch (e) {
+ * 	console.log(e.errors) // [{ path: "embeds.0.title", message: "Must be 256 or fewer in length" }]
+ * }
+ */
+export function validateMessage(data: ValidatableMessage, edit = false): void {
+	const fileNames = new Set<string>();
+	const context: Context = {
+		issues: [],
+		v2: edit && (data.flags === undefined || data.flags === null) ? undefined : ((data.flags ?? 0) & MessageFlags.IsComponentsV2) === MessageFlags.IsComponentsV2,
+		customIds: new Map(),
+		components: 0,
+		textLength: 0,
+		fileNames
+	};
+	const files = data.files ?? [];
+	for (const file of files) fileNames.add(file.name);
+	data.attachments?.forEach((attachment, i) => {
+		if (attachment.filename !== undefined) fileNames.add(attachment.filename);
+		// Ids that aren't snowflakes refer to files[n] of the upload
+		if ((typeof attachment.id === "number" || /^\d{1,4}$/.test(attachment.id)) && Number(attachment.id) >= files.length) addIssue(context, `attachments.${i}.id`, `Refers to files[${attachment.id}], but only ${files.length} files are uploaded`);
+	});
+
+	if (data.content) {
+		if (context.v2) addIssue(context, "content", "Can't be set on messages with the IsComponentsV2 flag");
+		checkLength(context, "content", data.content, limits.contentLength);
+	}
+	if (data.sticker_ids && data.sticker_ids.length > limits.stickers) addIssue(context, "sticker_ids", `Must have ${limits.stickers} or fewer items`);
+	if (data.embeds?.length) {
+		if (context.v2) addIssue(context, "embeds", "Can't be set on messages with the IsComponentsV2 flag");
+		checkEmbeds(context, data.embeds);
+	}
+	if (data.poll) {
+		if (context.v2) addIssue(context, "poll", "Can't be set on messages with the IsComponentsV2 flag");
+		checkPoll(context, data.poll);
+	}
+	if (data.components) checkComponents(context, data.components);
+
+	if (context.issues.length) throw new MessageValidationError(context.issues);
+}
+
+/**
+ * Check top level components on their own against Discord's limits, like the component builders do. Works like validateMessage, except that attachment://name URLs aren't checked since the files aren't known
+ * @since 0.19.0
+ * @param components The components
+ * @param componentsV2 If the components are for a message with the IsComponentsV2 flag. Defaults to true
+ * @throws {MessageValidationError} Listing every invalid field with its path, like components.0.components.1.custom_id
+ *
+ * @example
+ * const { validateComponents } = require("snowtransfer")
+ * validateComponents([{ type: 10, content: "" }]) // Throws, since components.0.content is required
+ */
+export function validateComponents(components: Array<APIMessageTopLevelComponent>, componentsV2 = true): void {
+	const context: Context = {
+		issues: [],
+		v2: componentsV2,
+		customIds: new Map(),
+		components: 0,
+		textLength: 0,
+		fileNames: null
+	};
+	checkComponents(context, components);
+	if (context.issues.length) throw new MessageValidationError(context.issues);
+}
+
+function addIssue(context: Context, path: string, message: string): void {
+	context.issues.push({ path, message });
+}
+
+/**
+ * Length in code points, so characters outside of the BMP (like most emojis) count as one
+ */
+function lengthOf(text: string): number {
+	return Array.from(text).length;
+}
+
+function checkLength(context: Context, path: string, text: string | undefined, max: number, required = false): number {
+	if (text === undefined || text === "") {
+		if (required) addIssue(context, path, "Is required");
+		return 0;
+	}
+	const length = lengthOf(text);
+	if (length > max) addIssue(context, path, `Must be ${max} or fewer in length`);
+	return length;
+}
+
+function checkAmount(context: Context, path: string, items: Array<unknown> | undefined, min: number, max: number): void {
+	const amount = items?.length ?? 0;
+	if (amount < min) addIssue(context, path, `Must have ${min} or more items`);
+	else if (amount > max) addIssue(context, path, `Must have ${max} or fewer items`);
+}
+
+function checkFileReference(context: Context, path: string, url: string | undefined, required = false): void {
+	if (url === undefined) {
+		if (required) addIssue(context, path, "Is required");
+		return;
+	}
+	if (!url.startsWith("attachment://")) {
+		if (required) addIssue(context, path, "Must be an attachment://name URL of an uploaded file");
+		return;
+	}
+	const name = url.slice("attachment://".length);
+	if (context.fileNames && !context.fileNames.has(name)) addIssue(context, path, `Refers to the file ${name}, which isn't uploaded with the message`);
+}
+
+function checkEmbeds(context: Context, embeds: Array<APIEmbed>): void {
+	if (embeds.length > limits.embeds) addIssue(context, "embeds", `Must have ${limits.embeds} or fewer items`);
+
+	let total = 0;
+	embeds.forEach((embed, i) => {
+		const path = `embeds.${i}`;
+		total += checkLength(context, `${path}.title`, embed.title, limits.embedTitleLength);
+		total += checkLength(context, `${path}.description`, embed.description, limits.embedDescriptionLength);
+		total += checkLength(context, `${path}.footer.text`, embed.footer?.text, limits.embedFooterTextLength, embed.footer !== undefined);
+		total += checkLength(context, `${path}.author.name`, embed.author?.name, limits.embedAuthorNameLength, embed.author !== undefined);
+		if (embed.fields && embed.fields.length > limits.embedFields) addIssue(context, `${path}.fields`, `Must have ${limits.embedFields} or fewer items`);
+		embed.fields?.forEach((field, j) => {
+			total += checkLength(context, `${path}.fields.${j}.name`, field.name, limits.embedFieldNameLength, true);
+			total += checkLength(context, `${path}.fields.${j}.value`, field.value, limits.embedFieldValueLength, true);
+		});
+		checkFileReference(context, `${path}.image.url`, embed.image?.url);
+		checkFileReference(context, `${path}.thumbnail.url`, embed.thumbnail?.url);
+		checkFileReference(context, `${path}.author.icon_url`, embed.author?.icon_url);
+		checkFileReference(context, `${path}.footer.icon_url`, embed.footer?.icon_url);
+	});
+	if (total > limits.embedsTotalLength) addIssue(context, "embeds", `The combined length of all embeds must be ${limits.embedsTotalLength} or fewer, but is ${total}`);
+}
+
+function checkPoll(context: Context, poll: RESTAPIPoll): void {
+	checkLength(context, "poll.question.text", poll.question?.text, limits.pollQuestionLength, true);
+	checkAmount(context, "poll.answers", poll.answers, 1, limits.pollAnswers);
+	poll.answers?.forEach((answer, i) => checkLength(context, `poll.answers.${i}.poll_media.text`, answer.poll_media?.text, limits.pollAnswerLength, true));
+	if (poll.duration !== undefined && (!Number.isInteger(poll.duration) || poll.duration < 1 || poll.duration > limits.pollDuration)) addIssue(context, "poll.duration", `Must be a whole amount of hours between 1 and ${limits.pollDuration}`);
+}
+
+function checkComponents(context: Context, components: Array<APIMessageTopLevelComponent>): void {
+	if (context.v2 === false) {
+		if (components.length > limits.actionRows) addIssue(context, "components", `Must have ${limits.actionRows} or fewer items`);
+		components.forEach((component, i) => {
+			if (component.type !== ComponentType.ActionRow) addIssue(context, `components.${i}.type`, "Only action rows can be top level components of messages without the IsComponentsV2 flag");
+			else checkComponent(context, `components.${i}`, component);
+		});
+		return;
+	}
+
+	const topLevel = [ComponentType.ActionRow, ComponentType.Section, ComponentType.TextDisplay, ComponentType.MediaGallery, ComponentType.File, ComponentType.Separator, ComponentType.Container];
+	components.forEach((component, i) => {
+		if (!topLevel.includes(component.type)) addIssue(context, `components.${i}.type`, `Component type ${component.type} can't be a top level component`);
+		else checkComponent(context, `components.${i}`, component);
+	});
+	if (context.components > limits.components) addIssue(context, "components", `Must have ${limits.components} or fewer components including nested ones, but has ${context.components}`);
+	if (context.textLength > limits.textDisplaysTotalLength) addIssue(context, "components", `The combined length of all text displays must be ${limits.textDisplaysTotalLength} or fewer, but is ${context.textLength}`);
+}
+
+function checkComponent(context: Context, path: string, component: APIMessageComponent): void {
+	context.components++;
+
+	switch (component.type) {
+	case ComponentType.ActionRow: {
+		const isSelect = (child: APIComponentInMessageActionRow) => child.type !== ComponentType.Button;
+		if (component.components?.some(isSelect)) {
+			if (component.components.length > 1) addIssue(context, `${path}.components`, "Can either have buttons or one select menu");
+		} else checkAmount(context, `${path}.components`, component.components, 1, limits.actionRowButtons);
+		component.components?.forEach((child, i) => {
+			if (child.type !== ComponentType.Button && !isSelectType(child.type)) addIssue(context, `${path}.components.${i}.type`, "Only buttons and select menus can be in action rows");
+			else checkComponent(context, `${path}.components.${i}`, child);
+		});
+		break;
+	}
+	case ComponentType.Button:
+		if (component.style === ButtonStyle.Link) {
+			if (!component.url) addIssue(context, `${path}.url`, "Is required for link buttons");
+		} else if (component.style === ButtonStyle.Premium) {
+			if (!component.sku_id) addIssue(context, `${path}.sku_id`, "Is required for premium buttons");
+		} else checkCustomId(context, path, component.custom_id);
+		if ("label" in component) checkLength(context, `${path}.label`, component.label, limits.buttonLabelLength);
+		break;
+	case ComponentType.StringSelect:
+		checkAmount(context, `${path}.options`, component.options, 1, limits.selectOptions);
+		component.options?.forEach((option, i) => {
+			checkLength(context, `${path}.options.${i}.label`, option.label, limits.selectOptionLength, true);
+			checkLength(context, `${path}.options.${i}.value`, option.value, limits.selectOptionLength, true);
+			checkLength(context, `${path}.options.${i}.description`, option.description, limits.selectOptionLength);
+		});
+		if (component.max_values !== undefined && component.options && component.max_values > component.options.length) addIssue(context, `${path}.max_values`, "Can't be more than the amount of options");
+		// falls through
+	case ComponentType.UserSelect:
+	case ComponentType.RoleSelect:
+	case ComponentType.MentionableSelect:
+	case ComponentType.ChannelSelect:
+		checkCustomId(context, path, component.custom_id);
+		checkLength(context, `${path}.placeholder`, component.placeholder, limits.selectPlaceholderLength);
+		if (component.min_values !== undefined && (component.min_values < 0 || component.min_values > limits.selectOptions)) addIssue(context, `${path}.min_values`, `Must be between 0 and ${limits.selectOptions}`);
+		if (component.max_values !== undefined && (component.max_values < 1 || component.max_values > limits.selectOptions)) addIssue(context, `${path}.max_values`, `Must be between 1 and ${limits.selectOptions}`);
+		if (component.min_values !== undefined && component.max_values !== undefined && component.min_values > component.max_values) addIssue(context, `${path}.min_values`, "Can't be more than max_values");
+		break;
+	case ComponentType.Section:
+		checkAmount(context, `${path}.components`, component.components, 1, limits.sectionTextDisplays);
+		component.components?.forEach((child, i) => {
+			if (child.type !== ComponentType.TextDisplay) addIssue(context, `${path}.components.${i}.type`, "Only text displays can be in sections");
+			else checkComponent(context, `${path}.components.${i}`, child);
+		});
+		if (!component.accessory) addIssue(context, `${path}.accessory`, "Is required");
+		else if (component.accessory.type !== ComponentType.Thumbnail && component.accessory.type !== ComponentType.Button) addIssue(context, `${path}.accessory.type`, "The accessory of a section has to be a thumbnail or button");
+		else checkComponent(context, `${path}.accessory`, component.accessory);
+		break;
+	case ComponentType.TextDisplay:
+		context.textLength += checkLength(context, `${path}.content`, component.content, limits.textDisplaysTotalLength, true);
+		break;
+	case ComponentType.Thumbnail:
+		checkFileReference(context, `${path}.media.url`, component.media?.url);
+		checkLength(context, `${path}.description`, component.description ?? undefined, limits.mediaDescriptionLength);
+		break;
+	case ComponentType.MediaGallery:
+		checkAmount(context, `${path}.items`, component.items, 1, limits.mediaGalleryItems);
+		component.items?.forEach((item, i) => {
+			checkFileReference(context, `${path}.items.${i}.media.url`, item.media?.url);
+			checkLength(context, `${path}.items.${i}.description`, item.description ?? undefined, limits.mediaDescriptionLength);
+		});
+		break;
+	case ComponentType.File:
+		checkFileReference(context, `${path}.file.url`, component.file?.url, true);
+		break;
+	case ComponentType.Separator:
+		break;
+	case ComponentType.Container: {
+		const allowed = [ComponentType.ActionRow, ComponentType.TextDisplay, ComponentType.Section, ComponentType.MediaGallery, ComponentType.Separator, ComponentType.File];
+		if (!component.components?.length) addIssue(context, `${path}.components`, "Must have 1 or more items");
+		component.components?.forEach((child, i) => {
+			if (!allowed.includes(child.type)) addIssue(context, `${path}.components.${i}.type`, `Component type ${child.type} can't be in containers`);
+			else checkComponent(context, `${path}.components.${i}`, child);
+		});
+		break;
+	}
+	default:
+		addIssue(context, `${path}.type`, `Component type ${(component as { type: unknown; }).type} can't be used in messages`);
+	}
+
+	if (context.v2 === false && component.type !== ComponentType.ActionRow && component.type !== ComponentType.Button && !isSelectType(component.type)) addIssue(context, `${path}.type`, "Requires the IsComponentsV2 flag");
+}
+
+function isSelectType(type: ComponentType): boolean {
+	return type === ComponentType.StringSelect || type === ComponentType.UserSelect || type === ComponentType.RoleSelect || type === ComponentType.MentionableSelect || type === ComponentType.ChannelSelect;
+}
+
+function checkCustomId(context: Context, path: string, customId: string | undefined): void {
+	if (!checkLength(context, `${path}.custom_id`, customId, limits.customIdLength, true)) return;
+	const first = context.customIds.get(customId!);
+	if (first !== undefined) addIssue(context, `${path}.custom_id`, `Is already used by ${first}`);
+	else context.customIds.set(customId!, path);
+}
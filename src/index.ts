@@ -9,7 +9,9 @@ import GuildScheduledEventMethods2 = require("./methods/GuildScheduledEvent");
 import GuildTemplateMethods2 = require("./methods/GuildTemplate");
 import InteractionMethods2 = require("./methods/Interaction");
 import InviteMethods2 = require("./methods/Invite");
+import LobbyMethods2 = require("./methods/Lobby");
 import SkuMethods2 = require("./methods/Sku");
+import SoundboardMethods2 = require("./methods/Soundboard");
 import StageInstanceMethods2 = require("./methods/StageInstance");
 import UserMethods2 = require("./methods/User");
 import VoiceMethods2 = require("./methods/Voice");
@@ -17,8 +19,13 @@ import WebhookMethods2 = require("./methods/Webhook");
 
 import tokenless2 = require("./tokenless");
 
+import CDN2 = require("./CDN");
 import Constants2 = require("./Constants");
 import Endpoints2 = require("./Endpoints");
+import InteractionContext2 = require("./InteractionContext");
+import MetricsCollector2 = require("./Metrics");
+import MultipartBody2 = require("./Multipart");
+import SnowTransferProxy2 = require("./Proxy");
 import SnowTransfer2 = require("./SnowTransfer");
 import StateMachine2 = require("./StateMachine");
 import { graph } from "./StateMachineGraph";
@@ -26,6 +33,12 @@ const graphWrapped = { graph };
 
 export * from "./Types";
 export * from "./RequestHandler";
+export * from "./IPCRatelimitStore";
+export * from "./InteractionServer";
+export * from "./Validation";
+export * from "./Builders";
+export * from "./Audio";
+export { RESTJSONErrorCodes } from "discord-api-types/v10";
 
 export {
 	AuditLogMethods2 as AuditLogMethods,
@@ -39,7 +52,9 @@ export {
 	GuildTemplateMethods2 as GuildTemplateMethods,
 	InteractionMethods2 as InteractionMethods,
 	InviteMethods2 as InviteMethods,
+	LobbyMethods2 as LobbyMethods,
 	SkuMethods2 as SkuMethods,
+	SoundboardMethods2 as SoundboardMethods,
 	StageInstanceMethods2 as StageInstanceMethods,
 	UserMethods2 as UserMethods,
 	VoiceMethods2 as VoiceMethods,
@@ -47,9 +62,14 @@ export {
 
 	tokenless2 as tokenless,
 
+	CDN2 as CDN,
 	Constants2 as Constants,
 	Endpoints2 as Endpoints,
+	InteractionContext2 as InteractionContext,
+	MetricsCollector2 as MetricsCollector,
+	MultipartBody2 as MultipartBody,
 	SnowTransfer2 as SnowTransfer,
+	SnowTransferProxy2 as SnowTransferProxy,
 	StateMachine2 as StateMachine,
 	graphWrapped as StateMachineGraph
 };
@@ -2,6 +2,7 @@ import type { Readable } from "node:stream";
 
 import Constants = require("../Constants");
 import Endpoints = require("../Endpoints");
+import MultipartBody = require("../Multipart");
 
 import type { RequestHandler as RH } from "../RequestHandler";
 
@@ -30,6 +31,8 @@ import type {
 	RESTDeleteAPIApplicationEmojiResult
 } from "discord-api-types/v10";
 
+import type { RequestOptions } from "../Types";
+
 /**
  * Methods for interacting with assets like emojis and stickers for a guild/app
  * @since 0.13.0
@@ -50,14 +53,15 @@ class AssetsMethods {
 	 * Get a list of emojis of a guild
 	 * @since 0.13.0
 	 * @param guildId Id of the guild
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns Array of [emoji objects](https://discord.com/developers/docs/resources/emoji#emoji-object)
 	 *
 	 * @example
 	 * const client = new SnowTransfer("TOKEN")
 	 * const emojis = await client.assets.getGuildEmojis("guild id")
 	 */
-	public async getGuildEmojis(guildId: string): Promise<RESTGetAPIGuildEmojisResult> {
-		return this.requestHandler.request(Endpoints.GUILD_EMOJIS(guildId), {}, "get", "json");
+	public async getGuildEmojis(guildId: string, requestOptions?: Partial<RequestOptions>): Promise<RESTGetAPIGuildEmojisResult> {
+		return this.requestHandler.request(Endpoints.GUILD_EMOJIS(guildId), {}, "get", "json", undefined, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -65,14 +69,15 @@ class AssetsMethods {
 	 * @since 0.13.0
 	 * @param guildId Id of the guild
 	 * @param emojiId Id of the emoji
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns [Emoji object](https://discord.com/developers/docs/resources/emoji#emoji-object)
 	 *
 	 * @example
 	 * const client = new SnowTransfer("TOKEN")
 	 * const emoji = await client.assets.getGuildEmoji("guild id", "emoji id")
 	 */
-	public async getGuildEmoji(guildId: string, emojiId: string): Promise<RESTGetAPIGuildEmojiResult> {
-		return this.requestHandler.request(Endpoints.GUILD_EMOJI(guildId, emojiId), {}, "get", "json");
+	public async getGuildEmoji(guildId: string, emojiId: string, requestOptions?: Partial<RequestOptions>): Promise<RESTGetAPIGuildEmojiResult> {
+		return this.requestHandler.request(Endpoints.GUILD_EMOJI(guildId, emojiId), {}, "get", "json", undefined, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -81,6 +86,7 @@ class AssetsMethods {
 	 * @param guildId Id of the guild
 	 * @param data Emoji data, check the example
 	 * @param reason Reason for creating the emoji
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns [Emoji object](https://discord.com/developers/docs/resources/emoji#emoji-object)
 	 *
 	 * | Permissions needed         | Condition |
@@ -97,8 +103,8 @@ class AssetsMethods {
 	 * \}
 	 * client.assets.createGuildEmoji("guild id", emojiData)
 	 */
-	public async createGuildEmoji(guildId: string, data: RESTPostAPIGuildEmojiJSONBody, reason?: string): Promise<RESTPostAPIGuildEmojiResult> {
-		return this.requestHandler.request(Endpoints.GUILD_EMOJIS(guildId), {}, "post", "json", data, Constants.reasonHeader(reason));
+	public async createGuildEmoji(guildId: string, data: RESTPostAPIGuildEmojiJSONBody, reason?: string, requestOptions?: Partial<RequestOptions>): Promise<RESTPostAPIGuildEmojiResult> {
+		return this.requestHandler.request(Endpoints.GUILD_EMOJIS(guildId), {}, "post", "json", data, Constants.reasonHeader(reason), undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -108,6 +114,7 @@ class AssetsMethods {
 	 * @param emojiId Id of the emoji
 	 * @param data Emoji data
 	 * @param reason Reason for updating the emoji
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns [Emoji object](https://discord.com/developers/docs/resources/emoji#emoji-object)
 	 *
 	 * | Permissions needed         | Condition |
@@ -122,8 +129,8 @@ class AssetsMethods {
 	 * }
 	 * client.assets.editGuildEmoji("guild id", "emoji id", emojiData)
 	 */
-	public async editGuildEmoji(guildId: string, emojiId: string, data: RESTPatchAPIGuildEmojiJSONBody, reason?: string): Promise<RESTPatchAPIGuildEmojiResult> {
-		return this.requestHandler.request(Endpoints.GUILD_EMOJI(guildId, emojiId), {}, "patch", "json", data, Constants.reasonHeader(reason));
+	public async editGuildEmoji(guildId: string, emojiId: string, data: RESTPatchAPIGuildEmojiJSONBody, reason?: string, requestOptions?: Partial<RequestOptions>): Promise<RESTPatchAPIGuildEmojiResult> {
+		return this.requestHandler.request(Endpoints.GUILD_EMOJI(guildId, emojiId), {}, "patch", "json", data, Constants.reasonHeader(reason), undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -132,6 +139,7 @@ class AssetsMethods {
 	 * @param guildId Id of the guild
 	 * @param emojiId Id of the emoji
 	 * @param reason Reason for deleting the emoji
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns Resolves the Promise on successful execution
 	 *
 	 * | Permissions needed         | Condition |
@@ -143,28 +151,30 @@ class AssetsMethods {
 	 * const client = new SnowTransfer("TOKEN")
 	 * client.assets.deleteGuildEmoji("guild id", "emoji id", "wasn't nice")
 	 */
-	public async deleteGuildEmoji(guildId: string, emojiId: string, reason?: string): Promise<RESTDeleteAPIGuildEmojiResult> {
-		return this.requestHandler.request(Endpoints.GUILD_EMOJI(guildId, emojiId), {}, "delete", "json", {}, Constants.reasonHeader(reason));
+	public async deleteGuildEmoji(guildId: string, emojiId: string, reason?: string, requestOptions?: Partial<RequestOptions>): Promise<RESTDeleteAPIGuildEmojiResult> {
+		return this.requestHandler.request(Endpoints.GUILD_EMOJI(guildId, emojiId), {}, "delete", "json", {}, Constants.reasonHeader(reason), undefined, undefined, requestOptions);
 	}
 
 	/**
 	 * Get a global sticker
 	 * @since 0.13.0
 	 * @param stickerId Id of the sticker
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns [Sticker object](https://discord.com/developers/docs/resources/sticker#sticker-object)
 	 *
 	 * @example
 	 * const client = new SnowTransfer("TOKEN")
 	 * const sticker = await client.assets.getSticker("sticker id")
 	 */
-	public async getSticker(stickerId: string): Promise<RESTGetAPIStickerResult> {
-		return this.requestHandler.request(Endpoints.STICKER(stickerId), {}, "get", "json");
+	public async getSticker(stickerId: string, requestOptions?: Partial<RequestOptions>): Promise<RESTGetAPIStickerResult> {
+		return this.requestHandler.request(Endpoints.STICKER(stickerId), {}, "get", "json", undefined, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
 	 * Get all guild stickers
 	 * @since 0.13.0
 	 * @param guildId Id of the guild
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns An Array of [sticker objects](https://discord.com/developers/docs/resources/sticker#sticker-object)
 	 *
 	 * | Permissions needed         | Condition                                   |
@@ -175,8 +185,8 @@ class AssetsMethods {
 	 * const client = new SnowTransfer("TOKEN")
 	 * const stickers = await client.assets.getGuildStickers("guild id")
 	 */
-	public async getGuildStickers(guildId: string): Promise<RESTGetAPIGuildStickersResult> {
-		return this.requestHandler.request(Endpoints.GUILD_STICKERS(guildId), {}, "get", "json");
+	public async getGuildStickers(guildId: string, requestOptions?: Partial<RequestOptions>): Promise<RESTGetAPIGuildStickersResult> {
+		return this.requestHandler.request(Endpoints.GUILD_STICKERS(guildId), {}, "get", "json", undefined, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -184,6 +194,7 @@ class AssetsMethods {
 	 * @since 0.13.0
 	 * @param guildId Id of the guild
 	 * @param stickerId Id of the sticker
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns A [sticker object](https://discord.com/developers/docs/resources/sticker#sticker-object)
 	 *
 	 * | Permissions needed         | Condition                                   |
@@ -194,8 +205,8 @@ class AssetsMethods {
 	 * const client = new SnowTransfer("TOKEN")
 	 * const sticker = await client.assets.getGuildSticker("guild id", "sticker id")
 	 */
-	public async getGuildSticker(guildId: string, stickerId: string): Promise<RESTGetAPIGuildStickerResult> {
-		return this.requestHandler.request(Endpoints.GUILD_STICKER(guildId, stickerId), {}, "get", "json");
+	public async getGuildSticker(guildId: string, stickerId: string, requestOptions?: Partial<RequestOptions>): Promise<RESTGetAPIGuildStickerResult> {
+		return this.requestHandler.request(Endpoints.GUILD_STICKER(guildId, stickerId), {}, "get", "json", undefined, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -204,6 +215,7 @@ class AssetsMethods {
 	 * @param guildId Id of the guild
 	 * @param data Sticker data
 	 * @param reason Reason for creating the sticker
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns A [sticker object](https://discord.com/developers/docs/resources/sticker#sticker-object)
 	 *
 	 * | Permissions needed          | Condition                                       |
@@ -226,14 +238,14 @@ class AssetsMethods {
 	 * }
 	 * const sticker = await client.assets.createGuildSticker("guild id", stickerData)
 	 */
-	public async createGuildSticker(guildId: string, data: RESTPostAPIGuildStickerFormDataBody & { file: Buffer | Blob | File | Readable | ReadableStream; }, reason?: string): Promise<RESTPostAPIGuildStickerResult> {
-		const form = new FormData();
+	public async createGuildSticker(guildId: string, data: RESTPostAPIGuildStickerFormDataBody & { file: Buffer | Blob | File | Readable | ReadableStream; }, reason?: string, requestOptions?: Partial<RequestOptions>): Promise<RESTPostAPIGuildStickerResult> {
+		const form = new MultipartBody();
 
 		for (const [key, value] of Object.entries(data)) {
 			await Constants.standardAddToFormHandler(form, key, value);
 		}
 
-		return this.requestHandler.request(Endpoints.GUILD_STICKERS(guildId), {}, "post", "multipart", form, Constants.reasonHeader(reason));
+		return this.requestHandler.request(Endpoints.GUILD_STICKERS(guildId), {}, "post", "multipart", form, Constants.reasonHeader(reason), undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -243,6 +255,7 @@ class AssetsMethods {
 	 * @param stickerId Id of the sticker
 	 * @param data Sticker data
 	 * @param reason Reason for updating the sticker
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns A [sticker object](https://discord.com/developers/docs/resources/sticker#sticker-object)
 	 *
 	 * | Permissions needed         | Condition |
@@ -254,8 +267,8 @@ class AssetsMethods {
 	 * const client = new SnowTransfer("TOKEN")
 	 * const sticker = await client.assets.editGuildSticker("guild id", "sticker id", { name: "nicerSticker" }, "because it was nicer")
 	 */
-	public async editGuildSticker(guildId: string, stickerId: string, data: RESTPatchAPIGuildStickerJSONBody, reason?: string): Promise<RESTPatchAPIGuildStickerResult> {
-		return this.requestHandler.request(Endpoints.GUILD_STICKER(guildId, stickerId), {}, "patch", "json", data, Constants.reasonHeader(reason));
+	public async editGuildSticker(guildId: string, stickerId: string, data: RESTPatchAPIGuildStickerJSONBody, reason?: string, requestOptions?: Partial<RequestOptions>): Promise<RESTPatchAPIGuildStickerResult> {
+		return this.requestHandler.request(Endpoints.GUILD_STICKER(guildId, stickerId), {}, "patch", "json", data, Constants.reasonHeader(reason), undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -264,6 +277,7 @@ class AssetsMethods {
 	 * @param guildId Id of the guild
 	 * @param stickerId Id of the sticker
 	 * @param reason Reason for deleting the sticker
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns Resolves the Promise on successful execution
 	 *
 	 * | Permissions needed         | Condition |
@@ -275,14 +289,15 @@ class AssetsMethods {
 	 * const client = new SnowTransfer("TOKEN")
 	 * client.assets.deleteGuildSticker("guild id", "sticker id", "It was too nice")
 	 */
-	public async deleteGuildSticker(guildId: string, stickerId: string, reason?: string): Promise<RESTDeleteAPIGuildStickerResult> {
-		return this.requestHandler.request(Endpoints.GUILD_STICKER(guildId, stickerId), {}, "delete", "json", {}, Constants.reasonHeader(reason));
+	public async deleteGuildSticker(guildId: string, stickerId: string, reason?: string, requestOptions?: Partial<RequestOptions>): Promise<RESTDeleteAPIGuildStickerResult> {
+		return this.requestHandler.request(Endpoints.GUILD_STICKER(guildId, stickerId), {}, "delete", "json", {}, Constants.reasonHeader(reason), undefined, undefined, requestOptions);
 	}
 
 	/**
 	 * Get all emojis for an app
 	 * @since 0.13.0
 	 * @param appId Id of the app
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns An Array of [emoji objects](https://discord.com/developers/docs/resources/emoji#emoji-object)
 	 *
 	 * @example
@@ -290,8 +305,8 @@ class AssetsMethods {
 	 * const client = new SnowTransfer("TOKEN")
 	 * const emojis = await client.assets.getAppEmojis("app id")
 	 */
-	public async getAppEmojis(appId: string): Promise<RESTGetAPIApplicationEmojisResult> {
-		return this.requestHandler.request(Endpoints.APPLICATION_EMOJIS(appId), {}, "get", "json");
+	public async getAppEmojis(appId: string, requestOptions?: Partial<RequestOptions>): Promise<RESTGetAPIApplicationEmojisResult> {
+		return this.requestHandler.request(Endpoints.APPLICATION_EMOJIS(appId), {}, "get", "json", undefined, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -299,6 +314,7 @@ class AssetsMethods {
 	 * @since 0.13.0
 	 * @param appId Id of the app
 	 * @param emojiId Id of the emoji
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns [emoji object](https://discord.com/developers/docs/resources/emoji#emoji-object)
 	 *
 	 * @example
@@ -306,8 +322,8 @@ class AssetsMethods {
 	 * const client = new SnowTransfer("TOKEN")
 	 * const emoji = await client.assets.getAppEmoji("app id", "emoji id")
 	 */
-	public async getAppEmoji(appId: string, emojiId: string): Promise<RESTGetAPIApplicationEmojiResult> {
-		return this.requestHandler.request(Endpoints.APPLICATION_EMOJI(appId, emojiId), {}, "get", "json");
+	public async getAppEmoji(appId: string, emojiId: string, requestOptions?: Partial<RequestOptions>): Promise<RESTGetAPIApplicationEmojiResult> {
+		return this.requestHandler.request(Endpoints.APPLICATION_EMOJI(appId, emojiId), {}, "get", "json", undefined, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -315,6 +331,7 @@ class AssetsMethods {
 	 * @since 0.13.0
 	 * @param appId Id of the app
 	 * @param data Emoji data, check the example
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns [emoji object](https://discord.com/developers/docs/resources/emoji#emoji-object)
 	 *
 	 * @example
@@ -327,8 +344,8 @@ class AssetsMethods {
 	 * \}
 	 * client.assets.createAppEmoji("app id", emojiData)
 	 */
-	public async createAppEmoji(appId: string, data: RESTPostAPIApplicationEmojiJSONBody): Promise<RESTPostAPIApplicationEmojiResult> {
-		return this.requestHandler.request(Endpoints.APPLICATION_EMOJIS(appId), {}, "post", "json", data);
+	public async createAppEmoji(appId: string, data: RESTPostAPIApplicationEmojiJSONBody, requestOptions?: Partial<RequestOptions>): Promise<RESTPostAPIApplicationEmojiResult> {
+		return this.requestHandler.request(Endpoints.APPLICATION_EMOJIS(appId), {}, "post", "json", data, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -337,6 +354,7 @@ class AssetsMethods {
 	 * @param appId Id of the app
 	 * @param emojiId Id of the emoji
 	 * @param data Emoji data
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns [emoji object](https://discord.com/developers/docs/resources/emoji#emoji-object)
 	 *
 	 * @example
@@ -347,8 +365,8 @@ class AssetsMethods {
 	 * }
 	 * client.assets.editAppEmoji("app id", "emoji id", emojiData)
 	 */
-	public async editAppEmoji(appId: string, emojiId: string, data: RESTPatchAPIApplicationEmojiJSONBody): Promise<RESTPatchAPIApplicationEmojiResult> {
-		return this.requestHandler.request(Endpoints.APPLICATION_EMOJI(appId, emojiId), {}, "patch", "json", data);
+	public async editAppEmoji(appId: string, emojiId: string, data: RESTPatchAPIApplicationEmojiJSONBody, requestOptions?: Partial<RequestOptions>): Promise<RESTPatchAPIApplicationEmojiResult> {
+		return this.requestHandler.request(Endpoints.APPLICATION_EMOJI(appId, emojiId), {}, "patch", "json", data, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -356,6 +374,7 @@ class AssetsMethods {
 	 * @since 0.13.0
 	 * @param appId Id of the app
 	 * @param emojiId Id of the emoji
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns Resolves the Promise on successful execution
 	 *
 	 * @example
@@ -364,8 +383,8 @@ class AssetsMethods {
 	 * client.assets.deleteAppEmoji("app id", "emoji id") // OH GOD THE UNIVERSE IS COLLAPSING
 	 * // We're safe. The emoji is gone. For now...
 	 */
-	public async deleteAppEmoji(appId: string, emojiId: string): Promise<RESTDeleteAPIApplicationEmojiResult> {
-		return this.requestHandler.request(Endpoints.APPLICATION_EMOJI(appId, emojiId), {}, "delete", "json");
+	public async deleteAppEmoji(appId: string, emojiId: string, requestOptions?: Partial<RequestOptions>): Promise<RESTDeleteAPIApplicationEmojiResult> {
+		return this.requestHandler.request(Endpoints.APPLICATION_EMOJI(appId, emojiId), {}, "delete", "json", undefined, undefined, undefined, undefined, requestOptions);
 	}
 }
 
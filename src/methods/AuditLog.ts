@@ -1,4 +1,6 @@
 import Endpoints = require("../Endpoints");
+import Constants = require("../Constants");
+import { paginate } from "../Pagination";
 
 import type { RequestHandler as RH } from "../RequestHandler";
 
@@ -7,6 +9,8 @@ import type {
 	RESTGetAPIAuditLogResult
 } from "discord-api-types/v10";
 
+import type { PaginationOptions, RequestOptions } from "../Types";
+
 /**
  * Methods for interacting with Guild Audit Logs
  * @since 0.2.0
@@ -28,6 +32,7 @@ class AuditLogMethods {
 	 * @since 0.2.0
 	 * @param guildId id of a guild
 	 * @param options optional audit log filter values
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns An object with [audit log data](https://discord.com/developers/docs/resources/audit-log#audit-log-object)
 	 *
 	 * | Permissions needed | Condition |
@@ -43,8 +48,32 @@ class AuditLogMethods {
 	 * }
 	 * const channel = await client.auditLog.getAuditLog("guild id", data)
 	 */
-	public async getAuditLog(guildId: string, options?: RESTGetAPIAuditLogQuery): Promise<RESTGetAPIAuditLogResult> {
-		return this.requestHandler.request(Endpoints.GUILD_AUDIT_LOGS(guildId), options, "get", "json");
+	public async getAuditLog(guildId: string, options?: RESTGetAPIAuditLogQuery, requestOptions?: Partial<RequestOptions>): Promise<RESTGetAPIAuditLogResult> {
+		return this.requestHandler.request(Endpoints.GUILD_AUDIT_LOGS(guildId), options, "get", "json", undefined, undefined, undefined, undefined, requestOptions);
+	}
+
+	/**
+	 * Walk through the audit log entries of the specified guild id, requesting as many pages as needed
+	 *
+	 * Only the entries are yielded. Use getAuditLog if the users, webhooks and other objects they reference are needed as well
+	 * @since 0.19.0
+	 * @param guildId id of a guild
+	 * @param options Options for walking the entries and optional audit log filter values. Walks before (newest to oldest) by default
+	 * @returns An async iterable of [audit log entries](https://discord.com/developers/docs/resources/audit-log#audit-log-entry-object)
+	 *
+	 * | Permissions needed | Condition |
+	 * |--------------------|-----------|
+	 * | VIEW_AUDIT_LOG     | always    |
+	 *
+	 * @example
+	 * // Walk through the entries of user 12345678901234567 updating themself (24 is MEMBER_UPDATE) until the entry with id 98765432109876543
+	 * const client = new SnowTransfer("TOKEN")
+	 * for await (const entry of client.auditLog.iterateAuditLog("guild id", { user_id: "12345678901234567", action_type: 24, end: "98765432109876543" })) {
+	 * 	console.log(entry.changes)
+	 * }
+	 */
+	public iterateAuditLog(guildId: string, options?: Partial<PaginationOptions> & Pick<RESTGetAPIAuditLogQuery, "user_id" | "action_type">): AsyncGenerator<RESTGetAPIAuditLogResult["audit_log_entries"][number], void, undefined> {
+		return paginate(async query => (await this.getAuditLog(guildId, { user_id: options?.user_id, action_type: options?.action_type, ...query }, { signal: options?.signal })).audit_log_entries, e => e.id, Constants.GET_AUDIT_LOG_MAX_RESULTS, ["before", "after"], options);
 	}
 }
 
@@ -12,6 +12,8 @@ import type {
 	RESTDeleteAPIAutoModerationRuleResult
 } from "discord-api-types/v10";
 
+import type { RequestOptions } from "../Types";
+
 /**
  * Methods for interacting with guild auto moderation
  * @since 0.7.0
@@ -32,6 +34,7 @@ class AutoModerationMethods {
 	 * Get all of the auto moderation rules from a guild
 	 * @since 0.7.0
 	 * @param guildId id of the guild
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns A list of [auto mod rules](https://discord.com/developers/docs/resources/auto-moderation#auto-moderation-rule-object)
 	 *
 	 * | Permissions needed | Condition |
@@ -43,8 +46,8 @@ class AutoModerationMethods {
 	 * const client = new SnowTransfer("TOKEN")
 	 * const rules = await client.autoMod.getAutoModerationRules("guild id")
 	 */
-	public async getAutoModerationRules(guildId: string): Promise<RESTGetAPIAutoModerationRulesResult> {
-		return this.requestHandler.request(Endpoints.GUILD_AUTO_MOD_RULES(guildId), {}, "get", "json");
+	public async getAutoModerationRules(guildId: string, requestOptions?: Partial<RequestOptions>): Promise<RESTGetAPIAutoModerationRulesResult> {
+		return this.requestHandler.request(Endpoints.GUILD_AUTO_MOD_RULES(guildId), {}, "get", "json", undefined, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -52,6 +55,7 @@ class AutoModerationMethods {
 	 * @since 0.7.0
 	 * @param guildId id of the guild
 	 * @param ruleId id of the rule
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns An [auto mod rule](https://discord.com/developers/docs/resources/auto-moderation#auto-moderation-rule-object)
 	 *
 	 * | Permissions needed | Condition |
@@ -63,8 +67,8 @@ class AutoModerationMethods {
 	 * const client = new SnowTransfer("TOKEN")
 	 * const rule = await client.autoMod.getAutoModerationRule("guild id", "rule id")
 	 */
-	public async getAutoModerationRule(guildId: string, ruleId: string): Promise<RESTGetAPIAutoModerationRuleResult> {
-		return this.requestHandler.request(Endpoints.GUILD_AUTO_MOD_RULE(guildId, ruleId), {}, "get", "json");
+	public async getAutoModerationRule(guildId: string, ruleId: string, requestOptions?: Partial<RequestOptions>): Promise<RESTGetAPIAutoModerationRuleResult> {
+		return this.requestHandler.request(Endpoints.GUILD_AUTO_MOD_RULE(guildId, ruleId), {}, "get", "json", undefined, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -73,6 +77,7 @@ class AutoModerationMethods {
 	 * @param guildId id of the guild
 	 * @param data the data of the auto moderation rule
 	 * @param reason Reason for creating the auto moderation rule
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns An [auto mod rule](https://discord.com/developers/docs/resources/auto-moderation#auto-moderation-rule-object)
 	 *
 	 * | Permissions needed | Condition |
@@ -96,8 +101,8 @@ class AutoModerationMethods {
 	 * }
 	 * const newRule = await client.autoMod.createAutoModerationRule("guild id", data)
 	 */
-	public async createAutoModerationRule(guildId: string, data: RESTPostAPIAutoModerationRuleJSONBody, reason?: string): Promise<RESTPostAPIAutoModerationRuleResult> {
-		return this.requestHandler.request(Endpoints.GUILD_AUTO_MOD_RULES(guildId), {}, "post", "json", data, Constants.reasonHeader(reason));
+	public async createAutoModerationRule(guildId: string, data: RESTPostAPIAutoModerationRuleJSONBody, reason?: string, requestOptions?: Partial<RequestOptions>): Promise<RESTPostAPIAutoModerationRuleResult> {
+		return this.requestHandler.request(Endpoints.GUILD_AUTO_MOD_RULES(guildId), {}, "post", "json", data, Constants.reasonHeader(reason), undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -107,6 +112,7 @@ class AutoModerationMethods {
 	 * @param ruleId id of the rule
 	 * @param data the data of the auto moderation rule
 	 * @param reason Reason for editing the auto moderation rule
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns An [auto mod rule](https://discord.com/developers/docs/resources/auto-moderation#auto-moderation-rule-object)
 	 *
 	 * | Permissions needed | Condition |
@@ -122,8 +128,8 @@ class AutoModerationMethods {
 	 * }
 	 * const updatedRule = await client.autoMod.editAutoModerationRule("guild id", "rule id", data, "It's turned off by default and I forgor")
 	 */
-	public async editAutoModerationRule(guildId: string, ruleId: string, data: RESTPatchAPIAutoModerationRuleJSONBody, reason?: string): Promise<RESTPatchAPIAutoModerationRuleResult> {
-		return this.requestHandler.request(Endpoints.GUILD_AUTO_MOD_RULE(guildId, ruleId), {}, "patch", "json", data, Constants.reasonHeader(reason));
+	public async editAutoModerationRule(guildId: string, ruleId: string, data: RESTPatchAPIAutoModerationRuleJSONBody, reason?: string, requestOptions?: Partial<RequestOptions>): Promise<RESTPatchAPIAutoModerationRuleResult> {
+		return this.requestHandler.request(Endpoints.GUILD_AUTO_MOD_RULE(guildId, ruleId), {}, "patch", "json", data, Constants.reasonHeader(reason), undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -132,6 +138,7 @@ class AutoModerationMethods {
 	 * @param guildId id of the guild
 	 * @param ruleId id of the rule
 	 * @param reason Reason for deleting the rule
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns Resolves the Promise on successful execution
 	 *
 	 * | Permissions needed | Condition |
@@ -142,8 +149,8 @@ class AutoModerationMethods {
 	 * const client = new SnowTransfer("TOKEN")
 	 * client.autoMod.deleteAutoModerationRule("guild id", "rule id", "was useless")
 	 */
-	public async deleteAutoModerationRule(guildId: string, ruleId: string, reason?: string): Promise<RESTDeleteAPIAutoModerationRuleResult> {
-		return this.requestHandler.request(Endpoints.GUILD_AUTO_MOD_RULE(guildId, ruleId), {}, "delete", "json", {}, Constants.reasonHeader(reason));
+	public async deleteAutoModerationRule(guildId: string, ruleId: string, reason?: string, requestOptions?: Partial<RequestOptions>): Promise<RESTDeleteAPIAutoModerationRuleResult> {
+		return this.requestHandler.request(Endpoints.GUILD_AUTO_MOD_RULE(guildId, ruleId), {}, "delete", "json", {}, Constants.reasonHeader(reason), undefined, undefined, requestOptions);
 	}
 }
 
@@ -1,3 +1,4 @@
+import Constants = require("../Constants");
 import Endpoints = require("../Endpoints");
 
 import type { RequestHandler as RH } from "../RequestHandler";
@@ -6,8 +7,14 @@ import type {
 	RESTGetAPIGatewayBotResult,
 	RESTGetAPIGatewayResult,
 	APIApplication,
-	RESTPatchCurrentApplicationJSONBody
+	RESTGetAPIApplicationRoleConnectionMetadataResult,
+	RESTPatchCurrentApplicationJSONBody,
+	RESTPutAPIApplicationRoleConnectionMetadataJSONBody,
+	RESTPutAPIApplicationRoleConnectionMetadataResult
 } from "discord-api-types/v10";
+import { ApplicationRoleConnectionMetadataType } from "discord-api-types/v10";
+
+import type { RequestOptions } from "../Types";
 
 /**
  * Methods for interacting with bot specific endpoints
@@ -28,6 +35,7 @@ class BotMethods {
 	/**
 	 * Get the gateway url to connect to
 	 * @since 0.1.0
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns [Gateway data](https://discord.com/developers/docs/topics/gateway#get-gateway-example-response)
 	 *
 	 * @example
@@ -35,13 +43,14 @@ class BotMethods {
 	 * const result = await client.bot.getGateway()
 	 * // result should be something like { url: "wss://gateway.discord.gg" }
 	 */
-	public async getGateway(): Promise<RESTGetAPIGatewayResult> {
-		return this.requestHandler.request(Endpoints.GATEWAY, {}, "get", "json");
+	public async getGateway(requestOptions?: Partial<RequestOptions>): Promise<RESTGetAPIGatewayResult> {
+		return this.requestHandler.request(Endpoints.GATEWAY, {}, "get", "json", undefined, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
 	 * Get the gateway url to connect to and a recommended amount of shards to use
 	 * @since 0.1.0
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns [Gateway data](https://discord.com/developers/docs/topics/gateway#get-gateway-example-response)
 	 *
 	 * @example
@@ -49,26 +58,28 @@ class BotMethods {
 	 * const result = await client.bot.getGatewayBot()
 	 * // result should be something like { url: "wss://gateway.discord.gg", shards: 1, session_start_limit: { total: 1000, remaining: 999, reset_after: 14400000, max_concurrency: 1 } }
 	 */
-	public async getGatewayBot(): Promise<RESTGetAPIGatewayBotResult> {
-		return this.requestHandler.request(Endpoints.GATEWAY_BOT, {}, "get", "json");
+	public async getGatewayBot(requestOptions?: Partial<RequestOptions>): Promise<RESTGetAPIGatewayBotResult> {
+		return this.requestHandler.request(Endpoints.GATEWAY_BOT, {}, "get", "json", undefined, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
 	 * Get the Application Object for the Current User
 	 * @since 0.11.0
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns An [Application object](https://discord.com/developers/docs/resources/application#application-object-application-structure)
 	 *
 	 * @example
 	 * const client = new SnowTransfer("TOKEN")
 	 * const result = await client.bot.getApplicationInfo()
 	 */
-	public async getApplicationInfo(): Promise<APIApplication> {
-		return this.requestHandler.request(Endpoints.OAUTH2_APPLICATION("@me"), {}, "get", "json");
+	public async getApplicationInfo(requestOptions?: Partial<RequestOptions>): Promise<APIApplication> {
+		return this.requestHandler.request(Endpoints.OAUTH2_APPLICATION("@me"), {}, "get", "json", undefined, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
 	 * Update the Application Object for the Current User
 	 * @since 0.18.0
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns An [Application object](https://discord.com/developers/docs/resources/application#application-object-application-structure)
 	 *
 	 * @example
@@ -79,8 +90,54 @@ class BotMethods {
 	 * };
 	 * client.bot.editApplicationInfo(appData)
 	 */
-	public async editApplicationInfo(data: RESTPatchCurrentApplicationJSONBody): Promise<APIApplication> {
-		return this.requestHandler.request(Endpoints.OAUTH2_APPLICATION("@me"), {}, "patch", "json", data);
+	public async editApplicationInfo(data: RESTPatchCurrentApplicationJSONBody, requestOptions?: Partial<RequestOptions>): Promise<APIApplication> {
+		return this.requestHandler.request(Endpoints.OAUTH2_APPLICATION("@me"), {}, "patch", "json", data, undefined, undefined, undefined, requestOptions);
+	}
+
+	/**
+	 * Get the role connection metadata records of an application, which guilds can require values of for linked roles
+	 * @since 0.19.0
+	 * @param appId Id of the application
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
+	 * @returns An Array of [Application role connection metadata objects](https://discord.com/developers/docs/resources/application-role-connection-metadata#application-role-connection-metadata-object)
+	 *
+	 * @example
+	 * const client = new SnowTransfer("TOKEN")
+	 * const records = await client.bot.getApplicationRoleConnectionMetadata("app id")
+	 */
+	public async getApplicationRoleConnectionMetadata(appId: string, requestOptions?: Partial<RequestOptions>): Promise<RESTGetAPIApplicationRoleConnectionMetadataResult> {
+		return this.requestHandler.request(Endpoints.APPLICATION_ROLE_CONNECTION_METADATA(appId), {}, "get", "json", undefined, undefined, undefined, undefined, requestOptions);
+	}
+
+	/**
+	 * Replace the role connection metadata records of an application. Records left out are removed
+	 * @since 0.19.0
+	 * @param appId Id of the application
+	 * @param data The records, at most 5. Keys can only contain a-z, 0-9 and _ and have to be unique
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
+	 * @returns An Array of [Application role connection metadata objects](https://discord.com/developers/docs/resources/application-role-connection-metadata#application-role-connection-metadata-object)
+	 *
+	 * @example
+	 * const { ApplicationRoleConnectionMetadataType } = require("discord-api-types/v10")
+	 * const client = new SnowTransfer("TOKEN")
+	 * const records = await client.bot.editApplicationRoleConnectionMetadata("app id", [
+	 * 	{ key: "snowballs_thrown", name: "Snowballs thrown", description: "Snowballs thrown at least", type: ApplicationRoleConnectionMetadataType.IntegerGreaterThanOrEqual },
+	 * 	{ key: "playing_since", name: "Playing since", description: "Days since the first snowball", type: ApplicationRoleConnectionMetadataType.DatetimeGreaterThanOrEqual }
+	 * ])
+	 */
+	public async editApplicationRoleConnectionMetadata(appId: string, data: RESTPutAPIApplicationRoleConnectionMetadataJSONBody, requestOptions?: Partial<RequestOptions>): Promise<RESTPutAPIApplicationRoleConnectionMetadataResult> {
+		if (data.length > Constants.ROLE_CONNECTION_METADATA_MAX_RECORDS) throw new RangeError(`An application can have at most ${Constants.ROLE_CONNECTION_METADATA_MAX_RECORDS} role connection metadata records`);
+		const keys = new Set<string>();
+		for (const [index, record] of data.entries()) {
+			if (!new RegExp(`^[a-z0-9_]{1,${Constants.ROLE_CONNECTION_METADATA_KEY_MAX_LENGTH}}$`).test(record.key)) throw new Error(`The key of records.${index} has to be 1-${Constants.ROLE_CONNECTION_METADATA_KEY_MAX_LENGTH} characters of a-z, 0-9 and _`);
+			if (keys.has(record.key)) throw new Error(`The key ${record.key} of records.${index} is used by another record`);
+			keys.add(record.key);
+			if (typeof record.type !== "number" || !(record.type in ApplicationRoleConnectionMetadataType)) throw new Error(`records.${index} has the unknown type ${record.type}`);
+			if (!record.name || record.name.length > Constants.ROLE_CONNECTION_METADATA_NAME_MAX_LENGTH) throw new RangeError(`The name of records.${index} has to be 1-${Constants.ROLE_CONNECTION_METADATA_NAME_MAX_LENGTH} characters`);
+			if (!record.description || record.description.length > Constants.ROLE_CONNECTION_METADATA_DESCRIPTION_MAX_LENGTH) throw new RangeError(`The description of records.${index} has to be 1-${Constants.ROLE_CONNECTION_METADATA_DESCRIPTION_MAX_LENGTH} characters`);
+		}
+
+		return this.requestHandler.request(Endpoints.APPLICATION_ROLE_CONNECTION_METADATA(appId), {}, "put", "json", data, undefined, undefined, undefined, requestOptions);
 	}
 }
 
@@ -2,6 +2,11 @@ import type { RequestHandler as RH } from "../RequestHandler";
 
 import Endpoints = require("../Endpoints");
 import Constants = require("../Constants");
+import MultipartBody = require("../Multipart");
+import { paginate } from "../Pagination";
+import { uploadFiles, uploadMessageFiles } from "../CloudUpload";
+import { detectAudioFormat, parseOggOpus } from "../Audio";
+import { validateMessage } from "../Validation";
 
 import {
 	type APITextBasedChannel,
@@ -62,9 +67,7 @@ import {
 	MessageFlags
 } from "discord-api-types/v10";
 
-import type { RESTPostAPIAttachmentsRefreshURLsResult, SnowTransferOptions } from "../Types";
-
-import type { Readable } from "node:stream";
+import type { PaginationOptions, RequestOptions, RESTPostAPIAttachmentsRefreshURLsResult, SnowTransferOptions, UploadFile } from "../Types";
 
 /**
  * Methods for interacting with Channels and Messages
@@ -87,14 +90,15 @@ class ChannelMethods {
 	 * Get a channel via Id
 	 * @since 0.1.0
 	 * @param channelId Id of the channel
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns [discord channel](https://discord.com/developers/docs/resources/channel#channel-object) object
 	 *
 	 * @example
 	 * const client = new SnowTransfer("TOKEN")
 	 * const channel = await client.channel.getChannel("channel id")
 	 */
-	public async getChannel(channelId: string): Promise<RESTGetAPIChannelResult> {
-		return this.requestHandler.request(Endpoints.CHANNEL(channelId), {}, "get", "json");
+	public async getChannel(channelId: string, requestOptions?: Partial<RequestOptions>): Promise<RESTGetAPIChannelResult> {
+		return this.requestHandler.request(Endpoints.CHANNEL(channelId), {}, "get", "json", undefined, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -103,6 +107,7 @@ class ChannelMethods {
 	 * @param channelId Id of the guild channel
 	 * @param data Data to update the channel with
 	 * @param reason Reason for updating the channel
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns [discord channel](https://discord.com/developers/docs/resources/channel#channel-object) object
 	 *
 	 * | Permissions needed | Condition                                                                                                               |
@@ -121,10 +126,10 @@ class ChannelMethods {
 	 * }
 	 * client.channel.editChannel("channel id", updateData)
 	 */
-	public async editChannel(channelId: string, data: Omit<RESTPatchAPIChannelJSONBody, "archived" | "auto_archive_duration" | "locked" | "invitable">, reason?: string): Promise<Exclude<RESTPatchAPIChannelResult, APIThreadChannel>>;
-	public async editChannel(channelId: string, data: Pick<RESTPatchAPIChannelJSONBody, "archived" | "auto_archive_duration" | "locked" | "name" | "rate_limit_per_user">, reason?: string): Promise<Extract<RESTPatchAPIChannelResult, APIThreadChannel>>;
-	public async editChannel(channelId: string, data: RESTPatchAPIChannelJSONBody, reason?: string): Promise<RESTPatchAPIChannelResult> {
-		return this.requestHandler.request(Endpoints.CHANNEL(channelId), {}, "patch", "json", data, Constants.reasonHeader(reason));
+	public async editChannel(channelId: string, data: Omit<RESTPatchAPIChannelJSONBody, "archived" | "auto_archive_duration" | "locked" | "invitable">, reason?: string, requestOptions?: Partial<RequestOptions>): Promise<Exclude<RESTPatchAPIChannelResult, APIThreadChannel>>;
+	public async editChannel(channelId: string, data: Pick<RESTPatchAPIChannelJSONBody, "archived" | "auto_archive_duration" | "locked" | "name" | "rate_limit_per_user">, reason?: string, requestOptions?: Partial<RequestOptions>): Promise<Extract<RESTPatchAPIChannelResult, APIThreadChannel>>;
+	public async editChannel(channelId: string, data: RESTPatchAPIChannelJSONBody, reason?: string, requestOptions?: Partial<RequestOptions>): Promise<RESTPatchAPIChannelResult> {
+		return this.requestHandler.request(Endpoints.CHANNEL(channelId), {}, "patch", "json", data, Constants.reasonHeader(reason), undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -140,6 +145,7 @@ class ChannelMethods {
 	 * @since 0.1.0
 	 * @param channelId Id of the channel
 	 * @param reason Reason for deleting the channel
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns [discord channel](https://discord.com/developers/docs/resources/channel#channel-object) object
 	 *
 	 * | Permissions needed | Condition                      |
@@ -152,8 +158,8 @@ class ChannelMethods {
 	 * const client = new SnowTransfer("TOKEN")
 	 * client.channel.deleteChannel("channel id", "No longer needed")
 	 */
-	public async deleteChannel(channelId: string, reason?: string): Promise<RESTDeleteAPIChannelResult> {
-		return this.requestHandler.request(Endpoints.CHANNEL(channelId), {}, "delete", "json", {}, Constants.reasonHeader(reason));
+	public async deleteChannel(channelId: string, reason?: string, requestOptions?: Partial<RequestOptions>): Promise<RESTDeleteAPIChannelResult> {
+		return this.requestHandler.request(Endpoints.CHANNEL(channelId), {}, "delete", "json", {}, Constants.reasonHeader(reason), undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -161,6 +167,7 @@ class ChannelMethods {
 	 * @since 0.1.0
 	 * @param channelId Id of the channel
 	 * @param options Options for getting channel messages
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns Array of [discord message](https://discord.com/developers/docs/resources/channel#message-object) objects
 	 *
 	 * | Permissions needed   | Condition                                                                        |
@@ -176,7 +183,7 @@ class ChannelMethods {
 	 * }
 	 * const messages = await client.channel.getChannelMessages("channel id", options)
 	 */
-	public async getChannelMessages(channelId: string, options: RESTGetAPIChannelMessagesQuery = { limit: 50 }): Promise<RESTGetAPIChannelMessagesResult> {
+	public async getChannelMessages(channelId: string, options: RESTGetAPIChannelMessagesQuery = { limit: 50 }, requestOptions?: Partial<RequestOptions>): Promise<RESTGetAPIChannelMessagesResult> {
 		const query = { ...options };
 		if (query.around) {
 			delete query.before;
@@ -189,7 +196,30 @@ class ChannelMethods {
 			delete query.around;
 		}
 		if (query.limit !== undefined && (query.limit < Constants.GET_CHANNEL_MESSAGES_MIN_RESULTS || query.limit > Constants.GET_CHANNEL_MESSAGES_MAX_RESULTS)) throw new RangeError(`Amount of messages that may be requested has to be between ${Constants.GET_CHANNEL_MESSAGES_MIN_RESULTS} and ${Constants.GET_CHANNEL_MESSAGES_MAX_RESULTS}`);
-		return this.requestHandler.request(Endpoints.CHANNEL_MESSAGES(channelId), query, "get", "json");
+		return this.requestHandler.request(Endpoints.CHANNEL_MESSAGES(channelId), query, "get", "json", undefined, undefined, undefined, undefined, requestOptions);
+	}
+
+	/**
+	 * Walk through the messages of a channel, requesting as many pages as needed
+	 * @since 0.19.0
+	 * @param channelId Id of the channel
+	 * @param options Options for walking the messages. Walks before (newest to oldest) by default
+	 * @returns An async iterable of [discord message](https://discord.com/developers/docs/resources/channel#message-object) objects
+	 *
+	 * | Permissions needed   | Condition                                                                        |
+	 * |----------------------|----------------------------------------------------------------------------------|
+	 * | VIEW_CHANNEL         | if channel is not a DM channel                                                   |
+	 * | READ_MESSAGE_HISTORY | if channel is not a DM channel, unless you want the API to return an empty Array |
+	 *
+	 * @example
+	 * // Log the last 500 messages of a channel
+	 * const client = new SnowTransfer("TOKEN")
+	 * for await (const message of client.channel.iterateChannelMessages("channel id", { limit: 500 })) {
+	 * 	console.log(message.content)
+	 * }
+	 */
+	public iterateChannelMessages(channelId: string, options?: Partial<PaginationOptions>): AsyncGenerator<RESTGetAPIChannelMessagesResult[number], void, undefined> {
+		return paginate(query => this.getChannelMessages(channelId, query, { signal: options?.signal }), m => m.id, Constants.GET_CHANNEL_MESSAGES_MAX_RESULTS, ["before", "after"], options);
 	}
 
 	/**
@@ -197,6 +227,7 @@ class ChannelMethods {
 	 * @since 0.1.0
 	 * @param channelId Id of the channel
 	 * @param messageId Id of the message
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns [discord message](https://discord.com/developers/docs/resources/channel#message-object) object
 	 *
 	 * | Permissions needed   | Condition                      |
@@ -209,8 +240,8 @@ class ChannelMethods {
 	 * const client = new SnowTransfer("TOKEN")
 	 * const message = await client.channel.getChannelMessage("channel id", "message id")
 	 */
-	public async getChannelMessage(channelId: string, messageId: string): Promise<RESTGetAPIChannelMessageResult> {
-		return this.requestHandler.request(Endpoints.CHANNEL_MESSAGE(channelId, messageId), {}, "get", "json");
+	public async getChannelMessage(channelId: string, messageId: string, requestOptions?: Partial<RequestOptions>): Promise<RESTGetAPIChannelMessageResult> {
+		return this.requestHandler.request(Endpoints.CHANNEL_MESSAGE(channelId, messageId), {}, "get", "json", undefined, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -222,6 +253,7 @@ class ChannelMethods {
 	 * @param data Data to send, if data is a string it will be used as the content of the message,
 	 * if data is not a string you should take a look at the properties below to know what you may send
 	 * @param options Options for sending this message
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns [discord message](https://discord.com/developers/docs/resources/channel#message-object) object
 	 *
 	 * | Permissions needed       | Condition                                                     |
@@ -257,7 +289,7 @@ class ChannelMethods {
 	 * const fileData = fs.readFileSync("nice_picture.png") // You should probably use fs.promises.readFile, since it is asynchronous, synchronous methods block the thread.
 	 * client.channel.createMessage("channel id", { content: "This is a nice picture", files: [{ name: "Optional_Filename.png", file: fileData }] })
 	 */
-	public async createMessage(channelId: string, data: string | RESTPostAPIChannelMessageJSONBody & { files?: Array<{ name: string; file: Buffer | Readable | ReadableStream; }> }): Promise<RESTPostAPIChannelMessageResult> {
+	public async createMessage(channelId: string, data: string | RESTPostAPIChannelMessageJSONBody & { files?: Array<UploadFile> }, requestOptions?: Partial<RequestOptions>): Promise<RESTPostAPIChannelMessageResult> {
 		if (
 			typeof data !== "string" &&
 			!data.content &&
@@ -277,24 +309,29 @@ class ChannelMethods {
 			(payload.flags & MessageFlags.IsComponentsV2) === MessageFlags.IsComponentsV2
 		) throw new Error("The message flags was set to include IsComponentsV2, but content and/or embeds were also present. You can either have content/embeds or components v2, not both.");
 
+		if (this.options.validateMessages) validateMessage(payload);
+
 		// Sanitize the message
 		payload.allowed_mentions ??= this.options.allowed_mentions;
 
-		if (payload.files) return this.requestHandler.request(Endpoints.CHANNEL_MESSAGES(channelId), {}, "post", "multipart", await Constants.standardMultipartHandler(payload as Parameters<typeof Constants["standardMultipartHandler"]>["0"]));
-		else return this.requestHandler.request(Endpoints.CHANNEL_MESSAGES(channelId), {}, "post", "json", payload);
+		if (payload.files && this.options.cloudUploads) return this.requestHandler.request(Endpoints.CHANNEL_MESSAGES(channelId), {}, "post", "json", await uploadMessageFiles(this.requestHandler, channelId, payload, requestOptions), undefined, undefined, undefined, requestOptions);
+		else if (payload.files) return this.requestHandler.request(Endpoints.CHANNEL_MESSAGES(channelId), {}, "post", "multipart", await Constants.standardMultipartHandler(payload as Parameters<typeof Constants["standardMultipartHandler"]>["0"]), undefined, undefined, undefined, requestOptions);
+		else return this.requestHandler.request(Endpoints.CHANNEL_MESSAGES(channelId), {}, "post", "json", payload, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
 	 * Creates a new voice Message within a channel or thread
 	 * @since 0.10.0
 	 * @param channelId Id of the Channel or thread to send a message to
-	 * @param data Buffer of the audio file to send. Tested file types are ogg, mp3, m4a, wav, flac. Other file types work, but some can only be embedded on mobile. Try it and see:tm:
-	 * @param audioDurationSeconds The duration of the audio file in seconds
+	 * @param data Buffer of the Ogg/Opus file to send, which is what Discord plays voice messages as. Encode other formats first, e.g. with `ffmpeg -i input -c:a libopus output.ogg`
+	 * @param audioDurationSeconds The duration of the audio file in seconds. Read from the file if this is left out
 	 * @param waveform A preview of the entire voice message, with 1 byte per datapoint encoded in base64.
 	 * Official clients sample the recording at most once per 100 milliseconds, but will downsample so that no more than 256 datapoints are in the waveform.
-	 * If you have no clue what you're doing or don't want to mess with audio processing, leave this as an empty string (default).
+	 * If it's left out, it's empty, since Opus needs an audio decoder. If the recording was a WAV file before it was encoded, parseWav and Constants.generateWaveform compute it from that.
 	 * Refer to Constants.generateWaveform for guidance on computing it yourself.
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns non editable [discord message](https://discord.com/developers/docs/resources/channel#message-object) object
+	 * @throws {Error} If the file isn't an Ogg file
 	 *
 	 * | Permissions needed       | Condition                                                     |
 	 * |--------------------------|---------------------------------------------------------------|
@@ -309,32 +346,33 @@ class ChannelMethods {
 	 * // fileData will be a buffer with the data of the ogg audio
 	 * const fileData = fs.readFileSync("6-second-long-audio.ogg") // You should probably use fs.promises.readFile, since it is asynchronous, synchronous methods block the thread.
 	 * client.channel.createVoiceMessage("channel id", fileData, 6)
+	 *
+	 * @example
+	 * // Send a WAV recording that was encoded to Ogg/Opus, with the waveform of the WAV file. The duration is read from the Ogg file
+	 * const client = new SnowTransfer("TOKEN")
+	 * const wav = parseWav(fs.readFileSync("recording.wav"))
+	 * client.channel.createVoiceMessage("channel id", fs.readFileSync("recording.ogg"), undefined, Constants.generateWaveform(wav.samples, wav.durationSeconds))
 	 */
 	// Code for this function was provided by flazepe on Discord. Thank you <3 https://github.com/flazepe
-	public async createVoiceMessage(channelId: string, data: Buffer, audioDurationSeconds: number, waveform = ""): Promise<RESTPostAPIChannelMessageResult> {
-		// create attachment
-		const { upload_url, upload_filename } = await this.requestHandler.request(Endpoints.CHANNEL_ATTACHMENTS(channelId), {}, "post", "json", {
-			files: [{
-				id: "69420",
-				filename: "voice-message.ogg",
-				file_size: data.byteLength
-			}]
-		}).then(d => d.attachments[0]);
+	public async createVoiceMessage(channelId: string, data: Buffer, audioDurationSeconds?: number, waveform?: string, requestOptions?: Partial<RequestOptions>): Promise<RESTPostAPIChannelMessageResult> {
+		// Discord plays voice messages as Ogg/Opus, so anything else would be a broken voice message
+		if (detectAudioFormat(data) !== "ogg") throw new Error("Voice messages have to be Ogg/Opus files. Encode other formats first, e.g. with ffmpeg -i input -c:a libopus output.ogg");
+		audioDurationSeconds ??= parseOggOpus(data).durationSeconds;
 
-		// @ts-expect-error A Buffer is compatible as BodyInit. Trust. upload file to cdn
-		await fetch(upload_url, { method: "PUT", body: data });
+		// create attachment and upload file to cdn
+		const [uploadFilename] = await uploadFiles(this.requestHandler, channelId, [{ name: "voice-message.ogg", file: data }], requestOptions);
 
 		// Actually send the voice message
 		return this.requestHandler.request(Endpoints.CHANNEL_MESSAGES(channelId), {}, "post", "json", {
 			attachments: [{
 				id: "42069",
-				uploaded_filename: upload_filename,
+				uploaded_filename: uploadFilename,
 				filename: "voice-message.ogg",
 				duration_secs: audioDurationSeconds,
-				waveform
+				waveform: waveform ?? ""
 			}],
 			flags: 1 << 13 // voice message flag
-		});
+		}, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -342,6 +380,7 @@ class ChannelMethods {
 	 * @since 0.3.0
 	 * @param channelId Id of the news channel
 	 * @param messageId Id of the message
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns [discord message](https://discord.com/developers/docs/resources/channel#message-object) object
 	 *
 	 * | Permissions needed | Condition                                      |
@@ -355,8 +394,8 @@ class ChannelMethods {
 	 * const client = new SnowTransfer("TOKEN")
 	 * client.channel.crosspostMessage("channel id", "message id")
 	 */
-	public async crosspostMessage(channelId: string, messageId: string): Promise<RESTPostAPIChannelMessageCrosspostResult> {
-		return this.requestHandler.request(Endpoints.CHANNEL_MESSAGE_CROSSPOST(channelId, messageId), {}, "post", "json");
+	public async crosspostMessage(channelId: string, messageId: string, requestOptions?: Partial<RequestOptions>): Promise<RESTPostAPIChannelMessageCrosspostResult> {
+		return this.requestHandler.request(Endpoints.CHANNEL_MESSAGE_CROSSPOST(channelId, messageId), {}, "post", "json", undefined, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -367,6 +406,7 @@ class ChannelMethods {
 	 * @param emoji uri encoded reaction emoji to add
 	 * you may either use a discord emoji in the format `:emoji_name:emoji_id` or a unicode emoji,
 	 * which can be found [here](http://www.unicode.org/emoji/charts/full-emoji-list.html)
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns Resolves the Promise on successful execution
 	 *
 	 * | Permissions needed   | Condition                                                                          |
@@ -385,8 +425,8 @@ class ChannelMethods {
 	 * const client = new SnowTransfer("TOKEN")
 	 * client.channel.createReaction("channel Id", "message Id", encodeURIComponent("😀"))
 	 */
-	public async createReaction(channelId: string, messageId: string, emoji: string): Promise<RESTPutAPIChannelMessageReactionResult> {
-		return this.requestHandler.request(Endpoints.CHANNEL_MESSAGE_REACTION_USER(channelId, messageId, emoji, "@me"), {}, "put", "json");
+	public async createReaction(channelId: string, messageId: string, emoji: string, requestOptions?: Partial<RequestOptions>): Promise<RESTPutAPIChannelMessageReactionResult> {
+		return this.requestHandler.request(Endpoints.CHANNEL_MESSAGE_REACTION_USER(channelId, messageId, emoji, "@me"), {}, "put", "json", undefined, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -395,6 +435,7 @@ class ChannelMethods {
 	 * @param channelId Id of the channel
 	 * @param messageId Id of the message
 	 * @param emoji reaction emoji
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns Resolves the Promise on successful execution
 	 *
 	 * | Permission           | Condition                      |
@@ -412,8 +453,8 @@ class ChannelMethods {
 	 * const client = new SnowTransfer("TOKEN")
 	 * client.channel.deleteReactionSelf("channel Id", "message Id", encodeURIComponent("😀"))
 	 */
-	public async deleteReactionSelf(channelId: string, messageId: string, emoji: string): Promise<RESTDeleteAPIChannelMessageOwnReactionResult> {
-		return this.requestHandler.request(Endpoints.CHANNEL_MESSAGE_REACTION_USER(channelId, messageId, emoji, "@me"), {}, "delete", "json");
+	public async deleteReactionSelf(channelId: string, messageId: string, emoji: string, requestOptions?: Partial<RequestOptions>): Promise<RESTDeleteAPIChannelMessageOwnReactionResult> {
+		return this.requestHandler.request(Endpoints.CHANNEL_MESSAGE_REACTION_USER(channelId, messageId, emoji, "@me"), {}, "delete", "json", undefined, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -423,6 +464,7 @@ class ChannelMethods {
 	 * @param messageId Id of the message
 	 * @param emoji reaction emoji
 	 * @param userId Id of the user
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns Resolves the Promise on successful execution
 	 *
 	 * | Permission           | Condition |
@@ -442,8 +484,8 @@ class ChannelMethods {
 	 * // If a user Id is not supplied, the emoji from that message will be removed for all users
 	 * client.channel.deleteReaction("channel Id", "message Id", encodeURIComponent("😀"))
 	 */
-	public async deleteReaction(channelId: string, messageId: string, emoji: string, userId?: string): Promise<RESTDeleteAPIChannelMessageUserReactionResult | RESTDeleteAPIChannelMessageReactionResult> {
-		return this.requestHandler.request(userId ? Endpoints.CHANNEL_MESSAGE_REACTION_USER(channelId, messageId, emoji, userId) : Endpoints.CHANNEL_MESSAGE_REACTION(channelId, messageId, emoji), {}, "delete", "json");
+	public async deleteReaction(channelId: string, messageId: string, emoji: string, userId?: string, requestOptions?: Partial<RequestOptions>): Promise<RESTDeleteAPIChannelMessageUserReactionResult | RESTDeleteAPIChannelMessageReactionResult> {
+		return this.requestHandler.request(userId ? Endpoints.CHANNEL_MESSAGE_REACTION_USER(channelId, messageId, emoji, userId) : Endpoints.CHANNEL_MESSAGE_REACTION(channelId, messageId, emoji), {}, "delete", "json", undefined, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -453,6 +495,7 @@ class ChannelMethods {
 	 * @param messageId Id of the message
 	 * @param emoji reaction emoji
 	 * @param options Options for getting users
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns Array of [user objects](https://discord.com/developers/docs/resources/user#user-object)
 	 *
 	 * | Permissions needed   | Condition                      |
@@ -465,8 +508,31 @@ class ChannelMethods {
 	 * const client = new SnowTransfer("TOKEN")
 	 * const reactions = await client.channel.getReactions("channel Id", "message Id", encodeURIComponent("awooo:322522663304036352"))
 	 */
-	public async getReactions(channelId: string, messageId: string, emoji: string, options?: RESTGetAPIChannelMessageReactionUsersQuery): Promise<RESTGetAPIChannelMessageReactionUsersResult> {
-		return this.requestHandler.request(Endpoints.CHANNEL_MESSAGE_REACTION(channelId, messageId, emoji), options, "get", "json");
+	public async getReactions(channelId: string, messageId: string, emoji: string, options?: RESTGetAPIChannelMessageReactionUsersQuery, requestOptions?: Partial<RequestOptions>): Promise<RESTGetAPIChannelMessageReactionUsersResult> {
+		return this.requestHandler.request(Endpoints.CHANNEL_MESSAGE_REACTION(channelId, messageId, emoji), options, "get", "json", undefined, undefined, undefined, undefined, requestOptions);
+	}
+
+	/**
+	 * Walk through the users that reacted with a certain emoji on a certain message, requesting as many pages as needed
+	 * @since 0.19.0
+	 * @param channelId Id of the channel
+	 * @param messageId Id of the message
+	 * @param emoji reaction emoji
+	 * @param options Options for walking the users. Can only walk after
+	 * @returns An async iterable of [user objects](https://discord.com/developers/docs/resources/user#user-object)
+	 *
+	 * | Permissions needed   | Condition                      |
+	 * |----------------------|--------------------------------|
+	 * | VIEW_CHANNEL         | if channel is not a DM channel |
+	 * | READ_MESSAGE_HISTORY | if channel is not a DM channel |
+	 *
+	 * @example
+	 * // Collect everyone who reacted with a discord emoji
+	 * const client = new SnowTransfer("TOKEN")
+	 * const users = await Array.fromAsync(client.channel.iterateReactions("channel Id", "message Id", encodeURIComponent("awooo:322522663304036352")))
+	 */
+	public iterateReactions(channelId: string, messageId: string, emoji: string, options?: Partial<PaginationOptions> & Pick<RESTGetAPIChannelMessageReactionUsersQuery, "type">): AsyncGenerator<RESTGetAPIChannelMessageReactionUsersResult[number], void, undefined> {
+		return paginate(query => this.getReactions(channelId, messageId, emoji, { type: options?.type, ...query }, { signal: options?.signal }), u => u.id, Constants.GET_REACTIONS_MAX_RESULTS, ["after"], options);
 	}
 
 	/**
@@ -474,6 +540,7 @@ class ChannelMethods {
 	 * @since 0.1.0
 	 * @param channelId Id of the guild channel
 	 * @param messageId Id of the message
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns Resolves the Promise on successful execution
 	 *
 	 * | Permissions needed   | Condition |
@@ -486,8 +553,8 @@ class ChannelMethods {
 	 * const client = new SnowTransfer("TOKEN")
 	 * client.channel.deleteAllReactions("channel Id", "message Id")
 	 */
-	public async deleteAllReactions(channelId: string, messageId: string): Promise<RESTDeleteAPIChannelAllMessageReactionsResult> {
-		return this.requestHandler.request(Endpoints.CHANNEL_MESSAGE_REACTIONS(channelId, messageId), {}, "delete", "json");
+	public async deleteAllReactions(channelId: string, messageId: string, requestOptions?: Partial<RequestOptions>): Promise<RESTDeleteAPIChannelAllMessageReactionsResult> {
+		return this.requestHandler.request(Endpoints.CHANNEL_MESSAGE_REACTIONS(channelId, messageId), {}, "delete", "json", undefined, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -497,6 +564,7 @@ class ChannelMethods {
 	 * @param messageId Id of the message
 	 * @param data Data to send
 	 * @param options Options for editing this message
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns [discord message](https://discord.com/developers/docs/resources/channel#message-object) object
 	 *
 	 * | Permissions needed | Condition                                        |
@@ -511,7 +579,7 @@ class ChannelMethods {
 	 * const message = await client.channel.createMessage("channel id", "pong")
 	 * client.channel.editMessage("channel id", message.id, `pong ${Date.now() - time}ms`)
 	 */
-	public async editMessage(channelId: string, messageId: string, data: string | RESTPatchAPIChannelMessageJSONBody & { files?: Array<{ name: string; file: Buffer | Readable | ReadableStream; }> }): Promise<RESTPatchAPIChannelMessageResult> {
+	public async editMessage(channelId: string, messageId: string, data: string | RESTPatchAPIChannelMessageJSONBody & { files?: Array<UploadFile> }, requestOptions?: Partial<RequestOptions>): Promise<RESTPatchAPIChannelMessageResult> {
 		if (typeof data === "string") data = { content: data };
 		const payload = { ...data };
 
@@ -521,11 +589,14 @@ class ChannelMethods {
 			(payload.flags & MessageFlags.IsComponentsV2) === MessageFlags.IsComponentsV2
 		) throw new Error("The message flags was set to include IsComponentsV2, but content and/or embeds were also present. You can either have content/embeds or components v2, not both.");
 
+		if (this.options.validateMessages) validateMessage(payload, true);
+
 		// Sanitize the message
 		payload.allowed_mentions ??= this.options.allowed_mentions;
 
-		if (payload.files) return this.requestHandler.request(Endpoints.CHANNEL_MESSAGE(channelId, messageId), {}, "patch", "multipart", await Constants.standardMultipartHandler(payload as Parameters<typeof Constants["standardMultipartHandler"]>["0"]));
-		else return this.requestHandler.request(Endpoints.CHANNEL_MESSAGE(channelId, messageId), {}, "patch", "json", payload);
+		if (payload.files && this.options.cloudUploads) return this.requestHandler.request(Endpoints.CHANNEL_MESSAGE(channelId, messageId), {}, "patch", "json", await uploadMessageFiles(this.requestHandler, channelId, payload, requestOptions), undefined, undefined, undefined, requestOptions);
+		else if (payload.files) return this.requestHandler.request(Endpoints.CHANNEL_MESSAGE(channelId, messageId), {}, "patch", "multipart", await Constants.standardMultipartHandler(payload as Parameters<typeof Constants["standardMultipartHandler"]>["0"]), undefined, undefined, undefined, requestOptions);
+		else return this.requestHandler.request(Endpoints.CHANNEL_MESSAGE(channelId, messageId), {}, "patch", "json", payload, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -534,6 +605,7 @@ class ChannelMethods {
 	 * @param channelId Id of the channel
 	 * @param messageId Id of the message
 	 * @param reason Reason for deleting the message
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns Resolves the Promise on successful execution
 	 *
 	 * | Permissions needed | Condition                                    |
@@ -546,8 +618,8 @@ class ChannelMethods {
 	 * const client = new SnowTransfer("TOKEN")
 	 * client.channel.deleteMessage("channel id", "message id")
 	 */
-	public async deleteMessage(channelId: string, messageId: string, reason?: string): Promise<RESTDeleteAPIChannelMessageResult> {
-		return this.requestHandler.request(Endpoints.CHANNEL_MESSAGE(channelId, messageId), {}, "delete", "json", {}, Constants.reasonHeader(reason));
+	public async deleteMessage(channelId: string, messageId: string, reason?: string, requestOptions?: Partial<RequestOptions>): Promise<RESTDeleteAPIChannelMessageResult> {
+		return this.requestHandler.request(Endpoints.CHANNEL_MESSAGE(channelId, messageId), {}, "delete", "json", {}, Constants.reasonHeader(reason), undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -556,6 +628,7 @@ class ChannelMethods {
 	 * @param channelId Id of the guild channel
 	 * @param messages array of message ids to delete
 	 * @param reason Reason for deleting the messages
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns Resolves the Promise on successful execution
 	 *
 	 * | Permissions needed | Condition |
@@ -568,14 +641,14 @@ class ChannelMethods {
 	 * const client = new SnowTransfer("TOKEN")
 	 * client.channel.deleteMessages("channel id", ["message id 1", "message id 2"], "spam")
 	 */
-	public async deleteMessages(channelId: string, messages: Array<string>, reason?: string): Promise<RESTPostAPIChannelMessagesBulkDeleteResult> {
+	public async deleteMessages(channelId: string, messages: Array<string>, reason?: string, requestOptions?: Partial<RequestOptions>): Promise<RESTPostAPIChannelMessagesBulkDeleteResult> {
 		if (messages.length < Constants.BULK_DELETE_MESSAGES_MIN || messages.length > Constants.BULK_DELETE_MESSAGES_MAX) throw new RangeError(`Amount of messages to be deleted has to be between ${Constants.BULK_DELETE_MESSAGES_MIN} and ${Constants.BULK_DELETE_MESSAGES_MAX}`);
 		// (Current date - (discord epoch + 2 weeks)) * (2**22) weird constant that everybody seems to use
 		const oldestSnowflake = BigInt(Date.now() - 1421280000000) * (BigInt(2) ** BigInt(22));
 		const forbiddenMessage = messages.find(m => BigInt(m) < oldestSnowflake);
 		if (forbiddenMessage) throw new Error(`The message ${forbiddenMessage} is older than 2 weeks and may not be deleted using the bulk delete endpoint`);
 		const data = { messages };
-		return this.requestHandler.request(Endpoints.CHANNEL_BULK_DELETE(channelId), {}, "post", "json", data, Constants.reasonHeader(reason));
+		return this.requestHandler.request(Endpoints.CHANNEL_BULK_DELETE(channelId), {}, "post", "json", data, Constants.reasonHeader(reason), undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -585,6 +658,7 @@ class ChannelMethods {
 	 * @param permissionId Id of the permission overwrite
 	 * @param data modified [permission overwrite](https://discord.com/developers/docs/resources/channel#edit-channel-permissions-json-params) object
 	 * @param reason Reason for editing the channel permission
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns Resolves the Promise on successful execution
 	 *
 	 * | Permissions needed | Condition                  |
@@ -599,14 +673,15 @@ class ChannelMethods {
 	 * const client = new SnowTransfer("TOKEN")
 	 * client.channel.editChannelPermission("channel id", "user id", { allow: String(1 << 10), type: 1 })
 	 */
-	public async editChannelPermission(channelId: string, permissionId: string, data: RESTPutAPIChannelPermissionJSONBody, reason?: string): Promise<RESTPutAPIChannelPermissionResult> {
-		return this.requestHandler.request(Endpoints.CHANNEL_PERMISSION(channelId, permissionId), {}, "put", "json", data, Constants.reasonHeader(reason));
+	public async editChannelPermission(channelId: string, permissionId: string, data: RESTPutAPIChannelPermissionJSONBody, reason?: string, requestOptions?: Partial<RequestOptions>): Promise<RESTPutAPIChannelPermissionResult> {
+		return this.requestHandler.request(Endpoints.CHANNEL_PERMISSION(channelId, permissionId), {}, "put", "json", data, Constants.reasonHeader(reason), undefined, undefined, requestOptions);
 	}
 
 	/**
 	 * Get a list of invites for a guild channel
 	 * @since 0.1.0
 	 * @param channelId Id of the guild channel
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns Array of [invite objects](https://discord.com/developers/docs/resources/invite#invite-object) (with metadata)
 	 *
 	 * | Permissions needed | Condition |
@@ -618,8 +693,8 @@ class ChannelMethods {
 	 * const client = new SnowTransfer("TOKEN")
 	 * const invites = await client.channel.getChannelInvites("channel id")
 	 */
-	public async getChannelInvites(channelId: string): Promise<RESTGetAPIChannelInvitesResult> {
-		return this.requestHandler.request(Endpoints.CHANNEL_INVITES(channelId), {}, "get", "json");
+	public async getChannelInvites(channelId: string, requestOptions?: Partial<RequestOptions>): Promise<RESTGetAPIChannelInvitesResult> {
+		return this.requestHandler.request(Endpoints.CHANNEL_INVITES(channelId), {}, "get", "json", undefined, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -630,6 +705,7 @@ class ChannelMethods {
 	 * @param channelId Id of the channel
 	 * @param data invite data (optional)
 	 * @param reason Reason for creating the invite
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns [Invite object](https://discord.com/developers/docs/resources/invite#invite-object) (with metadata)
 	 *
 	 * | Permissions needed    | Condition                                                                |
@@ -643,20 +719,20 @@ class ChannelMethods {
 	 * const client = new SnowTransfer("TOKEN")
 	 * const invite = await client.channel.createChannelInvite("channel id", { max_age: 0, max_uses: 0, unique: true })
 	 */
-	public async createChannelInvite(channelId: string, data: RESTPostAPIChannelInviteJSONBody & { target_users?: Array<string>; role_ids?: Array<string> } = { max_age: 86400, max_uses: 0, temporary: false, unique: false }, reason?: string): Promise<RESTPostAPIChannelInviteResult> {
+	public async createChannelInvite(channelId: string, data: RESTPostAPIChannelInviteJSONBody & { target_users?: Array<string>; role_ids?: Array<string> } = { max_age: 86400, max_uses: 0, temporary: false, unique: false }, reason?: string, requestOptions?: Partial<RequestOptions>): Promise<RESTPostAPIChannelInviteResult> {
 		const targetUsers = data?.target_users;
 		const payload = { ...data };
 
 		if (targetUsers?.length) {
 			delete payload.target_users;
-			const form = new FormData();
+			const form = new MultipartBody();
 
 			await Constants.standardAddToFormHandler(form, "target_users_file", `Users\n${targetUsers.join(",\n")},`, "target_users_file.csv");
 			form.append("payload_json", JSON.stringify(payload));
-			return this.requestHandler.request(Endpoints.CHANNEL_INVITES(channelId), {}, "post", "multipart", form, Constants.reasonHeader(reason));
+			return this.requestHandler.request(Endpoints.CHANNEL_INVITES(channelId), {}, "post", "multipart", form, Constants.reasonHeader(reason), undefined, undefined, requestOptions);
 		}
 
-		return this.requestHandler.request(Endpoints.CHANNEL_INVITES(channelId), {}, "post", "json", payload, Constants.reasonHeader(reason));
+		return this.requestHandler.request(Endpoints.CHANNEL_INVITES(channelId), {}, "post", "json", payload, Constants.reasonHeader(reason), undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -665,6 +741,7 @@ class ChannelMethods {
 	 * @param channelId Id of the guild channel
 	 * @param permissionId Id of the permission overwrite
 	 * @param reason Reason for deleting the permission
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns Resolves the Promise on successful execution
 	 *
 	 * | Permissions needed | Condition                  |
@@ -679,8 +756,8 @@ class ChannelMethods {
 	 * const client = new SnowTransfer("TOKEN")
 	 * client.channel.deleteChannelPermission("channel id", "user id", "Abusing channel")
 	 */
-	public async deleteChannelPermission(channelId: string, permissionId: string, reason?: string): Promise<RESTDeleteAPIChannelPermissionResult> {
-		return this.requestHandler.request(Endpoints.CHANNEL_PERMISSION(channelId, permissionId), {}, "delete", "json", {}, Constants.reasonHeader(reason));
+	public async deleteChannelPermission(channelId: string, permissionId: string, reason?: string, requestOptions?: Partial<RequestOptions>): Promise<RESTDeleteAPIChannelPermissionResult> {
+		return this.requestHandler.request(Endpoints.CHANNEL_PERMISSION(channelId, permissionId), {}, "delete", "json", {}, Constants.reasonHeader(reason), undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -689,6 +766,7 @@ class ChannelMethods {
 	 * @param channelId The Id of the announcement channel
 	 * @param webhookChannelId The Id of the channel messages will be sent to
 	 * @param reason Reason for following the annoucement channel
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns A [followed channel](https://discord.com/developers/docs/resources/channel#followed-channel-object) object
 	 *
 	 * | Permissions needed | Condition |
@@ -700,8 +778,8 @@ class ChannelMethods {
 	 * const client = new SnowTransfer("TOKEN")
 	 * client.channel.followAnnouncementChannel("news channel id", "text channel id")
 	 */
-	public async followAnnouncementChannel(channelId: string, webhookChannelId: string, reason?: string): Promise<RESTPostAPIChannelFollowersResult> {
-		return this.requestHandler.request(Endpoints.CHANNEL_FOLLOWERS(channelId), {}, "post", "json", { webhook_channel_id: webhookChannelId }, Constants.reasonHeader(reason));
+	public async followAnnouncementChannel(channelId: string, webhookChannelId: string, reason?: string, requestOptions?: Partial<RequestOptions>): Promise<RESTPostAPIChannelFollowersResult> {
+		return this.requestHandler.request(Endpoints.CHANNEL_FOLLOWERS(channelId), {}, "post", "json", { webhook_channel_id: webhookChannelId }, Constants.reasonHeader(reason), undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -710,6 +788,7 @@ class ChannelMethods {
 	 * **You should generally avoid this method unless used for longer computations (>1s)**
 	 * @since 0.1.0
 	 * @param channelId Id of the channel
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns Resolves the Promise on successful execution
 	 *
 	 * | Permissions needed       | Condition                      |
@@ -722,14 +801,15 @@ class ChannelMethods {
 	 * const client = new SnowTransfer("TOKEN")
 	 * client.channel.startChannelTyping("channel id")
 	 */
-	public async startChannelTyping(channelId: string): Promise<RESTPostAPIChannelTypingResult> {
-		return this.requestHandler.request(Endpoints.CHANNEL_TYPING(channelId), {}, "post", "json");
+	public async startChannelTyping(channelId: string, requestOptions?: Partial<RequestOptions>): Promise<RESTPostAPIChannelTypingResult> {
+		return this.requestHandler.request(Endpoints.CHANNEL_TYPING(channelId), {}, "post", "json", undefined, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
 	 * Get a list of pinned messages for a channel
 	 * @since 0.1.0
 	 * @param channelId Id of the channel
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns Array of [message objects](https://discord.com/developers/docs/resources/channel#message-object)
 	 *
 	 * | Permissions needed   | Condition                      |
@@ -741,8 +821,8 @@ class ChannelMethods {
 	 * const client = new SnowTransfer("TOKEN")
 	 * const messages = await client.channel.getChannelPinnedMessages("channel id")
 	 */
-	public async getChannelPinnedMessages(channelId: string, options?: RESTGetAPIChannelMessagesPinsQuery): Promise<RESTGetAPIChannelMessagesPinsResult> {
-		return this.requestHandler.request(Endpoints.CHANNEL_PINS(channelId), options, "get", "json");
+	public async getChannelPinnedMessages(channelId: string, options?: RESTGetAPIChannelMessagesPinsQuery, requestOptions?: Partial<RequestOptions>): Promise<RESTGetAPIChannelMessagesPinsResult> {
+		return this.requestHandler.request(Endpoints.CHANNEL_PINS(channelId), options, "get", "json", undefined, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -751,6 +831,7 @@ class ChannelMethods {
 	 * @param channelId Id of the channel
 	 * @param messageId Id of the message
 	 * @param reason Reason for pinning the message
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns Resolves the Promise on successful execution
 	 *
 	 * | Permissions needed   | Condition                      |
@@ -764,8 +845,8 @@ class ChannelMethods {
 	 * const client = new SnowTransfer("TOKEN")
 	 * client.channel.createChannelPinnedMessage("channel id", "message id", "Good meme")
 	 */
-	public async createChannelPinnedMessage(channelId: string, messageId: string, reason?: string): Promise<RESTPutAPIChannelMessagesPinResult> {
-		return this.requestHandler.request(Endpoints.CHANNEL_PIN(channelId, messageId), {}, "put", "json", {}, Constants.reasonHeader(reason));
+	public async createChannelPinnedMessage(channelId: string, messageId: string, reason?: string, requestOptions?: Partial<RequestOptions>): Promise<RESTPutAPIChannelMessagesPinResult> {
+		return this.requestHandler.request(Endpoints.CHANNEL_PIN(channelId, messageId), {}, "put", "json", {}, Constants.reasonHeader(reason), undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -774,6 +855,7 @@ class ChannelMethods {
 	 * @param channelId Id of the channel
 	 * @param messageId Id of the message
 	 * @param reason Reason for removing the pinned message
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns Resolves the Promise on successful execution
 	 *
 	 * | Permissions needed   | Condition                      |
@@ -787,8 +869,8 @@ class ChannelMethods {
 	 * const client = new SnowTransfer("TOKEN")
 	 * client.channel.deleteChannelPinnedMessage("channel id", "message id", "Mod abuse")
 	 */
-	public async deleteChannelPinnedMessage(channelId: string, messageId: string, reason?: string): Promise<RESTDeleteAPIChannelMessagesPinResult> {
-		return this.requestHandler.request(Endpoints.CHANNEL_PIN(channelId, messageId), {}, "delete", "json", {}, Constants.reasonHeader(reason));
+	public async deleteChannelPinnedMessage(channelId: string, messageId: string, reason?: string, requestOptions?: Partial<RequestOptions>): Promise<RESTDeleteAPIChannelMessagesPinResult> {
+		return this.requestHandler.request(Endpoints.CHANNEL_PIN(channelId, messageId), {}, "delete", "json", {}, Constants.reasonHeader(reason), undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -798,6 +880,7 @@ class ChannelMethods {
 	 * @param messageId Id of the message
 	 * @param data Thread meta data
 	 * @param reason Reason for creating the thread
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns [thread channel](https://discord.com/developers/docs/resources/channel#channel-object) object
 	 *
 	 * | Permissions needed    | Condition |
@@ -810,8 +893,8 @@ class ChannelMethods {
 	 * const client = new SnowTransfer("TOKEN")
 	 * const thread = await client.channel.createThreadWithMessage("channel id", "message id", { name: "cool-art", }, "I wanna talk about it!")
 	 */
-	public async createThreadWithMessage(channelId: string, messageId: string, data: RESTPostAPIChannelMessagesThreadsJSONBody, reason?: string): Promise<RESTPostAPIChannelMessagesThreadsResult> {
-		return this.requestHandler.request(Endpoints.CHANNEL_MESSAGE_THREADS(channelId, messageId), {}, "post", "json", data, Constants.reasonHeader(reason));
+	public async createThreadWithMessage(channelId: string, messageId: string, data: RESTPostAPIChannelMessagesThreadsJSONBody, reason?: string, requestOptions?: Partial<RequestOptions>): Promise<RESTPostAPIChannelMessagesThreadsResult> {
+		return this.requestHandler.request(Endpoints.CHANNEL_MESSAGE_THREADS(channelId, messageId), {}, "post", "json", data, Constants.reasonHeader(reason), undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -820,6 +903,7 @@ class ChannelMethods {
 	 * @param channelId Id of the guild channel
 	 * @param data Thread meta data
 	 * @param reason Reason for creating the thread
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns [thread channel](https://discord.com/developers/docs/resources/channel#channel-object) object
 	 *
 	 * | Permissions needed     | Condition                    |
@@ -833,17 +917,18 @@ class ChannelMethods {
 	 * const client = new SnowTransfer("TOKEN")
 	 * const thread = await client.channel.createThreadWithoutMessage("channel id", { name: "persons-birthday", type: 12, invitable: true }, "Shh! It's a surprise")
 	 */
-	public async createThreadWithoutMessage(channelId: string, data: Omit<RESTPostAPIChannelThreadsJSONBody, "type"> & { type: 10; }, reason?: string): Promise<APITextBasedChannel<ChannelType.AnnouncementThread>>;
-	public async createThreadWithoutMessage(channelId: string, data: Omit<RESTPostAPIChannelThreadsJSONBody, "type"> & { type: 11; }, reason?: string): Promise<APITextBasedChannel<ChannelType.PublicThread>>;
-	public async createThreadWithoutMessage(channelId: string, data: Omit<RESTPostAPIChannelThreadsJSONBody, "type"> & { type: 12; }, reason?: string): Promise<APITextBasedChannel<ChannelType.PrivateThread>>;
-	public async createThreadWithoutMessage(channelId: string, data: RESTPostAPIChannelThreadsJSONBody, reason?: string): Promise<APITextBasedChannel<ChannelType.PublicThread | ChannelType.PrivateThread | ChannelType.AnnouncementThread>> {
-		return this.requestHandler.request(Endpoints.CHANNEL_THREADS(channelId), {}, "post", "json", data, Constants.reasonHeader(reason));
+	public async createThreadWithoutMessage(channelId: string, data: Omit<RESTPostAPIChannelThreadsJSONBody, "type"> & { type: 10; }, reason?: string, requestOptions?: Partial<RequestOptions>): Promise<APITextBasedChannel<ChannelType.AnnouncementThread>>;
+	public async createThreadWithoutMessage(channelId: string, data: Omit<RESTPostAPIChannelThreadsJSONBody, "type"> & { type: 11; }, reason?: string, requestOptions?: Partial<RequestOptions>): Promise<APITextBasedChannel<ChannelType.PublicThread>>;
+	public async createThreadWithoutMessage(channelId: string, data: Omit<RESTPostAPIChannelThreadsJSONBody, "type"> & { type: 12; }, reason?: string, requestOptions?: Partial<RequestOptions>): Promise<APITextBasedChannel<ChannelType.PrivateThread>>;
+	public async createThreadWithoutMessage(channelId: string, data: RESTPostAPIChannelThreadsJSONBody, reason?: string, requestOptions?: Partial<RequestOptions>): Promise<APITextBasedChannel<ChannelType.PublicThread | ChannelType.PrivateThread | ChannelType.AnnouncementThread>> {
+		return this.requestHandler.request(Endpoints.CHANNEL_THREADS(channelId), {}, "post", "json", data, Constants.reasonHeader(reason), undefined, undefined, requestOptions);
 	}
 
 	/**
 	 * Join a thread
 	 * @since 0.3.0
 	 * @param threadId Id of the thread
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns Resolves the Promise on successful execution
 	 *
 	 * | Permissions needed | Condition |
@@ -854,8 +939,8 @@ class ChannelMethods {
 	 * const client = new SnowTransfer("TOKEN")
 	 * client.channel.joinThread("thread id")
 	 */
-	public async joinThread(threadId: string): Promise<RESTPutAPIChannelThreadMembersResult> {
-		return this.requestHandler.request(Endpoints.CHANNEL_THREAD_MEMBER(threadId, "@me"), {}, "put", "json");
+	public async joinThread(threadId: string, requestOptions?: Partial<RequestOptions>): Promise<RESTPutAPIChannelThreadMembersResult> {
+		return this.requestHandler.request(Endpoints.CHANNEL_THREAD_MEMBER(threadId, "@me"), {}, "put", "json", undefined, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -865,6 +950,7 @@ class ChannelMethods {
 	 * @since 0.18.0
 	 * @param threadId Id of the thread
 	 * @param userId Id of the user to add
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns Resolves the Promise on successful execution
 	 *
 	 * | Permissions needed          | Condition |
@@ -876,22 +962,23 @@ class ChannelMethods {
 	 * const client = new SnowTransfer("TOKEN")
 	 * client.channel.joinThreadMember("thread id", "user id")
 	 */
-	public async joinThreadMember(threadId: string, userId: string): Promise<RESTPutAPIChannelThreadMembersResult> {
-		return this.requestHandler.request(Endpoints.CHANNEL_THREAD_MEMBER(threadId, userId), {}, "put", "json");
+	public async joinThreadMember(threadId: string, userId: string, requestOptions?: Partial<RequestOptions>): Promise<RESTPutAPIChannelThreadMembersResult> {
+		return this.requestHandler.request(Endpoints.CHANNEL_THREAD_MEMBER(threadId, userId), {}, "put", "json", undefined, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
 	 * Leave a thread
 	 * @since 0.3.0
 	 * @param threadId Id of the thread
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns Resolves the Promise on successful execution
 	 *
 	 * @example
 	 * const client = new SnowTransfer("TOKEN")
 	 * client.channel.leaveThread("thread id")
 	 */
-	public async leaveThread(threadId: string): Promise<RESTDeleteAPIChannelThreadMembersResult> {
-		return this.requestHandler.request(Endpoints.CHANNEL_THREAD_MEMBER(threadId, "@me"), {}, "delete", "json");
+	public async leaveThread(threadId: string, requestOptions?: Partial<RequestOptions>): Promise<RESTDeleteAPIChannelThreadMembersResult> {
+		return this.requestHandler.request(Endpoints.CHANNEL_THREAD_MEMBER(threadId, "@me"), {}, "delete", "json", undefined, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -899,6 +986,7 @@ class ChannelMethods {
 	 * @since 0.18.0
 	 * @param threadId Id of the thread
 	 * @param userId Id of the user to remove
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns Resolves the Promise on successful execution
 	 *
 	 * | Permissions needed | Condition                                            |
@@ -909,8 +997,8 @@ class ChannelMethods {
 	 * const client = new SnowTransfer("TOKEN")
 	 * client.channel.deleteThreadMember("thread id", "user id")
 	 */
-	public async deleteThreadMember(threadId: string, userId: string): Promise<RESTDeleteAPIChannelThreadMembersResult> {
-		return this.requestHandler.request(Endpoints.CHANNEL_THREAD_MEMBER(threadId, userId), {}, "delete", "json");
+	public async deleteThreadMember(threadId: string, userId: string, requestOptions?: Partial<RequestOptions>): Promise<RESTDeleteAPIChannelThreadMembersResult> {
+		return this.requestHandler.request(Endpoints.CHANNEL_THREAD_MEMBER(threadId, userId), {}, "delete", "json", undefined, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -919,6 +1007,7 @@ class ChannelMethods {
 	 * @param threadId Id of the thread
 	 * @param userId Id of the user
 	 * @param withMember If a member object should be present
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns A [thread member](https://discord.com/developers/docs/resources/channel#thread-member-object)
 	 *
 	 * | Permissions needed | Condition |
@@ -929,8 +1018,8 @@ class ChannelMethods {
 	 * const client = new SnowTransfer("TOKEN")
 	 * const member = await client.channel.getThreadMember("thread id", "user id")
 	 */
-	public async getThreadMember(threadId: string, userId: string, withMember?: boolean): Promise<RESTGetAPIChannelThreadMemberResult> {
-		return this.requestHandler.request(Endpoints.CHANNEL_THREAD_MEMBER(threadId, userId), { with_member: withMember }, "get", "json");
+	public async getThreadMember(threadId: string, userId: string, withMember?: boolean, requestOptions?: Partial<RequestOptions>): Promise<RESTGetAPIChannelThreadMemberResult> {
+		return this.requestHandler.request(Endpoints.CHANNEL_THREAD_MEMBER(threadId, userId), { with_member: withMember }, "get", "json", undefined, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -938,6 +1027,7 @@ class ChannelMethods {
 	 * @since 0.3.0
 	 * @param channelId Id of the Thread
 	 * @param options Options for getting members
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns Array of [thread members](https://discord.com/developers/docs/resources/channel#thread-member-object)
 	 *
 	 * | Permissions needed | Condition |
@@ -952,8 +1042,33 @@ class ChannelMethods {
 	 * const client = new SnowTransfer("TOKEN")
 	 * const members = await client.channel.getThreadMembers("thread id")
 	 */
-	public async getThreadMembers(channelId: string, options?: RESTGetAPIChannelThreadMembersQuery): Promise<RESTGetAPIChannelThreadMembersResult> {
-		return this.requestHandler.request(Endpoints.CHANNEL_THREAD_MEMBERS(channelId), options, "get", "json");
+	public async getThreadMembers(channelId: string, options?: RESTGetAPIChannelThreadMembersQuery, requestOptions?: Partial<RequestOptions>): Promise<RESTGetAPIChannelThreadMembersResult> {
+		return this.requestHandler.request(Endpoints.CHANNEL_THREAD_MEMBERS(channelId), options, "get", "json", undefined, undefined, undefined, undefined, requestOptions);
+	}
+
+	/**
+	 * Walk through the members of a thread, requesting as many pages as needed
+	 * @since 0.19.0
+	 * @param channelId Id of the thread channel
+	 * @param options Options for walking the members. Can only walk after
+	 * @returns An async iterable of [thread members](https://discord.com/developers/docs/resources/channel#thread-member-object)
+	 *
+	 * | Permissions needed | Condition |
+	 * |--------------------|-----------|
+	 * | VIEW_CHANNEL       | always    |
+	 *
+	 * | Intents       |
+	 * |---------------|
+	 * | GUILD_MEMBERS |
+	 *
+	 * @example
+	 * const client = new SnowTransfer("TOKEN")
+	 * for await (const member of client.channel.iterateThreadMembers("thread id", { with_member: true })) {
+	 * 	console.log(member.member?.user.username)
+	 * }
+	 */
+	public iterateThreadMembers(channelId: string, options?: Partial<PaginationOptions> & Pick<RESTGetAPIChannelThreadMembersQuery, "with_member">): AsyncGenerator<RESTGetAPIChannelThreadMembersResult[number], void, undefined> {
+		return paginate(query => this.getThreadMembers(channelId, { with_member: options?.with_member, ...query }, { signal: options?.signal }), m => m.user_id!, Constants.GET_THREAD_MEMBERS_MAX_RESULTS, ["after"], options);
 	}
 
 	/**
@@ -961,6 +1076,7 @@ class ChannelMethods {
 	 * @since 0.3.0
 	 * @param channelId Id of the guild channel
 	 * @param options Options for getting threads
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns Object containing [public threads](https://discord.com/developers/docs/resources/channel#channel-object), [thread members](https://discord.com/developers/docs/resources/channel#thread-member-object) of the CurrentUser, and if there are more results in the pagination
 	 *
 	 * | Permissions needed   | Condition |
@@ -972,8 +1088,8 @@ class ChannelMethods {
 	 * const client = new SnowTransfer("TOKEN")
 	 * const result = await client.channel.getChannelArchivedPublicThreads("channel id")
 	 */
-	public async getChannelArchivedPublicThreads(channelId: string, options?: RESTGetAPIChannelThreadsArchivedQuery): Promise<RESTGetAPIChannelThreadsArchivedPublicResult> {
-		return this.requestHandler.request(Endpoints.CHANNEL_THREADS_ARCHIVED_PUBLIC(channelId), options, "get", "json");
+	public async getChannelArchivedPublicThreads(channelId: string, options?: RESTGetAPIChannelThreadsArchivedQuery, requestOptions?: Partial<RequestOptions>): Promise<RESTGetAPIChannelThreadsArchivedPublicResult> {
+		return this.requestHandler.request(Endpoints.CHANNEL_THREADS_ARCHIVED_PUBLIC(channelId), options, "get", "json", undefined, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -983,6 +1099,7 @@ class ChannelMethods {
 	 * @since 0.3.0
 	 * @param channelId Id of the Channel
 	 * @param options Options for getting threads
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns Object containing [private threads](https://discord.com/developers/docs/resources/channel#channel-object), [thread members](https://discord.com/developers/docs/resources/channel#thread-member-object) of the CurrentUser, and if there are more results in the pagination
 	 *
 	 * | Permissions needed   | Condition                            |
@@ -995,8 +1112,8 @@ class ChannelMethods {
 	 * const client = new SnowTransfer("TOKEN")
 	 * const result = await client.channel.getChannelArchivedPrivateThreads("channel id")
 	 */
-	public async getChannelArchivedPrivateThreads(channelId: string, options?: RESTGetAPIChannelThreadsArchivedQuery): Promise<RESTGetAPIChannelThreadsArchivedPrivateResult> {
-		return this.requestHandler.request(Endpoints.CHANNEL_THREADS_ARCHIVED_PRIVATE(channelId), options, "get", "json");
+	public async getChannelArchivedPrivateThreads(channelId: string, options?: RESTGetAPIChannelThreadsArchivedQuery, requestOptions?: Partial<RequestOptions>): Promise<RESTGetAPIChannelThreadsArchivedPrivateResult> {
+		return this.requestHandler.request(Endpoints.CHANNEL_THREADS_ARCHIVED_PRIVATE(channelId), options, "get", "json", undefined, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -1006,6 +1123,7 @@ class ChannelMethods {
 	 * @since 0.3.0
 	 * @param channelId Id of the Channel
 	 * @param options Option for getting threads
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns Object containing [private threads](https://discord.com/developers/docs/resources/channel#channel-object), [thread members](https://discord.com/developers/docs/resources/channel#thread-member-object) of the CurrentUser, and if there are more results in the pagination
 	 *
 	 * | Permissions needed | Condition |
@@ -1016,24 +1134,25 @@ class ChannelMethods {
 	 * const client = new SnowTransfer("TOKEN")
 	 * const result = await client.channel.getChannelArchivedPrivateThreadsUser("channel id")
 	 */
-	public async getChannelArchivedPrivateThreadsUser(channelId: string, options?: RESTGetAPIChannelThreadsArchivedQuery): Promise<RESTGetAPIChannelUsersThreadsArchivedResult> {
-		return this.requestHandler.request(Endpoints.CHANNEL_THREADS_ARCHIVED_PRIVATE_USER(channelId), options, "get", "json");
+	public async getChannelArchivedPrivateThreadsUser(channelId: string, options?: RESTGetAPIChannelThreadsArchivedQuery, requestOptions?: Partial<RequestOptions>): Promise<RESTGetAPIChannelUsersThreadsArchivedResult> {
+		return this.requestHandler.request(Endpoints.CHANNEL_THREADS_ARCHIVED_PRIVATE_USER(channelId), options, "get", "json", undefined, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
 	 * Refreshes Discord CDN attachments by URL to give you non-expired links. This also works on attachments the token may not have access to through means like guild bot presence
 	 * @since 0.10.7
 	 * @param attachments A list of Discord CDN attachment URLs. Does not require the URL(s) to have the expiration info parameters
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns Object containing a list of the original URLs inputted and refreshed URLs
 	 *
 	 * @example
 	 * const client = new SnowTransfer("TOKEN")
 	 * const result = await client.channel.refreshAttachmentURLs("https://cdn.discordapp.com/attachments/1109362097952931840/1277799507911905280/traveler.gif")
 	 */
-	public async refreshAttachmentURLs(attachments: string | Array<string>): Promise<RESTPostAPIAttachmentsRefreshURLsResult> {
+	public async refreshAttachmentURLs(attachments: string | Array<string>, requestOptions?: Partial<RequestOptions>): Promise<RESTPostAPIAttachmentsRefreshURLsResult> {
 		return this.requestHandler.request(Endpoints.ATTACHMENTS_REFRESH_URLS, {}, "post", "json", {
 			attachment_urls: Array.isArray(attachments) ? attachments : [attachments]
-		});
+		}, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -1043,6 +1162,7 @@ class ChannelMethods {
 	 * @param messageId Id of the message
 	 * @param answerId Id of the answer
 	 * @param options Options for getting the poll answers
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns An [answer object](https://discord.com/developers/docs/resources/poll#get-answer-voters-response-body)
 	 *
 	 * @example
@@ -1050,8 +1170,27 @@ class ChannelMethods {
 	 * const client = new SnowTransfer("TOKEN")
 	 * const data = await client.channel.getPollAnswerVoters("channel id", "message id", "answer id")
 	 */
-	public async getPollAnswerVoters(channelId: string, messageId: string, answerId: string, options?: RESTGetAPIPollAnswerVotersQuery): Promise<RESTGetAPIPollAnswerVotersResult> {
-		return this.requestHandler.request(Endpoints.POLL_ANSWER(channelId, messageId, answerId), options, "get", "json");
+	public async getPollAnswerVoters(channelId: string, messageId: string, answerId: string, options?: RESTGetAPIPollAnswerVotersQuery, requestOptions?: Partial<RequestOptions>): Promise<RESTGetAPIPollAnswerVotersResult> {
+		return this.requestHandler.request(Endpoints.POLL_ANSWER(channelId, messageId, answerId), options, "get", "json", undefined, undefined, undefined, undefined, requestOptions);
+	}
+
+	/**
+	 * Walk through the users that voted for this specific answer, requesting as many pages as needed
+	 * @since 0.19.0
+	 * @param channelId Id of the channel
+	 * @param messageId Id of the message
+	 * @param answerId Id of the answer
+	 * @param options Options for walking the voters. Can only walk after
+	 * @returns An async iterable of [user objects](https://discord.com/developers/docs/resources/user#user-object)
+	 *
+	 * @example
+	 * // Count whoever voted for an answer
+	 * const client = new SnowTransfer("TOKEN")
+	 * let count = 0
+	 * for await (const user of client.channel.iteratePollAnswerVoters("channel id", "message id", "answer id")) count++
+	 */
+	public iteratePollAnswerVoters(channelId: string, messageId: string, answerId: string, options?: Partial<PaginationOptions>): AsyncGenerator<RESTGetAPIPollAnswerVotersResult["users"][number], void, undefined> {
+		return paginate(async query => (await this.getPollAnswerVoters(channelId, messageId, answerId, query, { signal: options?.signal })).users, u => u.id, Constants.GET_POLL_ANSWER_VOTERS_MAX_RESULTS, ["after"], options);
 	}
 
 	/**
@@ -1059,6 +1198,7 @@ class ChannelMethods {
 	 * @since 0.13.0
 	 * @param channelId Id of the channel
 	 * @param messageId Id of the message
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns A [message object](https://discord.com/developers/docs/resources/message#message-object)
 	 *
 	 * @example
@@ -1066,8 +1206,8 @@ class ChannelMethods {
 	 * const client = new SnowTransfer("TOKEN")
 	 * client.channel.endPoll("channel id", "message id")
 	 */
-	public async endPoll(channelId: string, messageId: string): Promise<RESTPostAPIPollExpireResult> {
-		return this.requestHandler.request(Endpoints.POLL_EXPIRE(channelId, messageId), {}, "post", "json");
+	public async endPoll(channelId: string, messageId: string, requestOptions?: Partial<RequestOptions>): Promise<RESTPostAPIPollExpireResult> {
+		return this.requestHandler.request(Endpoints.POLL_EXPIRE(channelId, messageId), {}, "post", "json", undefined, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -1076,6 +1216,7 @@ class ChannelMethods {
 	 * @param channelId Id of the channel
 	 * @param status The new status of the voice channel
 	 * @param reason Reason for changing the status
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns Resolves the Promise on successful execution
 	 *
 	 * | Permissions needed       | Condition                             |
@@ -1093,8 +1234,8 @@ class ChannelMethods {
 	 * // clears the status
 	 * client.channel.setVoiceChannelStatus("channel id", "")
 	 */
-	public async setVoiceChannelStatus(channelId: string, status: string, reason?: string): Promise<RESTPutAPIChannelVoiceStatusResult> {
-		return this.requestHandler.request(Endpoints.CHANNEL_VOICE_STATUS(channelId), {}, "put", "json", { status }, Constants.reasonHeader(reason));
+	public async setVoiceChannelStatus(channelId: string, status: string, reason?: string, requestOptions?: Partial<RequestOptions>): Promise<RESTPutAPIChannelVoiceStatusResult> {
+		return this.requestHandler.request(Endpoints.CHANNEL_VOICE_STATUS(channelId), {}, "put", "json", { status }, Constants.reasonHeader(reason), undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -1103,6 +1244,7 @@ class ChannelMethods {
 	 * @param channelId Id of the channel
 	 * @param imageUrl URL of an image to display
 	 * @param reason Reason for changing the image
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns A [Guild Voice Channel](https://discord.com/developers/docs/resources/channel#channel-object)
 	 *
 	 * | Permissions needed       | Condition                             |
@@ -1120,14 +1262,13 @@ class ChannelMethods {
 	 * // clears the image
 	 * client.channel.setVoiceChannelHangout("channel id", "")
 	 */
-	public async setVoiceChannelHangout(channelId: string, imageUrl: string, reason?: string): Promise<APIGuildVoiceChannel> {
-		return this.requestHandler.request(Endpoints.CHANNEL_VOICE_HANGOUT(channelId), {}, "post", "json", { url: imageUrl }, Constants.reasonHeader(reason));
+	public async setVoiceChannelHangout(channelId: string, imageUrl: string, reason?: string, requestOptions?: Partial<RequestOptions>): Promise<APIGuildVoiceChannel> {
+		return this.requestHandler.request(Endpoints.CHANNEL_VOICE_HANGOUT(channelId), {}, "post", "json", { url: imageUrl }, Constants.reasonHeader(reason), undefined, undefined, requestOptions);
 	}
 }
 
 export = ChannelMethods;
 
-
 // Wolke >>
 // https://www.youtube.com/watch?v=LIlZCmETvsY have a weird video to distract yourself from the problems that will come upon ya
 
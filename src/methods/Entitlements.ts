@@ -1,8 +1,11 @@
 import type { RequestHandler as RH } from "../RequestHandler";
 
 import Endpoints = require("../Endpoints");
+import Constants = require("../Constants");
+import { paginate } from "../Pagination";
 
 import type {
+	RESTGetAPIEntitlementsQuery,
 	RESTGetAPIEntitlementsResult,
 	RESTGetAPIEntitlementResult,
 	RESTPostAPIEntitlementConsumeResult,
@@ -11,6 +14,8 @@ import type {
 	RESTDeleteAPIEntitlementResult
 } from "discord-api-types/v10";
 
+import type { PaginationOptions, RequestOptions } from "../Types";
+
 /**
  * Methods for interacting with Entitlements
  * @since 0.13.0
@@ -31,6 +36,8 @@ class EntitlementMethods {
 	 * Returns all entitlements for a given app, active and expired
 	 * @since 0.13.0
 	 * @param appId Id of the app
+	 * @param options Options for getting the entitlements
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns Array of [entitlement objects](https://discord.com/developers/docs/resources/entitlement#entitlement-object)
 	 *
 	 * @example
@@ -38,8 +45,31 @@ class EntitlementMethods {
 	 * const client = new SnowTransfer("TOKEN")
 	 * const entitlements = await client.entitlement.getEntitlements("app id")
 	 */
-	public async getEntitlements(appId: string): Promise<RESTGetAPIEntitlementsResult> {
-		return this.requestHandler.request(Endpoints.APPLICATION_ENTITLEMENTS(appId), {}, "get", "json");
+	public async getEntitlements(appId: string, options?: RESTGetAPIEntitlementsQuery, requestOptions?: Partial<RequestOptions>): Promise<RESTGetAPIEntitlementsResult> {
+		return this.requestHandler.request(Endpoints.APPLICATION_ENTITLEMENTS(appId), options, "get", "json", undefined, undefined, undefined, undefined, requestOptions);
+	}
+
+	/**
+	 * Walk through the entitlements for a given app, requesting as many pages as needed
+	 * @since 0.19.0
+	 * @param appId Id of the app
+	 * @param options Options for walking the entitlements and optional filter values. Walks before (newest to oldest) by default
+	 * @returns An async iterable of [entitlement objects](https://discord.com/developers/docs/resources/entitlement#entitlement-object)
+	 *
+	 * @example
+	 * // Get all active entitlements of a user
+	 * const client = new SnowTransfer("TOKEN")
+	 * const entitlements = await Array.fromAsync(client.entitlement.iterateEntitlements("app id", { user_id: "user id", exclude_ended: true }))
+	 */
+	public iterateEntitlements(appId: string, options?: Partial<PaginationOptions> & Omit<RESTGetAPIEntitlementsQuery, "before" | "after" | "limit">): AsyncGenerator<RESTGetAPIEntitlementsResult[number], void, undefined> {
+		return paginate(query => this.getEntitlements(appId, {
+			user_id: options?.user_id,
+			sku_ids: options?.sku_ids,
+			guild_id: options?.guild_id,
+			exclude_ended: options?.exclude_ended,
+			exclude_deleted: options?.exclude_deleted,
+			...query
+		}, { signal: options?.signal }), e => e.id, Constants.GET_ENTITLEMENTS_MAX_RESULTS, ["before", "after"], options);
 	}
 
 	/**
@@ -47,6 +77,7 @@ class EntitlementMethods {
 	 * @since 0.13.0
 	 * @param appId Id of the app
 	 * @param entitlementId Id of the entitlement
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns [entitlement object](https://discord.com/developers/docs/resources/entitlement#entitlement-object)
 	 *
 	 * @example
@@ -54,8 +85,8 @@ class EntitlementMethods {
 	 * const client = new SnowTransfer("TOKEN")
 	 * const entitlement = await client.entitlement.getEntitlement("app id", "entitlement id")
 	 */
-	public async getEntitlement(appId: string, entitlementId: string): Promise<RESTGetAPIEntitlementResult> {
-		return this.requestHandler.request(Endpoints.APPLICATION_ENTITLEMENT(appId, entitlementId), {}, "get", "json");
+	public async getEntitlement(appId: string, entitlementId: string, requestOptions?: Partial<RequestOptions>): Promise<RESTGetAPIEntitlementResult> {
+		return this.requestHandler.request(Endpoints.APPLICATION_ENTITLEMENT(appId, entitlementId), {}, "get", "json", undefined, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -63,6 +94,7 @@ class EntitlementMethods {
 	 * @since 0.13.0
 	 * @param appId Id of the app
 	 * @param entitlementId Id of the entitlement
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns Resolves the Promise on successful execution
 	 *
 	 * @example
@@ -70,8 +102,8 @@ class EntitlementMethods {
 	 * const client = new SnowTransfer("TOKEN")
 	 * client.entitlement.consumeEntitlement("app id", "entitlement id")
 	 */
-	public async consumeEntitlement(appId: string, entitlementId: string): Promise<RESTPostAPIEntitlementConsumeResult> {
-		return this.requestHandler.request(Endpoints.APPLICATION_ENTITLEMENT_CONSUME(appId, entitlementId), {}, "post", "json");
+	public async consumeEntitlement(appId: string, entitlementId: string, requestOptions?: Partial<RequestOptions>): Promise<RESTPostAPIEntitlementConsumeResult> {
+		return this.requestHandler.request(Endpoints.APPLICATION_ENTITLEMENT_CONSUME(appId, entitlementId), {}, "post", "json", undefined, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -79,6 +111,7 @@ class EntitlementMethods {
 	 * @since 0.13.0
 	 * @param appId Id of the app
 	 * @param data Data to send
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns Partial [entitlement object](https://discord.com/developers/docs/resources/entitlement#entitlement-object)
 	 *
 	 * @example
@@ -90,8 +123,8 @@ class EntitlementMethods {
 	 * 	owner_type: 2 // type 2 is for a user. Type 1 is for a guild
 	 * })
 	 */
-	public async createTestEntitlement(appId: string, data: RESTPostAPIEntitlementJSONBody): Promise<RESTPostAPIEntitlementResult> {
-		return this.requestHandler.request(Endpoints.APPLICATION_ENTITLEMENTS(appId), {}, "post", "json", data);
+	public async createTestEntitlement(appId: string, data: RESTPostAPIEntitlementJSONBody, requestOptions?: Partial<RequestOptions>): Promise<RESTPostAPIEntitlementResult> {
+		return this.requestHandler.request(Endpoints.APPLICATION_ENTITLEMENTS(appId), {}, "post", "json", data, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -99,6 +132,7 @@ class EntitlementMethods {
 	 * @since 0.13.0
 	 * @param appId Id of the app
 	 * @param entitlementId Id of the entitlement
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns Resolves the Promise on successful execution
 	 *
 	 * @example
@@ -106,8 +140,8 @@ class EntitlementMethods {
 	 * const client = new SnowTransfer("TOKEN")
 	 * client.entitlement.deleteTestEntitlement("app id", "entitlement id")
 	 */
-	public async deleteTestEntitlement(appId: string, entitlementId: string): Promise<RESTDeleteAPIEntitlementResult> {
-		return this.requestHandler.request(Endpoints.APPLICATION_ENTITLEMENT(appId, entitlementId), {}, "delete", "json");
+	public async deleteTestEntitlement(appId: string, entitlementId: string, requestOptions?: Partial<RequestOptions>): Promise<RESTDeleteAPIEntitlementResult> {
+		return this.requestHandler.request(Endpoints.APPLICATION_ENTITLEMENT(appId, entitlementId), {}, "delete", "json", undefined, undefined, undefined, undefined, requestOptions);
 	}
 }
 
@@ -1,7 +1,8 @@
 import Endpoints = require("../Endpoints");
 import Constants = require("../Constants");
+import { paginate } from "../Pagination";
 
-import type { RequestHandler as RH } from "../RequestHandler";
+import { DiscordAPIError, type RequestHandler as RH } from "../RequestHandler";
 
 import type {
 	APIGuildMember,
@@ -24,6 +25,7 @@ import type {
 	RESTGetAPIGuildMembersSearchResult,
 	RESTGetAPIGuildMessagesSearchQuery,
 	RESTGetAPIGuildMessagesSearchResult,
+	RESTGetAPIGuildOnboardingResult,
 	RESTGetAPIGuildPreviewResult,
 	RESTGetAPIGuildPruneCountQuery,
 	RESTGetAPIGuildPruneCountResult,
@@ -53,6 +55,7 @@ import type {
 	RESTPatchAPIGuildWelcomeScreenResult,
 	RESTPatchAPIGuildWidgetSettingsJSONBody,
 	RESTPatchAPIGuildWidgetSettingsResult,
+	RESTPostAPIGuildBulkBanResult,
 	RESTPostAPIGuildChannelJSONBody,
 	RESTPostAPIGuildChannelResult,
 	RESTPostAPIGuildPruneJSONBody,
@@ -63,8 +66,13 @@ import type {
 	RESTPutAPIGuildBanResult,
 	RESTPutAPIGuildMemberJSONBody,
 	RESTPutAPIGuildMemberResult,
-	RESTPutAPIGuildMemberRoleResult
+	RESTPutAPIGuildMemberRoleResult,
+	RESTPutAPIGuildOnboardingJSONBody,
+	RESTPutAPIGuildOnboardingResult
 } from "discord-api-types/v10";
+import { RESTJSONErrorCodes } from "discord-api-types/v10";
+
+import type { BulkBanError, BulkBanOptions, PaginationOptions, RequestOptions } from "../Types";
 
 /**
  * Methods for interacting with Guilds
@@ -89,28 +97,30 @@ class GuildMethods {
 	 * @since 0.1.0
 	 * @param guildId Id of the guild
 	 * @param withCounts when true, will return approximate member and presence counts for the guild
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns [Guild object](https://discord.com/developers/docs/resources/guild#guild-object)
 	 *
 	 * @example
 	 * const client = new SnowTransfer("TOKEN")
 	 * const guild = await client.guild.getGuild("guild id")
 	 */
-	public async getGuild(guildId: string, withCounts?: boolean): Promise<RESTGetAPIGuildResult> {
-		return this.requestHandler.request(Endpoints.GUILD(guildId), { with_counts: withCounts }, "get", "json");
+	public async getGuild(guildId: string, withCounts?: boolean, requestOptions?: Partial<RequestOptions>): Promise<RESTGetAPIGuildResult> {
+		return this.requestHandler.request(Endpoints.GUILD(guildId), { with_counts: withCounts }, "get", "json", undefined, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
 	 * Gets a guild's preview. If the CurrentUser is not in the guild, the guild must be lurkable
 	 * @since 0.3.0
 	 * @param guildId Id of the guild
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns [Guild preview](https://discord.com/developers/docs/resources/guild#guild-preview-object)
 	 *
 	 * @example
 	 * const client = new SnowTransfer("TOKEN")
 	 * const guildPreview = await client.guild.getGuildPreview("guild id")
 	 */
-	public async getGuildPreview(guildId: string): Promise<RESTGetAPIGuildPreviewResult> {
-		return this.requestHandler.request(Endpoints.GUILD_PREVIEW(guildId), {}, "get", "json");
+	public async getGuildPreview(guildId: string, requestOptions?: Partial<RequestOptions>): Promise<RESTGetAPIGuildPreviewResult> {
+		return this.requestHandler.request(Endpoints.GUILD_PREVIEW(guildId), {}, "get", "json", undefined, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -119,6 +129,7 @@ class GuildMethods {
 	 * @param guildId Id of the guild
 	 * @param data Updated guild data
 	 * @param reason Reason for updating the guild
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns [Guild object](https://discord.com/developers/docs/resources/guild#guild-object)
 	 *
 	 * | Permissions needed | Condition |
@@ -133,8 +144,8 @@ class GuildMethods {
 	 * }
 	 * client.guild.editGuild("guild Id", guildData)
 	 */
-	public async editGuild(guildId: string, data: RESTPatchAPIGuildJSONBody, reason?: string): Promise<RESTPatchAPIGuildResult> {
-		return this.requestHandler.request(Endpoints.GUILD(guildId), {}, "patch", "json", data, Constants.reasonHeader(reason));
+	public async editGuild(guildId: string, data: RESTPatchAPIGuildJSONBody, reason?: string, requestOptions?: Partial<RequestOptions>): Promise<RESTPatchAPIGuildResult> {
+		return this.requestHandler.request(Endpoints.GUILD(guildId), {}, "patch", "json", data, Constants.reasonHeader(reason), undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -143,14 +154,15 @@ class GuildMethods {
 	 * CurrentUser must be a member of the guild
 	 * @since 0.1.0
 	 * @param guildId Id of the guild
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns list of [channels](https://discord.com/developers/docs/resources/channel#channel-object-channel-structure)
 	 *
 	 * @example
 	 * const client = new SnowTransfer("TOKEN")
 	 * const channels = await client.guild.getGuildChannels("guild id")
 	 */
-	public async getGuildChannels(guildId: string): Promise<RESTGetAPIGuildChannelsResult> {
-		return this.requestHandler.request(Endpoints.GUILD_CHANNELS(guildId), {}, "get", "json");
+	public async getGuildChannels(guildId: string, requestOptions?: Partial<RequestOptions>): Promise<RESTGetAPIGuildChannelsResult> {
+		return this.requestHandler.request(Endpoints.GUILD_CHANNELS(guildId), {}, "get", "json", undefined, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -159,6 +171,7 @@ class GuildMethods {
 	 * @param guildId Id of the guild
 	 * @param data channel properties
 	 * @param reason Reason for creating the channel
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns [channel object](https://discord.com/developers/docs/resources/channel#channel-object-channel-structure)
 	 *
 	 * | Permissions needed | Condition                                                       |
@@ -177,8 +190,8 @@ class GuildMethods {
 	 * \}
 	 * const channel = await client.guild.createGuildChannel("guild id", channelData)
 	 */
-	public async createGuildChannel(guildId: string, data: RESTPostAPIGuildChannelJSONBody, reason?: string): Promise<RESTPostAPIGuildChannelResult> {
-		return this.requestHandler.request(Endpoints.GUILD_CHANNELS(guildId), {}, "post", "json", data, Constants.reasonHeader(reason));
+	public async createGuildChannel(guildId: string, data: RESTPostAPIGuildChannelJSONBody, reason?: string, requestOptions?: Partial<RequestOptions>): Promise<RESTPostAPIGuildChannelResult> {
+		return this.requestHandler.request(Endpoints.GUILD_CHANNELS(guildId), {}, "post", "json", data, Constants.reasonHeader(reason), undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -187,6 +200,7 @@ class GuildMethods {
 	 * @param guildId Id of the guild
 	 * @param data Positional data to send
 	 * @param reason Reason for updating the channels' positions
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns Resolves the Promise on successful execution
 	 *
 	 * | Permissions needed | Condition |
@@ -198,22 +212,23 @@ class GuildMethods {
 	 * const client = new SnowTransfer("TOKEN")
 	 * client.guild.editChannelPositions("guild id", [{ id: "channel id", position: 2, parent_id: "category id" }], "they looked out of order")
 	 */
-	public async editChannelPositions(guildId: string, data: RESTPatchAPIGuildChannelPositionsJSONBody, reason?: string): Promise<RESTPatchAPIGuildChannelPositionsResult> {
-		return this.requestHandler.request(Endpoints.GUILD_CHANNELS(guildId), {}, "patch", "json", data, Constants.reasonHeader(reason));
+	public async editChannelPositions(guildId: string, data: RESTPatchAPIGuildChannelPositionsJSONBody, reason?: string, requestOptions?: Partial<RequestOptions>): Promise<RESTPatchAPIGuildChannelPositionsResult> {
+		return this.requestHandler.request(Endpoints.GUILD_CHANNELS(guildId), {}, "patch", "json", data, Constants.reasonHeader(reason), undefined, undefined, requestOptions);
 	}
 
 	/**
 	 * Returns all active threads in the guild, including public and private threads. Threads are ordered by their `id`, in descending order
 	 * @since 0.3.0
 	 * @param guildId Id of the guild
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns All active threads and member objects of the CurrentUser that the CurrentUser has access to.
 	 *
 	 * @example
 	 * const client = new SnowTransfer("TOKEN")
 	 * const threads = await client.guild.listActiveThreads("guild id")
 	 */
-	public async listActiveThreads(guildId: string): Promise<RESTGetAPIGuildThreadsResult> {
-		return this.requestHandler.request(Endpoints.GUILD_THREADS_ACTIVE(guildId), {}, "get", "json");
+	public async listActiveThreads(guildId: string, requestOptions?: Partial<RequestOptions>): Promise<RESTGetAPIGuildThreadsResult> {
+		return this.requestHandler.request(Endpoints.GUILD_THREADS_ACTIVE(guildId), {}, "get", "json", undefined, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -223,14 +238,15 @@ class GuildMethods {
 	 * @since 0.1.0
 	 * @param guildId Id of the guild
 	 * @param memberId Id of the guild member
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns [guild member](https://discord.com/developers/docs/resources/guild#guild-member-object-guild-member-structure)
 	 *
 	 * @example
 	 * const client = new SnowTransfer("TOKEN")
 	 * const member = await client.guild.getGuildMember("guild id", "member id")
 	 */
-	public async getGuildMember(guildId: string, memberId: string): Promise<RESTGetAPIGuildMemberResult> {
-		return this.requestHandler.request(Endpoints.GUILD_MEMBER(guildId, memberId), {}, "get", "json");
+	public async getGuildMember(guildId: string, memberId: string, requestOptions?: Partial<RequestOptions>): Promise<RESTGetAPIGuildMemberResult> {
+		return this.requestHandler.request(Endpoints.GUILD_MEMBER(guildId, memberId), {}, "get", "json", undefined, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -240,6 +256,7 @@ class GuildMethods {
 	 * @since 0.1.0
 	 * @param guildId Id of the guild
 	 * @param options query data
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns list of [guild members](https://discord.com/developers/docs/resources/guild#guild-member-object-guild-member-structure)
 	 *
 	 * | Intents       |
@@ -251,8 +268,30 @@ class GuildMethods {
 	 * const client = new SnowTransfer("TOKEN")
 	 * const members = await client.guild.getGuildMembers("guild id", { limit: 10 })
 	 */
-	public async getGuildMembers(guildId: string, options?: RESTGetAPIGuildMembersQuery): Promise<RESTGetAPIGuildMembersResult> {
-		return this.requestHandler.request(Endpoints.GUILD_MEMBERS(guildId), options, "get", "json");
+	public async getGuildMembers(guildId: string, options?: RESTGetAPIGuildMembersQuery, requestOptions?: Partial<RequestOptions>): Promise<RESTGetAPIGuildMembersResult> {
+		return this.requestHandler.request(Endpoints.GUILD_MEMBERS(guildId), options, "get", "json", undefined, undefined, undefined, undefined, requestOptions);
+	}
+
+	/**
+	 * Walk through all members of a guild, requesting as many pages as needed
+	 *
+	 * CurrentUser must be a member of the guild
+	 * @since 0.19.0
+	 * @param guildId Id of the guild
+	 * @param options Options for walking the members. Can only walk after
+	 * @returns An async iterable of [guild members](https://discord.com/developers/docs/resources/guild#guild-member-object-guild-member-structure)
+	 *
+	 * | Intents       |
+	 * |---------------|
+	 * | GUILD_MEMBERS |
+	 *
+	 * @example
+	 * // Gets every member of a guild
+	 * const client = new SnowTransfer("TOKEN")
+	 * const members = await Array.fromAsync(client.guild.iterateGuildMembers("guild id"))
+	 */
+	public iterateGuildMembers(guildId: string, options?: Partial<PaginationOptions>): AsyncGenerator<RESTGetAPIGuildMembersResult[number], void, undefined> {
+		return paginate(query => this.getGuildMembers(guildId, query, { signal: options?.signal }), m => m.user.id, Constants.GET_GUILD_MEMBERS_MAX_RESULTS, ["after"], options);
 	}
 
 	/**
@@ -260,6 +299,7 @@ class GuildMethods {
 	 * @since 0.3.0
 	 * @param guildId Id of the guild
 	 * @param options query data
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns list of [guild members](https://discord.com/developers/docs/resources/guild#guild-member-object-guild-member-structure)
 	 *
 	 * @example
@@ -267,9 +307,9 @@ class GuildMethods {
 	 * const client = new SnowTransfer("TOKEN")
 	 * const members = await client.guild.searchGuildMembers("guild id", { query: "Wolke" })
 	 */
-	public async searchGuildMembers(guildId: string, options: RESTGetAPIGuildMembersSearchQuery): Promise<RESTGetAPIGuildMembersSearchResult> {
+	public async searchGuildMembers(guildId: string, options: RESTGetAPIGuildMembersSearchQuery, requestOptions?: Partial<RequestOptions>): Promise<RESTGetAPIGuildMembersSearchResult> {
 		if (options.limit !== undefined && (options.limit < Constants.SEARCH_MEMBERS_MIN_RESULTS || options.limit > Constants.SEARCH_MEMBERS_MAX_RESULTS)) throw new RangeError(`Limit for searching guild members has to be between ${Constants.SEARCH_MEMBERS_MIN_RESULTS} and ${Constants.SEARCH_MEMBERS_MAX_RESULTS}`);
-		return this.requestHandler.request(Endpoints.GUILD_MEMBERS_SEARCH(guildId), options, "get", "json");
+		return this.requestHandler.request(Endpoints.GUILD_MEMBERS_SEARCH(guildId), options, "get", "json", undefined, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -280,6 +320,7 @@ class GuildMethods {
 	 * @param guildId Id of the guild
 	 * @param memberId Id of the guild member
 	 * @param data object containing the needed request data
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns [guild member](https://discord.com/developers/docs/resources/guild#guild-member-object-guild-member-structure) or void if the member is already in the guild
 	 *
 	 * | Permissions needed    | Condition |
@@ -298,8 +339,8 @@ class GuildMethods {
 	 * }
 	 * client.guild.addGuildMember("guildId", "memberId", memberData)
 	 */
-	public async addGuildMember(guildId: string, memberId: string, data: RESTPutAPIGuildMemberJSONBody): Promise<RESTPutAPIGuildMemberResult> {
-		return this.requestHandler.request(Endpoints.GUILD_MEMBER(guildId, memberId), {}, "put", "json", data);
+	public async addGuildMember(guildId: string, memberId: string, data: RESTPutAPIGuildMemberJSONBody, requestOptions?: Partial<RequestOptions>): Promise<RESTPutAPIGuildMemberResult> {
+		return this.requestHandler.request(Endpoints.GUILD_MEMBER(guildId, memberId), {}, "put", "json", data, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -309,6 +350,7 @@ class GuildMethods {
 	 * @param memberId Id of the guild member
 	 * @param data Updated properties
 	 * @param reason Reason for updating the guild member
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns Resolves the Promise on successful execution
 	 *
 	 * | Permissions needed | Condition    |
@@ -329,8 +371,8 @@ class GuildMethods {
 	 * }
 	 * const member = await client.guild.editGuildMember("guild Id", "memberId", memberData)
 	 */
-	public async editGuildMember(guildId: string, memberId: string, data: RESTPatchAPIGuildMemberJSONBody, reason?: string): Promise<RESTPatchAPIGuildMemberResult> {
-		return this.requestHandler.request(Endpoints.GUILD_MEMBER(guildId, memberId), {}, "patch", "json", data, Constants.reasonHeader(reason));
+	public async editGuildMember(guildId: string, memberId: string, data: RESTPatchAPIGuildMemberJSONBody, reason?: string, requestOptions?: Partial<RequestOptions>): Promise<RESTPatchAPIGuildMemberResult> {
+		return this.requestHandler.request(Endpoints.GUILD_MEMBER(guildId, memberId), {}, "patch", "json", data, Constants.reasonHeader(reason), undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -339,6 +381,7 @@ class GuildMethods {
 	 * @param guildId Id of the guild
 	 * @param data Data to update self with
 	 * @param reason Reason for updating self
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns Resolves the Promise on successful execution
 	 *
 	 * | Permissions needed | Condition |
@@ -353,8 +396,8 @@ class GuildMethods {
 	 * }
 	 * client.guild.editSelf("guildId", nickData)
 	 */
-	public async editSelf(guildId: string, data: RESTPatchAPICurrentGuildMemberJSONBody, reason?: string): Promise<APIGuildMember> {
-		return this.requestHandler.request(Endpoints.GUILD_MEMBER(guildId, "@me"), {}, "patch", "json", data, Constants.reasonHeader(reason));
+	public async editSelf(guildId: string, data: RESTPatchAPICurrentGuildMemberJSONBody, reason?: string, requestOptions?: Partial<RequestOptions>): Promise<APIGuildMember> {
+		return this.requestHandler.request(Endpoints.GUILD_MEMBER(guildId, "@me"), {}, "patch", "json", data, Constants.reasonHeader(reason), undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -364,6 +407,7 @@ class GuildMethods {
 	 * @param memberId Id of the guild member
 	 * @param roleId Id of the role
 	 * @param reason The reason for the role to be added
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns Resolves the Promise on successful execution
 	 *
 	 * | Permissions needed | Condition |
@@ -375,8 +419,8 @@ class GuildMethods {
 	 * const client = new SnowTransfer("TOKEN")
 	 * client.guild.addGuildMemberRole("guildId", "memberId", "roleId", "I want to add a role")
 	 */
-	public async addGuildMemberRole(guildId: string, memberId: string, roleId: string, reason?: string): Promise<RESTPutAPIGuildMemberRoleResult> {
-		return this.requestHandler.request(Endpoints.GUILD_MEMBER_ROLE(guildId, memberId, roleId), {}, "put", "json", {}, Constants.reasonHeader(reason));
+	public async addGuildMemberRole(guildId: string, memberId: string, roleId: string, reason?: string, requestOptions?: Partial<RequestOptions>): Promise<RESTPutAPIGuildMemberRoleResult> {
+		return this.requestHandler.request(Endpoints.GUILD_MEMBER_ROLE(guildId, memberId, roleId), {}, "put", "json", {}, Constants.reasonHeader(reason), undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -386,6 +430,7 @@ class GuildMethods {
 	 * @param memberId Id of the guild member
 	 * @param roleId Id of the role
 	 * @param reason The reason for the role to be removed
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns Resolves the Promise on successful execution
 	 *
 	 * | Permissions needed | Condition |
@@ -397,8 +442,8 @@ class GuildMethods {
 	 * const client = new SnowTransfer("TOKEN")
 	 * client.guild.deleteGuildMemberRole("guildId", "memberId", "roleId", "I want to remove a role")
 	 */
-	public async deleteGuildMemberRole(guildId: string, memberId: string, roleId: string, reason?: string): Promise<RESTDeleteAPIGuildMemberRoleResult> {
-		return this.requestHandler.request(Endpoints.GUILD_MEMBER_ROLE(guildId, memberId, roleId), {}, "delete", "json", {}, Constants.reasonHeader(reason));
+	public async deleteGuildMemberRole(guildId: string, memberId: string, roleId: string, reason?: string, requestOptions?: Partial<RequestOptions>): Promise<RESTDeleteAPIGuildMemberRoleResult> {
+		return this.requestHandler.request(Endpoints.GUILD_MEMBER_ROLE(guildId, memberId, roleId), {}, "delete", "json", {}, Constants.reasonHeader(reason), undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -407,6 +452,7 @@ class GuildMethods {
 	 * @param guildId Id of the guild
 	 * @param memberId Id of the guild member
 	 * @param reason Reason for kicking the member
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns Resolves the Promise on successful execution
 	 *
 	 * | Permissions needed | Condition |
@@ -418,8 +464,8 @@ class GuildMethods {
 	 * const client = new SnowTransfer("TOKEN")
 	 * client.guild.deleteGuildMember("guild Id", "memberId", "spam")
 	 */
-	public async deleteGuildMember(guildId: string, memberId: string, reason?: string): Promise<RESTDeleteAPIGuildMemberResult> {
-		return this.requestHandler.request(Endpoints.GUILD_MEMBER(guildId, memberId), {}, "delete", "json", {}, Constants.reasonHeader(reason));
+	public async deleteGuildMember(guildId: string, memberId: string, reason?: string, requestOptions?: Partial<RequestOptions>): Promise<RESTDeleteAPIGuildMemberResult> {
+		return this.requestHandler.request(Endpoints.GUILD_MEMBER(guildId, memberId), {}, "delete", "json", {}, Constants.reasonHeader(reason), undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -427,6 +473,7 @@ class GuildMethods {
 	 * @since 0.1.0
 	 * @param guildId Id of the guild
 	 * @param options Query string options
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns List of [bans](https://discord.com/developers/docs/resources/guild#ban-object-ban-structure)
 	 *
 	 * | Permissions needed | Condition |
@@ -437,8 +484,30 @@ class GuildMethods {
 	 * const client = new SnowTransfer("TOKEN")
 	 * const bans = await client.guild.getGuildBans("guildId")
 	 */
-	public async getGuildBans(guildId: string, options?: RESTGetAPIGuildBansQuery): Promise<RESTGetAPIGuildBansResult> {
-		return this.requestHandler.request(Endpoints.GUILD_BANS(guildId), options, "get", "json");
+	public async getGuildBans(guildId: string, options?: RESTGetAPIGuildBansQuery, requestOptions?: Partial<RequestOptions>): Promise<RESTGetAPIGuildBansResult> {
+		return this.requestHandler.request(Endpoints.GUILD_BANS(guildId), options, "get", "json", undefined, undefined, undefined, undefined, requestOptions);
+	}
+
+	/**
+	 * Walk through the bans of a guild, requesting as many pages as needed
+	 * @since 0.19.0
+	 * @param guildId Id of the guild
+	 * @param options Options for walking the bans. Walks after (lowest to highest user id) by default
+	 * @returns An async iterable of [bans](https://discord.com/developers/docs/resources/guild#ban-object-ban-structure)
+	 *
+	 * | Permissions needed | Condition |
+	 * |--------------------|-----------|
+	 * | BAN_MEMBERS        | always    |
+	 *
+	 * @example
+	 * // Stop walking after 10 seconds
+	 * const client = new SnowTransfer("TOKEN")
+	 * for await (const ban of client.guild.iterateGuildBans("guildId", { signal: AbortSignal.timeout(10000) })) {
+	 * 	console.log(ban.user.id, ban.reason)
+	 * }
+	 */
+	public iterateGuildBans(guildId: string, options?: Partial<PaginationOptions>): AsyncGenerator<RESTGetAPIGuildBansResult[number], void, undefined> {
+		return paginate(query => this.getGuildBans(guildId, query, { signal: options?.signal }), b => b.user.id, Constants.GET_GUILD_BANS_MAX_RESULTS, ["after", "before"], options);
 	}
 
 	/**
@@ -446,6 +515,7 @@ class GuildMethods {
 	 * @since 0.4.2
 	 * @param guildId Id of the guild
 	 * @param memberId Id of the member
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns [ban](https://discord.com/developers/docs/resources/guild#ban-object-ban-structure) object
 	 *
 	 * @throws a `DiscordAPIError` if the member is not banned
@@ -458,8 +528,8 @@ class GuildMethods {
 	 * const client = new SnowTransfer("TOKEN")
 	 * const ban = await client.guild.getGuildBan("guildId", "memberId")
 	 */
-	public async getGuildBan(guildId: string, memberId: string): Promise<RESTGetAPIGuildBanResult> {
-		return this.requestHandler.request(Endpoints.GUILD_BAN(guildId, memberId), {}, "get", "json");
+	public async getGuildBan(guildId: string, memberId: string, requestOptions?: Partial<RequestOptions>): Promise<RESTGetAPIGuildBanResult> {
+		return this.requestHandler.request(Endpoints.GUILD_BAN(guildId, memberId), {}, "get", "json", undefined, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -469,6 +539,7 @@ class GuildMethods {
 	 * @param memberId Id of the guild member
 	 * @param data object with delete_message_days property
 	 * @param reason Reason for banning the member
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns Resolves the Promise on successful execution
 	 *
 	 * | Permissions needed | Condition |
@@ -483,8 +554,61 @@ class GuildMethods {
 	 * }
 	 * client.guild.createGuildBan("guild Id", "memberId", banData, "Memes were not good enough")
 	 */
-	public async createGuildBan(guildId: string, memberId: string, data?: RESTPutAPIGuildBanJSONBody, reason?: string): Promise<RESTPutAPIGuildBanResult> {
-		return this.requestHandler.request(Endpoints.GUILD_BAN(guildId, memberId), {}, "put", "json", data, Constants.reasonHeader(reason));
+	public async createGuildBan(guildId: string, memberId: string, data?: RESTPutAPIGuildBanJSONBody, reason?: string, requestOptions?: Partial<RequestOptions>): Promise<RESTPutAPIGuildBanResult> {
+		return this.requestHandler.request(Endpoints.GUILD_BAN(guildId, memberId), {}, "put", "json", data, Constants.reasonHeader(reason), undefined, undefined, requestOptions);
+	}
+
+	/**
+	 * Ban many users at once. Users are banned in chunks of up to 200, one request per chunk
+	 * @since 0.19.0
+	 * @param guildId Id of the guild
+	 * @param userIds Ids of the users to ban. Duplicates are only banned once
+	 * @param options How many seconds of messages to delete, the reason for the bans and a callback for the progress after every chunk
+	 * @param requestOptions Options for the requests, like an AbortSignal or a timeout
+	 * @returns The ids of the users that were banned and of the users that weren't, because they're already banned or can't be banned by the current user
+	 * @throws {BulkBanError} The error of the chunk that failed, other than none of its users being bannable. Its partialResult has the users of the chunks before it
+	 *
+	 * | Permissions needed | Condition |
+	 * |--------------------|-----------|
+	 * | BAN_MEMBERS        | always    |
+	 * | MANAGE_GUILD       | always    |
+	 *
+	 * @example
+	 * // Ban the members of a raid and delete the last hour of their messages
+	 * const client = new SnowTransfer("TOKEN")
+	 * const result = await client.guild.bulkBanGuildMembers("guildId", raiderIds, {
+	 * 	deleteMessageSeconds: 3600,
+	 * 	reason: "Raid",
+	 * 	onProgress: progress => console.log(`${progress.processed}/${progress.total}`)
+	 * })
+	 * // result should be something like { banned_users: ["id 1", "id 2"], failed_users: ["id 3"] }
+	 */
+	public async bulkBanGuildMembers(guildId: string, userIds: Array<string>, options?: Partial<BulkBanOptions>, requestOptions?: Partial<RequestOptions>): Promise<RESTPostAPIGuildBulkBanResult> {
+		const deleteMessageSeconds = options?.deleteMessageSeconds;
+		if (deleteMessageSeconds !== undefined && (deleteMessageSeconds < 0 || deleteMessageSeconds > Constants.BAN_DELETE_MESSAGE_MAX_SECONDS)) throw new RangeError(`deleteMessageSeconds has to be between 0 and ${Constants.BAN_DELETE_MESSAGE_MAX_SECONDS}`);
+
+		const ids = [...new Set(userIds)];
+		const result: RESTPostAPIGuildBulkBanResult = { banned_users: [], failed_users: [] };
+		// Chunks share a bucket, so they're sent one after another anyways
+		for (let i = 0; i < ids.length; i += Constants.BULK_BAN_MAX_USERS) {
+			const chunk = ids.slice(i, i + Constants.BULK_BAN_MAX_USERS);
+			try {
+				const chunkResult: RESTPostAPIGuildBulkBanResult = await this.requestHandler.request(Endpoints.GUILD_BULK_BAN(guildId), {}, "post", "json", { user_ids: chunk, delete_message_seconds: deleteMessageSeconds }, Constants.reasonHeader(options?.reason), undefined, undefined, requestOptions);
+				result.banned_users.push(...chunkResult.banned_users);
+				result.failed_users.push(...chunkResult.failed_users);
+			} catch (e) {
+				// Discord errors instead of answering when none of the users of a chunk could be banned
+				if (!(e instanceof DiscordAPIError) || e.code !== RESTJSONErrorCodes.FailedToBanUsers) {
+					// The chunks before were banned already, which the caller couldn't tell otherwise
+					if (e instanceof Error) (e as BulkBanError).partialResult = { banned_users: [...result.banned_users], failed_users: [...result.failed_users] };
+					throw e;
+				}
+				result.failed_users.push(...chunk);
+			}
+			options?.onProgress?.({ processed: i + chunk.length, total: ids.length, banned_users: [...result.banned_users], failed_users: [...result.failed_users] });
+		}
+
+		return result;
 	}
 
 	/**
@@ -493,6 +617,7 @@ class GuildMethods {
 	 * @param guildId Id of the guild
 	 * @param memberId Id of the guild member
 	 * @param reason Reason for removing the ban
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns Resolves the Promise on successful execution
 	 *
 	 * | Permissions needed | Condition |
@@ -504,14 +629,15 @@ class GuildMethods {
 	 * const client = new SnowTransfer("TOKEN")
 	 * client.guild.deleteGuildBan("guildId", "memberId", "This guy was cool")
 	 */
-	public async deleteGuildBan(guildId: string, memberId: string, reason?: string): Promise<RESTDeleteAPIGuildBanResult> {
-		return this.requestHandler.request(Endpoints.GUILD_BAN(guildId, memberId), {}, "delete", "json", {}, Constants.reasonHeader(reason));
+	public async deleteGuildBan(guildId: string, memberId: string, reason?: string, requestOptions?: Partial<RequestOptions>): Promise<RESTDeleteAPIGuildBanResult> {
+		return this.requestHandler.request(Endpoints.GUILD_BAN(guildId, memberId), {}, "delete", "json", {}, Constants.reasonHeader(reason), undefined, undefined, requestOptions);
 	}
 
 	/**
 	 * Get a list of roles for a guild
 	 * @since 0.1.0
 	 * @param guildId Id of the guild
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns array of [roles](https://discord.com/developers/docs/topics/permissions#role-object)
 	 *
 	 * | Permissions needed | Condition |
@@ -522,8 +648,8 @@ class GuildMethods {
 	 * const client = new SnowTransfer("TOKEN")
 	 * const roles = await client.guild.getGuildRoles("guildId")
 	 */
-	public async getGuildRoles(guildId: string): Promise<RESTGetAPIGuildRolesResult> {
-		return this.requestHandler.request(Endpoints.GUILD_ROLES(guildId), {}, "get", "json");
+	public async getGuildRoles(guildId: string, requestOptions?: Partial<RequestOptions>): Promise<RESTGetAPIGuildRolesResult> {
+		return this.requestHandler.request(Endpoints.GUILD_ROLES(guildId), {}, "get", "json", undefined, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -532,6 +658,7 @@ class GuildMethods {
 	 * @param guildId Id of the guild
 	 * @param data data with role properties
 	 * @param reason Reason for creating the role
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns [role](https://discord.com/developers/docs/resources/channel#channel-object-channel-structure)
 	 *
 	 * | Permissions needed | Condition |
@@ -547,8 +674,8 @@ class GuildMethods {
 	 * }
 	 * client.guild.createGuildRole("guild Id", roleData)
 	 */
-	public async createGuildRole(guildId: string, data?: RESTPostAPIGuildRoleJSONBody, reason?: string): Promise<RESTPostAPIGuildRoleResult> {
-		return this.requestHandler.request(Endpoints.GUILD_ROLES(guildId), {}, "post", "json", data, Constants.reasonHeader(reason));
+	public async createGuildRole(guildId: string, data?: RESTPostAPIGuildRoleJSONBody, reason?: string, requestOptions?: Partial<RequestOptions>): Promise<RESTPostAPIGuildRoleResult> {
+		return this.requestHandler.request(Endpoints.GUILD_ROLES(guildId), {}, "post", "json", data, Constants.reasonHeader(reason), undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -557,6 +684,7 @@ class GuildMethods {
 	 * @param guildId Id of the guild
 	 * @param data Role data to update
 	 * @param reason Reason for moving the roles
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns array of [roles](https://discord.com/developers/docs/topics/permissions#role-object)
 	 *
 	 * | Permissions needed | Condition |
@@ -567,8 +695,8 @@ class GuildMethods {
 	 * const client = new SnowTransfer("TOKEN")
 	 * const roles = await client.guild.editGuildRolePositions("guildId", [{ id: "guild id", position: 1 }, { id: "role id 2", position: 2 }])
 	 */
-	public async editGuildRolePositions(guildId: string, data: RESTPatchAPIGuildRolePositionsJSONBody, reason?: string): Promise<RESTPatchAPIGuildRolePositionsResult> {
-		return this.requestHandler.request(Endpoints.GUILD_ROLES(guildId), {}, "patch", "json", data, Constants.reasonHeader(reason));
+	public async editGuildRolePositions(guildId: string, data: RESTPatchAPIGuildRolePositionsJSONBody, reason?: string, requestOptions?: Partial<RequestOptions>): Promise<RESTPatchAPIGuildRolePositionsResult> {
+		return this.requestHandler.request(Endpoints.GUILD_ROLES(guildId), {}, "patch", "json", data, Constants.reasonHeader(reason), undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -578,6 +706,7 @@ class GuildMethods {
 	 * @param roleId Id of the role
 	 * @param data updated properties of the role
 	 * @param reason Reason for updating the role
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns [Updated Role](https://discord.com/developers/docs/topics/permissions#role-object)
 	 *
 	 * | Permissions needed | Condition |
@@ -591,8 +720,8 @@ class GuildMethods {
 	 * }
 	 * client.guild.editGuildRole("guildId", "roleId", roleData)
 	 */
-	public async editGuildRole(guildId: string, roleId: string, data: RESTPatchAPIGuildRoleJSONBody, reason?: string): Promise<RESTPatchAPIGuildRoleResult> {
-		return this.requestHandler.request(Endpoints.GUILD_ROLE(guildId, roleId), {}, "patch", "json", data, Constants.reasonHeader(reason));
+	public async editGuildRole(guildId: string, roleId: string, data: RESTPatchAPIGuildRoleJSONBody, reason?: string, requestOptions?: Partial<RequestOptions>): Promise<RESTPatchAPIGuildRoleResult> {
+		return this.requestHandler.request(Endpoints.GUILD_ROLE(guildId, roleId), {}, "patch", "json", data, Constants.reasonHeader(reason), undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -601,6 +730,7 @@ class GuildMethods {
 	 * @param guildId Id of the guild
 	 * @param roleId Id of the role
 	 * @param reason Reason for deleting the role
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns Resolves the Promise on successful execution
 	 *
 	 * | Permissions needed | Condition |
@@ -612,8 +742,8 @@ class GuildMethods {
 	 * const client = new SnowTransfer("TOKEN")
 	 * client.guild.deleteGuildRole("guildId", "roleId", "This role is too cool")
 	 */
-	public async deleteGuildRole(guildId: string, roleId: string, reason?: string): Promise<RESTDeleteAPIGuildRoleResult> {
-		return this.requestHandler.request(Endpoints.GUILD_ROLE(guildId, roleId), {}, "delete", "json", {}, Constants.reasonHeader(reason));
+	public async deleteGuildRole(guildId: string, roleId: string, reason?: string, requestOptions?: Partial<RequestOptions>): Promise<RESTDeleteAPIGuildRoleResult> {
+		return this.requestHandler.request(Endpoints.GUILD_ROLE(guildId, roleId), {}, "delete", "json", {}, Constants.reasonHeader(reason), undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -621,6 +751,7 @@ class GuildMethods {
 	 * @since 0.1.0
 	 * @param guildId Id of the guild
 	 * @param options Object with prune data
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns Object with a "pruned" key indicating the amount of members that would be pruned
 	 *
 	 * | Permissions needed | Condition |
@@ -631,8 +762,8 @@ class GuildMethods {
 	 * const client = new SnowTransfer("TOKEN")
 	 * const data = await client.guild.getGuildPruneCount("guildId", { days: 7 })
 	 */
-	public async getGuildPruneCount(guildId: string, options?: RESTGetAPIGuildPruneCountQuery): Promise<RESTGetAPIGuildPruneCountResult> {
-		return this.requestHandler.request(Endpoints.GUILD_PRUNE(guildId), options, "get", "json");
+	public async getGuildPruneCount(guildId: string, options?: RESTGetAPIGuildPruneCountQuery, requestOptions?: Partial<RequestOptions>): Promise<RESTGetAPIGuildPruneCountResult> {
+		return this.requestHandler.request(Endpoints.GUILD_PRUNE(guildId), options, "get", "json", undefined, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -641,6 +772,7 @@ class GuildMethods {
 	 * @param guildId Id of the guild
 	 * @param data Object with prune data
 	 * @param reason Reason for starting the prune
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns Object with a "pruned" key indicating the amount of members that were pruned
 	 *
 	 * | Permissions needed | Condition |
@@ -651,30 +783,32 @@ class GuildMethods {
 	 * const client = new SnowTransfer("TOKEN")
 	 * const data = await client.guild.startGuildPrune("guildId", { days: 7 })
 	 */
-	public async startGuildPrune(guildId: string, data: RESTPostAPIGuildPruneJSONBody & { compute_prune_count: true; }, reason?: string): Promise<RESTPostAPIGuildPruneResult & { pruned: number; }>
-	public async startGuildPrune(guildId: string, data: RESTPostAPIGuildPruneJSONBody & { compute_prune_count: false; }, reason?: string): Promise<RESTPostAPIGuildPruneResult & { pruned: null; }>
-	public async startGuildPrune(guildId: string, data: RESTPostAPIGuildPruneJSONBody, reason?: string): Promise<RESTPostAPIGuildPruneResult> {
-		return this.requestHandler.request(Endpoints.GUILD_PRUNE(guildId), {}, "post", "json", data, Constants.reasonHeader(reason));
+	public async startGuildPrune(guildId: string, data: RESTPostAPIGuildPruneJSONBody & { compute_prune_count: true; }, reason?: string, requestOptions?: Partial<RequestOptions>): Promise<RESTPostAPIGuildPruneResult & { pruned: number; }>
+	public async startGuildPrune(guildId: string, data: RESTPostAPIGuildPruneJSONBody & { compute_prune_count: false; }, reason?: string, requestOptions?: Partial<RequestOptions>): Promise<RESTPostAPIGuildPruneResult & { pruned: null; }>
+	public async startGuildPrune(guildId: string, data: RESTPostAPIGuildPruneJSONBody, reason?: string, requestOptions?: Partial<RequestOptions>): Promise<RESTPostAPIGuildPruneResult> {
+		return this.requestHandler.request(Endpoints.GUILD_PRUNE(guildId), {}, "post", "json", data, Constants.reasonHeader(reason), undefined, undefined, requestOptions);
 	}
 
 	/**
 	 * Get a list of voice regions for the guild, includes vip-regions unlike voice.getVoiceRegions
 	 * @since 0.1.0
 	 * @param guildId Id of the guild
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns List of [voice regions](https://discord.com/developers/docs/resources/voice#voice-region-object)
 	 *
 	 * @example
 	 * const client = new SnowTransfer("TOKEN")
 	 * const regions = await client.guild.getGuildVoiceRegions("guildId")
 	 */
-	public async getGuildVoiceRegions(guildId: string): Promise<RESTGetAPIGuildVoiceRegionsResult> {
-		return this.requestHandler.request(Endpoints.GUILD_VOICE_REGIONS(guildId), {}, "get", "json");
+	public async getGuildVoiceRegions(guildId: string, requestOptions?: Partial<RequestOptions>): Promise<RESTGetAPIGuildVoiceRegionsResult> {
+		return this.requestHandler.request(Endpoints.GUILD_VOICE_REGIONS(guildId), {}, "get", "json", undefined, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
 	 * Get invites for a guild
 	 * @since 0.1.0
 	 * @param guildId Id of the guild
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns List of [invites](https://discord.com/developers/docs/resources/invite#invite-object) (with metadata)
 	 *
 	 * | Permissions needed | Condition |
@@ -685,14 +819,15 @@ class GuildMethods {
 	 * const client = new SnowTransfer("TOKEN")
 	 * const invites = await client.guild.getGuildInvites("guildId")
 	 */
-	public async getGuildInvites(guildId: string): Promise<RESTGetAPIGuildInvitesResult> {
-		return this.requestHandler.request(Endpoints.GUILD_INVITES(guildId), {}, "get", "json");
+	public async getGuildInvites(guildId: string, requestOptions?: Partial<RequestOptions>): Promise<RESTGetAPIGuildInvitesResult> {
+		return this.requestHandler.request(Endpoints.GUILD_INVITES(guildId), {}, "get", "json", undefined, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
 	 * Get integrations for a guild
 	 * @since 0.1.0
 	 * @param guildId Id of the guild
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns List of [integration objects](https://discord.com/developers/docs/resources/guild#integration-object)
 	 *
 	 * | Permissions needed | Condition |
@@ -703,8 +838,8 @@ class GuildMethods {
 	 * const client = new SnowTransfer("TOKEN")
 	 * const integrations = await client.guild.getGuildIntegrations("guildId")
 	 */
-	public async getGuildIntegrations(guildId: string): Promise<RESTGetAPIGuildIntegrationsResult> {
-		return this.requestHandler.request(Endpoints.GUILD_INTEGRATIONS(guildId), {}, "get", "json");
+	public async getGuildIntegrations(guildId: string, requestOptions?: Partial<RequestOptions>): Promise<RESTGetAPIGuildIntegrationsResult> {
+		return this.requestHandler.request(Endpoints.GUILD_INTEGRATIONS(guildId), {}, "get", "json", undefined, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -713,6 +848,7 @@ class GuildMethods {
 	 * @param guildId Id of the guild
 	 * @param integrationId Id of the integration
 	 * @param reason Reason for removing the integration
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns Resolves the Promise on successful execution
 	 *
 	 * | Permissions needed | Condition |
@@ -723,14 +859,15 @@ class GuildMethods {
 	 * const client = new SnowTransfer("TOKEN")
 	 * await client.guild.deleteGuildIntegration("guildId", "integrationId", "Didn't need anymore")
 	 */
-	public async deleteGuildIntegration(guildId: string, integrationId: string, reason?: string): Promise<RESTDeleteAPIGuildIntegrationResult> {
-		return this.requestHandler.request(Endpoints.GUILD_INTEGRATION(guildId, integrationId), {}, "delete", "json", {}, Constants.reasonHeader(reason));
+	public async deleteGuildIntegration(guildId: string, integrationId: string, reason?: string, requestOptions?: Partial<RequestOptions>): Promise<RESTDeleteAPIGuildIntegrationResult> {
+		return this.requestHandler.request(Endpoints.GUILD_INTEGRATION(guildId, integrationId), {}, "delete", "json", {}, Constants.reasonHeader(reason), undefined, undefined, requestOptions);
 	}
 
 	/**
 	 * Get a guild widget settings object
 	 * @since 0.3.0
 	 * @param guildId Id of the guild
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns [Guild Widget settings](https://discord.com/developers/docs/resources/guild#guild-widget-settings-object-guild-widget-settings-structure)
 	 *
 	 * | Permissions needed | Condition |
@@ -741,8 +878,8 @@ class GuildMethods {
 	 * const client = new SnowTransfer("TOKEN")
 	 * const widgetSettings = await client.guild.getGuildWidgetSettings("guildId")
 	 */
-	public async getGuildWidgetSettings(guildId: string): Promise<RESTGetAPIGuildWidgetSettingsResult> {
-		return this.requestHandler.request(Endpoints.GUILD_WIDGET_SETTINGS(guildId), {}, "get", "json");
+	public async getGuildWidgetSettings(guildId: string, requestOptions?: Partial<RequestOptions>): Promise<RESTGetAPIGuildWidgetSettingsResult> {
+		return this.requestHandler.request(Endpoints.GUILD_WIDGET_SETTINGS(guildId), {}, "get", "json", undefined, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -751,6 +888,7 @@ class GuildMethods {
 	 * @param guildId Id of the guild
 	 * @param data widget settings
 	 * @param reason Reason for updating the guild widget settings
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns Updated [Guild Widget settings](https://discord.com/developers/docs/resources/guild#guild-widget-settings-object-guild-widget-settings-structure)
 	 *
 	 * | Permissions needed | Condition |
@@ -762,28 +900,30 @@ class GuildMethods {
 	 * const client = new SnowTransfer("TOKEN")
 	 * const widgetSettings = await client.guild.editGuildWidgetSettings("guildId", { enabled: false })
 	 */
-	public async editGuildWidgetSettings(guildId: string, data: Partial<RESTPatchAPIGuildWidgetSettingsJSONBody>, reason?: string): Promise<RESTPatchAPIGuildWidgetSettingsResult> {
-		return this.requestHandler.request(Endpoints.GUILD_WIDGET_SETTINGS(guildId), {}, "patch", "json", data, Constants.reasonHeader(reason));
+	public async editGuildWidgetSettings(guildId: string, data: Partial<RESTPatchAPIGuildWidgetSettingsJSONBody>, reason?: string, requestOptions?: Partial<RequestOptions>): Promise<RESTPatchAPIGuildWidgetSettingsResult> {
+		return this.requestHandler.request(Endpoints.GUILD_WIDGET_SETTINGS(guildId), {}, "patch", "json", data, Constants.reasonHeader(reason), undefined, undefined, requestOptions);
 	}
 
 	/**
 	 * Gets a guild widget object
 	 * @since 0.3.0
 	 * @param guildId Id of the guild
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns [Guild Widget](https://discord.com/developers/docs/resources/guild#guild-widget-object)
 	 *
 	 * @example
 	 * const client = new SnowTransfer("TOKEN")
 	 * const widget = await client.guild.getGuildWidget("guildId")
 	 */
-	public async getGuildWidget(guildId: string): Promise<APIGuildWidget> { // no return type in api types
-		return this.requestHandler.request(Endpoints.GUILD_WIDGET(guildId), {}, "get", "json");
+	public async getGuildWidget(guildId: string, requestOptions?: Partial<RequestOptions>): Promise<APIGuildWidget> { // no return type in api types
+		return this.requestHandler.request(Endpoints.GUILD_WIDGET(guildId), {}, "get", "json", undefined, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
 	 * Get a guild's vanity URL code
 	 * @since 0.3.0
 	 * @param guildId Id of the guild
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns partial [invite object](https://discord.com/developers/docs/resources/guild#get-guild-vanity-url-example-partial-invite-object)
 	 *
 	 * | Permissions needed | Condition |
@@ -794,14 +934,15 @@ class GuildMethods {
 	 * const client = new SnowTransfer("TOKEN")
 	 * const vanityUrl = await client.guild.getGuildVanityUrl("guildId")
 	 */
-	public async getGuildVanityURL(guildId: string): Promise<RESTGetAPIGuildVanityUrlResult> {
-		return this.requestHandler.request(Endpoints.GUILD_VANITY(guildId), {}, "get", "json");
+	public async getGuildVanityURL(guildId: string, requestOptions?: Partial<RequestOptions>): Promise<RESTGetAPIGuildVanityUrlResult> {
+		return this.requestHandler.request(Endpoints.GUILD_VANITY(guildId), {}, "get", "json", undefined, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
 	 * Get a guild's welcome screen object
 	 * @since 0.3.0
 	 * @param guildId Id of the guild
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns [Guild Welcome Screen](https://discord.com/developers/docs/resources/guild#welcome-screen-object)
 	 *
 	 * | Permissions needed | Condition                            |
@@ -812,8 +953,8 @@ class GuildMethods {
 	 * const client = new SnowTransfer("TOKEN")
 	 * const welcomeScreen = await client.guild.getGuildWelcomeScreen("guildId")
 	 */
-	public async getGuildWelcomeScreen(guildId: string): Promise<RESTGetAPIGuildWelcomeScreenResult> {
-		return this.requestHandler.request(Endpoints.GUILD_WELCOME_SCREEN(guildId), {}, "get", "json");
+	public async getGuildWelcomeScreen(guildId: string, requestOptions?: Partial<RequestOptions>): Promise<RESTGetAPIGuildWelcomeScreenResult> {
+		return this.requestHandler.request(Endpoints.GUILD_WELCOME_SCREEN(guildId), {}, "get", "json", undefined, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -822,6 +963,7 @@ class GuildMethods {
 	 * @param guildId Id of guild
 	 * @param data Welcome screen data
 	 * @param reason Reason for editing the welcome screen
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns [Guild Welcome Screen](https://discord.com/developers/docs/resources/guild#welcome-screen-object)
 	 *
 	 * | Permissions needed | Condition |
@@ -833,8 +975,72 @@ class GuildMethods {
 	 * const client = new SnowTransfer("TOKEN")
 	 * const welcomeScreen = await client.guild.editGuildWelcomeScreen("guildId", { enabled: false })
 	 */
-	public async editGuildWelcomeScreen(guildId: string, data: RESTPatchAPIGuildWelcomeScreenJSONBody, reason?: string): Promise<RESTPatchAPIGuildWelcomeScreenResult> {
-		return this.requestHandler.request(Endpoints.GUILD_WELCOME_SCREEN(guildId), {}, "patch", "json", data, Constants.reasonHeader(reason));
+	public async editGuildWelcomeScreen(guildId: string, data: RESTPatchAPIGuildWelcomeScreenJSONBody, reason?: string, requestOptions?: Partial<RequestOptions>): Promise<RESTPatchAPIGuildWelcomeScreenResult> {
+		return this.requestHandler.request(Endpoints.GUILD_WELCOME_SCREEN(guildId), {}, "patch", "json", data, Constants.reasonHeader(reason), undefined, undefined, requestOptions);
+	}
+
+	/**
+	 * Get the onboarding of a guild, which new members go through when joining
+	 * @since 0.19.0
+	 * @param guildId Id of the guild
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
+	 * @returns [Guild Onboarding](https://discord.com/developers/docs/resources/guild#guild-onboarding-object)
+	 *
+	 * @example
+	 * const client = new SnowTransfer("TOKEN")
+	 * const onboarding = await client.guild.getGuildOnboarding("guildId")
+	 */
+	public async getGuildOnboarding(guildId: string, requestOptions?: Partial<RequestOptions>): Promise<RESTGetAPIGuildOnboardingResult> {
+		return this.requestHandler.request(Endpoints.GUILD_ONBOARDING(guildId), {}, "get", "json", undefined, undefined, undefined, undefined, requestOptions);
+	}
+
+	/**
+	 * Edit the onboarding of a guild. Prompts and default channels that are passed replace the existing ones
+	 *
+	 * The amount of prompts and options of each prompt are checked before sending. If default channels are passed, the channels of the guild are fetched to check that they exist.
+	 * Enabled onboarding needs at least 7 default channels, 5 of which @everyone can send messages in. The second part is left to Discord to check
+	 * @since 0.19.0
+	 * @param guildId Id of the guild
+	 * @param data Onboarding data
+	 * @param reason Reason for editing the onboarding
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
+	 * @returns [Guild Onboarding](https://discord.com/developers/docs/resources/guild#guild-onboarding-object)
+	 *
+	 * | Permissions needed | Condition |
+	 * |--------------------|-----------|
+	 * | MANAGE_GUILD       | always    |
+	 * | MANAGE_ROLES       | always    |
+	 *
+	 * @example
+	 * // Ask new members which topics they're interested in
+	 * const client = new SnowTransfer("TOKEN")
+	 * const onboarding = await client.guild.editGuildOnboarding("guildId", {
+	 * 	prompts: [{
+	 * 		id: "0",
+	 * 		title: "What are you here for?",
+	 * 		options: [
+	 * 			{ title: "Snow", channel_ids: ["snow channel id"], role_ids: [] },
+	 * 			{ title: "Ice", channel_ids: [], role_ids: ["ice role id"] }
+	 * 		]
+	 * 	}]
+	 * })
+	 */
+	public async editGuildOnboarding(guildId: string, data: RESTPutAPIGuildOnboardingJSONBody, reason?: string, requestOptions?: Partial<RequestOptions>): Promise<RESTPutAPIGuildOnboardingResult> {
+		if (data.prompts) {
+			if (data.prompts.length > Constants.GUILD_ONBOARDING_MAX_PROMPTS) throw new RangeError(`Onboarding can have at most ${Constants.GUILD_ONBOARDING_MAX_PROMPTS} prompts`);
+			for (const [index, prompt] of data.prompts.entries()) {
+				if (prompt.options.length < Constants.GUILD_ONBOARDING_MIN_PROMPT_OPTIONS || prompt.options.length > Constants.GUILD_ONBOARDING_MAX_PROMPT_OPTIONS) throw new RangeError(`prompts.${index} has ${prompt.options.length} options, but has to have between ${Constants.GUILD_ONBOARDING_MIN_PROMPT_OPTIONS} and ${Constants.GUILD_ONBOARDING_MAX_PROMPT_OPTIONS}`);
+			}
+		}
+
+		if (data.default_channel_ids) {
+			if (data.enabled && new Set(data.default_channel_ids).size < Constants.GUILD_ONBOARDING_MIN_DEFAULT_CHANNELS) throw new RangeError(`Enabled onboarding needs at least ${Constants.GUILD_ONBOARDING_MIN_DEFAULT_CHANNELS} default channels`);
+			const channels = new Set((await this.getGuildChannels(guildId, requestOptions)).map(c => c.id));
+			const missing = data.default_channel_ids.filter(id => !channels.has(id));
+			if (missing.length) throw new Error(`The default channels ${missing.join(", ")} aren't channels of the guild`);
+		}
+
+		return this.requestHandler.request(Endpoints.GUILD_ONBOARDING(guildId), {}, "put", "json", data, Constants.reasonHeader(reason), undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -842,6 +1048,7 @@ class GuildMethods {
 	 * @since 0.18.0
 	 * @param guildId Id of the guild
 	 * @param data Data of the voice state
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns Resolves the Promise on successful execution
 	 *
 	 * | Permissions needed | Condition                           |
@@ -854,8 +1061,8 @@ class GuildMethods {
 	 * const client = new SnowTransfer("TOKEN")
 	 * client.guild.editCurrentUserVoiceState("guildId", { channel_id: "channel id", suppress: false })
 	 */
-	public async editCurrentUserVoiceState(guildId: string, data: RESTPatchAPIGuildVoiceStateCurrentMemberJSONBody): Promise<RESTPatchAPIGuildVoiceStateCurrentMemberResult> {
-		return this.requestHandler.request(Endpoints.GUILD_VOICE_STATE_USER(guildId, "@me"), {}, "patch", "json", data);
+	public async editCurrentUserVoiceState(guildId: string, data: RESTPatchAPIGuildVoiceStateCurrentMemberJSONBody, requestOptions?: Partial<RequestOptions>): Promise<RESTPatchAPIGuildVoiceStateCurrentMemberResult> {
+		return this.requestHandler.request(Endpoints.GUILD_VOICE_STATE_USER(guildId, "@me"), {}, "patch", "json", data, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -864,6 +1071,7 @@ class GuildMethods {
 	 * @param guildId Id of the guild
 	 * @param userId Id of the user
 	 * @param data Data of the voice state
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns Resolves the Promise on successful execution
 	 *
 	 * | Permissions needed | Condition                           |
@@ -875,8 +1083,8 @@ class GuildMethods {
 	 * const client = new SnowTransfer("TOKEN")
 	 * client.guild.editUserVoiceState("guildId", "userId", { channel_id: "channel id", suppress: true })
 	 */
-	public async editUserVoiceState(guildId: string, userId: string, data: RESTPatchAPIGuildVoiceStateUserJSONBody): Promise<RESTPatchAPIGuildVoiceStateUserResult> {
-		return this.requestHandler.request(Endpoints.GUILD_VOICE_STATE_USER(guildId, userId), {}, "patch", "json", data);
+	public async editUserVoiceState(guildId: string, userId: string, data: RESTPatchAPIGuildVoiceStateUserJSONBody, requestOptions?: Partial<RequestOptions>): Promise<RESTPatchAPIGuildVoiceStateUserResult> {
+		return this.requestHandler.request(Endpoints.GUILD_VOICE_STATE_USER(guildId, userId), {}, "patch", "json", data, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -884,6 +1092,7 @@ class GuildMethods {
 	 * @since 0.17.6
 	 * @param guildId Id of the guild
 	 * @param options Options for the search
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns A [search result](https://docs.discord.com/developers/resources/message#search-guild-messages-response-body) containing the matched messages, or an index-not-ready response if the guild hasn't finished indexing yet
 	 *
 	 * | Permissions needed   | Condition |
@@ -895,8 +1104,8 @@ class GuildMethods {
 	 * const client = new SnowTransfer("TOKEN")
 	 * const messages = await client.guild.searchGuildMessages("guildId", { content: "poggers" })
 	 */
-	public async searchGuildMessages(guildId: string, options?: RESTGetAPIGuildMessagesSearchQuery): Promise<RESTGetAPIGuildMessagesSearchResult> {
-		return this.requestHandler.request(Endpoints.GUILD_MESSAGES_SEARCH(guildId), options, "get", "json");
+	public async searchGuildMessages(guildId: string, options?: RESTGetAPIGuildMessagesSearchQuery, requestOptions?: Partial<RequestOptions>): Promise<RESTGetAPIGuildMessagesSearchResult> {
+		return this.requestHandler.request(Endpoints.GUILD_MESSAGES_SEARCH(guildId), options, "get", "json", undefined, undefined, undefined, undefined, requestOptions);
 	}
 }
 
@@ -1,5 +1,6 @@
 import Endpoints = require("../Endpoints");
 import Constants = require("../Constants");
+import { paginate } from "../Pagination";
 
 import type { RequestHandler as RH } from "../RequestHandler";
 
@@ -15,6 +16,8 @@ import type {
 	RESTPostAPIGuildScheduledEventResult
 } from "discord-api-types/v10";
 
+import type { PaginationOptions, RequestOptions } from "../Types";
+
 /**
  * Methods for interacting with Guild Scheduled Events
  * @since 0.3.6
@@ -36,14 +39,15 @@ class GuildScheduledEventMethods {
 	 * @since 0.3.6
 	 * @param guildId The Id of the guild
 	 * @param withCounts Include number of users subscribed to each event
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns An array of [guild scheduled events](https://discord.com/developers/docs/resources/guild-scheduled-event#guild-scheduled-event-object-guild-scheduled-event-structure)
 	 *
 	 * @example
 	 * const client = new SnowTransfer("TOKEN")
 	 * const events = await client.guildScheduledEvent.listGuildScheduledEvents(guildId)
 	 */
-	public async listGuildScheduledEvents(guildId: string, withCounts?: boolean): Promise<RESTGetAPIGuildScheduledEventsResult> {
-		return this.requestHandler.request(Endpoints.GUILD_SCHEDULED_EVENTS(guildId), { with_user_count: withCounts }, "get", "json");
+	public async listGuildScheduledEvents(guildId: string, withCounts?: boolean, requestOptions?: Partial<RequestOptions>): Promise<RESTGetAPIGuildScheduledEventsResult> {
+		return this.requestHandler.request(Endpoints.GUILD_SCHEDULED_EVENTS(guildId), { with_user_count: withCounts }, "get", "json", undefined, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -52,6 +56,7 @@ class GuildScheduledEventMethods {
 	 * @param guildId The Id of the guild
 	 * @param data Data for the new scheduled event
 	 * @param reason Reason for creating the scheduled event
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns A [scheduled event](https://discord.com/developers/docs/resources/guild-scheduled-event#guild-scheduled-event-object-guild-scheduled-event-structure)
 	 *
 	 * | Permissions needed | Condition                        |
@@ -73,8 +78,8 @@ class GuildScheduledEventMethods {
 	 * }
 	 * const event = await client.guildScheduledEvent.createGuildScheduledEvent(guildId, eventData)
 	 */
-	public async createGuildScheduledEvent(guildId: string, data: RESTPostAPIGuildScheduledEventJSONBody, reason?: string): Promise<RESTPostAPIGuildScheduledEventResult> {
-		return this.requestHandler.request(Endpoints.GUILD_SCHEDULED_EVENTS(guildId), {}, "post", "json", data, Constants.reasonHeader(reason));
+	public async createGuildScheduledEvent(guildId: string, data: RESTPostAPIGuildScheduledEventJSONBody, reason?: string, requestOptions?: Partial<RequestOptions>): Promise<RESTPostAPIGuildScheduledEventResult> {
+		return this.requestHandler.request(Endpoints.GUILD_SCHEDULED_EVENTS(guildId), {}, "post", "json", data, Constants.reasonHeader(reason), undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -83,6 +88,7 @@ class GuildScheduledEventMethods {
 	 * @param guildId The Id of the guild
 	 * @param eventId The Id of the event
 	 * @param withCounts Include number of users subscribed to this event
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns A [scheduled event](https://discord.com/developers/docs/resources/guild-scheduled-event#guild-scheduled-event-object-guild-scheduled-event-structure)
 	 *
 	 * | Permissions needed | Condition                                 |
@@ -93,8 +99,8 @@ class GuildScheduledEventMethods {
 	 * const client = new SnowTransfer("TOKEN")
 	 * const event = await client.guildScheduledEvent.getGuildScheduledEvent(guildId, eventId)
 	 */
-	public async getGuildScheduledEvent(guildId: string, eventId: string, withCounts?: boolean): Promise<RESTGetAPIGuildScheduledEventResult> {
-		return this.requestHandler.request(Endpoints.GUILD_SCHEDULED_EVENT(guildId, eventId), { with_user_count: withCounts }, "get", "json");
+	public async getGuildScheduledEvent(guildId: string, eventId: string, withCounts?: boolean, requestOptions?: Partial<RequestOptions>): Promise<RESTGetAPIGuildScheduledEventResult> {
+		return this.requestHandler.request(Endpoints.GUILD_SCHEDULED_EVENT(guildId, eventId), { with_user_count: withCounts }, "get", "json", undefined, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -104,6 +110,7 @@ class GuildScheduledEventMethods {
 	 * @param eventId The Id of the event
 	 * @param data Edited scheduled event data
 	 * @param reason Reason for editing the scheduled event
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns A [scheduled event](https://discord.com/developers/docs/resources/guild-scheduled-event#guild-scheduled-event-object-guild-scheduled-event-structure)
 	 *
 	 * | Permissions needed | Condition                        |
@@ -120,8 +127,8 @@ class GuildScheduledEventMethods {
 	 * const client = new SnowTransfer("TOKEN")
 	 * const event = await client.guildScheduledEvent.editGuildScheduledEvent(guildId, eventId, { entity_type: 3, channel_id: null, entity_metadata: { location: "Brazil" }, scheduled_end_time: "2025-01-01T00:00:00.000Z" })
 	 */
-	public async editGuildScheduledEvent(guildId: string, eventId: string, data: RESTPatchAPIGuildScheduledEventJSONBody, reason?: string): Promise<RESTPatchAPIGuildScheduledEventResult> {
-		return this.requestHandler.request(Endpoints.GUILD_SCHEDULED_EVENT(guildId, eventId), {}, "patch", "json", data, Constants.reasonHeader(reason));
+	public async editGuildScheduledEvent(guildId: string, eventId: string, data: RESTPatchAPIGuildScheduledEventJSONBody, reason?: string, requestOptions?: Partial<RequestOptions>): Promise<RESTPatchAPIGuildScheduledEventResult> {
+		return this.requestHandler.request(Endpoints.GUILD_SCHEDULED_EVENT(guildId, eventId), {}, "patch", "json", data, Constants.reasonHeader(reason), undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -129,6 +136,7 @@ class GuildScheduledEventMethods {
 	 * @since 0.3.6
 	 * @param guildId The Id of the guild
 	 * @param eventId The Id of the event
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns Resolves the promise on successful execution
 	 *
 	 * | Permissions needed | Condition                        |
@@ -144,8 +152,8 @@ class GuildScheduledEventMethods {
 	 * const client = new SnowTransfer("TOKEN")
 	 * client.guildScheduledEvent.deleteGuildScheduledEvent(guildId, eventId)
 	 */
-	public async deleteGuildScheduledEvent(guildId: string, eventId: string): Promise<RESTDeleteAPIGuildScheduledEventResult> {
-		return this.requestHandler.request(Endpoints.GUILD_SCHEDULED_EVENT(guildId, eventId), {}, "delete", "json");
+	public async deleteGuildScheduledEvent(guildId: string, eventId: string, requestOptions?: Partial<RequestOptions>): Promise<RESTDeleteAPIGuildScheduledEventResult> {
+		return this.requestHandler.request(Endpoints.GUILD_SCHEDULED_EVENT(guildId, eventId), {}, "delete", "json", undefined, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -154,6 +162,7 @@ class GuildScheduledEventMethods {
 	 * @param guildId The Id of the guild
 	 * @param eventId The Id of the event
 	 * @param options Options for how to get users
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns An array of [event users](https://discord.com/developers/docs/resources/guild-scheduled-event#guild-scheduled-event-user-object-guild-scheduled-event-user-structure)
 	 *
 	 * | Permissions needed | Condition                                 |
@@ -164,9 +173,29 @@ class GuildScheduledEventMethods {
 	 * const client = new SnowTransfer("TOKEN")
 	 * const users = await client.guildScheduledEvent.getGuildScheduledEventUsers(guildId, eventId)
 	 */
-	public async getGuildScheduledEventUsers(guildId: string, eventId: string, options?: RESTGetAPIGuildScheduledEventUsersQuery): Promise<RESTGetAPIGuildScheduledEventUsersResult> {
+	public async getGuildScheduledEventUsers(guildId: string, eventId: string, options?: RESTGetAPIGuildScheduledEventUsersQuery, requestOptions?: Partial<RequestOptions>): Promise<RESTGetAPIGuildScheduledEventUsersResult> {
 		if (options?.limit !== undefined && (options.limit < Constants.GET_GUILD_SCHEDULED_EVENT_USERS_MIN_RESULTS || options.limit > Constants.GET_GUILD_SCHEDULED_EVENT_USERS_MAX_RESULTS)) throw new RangeError(`The maximum amount of users that may be requested has to be between ${Constants.GET_GUILD_SCHEDULED_EVENT_USERS_MIN_RESULTS} and ${Constants.GET_GUILD_SCHEDULED_EVENT_USERS_MAX_RESULTS}`);
-		return this.requestHandler.request(Endpoints.GUILD_SCHEDULED_EVENT_USERS(guildId, eventId), options, "get", "json");
+		return this.requestHandler.request(Endpoints.GUILD_SCHEDULED_EVENT_USERS(guildId, eventId), options, "get", "json", undefined, undefined, undefined, undefined, requestOptions);
+	}
+
+	/**
+	 * Walk through the users attending a specific event, requesting as many pages as needed
+	 * @since 0.19.0
+	 * @param guildId The Id of the guild
+	 * @param eventId The Id of the event
+	 * @param options Options for walking the users. Walks after (lowest to highest user id) by default
+	 * @returns An async iterable of [event users](https://discord.com/developers/docs/resources/guild-scheduled-event#guild-scheduled-event-user-object-guild-scheduled-event-user-structure)
+	 *
+	 * | Permissions needed | Condition                                 |
+	 * |--------------------|-------------------------------------------|
+	 * | VIEW_CHANNEL       | if entity_type is STAGE_INSTANCE or VOICE |
+	 *
+	 * @example
+	 * const client = new SnowTransfer("TOKEN")
+	 * const users = await Array.fromAsync(client.guildScheduledEvent.iterateGuildScheduledEventUsers(guildId, eventId, { with_member: true }))
+	 */
+	public iterateGuildScheduledEventUsers(guildId: string, eventId: string, options?: Partial<PaginationOptions> & Pick<RESTGetAPIGuildScheduledEventUsersQuery, "with_member">): AsyncGenerator<RESTGetAPIGuildScheduledEventUsersResult[number], void, undefined> {
+		return paginate(query => this.getGuildScheduledEventUsers(guildId, eventId, { with_member: options?.with_member, ...query }, { signal: options?.signal }), u => u.user.id, Constants.GET_GUILD_SCHEDULED_EVENT_USERS_MAX_RESULTS, ["after", "before"], options);
 	}
 }
 
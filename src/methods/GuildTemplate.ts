@@ -13,6 +13,8 @@ import type {
 	RESTPutAPIGuildTemplateSyncResult
 } from "discord-api-types/v10";
 
+import type { RequestOptions } from "../Types";
+
 /**
  * Methods for interacting with Guild Templates
  * @since 0.3.0
@@ -33,20 +35,22 @@ class GuildTemplateMethods {
 	 * Get a guild template by code
 	 * @since 0.3.0
 	 * @param code The code for the template
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns A [guild template](https://discord.com/developers/docs/resources/guild-template#guild-template-object-guild-template-structure)
 	 *
 	 * @example
 	 * const client = new SnowTransfer("TOKEN")
 	 * const template = await client.guildTemplate.getGuildTemplate("code")
 	 */
-	public async getGuildTemplate(code: string): Promise<RESTGetAPITemplateResult> {
-		return this.requestHandler.request(Endpoints.TEMPLATE(code), {}, "get", "json");
+	public async getGuildTemplate(code: string, requestOptions?: Partial<RequestOptions>): Promise<RESTGetAPITemplateResult> {
+		return this.requestHandler.request(Endpoints.TEMPLATE(code), {}, "get", "json", undefined, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
 	 * Gets all templates from a guild
 	 * @since 0.3.0
 	 * @param guildId The Id of the guild
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns An array of [guild templates](https://discord.com/developers/docs/resources/guild-template#guild-template-object-guild-template-structure)
 	 *
 	 * | Permissions needed | Condition |
@@ -57,8 +61,8 @@ class GuildTemplateMethods {
 	 * const client = new SnowTransfer("TOKEN")
 	 * const templates = await client.guildTemplate.getGuildTemplates("guildId")
 	 */
-	public async getGuildTemplates(guildId: string): Promise<RESTGetAPIGuildTemplatesResult> {
-		return this.requestHandler.request(Endpoints.GUILD_TEMPLATES(guildId), {}, "get", "json");
+	public async getGuildTemplates(guildId: string, requestOptions?: Partial<RequestOptions>): Promise<RESTGetAPIGuildTemplatesResult> {
+		return this.requestHandler.request(Endpoints.GUILD_TEMPLATES(guildId), {}, "get", "json", undefined, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -66,6 +70,7 @@ class GuildTemplateMethods {
 	 * @since 0.3.0
 	 * @param guildId The Id of the guild
 	 * @param data Metadata for the template
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns A [guild template](https://discord.com/developers/docs/resources/guild-template#guild-template-object-guild-template-structure)
 	 *
 	 * | Permissions needed | Condition |
@@ -76,8 +81,8 @@ class GuildTemplateMethods {
 	 * const client = new SnowTransfer("TOKEN")
 	 * const template = await client.guildTemplate.createGuildTemplate("guildId", { name: "Cool guild template", description: "This is a cool guild template" })
 	 */
-	public async createGuildTemplate(guildId: string, data: RESTPostAPIGuildTemplatesJSONBody): Promise<RESTPostAPIGuildTemplatesResult> {
-		return this.requestHandler.request(Endpoints.GUILD_TEMPLATES(guildId), {}, "post", "json", data);
+	public async createGuildTemplate(guildId: string, data: RESTPostAPIGuildTemplatesJSONBody, requestOptions?: Partial<RequestOptions>): Promise<RESTPostAPIGuildTemplatesResult> {
+		return this.requestHandler.request(Endpoints.GUILD_TEMPLATES(guildId), {}, "post", "json", data, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -85,6 +90,7 @@ class GuildTemplateMethods {
 	 * @since 0.3.0
 	 * @param guildId The Id of the guild
 	 * @param code The code of the template
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns A [guild template](https://discord.com/developers/docs/resources/guild-template#guild-template-object-guild-template-structure)
 	 *
 	 * | Permissions needed | Condition |
@@ -95,8 +101,8 @@ class GuildTemplateMethods {
 	 * const client = new SnowTransfer("TOKEN")
 	 * const template = await client.guildTemplate.syncGuildTemplate("guildId", "code")
 	 */
-	public async syncGuildTemplate(guildId: string, code: string): Promise<RESTPutAPIGuildTemplateSyncResult> {
-		return this.requestHandler.request(Endpoints.GUILD_TEMPLATE(guildId, code), {}, "put", "json");
+	public async syncGuildTemplate(guildId: string, code: string, requestOptions?: Partial<RequestOptions>): Promise<RESTPutAPIGuildTemplateSyncResult> {
+		return this.requestHandler.request(Endpoints.GUILD_TEMPLATE(guildId, code), {}, "put", "json", undefined, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -105,6 +111,7 @@ class GuildTemplateMethods {
 	 * @param guildId The Id of the guild
 	 * @param code The code of the template
 	 * @param data Metadata for the template
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns A [guild template](https://discord.com/developers/docs/resources/guild-template#guild-template-object-guild-template-structure)
 	 *
 	 * | Permissions needed | Condition |
@@ -115,8 +122,8 @@ class GuildTemplateMethods {
 	 * const client = new SnowTransfer("TOKEN")
 	 * const template = await client.guildTemplate.editGuildTemplate("guildId", "code", { name: "Coolest guild template", description: "This is the coolest guild template hands down" })
 	 */
-	public async editGuildTemplate(guildId: string, code: string, data: RESTPatchAPIGuildTemplateJSONBody): Promise<RESTPatchAPIGuildTemplateResult> {
-		return this.requestHandler.request(Endpoints.GUILD_TEMPLATE(guildId, code), {}, "patch", "json", data);
+	public async editGuildTemplate(guildId: string, code: string, data: RESTPatchAPIGuildTemplateJSONBody, requestOptions?: Partial<RequestOptions>): Promise<RESTPatchAPIGuildTemplateResult> {
+		return this.requestHandler.request(Endpoints.GUILD_TEMPLATE(guildId, code), {}, "patch", "json", data, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -124,6 +131,7 @@ class GuildTemplateMethods {
 	 * @since 0.3.0
 	 * @param guildId The Id of the guild
 	 * @param code The code of the template
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns A [guild template](https://discord.com/developers/docs/resources/guild-template#guild-template-object-guild-template-structure)
 	 *
 	 * | Permissions needed | Condition |
@@ -134,8 +142,8 @@ class GuildTemplateMethods {
 	 * const client = new SnowTransfer("TOKEN")
 	 * const template = await client.guildTemplate.deleteGuildTemplate("guildId", "code")
 	 */
-	public async deleteGuildTemplate(guildId: string, code: string): Promise<RESTDeleteAPIGuildTemplateResult> {
-		return this.requestHandler.request(Endpoints.GUILD_TEMPLATE(guildId, code), {}, "delete", "json");
+	public async deleteGuildTemplate(guildId: string, code: string, requestOptions?: Partial<RequestOptions>): Promise<RESTDeleteAPIGuildTemplateResult> {
+		return this.requestHandler.request(Endpoints.GUILD_TEMPLATE(guildId, code), {}, "delete", "json", undefined, undefined, undefined, undefined, requestOptions);
 	}
 }
 
@@ -3,9 +3,12 @@ import Constants = require("../Constants");
 
 import type { RequestHandler as RH } from "../RequestHandler";
 import type WHM = require("./Webhook");
-import type { SnowTransferOptions } from "../Types";
+import { validateMessage } from "../Validation";
+import type { ApplicationCommandSyncOptions, ApplicationCommandSyncResult, RequestOptions, SnowTransferOptions, UploadFile } from "../Types";
 
 import {
+	type APIApplicationCommand,
+	ApplicationCommandType,
 	InteractionResponseType,
 	type RESTPostAPIInteractionCallbackResult,
 	type RESTDeleteAPIInteractionFollowupResult,
@@ -40,8 +43,6 @@ import {
 	type RESTPutAPIApplicationGuildCommandsResult
 } from "discord-api-types/v10";
 
-import type { Readable } from "node:stream";
-
 /**
  * Methods for interacting with slash command specific endpoints
  * @since 0.3.0
@@ -64,14 +65,15 @@ class InteractionMethods {
 	 * @since 0.3.0
 	 * @param appId The Id of the application
 	 * @param withLocalizations Whether or not to include localizations
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns An Array of [application command](https://discord.com/developers/docs/interactions/application-commands#application-command-object-application-command-structure) objects
 	 *
 	 * @example
 	 * const client = new SnowTransfer("TOKEN")
 	 * const commands = await client.interaction.getApplicationCommands("appId")
 	 */
-	public async getApplicationCommands(appId: string, withLocalizations?: boolean): Promise<RESTGetAPIApplicationCommandsResult> {
-		return this.requestHandler.request(Endpoints.APPLICATION_COMMANDS(appId), { with_localizations: withLocalizations }, "get", "json");
+	public async getApplicationCommands(appId: string, withLocalizations?: boolean, requestOptions?: Partial<RequestOptions>): Promise<RESTGetAPIApplicationCommandsResult> {
+		return this.requestHandler.request(Endpoints.APPLICATION_COMMANDS(appId), { with_localizations: withLocalizations }, "get", "json", undefined, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -79,14 +81,15 @@ class InteractionMethods {
 	 * @since 0.3.0
 	 * @param appId The Id of the application
 	 * @param data The command data
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns An [application command](https://discord.com/developers/docs/interactions/application-commands#application-command-object-application-command-structure) object
 	 *
 	 * @example
 	 * const client = new SnowTransfer("TOKEN")
 	 * const command = await client.interaction.createApplicationCommand("appId", { name: "test", description: "testing 1, 2, 3" })
 	 */
-	public async createApplicationCommand(appId: string, data: RESTPostAPIApplicationCommandsJSONBody): Promise<RESTPostAPIApplicationCommandsResult> {
-		return this.requestHandler.request(Endpoints.APPLICATION_COMMANDS(appId), {}, "post", "json", data);
+	public async createApplicationCommand(appId: string, data: RESTPostAPIApplicationCommandsJSONBody, requestOptions?: Partial<RequestOptions>): Promise<RESTPostAPIApplicationCommandsResult> {
+		return this.requestHandler.request(Endpoints.APPLICATION_COMMANDS(appId), {}, "post", "json", data, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -94,14 +97,15 @@ class InteractionMethods {
 	 * @since 0.3.0
 	 * @param appId The Id of the application
 	 * @param cmdId The Id of the command
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns An [application command](https://discord.com/developers/docs/interactions/application-commands#application-command-object-application-command-structure) object
 	 *
 	 * @example
 	 * const client = new SnowTransfer("TOKEN")
 	 * const command = await client.interaction.getApplicationCommand("appId", "cmdId")
 	 */
-	public async getApplicationCommand(appId: string, cmdId: string): Promise<RESTGetAPIApplicationCommandResult> {
-		return this.requestHandler.request(Endpoints.APPLICATION_COMMAND(appId, cmdId), {}, "get", "json");
+	public async getApplicationCommand(appId: string, cmdId: string, requestOptions?: Partial<RequestOptions>): Promise<RESTGetAPIApplicationCommandResult> {
+		return this.requestHandler.request(Endpoints.APPLICATION_COMMAND(appId, cmdId), {}, "get", "json", undefined, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -110,14 +114,15 @@ class InteractionMethods {
 	 * @param appId The Id of the application
 	 * @param cmdId The Id of the command
 	 * @param data The command data
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns An [application command](https://discord.com/developers/docs/interactions/application-commands#application-command-object-application-command-structure) object
 	 *
 	 * @example
 	 * const client = new SnowTransfer("TOKEN")
 	 * const command = await client.interaction.editApplicationCommand("appId", "cmdId", { name: "cool", description: "tells you how cool you are" })
 	 */
-	public async editApplicationCommand(appId: string, cmdId: string, data: RESTPatchAPIApplicationCommandJSONBody): Promise<RESTPatchAPIApplicationCommandResult> {
-		return this.requestHandler.request(Endpoints.APPLICATION_COMMAND(appId, cmdId), {}, "patch", "json", data);
+	public async editApplicationCommand(appId: string, cmdId: string, data: RESTPatchAPIApplicationCommandJSONBody, requestOptions?: Partial<RequestOptions>): Promise<RESTPatchAPIApplicationCommandResult> {
+		return this.requestHandler.request(Endpoints.APPLICATION_COMMAND(appId, cmdId), {}, "patch", "json", data, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -125,14 +130,15 @@ class InteractionMethods {
 	 * @since 0.3.0
 	 * @param appId The Id of the application
 	 * @param cmdId The Id of the command
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns Resolves the Promise on successful execution
 	 *
 	 * @example
 	 * const client = new SnowTransfer("TOKEN")
 	 * client.interaction.deleteApplicationCommand("appId", "cmdId")
 	 */
-	public async deleteApplicationCommand(appId: string, cmdId: string): Promise<void> {
-		return this.requestHandler.request(Endpoints.APPLICATION_COMMAND(appId, cmdId), {}, "delete", "json");
+	public async deleteApplicationCommand(appId: string, cmdId: string, requestOptions?: Partial<RequestOptions>): Promise<void> {
+		return this.requestHandler.request(Endpoints.APPLICATION_COMMAND(appId, cmdId), {}, "delete", "json", undefined, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -141,14 +147,15 @@ class InteractionMethods {
 	 * @since 0.18.0
 	 * @param appId The Id of the application
 	 * @param data Array of commands
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns An Array of [application command](https://discord.com/developers/docs/interactions/application-commands#application-command-object-application-command-structure) objects
 	 *
 	 * @example
 	 * const client = new SnowTransfer("TOKEN")
 	 * const commands = await client.interaction.editApplicationCommands("appId", [{ name: "test", description: "testing 1, 2, 3" }])
 	 */
-	public async editApplicationCommands(appId: string, data: RESTPutAPIApplicationCommandsJSONBody): Promise<RESTPutAPIApplicationCommandsResult> {
-		return this.requestHandler.request(Endpoints.APPLICATION_COMMANDS(appId), {}, "put", "json", data);
+	public async editApplicationCommands(appId: string, data: RESTPutAPIApplicationCommandsJSONBody, requestOptions?: Partial<RequestOptions>): Promise<RESTPutAPIApplicationCommandsResult> {
+		return this.requestHandler.request(Endpoints.APPLICATION_COMMANDS(appId), {}, "put", "json", data, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -157,14 +164,15 @@ class InteractionMethods {
 	 * @param appId The Id of the application
 	 * @param guildId The Id of the guild
 	 * @param withLocalizations Whether or not to include localizations
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns An Array of [application command](https://discord.com/developers/docs/interactions/application-commands#application-command-object-application-command-structure) objects
 	 *
 	 * @example
 	 * const client = new SnowTransfer("TOKEN")
 	 * const commands = await client.interaction.getGuildCommands("appId", "guildId", true)
 	 */
-	public async getGuildApplicationCommands(appId: string, guildId: string, withLocalizations?: boolean): Promise<RESTGetAPIApplicationGuildCommandsResult> {
-		return this.requestHandler.request(Endpoints.APPLICATION_GUILD_COMMANDS(appId, guildId), { with_localizations: withLocalizations }, "get", "json");
+	public async getGuildApplicationCommands(appId: string, guildId: string, withLocalizations?: boolean, requestOptions?: Partial<RequestOptions>): Promise<RESTGetAPIApplicationGuildCommandsResult> {
+		return this.requestHandler.request(Endpoints.APPLICATION_GUILD_COMMANDS(appId, guildId), { with_localizations: withLocalizations }, "get", "json", undefined, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -173,14 +181,15 @@ class InteractionMethods {
 	 * @param appId The Id of the application
 	 * @param guildId The Id of the guild
 	 * @param data Command data
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns An [application command](https://discord.com/developers/docs/interactions/application-commands#application-command-object-application-command-structure) object
 	 *
 	 * @example
 	 * const client = new SnowTransfer("TOKEN")
 	 * const command = await client.interaction.createGuildApplicationCommand("appId", "guildId", { name: "test", description: "testing 1, 2, 3" })
 	 */
-	public async createGuildApplicationCommand(appId: string, guildId: string, data: RESTPostAPIApplicationGuildCommandsJSONBody): Promise<RESTPostAPIApplicationGuildCommandsResult> {
-		return this.requestHandler.request(Endpoints.APPLICATION_GUILD_COMMANDS(appId, guildId), {}, "post", "json", data);
+	public async createGuildApplicationCommand(appId: string, guildId: string, data: RESTPostAPIApplicationGuildCommandsJSONBody, requestOptions?: Partial<RequestOptions>): Promise<RESTPostAPIApplicationGuildCommandsResult> {
+		return this.requestHandler.request(Endpoints.APPLICATION_GUILD_COMMANDS(appId, guildId), {}, "post", "json", data, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -189,14 +198,15 @@ class InteractionMethods {
 	 * @param appId The Id of the application
 	 * @param guildId The Id of the guild
 	 * @param cmdId The Id of the command
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns An [application command](https://discord.com/developers/docs/interactions/application-commands#application-command-object-application-command-structure) object
 	 *
 	 * @example
 	 * const client = new SnowTransfer("TOKEN")
 	 * const command = await client.interaction.getGuildApplicationCommand("appId", "guildId", "cmdId")
 	 */
-	public async getGuildApplicationCommand(appId: string, guildId: string, cmdId: string): Promise<RESTGetAPIApplicationGuildCommandResult> {
-		return this.requestHandler.request(Endpoints.APPLICATION_GUILD_COMMAND(appId, guildId, cmdId), {}, "get", "json");
+	public async getGuildApplicationCommand(appId: string, guildId: string, cmdId: string, requestOptions?: Partial<RequestOptions>): Promise<RESTGetAPIApplicationGuildCommandResult> {
+		return this.requestHandler.request(Endpoints.APPLICATION_GUILD_COMMAND(appId, guildId, cmdId), {}, "get", "json", undefined, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -206,14 +216,15 @@ class InteractionMethods {
 	 * @param guildId The Id of the guild
 	 * @param cmdId The Id of the command
 	 * @param data New command data
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns An [application command](https://discord.com/developers/docs/interactions/application-commands#application-command-object-application-command-structure) object
 	 *
 	 * @example
 	 * const client = new SnowTransfer("TOKEN")
 	 * const command = await client.interaction.editGuildApplicationCommand("appId", "guildId", "cmdId", { name: "coolest", description: "tells you that you are the coolest" })
 	 */
-	public async editGuildApplicationCommand(appId: string, guildId: string, cmdId: string, data: RESTPatchAPIApplicationGuildCommandJSONBody): Promise<RESTPatchAPIApplicationGuildCommandResult> {
-		return this.requestHandler.request(Endpoints.APPLICATION_GUILD_COMMAND(appId, guildId, cmdId), {}, "patch", "json", data);
+	public async editGuildApplicationCommand(appId: string, guildId: string, cmdId: string, data: RESTPatchAPIApplicationGuildCommandJSONBody, requestOptions?: Partial<RequestOptions>): Promise<RESTPatchAPIApplicationGuildCommandResult> {
+		return this.requestHandler.request(Endpoints.APPLICATION_GUILD_COMMAND(appId, guildId, cmdId), {}, "patch", "json", data, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -222,14 +233,15 @@ class InteractionMethods {
 	 * @param appId The Id of the application
 	 * @param guildId The Id of the guild
 	 * @param cmdId The Id of the command
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns Resolves the Promise on successful execution
 	 *
 	 * @example
 	 * const client = new SnowTransfer("TOKEN")
 	 * client.interaction.deleteGuildApplicationCommand("appId", "guildId", "cmdId")
 	 */
-	public async deleteGuildApplicationCommand(appId: string, guildId: string, cmdId: string): Promise<void> {
-		return this.requestHandler.request(Endpoints.APPLICATION_GUILD_COMMAND(appId, guildId, cmdId), {}, "delete", "json");
+	public async deleteGuildApplicationCommand(appId: string, guildId: string, cmdId: string, requestOptions?: Partial<RequestOptions>): Promise<void> {
+		return this.requestHandler.request(Endpoints.APPLICATION_GUILD_COMMAND(appId, guildId, cmdId), {}, "delete", "json", undefined, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -238,14 +250,79 @@ class InteractionMethods {
 	 * @param appId The Id of the application
 	 * @param guildId The Id of the guild
 	 * @param data Array of commands
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns An Array of [application command](https://discord.com/developers/docs/interactions/application-commands#application-command-object-application-command-structure) objects
 	 *
 	 * @example
 	 * const client = new SnowTransfer("TOKEN")
 	 * const commands = await client.interaction.editGuildApplicationCommands("appId", "guildId", [{ name: "test", description: "testing 1, 2, 3" }])
 	 */
-	public async editGuildApplicationCommands(appId: string, guildId: string, data: RESTPutAPIApplicationGuildCommandsJSONBody): Promise<RESTPutAPIApplicationGuildCommandsResult> {
-		return this.requestHandler.request(Endpoints.APPLICATION_GUILD_COMMANDS(appId, guildId), {}, "put", "json", data);
+	public async editGuildApplicationCommands(appId: string, guildId: string, data: RESTPutAPIApplicationGuildCommandsJSONBody, requestOptions?: Partial<RequestOptions>): Promise<RESTPutAPIApplicationGuildCommandsResult> {
+		return this.requestHandler.request(Endpoints.APPLICATION_GUILD_COMMANDS(appId, guildId), {}, "put", "json", data, undefined, undefined, undefined, requestOptions);
+	}
+
+	/**
+	 * Makes the global or guild commands of an application match a list of commands by only creating, editing and deleting the commands that differ from it.
+	 * Unlike editApplicationCommands and editGuildApplicationCommands, commands that didn't change keep their id and permissions and don't count towards the daily limit of command creations
+	 *
+	 * Commands are matched by their type and name, so renaming a command deletes it and creates a new one.
+	 * Fields that aren't set are compared against their defaults, except for contexts, integration_types, dm_permission and handler, which Discord fills in on its own and are only compared if they're set
+	 * @since 0.19.0
+	 * @param appId The Id of the application
+	 * @param data Array of commands the application should have
+	 * @param options The guild to sync the commands of and if the changes should only be reported
+	 * @param requestOptions Options for the requests, like an AbortSignal or a timeout
+	 * @returns What was (or with dryRun would be) created, edited and deleted
+	 *
+	 * @example
+	 * const client = new SnowTransfer("TOKEN")
+	 * const result = await client.interaction.syncApplicationCommands("appId", [{ name: "test", description: "testing 1, 2, 3" }], { dryRun: true })
+	 * console.log(`${result.created.length} to create, ${result.edited.length} to edit, ${result.deleted.length} to delete`)
+	 */
+	public async syncApplicationCommands(appId: string, data: RESTPutAPIApplicationCommandsJSONBody, options?: Partial<ApplicationCommandSyncOptions>, requestOptions?: Partial<RequestOptions>): Promise<ApplicationCommandSyncResult> {
+		const defined = new Map<string, RESTPutAPIApplicationCommandsJSONBody[number]>();
+		for (const command of data) {
+			const key = commandKey(command);
+			if (defined.has(key)) throw new Error(`The command ${command.name} is defined more than once`);
+			defined.set(key, command);
+		}
+
+		const guildId = options?.guildId;
+		const existing: Array<APIApplicationCommand> = guildId !== undefined
+			? await this.getGuildApplicationCommands(appId, guildId, true, requestOptions)
+			: await this.getApplicationCommands(appId, true, requestOptions);
+
+		const result: ApplicationCommandSyncResult = { created: [], edited: [], deleted: [], unchanged: [] };
+		for (const command of existing) {
+			const definition = defined.get(commandKey(command));
+			defined.delete(commandKey(command));
+			if (!definition) result.deleted.push(command);
+			else {
+				const changes = commandChanges(command, definition);
+				if (changes.length) result.edited.push({ command, data: definition, changes });
+				else result.unchanged.push(command);
+			}
+		}
+		result.created.push(...defined.values());
+
+		if (options?.dryRun) return result;
+
+		// Deleting first makes room for the new commands if the application is at the command limit
+		for (const command of result.deleted) {
+			if (guildId !== undefined) await this.deleteGuildApplicationCommand(appId, guildId, command.id, requestOptions);
+			else await this.deleteApplicationCommand(appId, command.id, requestOptions);
+		}
+		for (const { command, data: definition } of result.edited) {
+			const body = editBody(definition);
+			if (guildId !== undefined) await this.editGuildApplicationCommand(appId, guildId, command.id, body as RESTPatchAPIApplicationGuildCommandJSONBody, requestOptions);
+			else await this.editApplicationCommand(appId, command.id, body, requestOptions);
+		}
+		for (const definition of result.created) {
+			if (guildId !== undefined) await this.createGuildApplicationCommand(appId, guildId, definition as RESTPostAPIApplicationGuildCommandsJSONBody, requestOptions);
+			else await this.createApplicationCommand(appId, definition, requestOptions);
+		}
+
+		return result;
 	}
 
 	/**
@@ -254,6 +331,7 @@ class InteractionMethods {
 	 * @param appId The Id of the application
 	 * @param guildId The Id of the guild
 	 * @param cmdId The Id of the command
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns An Array or single [guild application command permission](https://discord.com/developers/docs/interactions/application-commands#application-command-permissions-object-guild-application-command-permissions-structure) objects
 	 *
 	 * @example
@@ -266,11 +344,11 @@ class InteractionMethods {
 	 * const client = new SnowTransfer("TOKEN")
 	 * const permissions = await client.interaction.getGuildApplicationCommandPermissions("appId", "guildId", "cmdId")
 	 */
-	public async getGuildApplicationCommandPermissions(appId: string, guildId: string): Promise<Array<RESTGetAPIApplicationCommandPermissionsResult>>;
-	public async getGuildApplicationCommandPermissions(appId: string, guildId: string, cmdId: string): Promise<RESTGetAPIApplicationCommandPermissionsResult>;
-	public async getGuildApplicationCommandPermissions(appId: string, guildId: string, cmdId?: string): Promise<Array<RESTGetAPIApplicationCommandPermissionsResult> | RESTGetAPIApplicationCommandPermissionsResult> {
-		if (cmdId) return this.requestHandler.request(Endpoints.APPLICATION_GUILD_COMMAND_PERMISSIONS(appId, guildId, cmdId), {}, "get", "json");
-		return this.requestHandler.request(Endpoints.APPLICATION_GUILD_COMMANDS_PERMISSIONS(appId, guildId), {}, "get", "json");
+	public async getGuildApplicationCommandPermissions(appId: string, guildId: string, cmdId?: undefined, requestOptions?: Partial<RequestOptions>): Promise<Array<RESTGetAPIApplicationCommandPermissionsResult>>;
+	public async getGuildApplicationCommandPermissions(appId: string, guildId: string, cmdId: string, requestOptions?: Partial<RequestOptions>): Promise<RESTGetAPIApplicationCommandPermissionsResult>;
+	public async getGuildApplicationCommandPermissions(appId: string, guildId: string, cmdId?: string, requestOptions?: Partial<RequestOptions>): Promise<Array<RESTGetAPIApplicationCommandPermissionsResult> | RESTGetAPIApplicationCommandPermissionsResult> {
+		if (cmdId) return this.requestHandler.request(Endpoints.APPLICATION_GUILD_COMMAND_PERMISSIONS(appId, guildId, cmdId), {}, "get", "json", undefined, undefined, undefined, undefined, requestOptions);
+		return this.requestHandler.request(Endpoints.APPLICATION_GUILD_COMMANDS_PERMISSIONS(appId, guildId), {}, "get", "json", undefined, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -280,15 +358,16 @@ class InteractionMethods {
 	 * @param guildId The Id of the guild
 	 * @param cmdId The Id of the command
 	 * @param permissions New application command permissions data
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns A [guild application command permission](https://discord.com/developers/docs/interactions/application-commands#application-command-permissions-object-guild-application-command-permissions-structure) object
 	 *
 	 * @example
 	 * const client = new SnowTransfer("TOKEN")
 	 * const permissions = await client.interaction.editGuildApplicationCommandPermissions("appId", "guildId", "cmdId", [{ type: 2, id: "userId", permission: true }])
 	 */
-	public async editGuildApplicationCommandPermissions(appId: string, guildId: string, cmdId: string, permissions: RESTPutAPIApplicationCommandPermissionsJSONBody["permissions"]): Promise<RESTPutAPIApplicationCommandPermissionsResult> {
+	public async editGuildApplicationCommandPermissions(appId: string, guildId: string, cmdId: string, permissions: RESTPutAPIApplicationCommandPermissionsJSONBody["permissions"], requestOptions?: Partial<RequestOptions>): Promise<RESTPutAPIApplicationCommandPermissionsResult> {
 		const payload = { permissions: permissions };
-		return this.requestHandler.request(Endpoints.APPLICATION_GUILD_COMMAND_PERMISSIONS(appId, guildId, cmdId), {}, "put", "json", payload);
+		return this.requestHandler.request(Endpoints.APPLICATION_GUILD_COMMAND_PERMISSIONS(appId, guildId, cmdId), {}, "put", "json", payload, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -301,6 +380,7 @@ class InteractionMethods {
 	 * @param interactionId The Id of the interaction
 	 * @param token The token of the interaction
 	 * @param data Response data
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns Resolves the Promise on successful execution
 	 *
 	 * @example
@@ -308,14 +388,17 @@ class InteractionMethods {
 	 * const client = new SnowTransfer() // This endpoint does not require a Bot token. The interaction token alone will suffice
 	 * client.interaction.createInteractionResponse("interactionId", "token", { type: 4, data: { content: "Hello World" } })
 	 */
-	public async createInteractionResponse(interactionId: string, token: string, data: RESTPostAPIInteractionCallbackJSONBody & { files?: Array<{ name: string; file: Buffer | Readable | ReadableStream; }> }): Promise<RESTPostAPIInteractionCallbackResult> {
+	public async createInteractionResponse(interactionId: string, token: string, data: RESTPostAPIInteractionCallbackJSONBody & { files?: Array<UploadFile> }, requestOptions?: Partial<RequestOptions>): Promise<RESTPostAPIInteractionCallbackResult> {
 		if ((
 			data.type === InteractionResponseType.ChannelMessageWithSource ||
 			data.type === InteractionResponseType.UpdateMessage
-		) && data.data) data.data.allowed_mentions ??= this.options.allowed_mentions;
+		) && data.data) {
+			if (this.options.validateMessages) validateMessage({ ...data.data, files: data.files }, data.type === InteractionResponseType.UpdateMessage);
+			data.data.allowed_mentions ??= this.options.allowed_mentions;
+		}
 
-		if (data.files) return this.requestHandler.request(Endpoints.INTERACTION_CALLBACK(interactionId, token), {}, "post", "multipart", await Constants.standardMultipartHandler(data as Parameters<typeof Constants["standardMultipartHandler"]>["0"]));
-		else return this.requestHandler.request(Endpoints.INTERACTION_CALLBACK(interactionId, token), {}, "post", "json", data);
+		if (data.files) return this.requestHandler.request(Endpoints.INTERACTION_CALLBACK(interactionId, token), {}, "post", "multipart", await Constants.standardMultipartHandler(data as Parameters<typeof Constants["standardMultipartHandler"]>["0"]), undefined, undefined, undefined, requestOptions);
+		else return this.requestHandler.request(Endpoints.INTERACTION_CALLBACK(interactionId, token), {}, "post", "json", data, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -323,14 +406,15 @@ class InteractionMethods {
 	 * @since 0.3.0
 	 * @param appId The Id of the application
 	 * @param token The token of the interaction
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns A [message](https://discord.com/developers/docs/resources/channel#message-object) object
 	 *
 	 * @example
 	 * const client = new SnowTransfer() // This endpoint does not require a Bot token. The interaction token alone will suffice
 	 * const message = await client.interaction.getOriginalInteractionResponse("appId", "token")
 	 */
-	public async getOriginalInteractionResponse(appId: string, token: string): Promise<RESTGetAPIInteractionOriginalResponseResult> {
-		return this.webhooks.getWebhookMessage(appId, token, "@original");
+	public async getOriginalInteractionResponse(appId: string, token: string, requestOptions?: Partial<RequestOptions>): Promise<RESTGetAPIInteractionOriginalResponseResult> {
+		return this.webhooks.getWebhookMessage(appId, token, "@original", undefined, requestOptions);
 	}
 
 	/**
@@ -339,14 +423,15 @@ class InteractionMethods {
 	 * @param appId The Id of the application
 	 * @param token The token of the interaction
 	 * @param data New response data
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns A [message](https://discord.com/developers/docs/resources/channel#message-object) object
 	 *
 	 * @example
 	 * const client = new SnowTransfer() // This endpoint does not require a Bot token. The interaction token alone will suffice
 	 * const message = await client.interaction.editOriginalInteractionResponse("appId", "token", { content: "The world said hello back" })
 	 */
-	public async editOriginalInteractionResponse(appId: string, token: string, data: RESTPatchAPIInteractionOriginalResponseJSONBody & { files?: Array<{ name: string; file: Buffer | Readable | ReadableStream }> }): Promise<RESTPatchAPIInteractionOriginalResponseResult> {
-		return this.webhooks.editWebhookMessage(appId, token, "@original", data);
+	public async editOriginalInteractionResponse(appId: string, token: string, data: RESTPatchAPIInteractionOriginalResponseJSONBody & { files?: Array<UploadFile>; upload_channel_id?: string }, requestOptions?: Partial<RequestOptions>): Promise<RESTPatchAPIInteractionOriginalResponseResult> {
+		return this.webhooks.editWebhookMessage(appId, token, "@original", data, requestOptions);
 	}
 
 	/**
@@ -354,14 +439,15 @@ class InteractionMethods {
 	 * @since 0.3.0
 	 * @param appId The Id of the application
 	 * @param token The token of the interaction
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns Resolves the Promise on successful execution
 	 *
 	 * @example
 	 * const client = new SnowTransfer() // This endpoint does not require a Bot token. The interaction token alone will suffice
 	 * client.interaction.deleteOriginalInteractionResponse("appId", "token")
 	 */
-	public async deleteOriginalInteractionResponse(appId: string, token: string): Promise<RESTDeleteAPIInteractionOriginalResponseResult> {
-		return this.webhooks.deleteWebhookMessage(appId, token, "@original");
+	public async deleteOriginalInteractionResponse(appId: string, token: string, requestOptions?: Partial<RequestOptions>): Promise<RESTDeleteAPIInteractionOriginalResponseResult> {
+		return this.webhooks.deleteWebhookMessage(appId, token, "@original", undefined, requestOptions);
 	}
 
 	/**
@@ -370,15 +456,16 @@ class InteractionMethods {
 	 * @param appId The Id of the application
 	 * @param token The token of the interaction
 	 * @param data Message data
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns A [message](https://discord.com/developers/docs/resources/channel#message-object) object
 	 *
 	 * @example
 	 * const client = new SnowTransfer() // This endpoint does not require a Bot token. The interaction token alone will suffice
 	 * const message = await client.interaction.createFollowupMessage("appId", "token", { content: "The pacer gram fitness test-" })
 	 */
-	public async createFollowupMessage(appId: string, token: string, data: RESTPostAPIInteractionFollowupJSONBody & { files?: Array<{ name: string; file: Buffer | Readable | ReadableStream; }> }): Promise<RESTPostAPIInteractionFollowupResult> {
+	public async createFollowupMessage(appId: string, token: string, data: RESTPostAPIInteractionFollowupJSONBody & { files?: Array<UploadFile>; upload_channel_id?: string }, requestOptions?: Partial<RequestOptions>): Promise<RESTPostAPIInteractionFollowupResult> {
 		// wait is always true for interactions and should not be supplied as it will throw an error if the query string is present
-		return this.webhooks.executeWebhook(appId, token, data) as unknown as Promise<RESTPostAPIInteractionFollowupResult>;
+		return this.webhooks.executeWebhook(appId, token, data, undefined, requestOptions) as unknown as Promise<RESTPostAPIInteractionFollowupResult>;
 	}
 
 	/**
@@ -387,14 +474,15 @@ class InteractionMethods {
 	 * @param appId The Id of the application
 	 * @param token The token of the interaction
 	 * @param messageId The Id of the message
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns A [message](https://discord.com/developers/docs/resources/channel#message-object) object
 	 *
 	 * @example
 	 * const client = new SnowTransfer() // This endpoint does not require a Bot token. The interaction token alone will suffice
 	 * const message = await client.interaction.getFollowupMessage("appId", "token", "messageId")
 	 */
-	public async getFollowupMessage(appId: string, token: string, messageId: string): Promise<RESTGetAPIInteractionFollowupResult> {
-		return this.webhooks.getWebhookMessage(appId, token, messageId);
+	public async getFollowupMessage(appId: string, token: string, messageId: string, requestOptions?: Partial<RequestOptions>): Promise<RESTGetAPIInteractionFollowupResult> {
+		return this.webhooks.getWebhookMessage(appId, token, messageId, undefined, requestOptions);
 	}
 
 	/**
@@ -404,14 +492,15 @@ class InteractionMethods {
 	 * @param token The token of the interaction
 	 * @param messageId The Id of the message
 	 * @param data The new message data
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns A [message](https://discord.com/developers/docs/resources/channel#message-object) object
 	 *
 	 * @example
 	 * const client = new SnowTransfer() // This endpoint does not require a Bot token. The interaction token alone will suffice
 	 * const message = await client.interaction.editFollowupMessage("appId", "token", "messageId", { content: "-is a multistage aerobic capacity test" })
 	 */
-	public async editFollowupMessage(appId: string, token: string, messageId: string, data: RESTPatchAPIInteractionFollowupJSONBody & { files?: Array<{ name: string; file: Buffer | Readable | ReadableStream; }> }): Promise<RESTPatchAPIInteractionFollowupResult> {
-		return this.webhooks.editWebhookMessage(appId, token, messageId, data);
+	public async editFollowupMessage(appId: string, token: string, messageId: string, data: RESTPatchAPIInteractionFollowupJSONBody & { files?: Array<UploadFile>; upload_channel_id?: string }, requestOptions?: Partial<RequestOptions>): Promise<RESTPatchAPIInteractionFollowupResult> {
+		return this.webhooks.editWebhookMessage(appId, token, messageId, data, requestOptions);
 	}
 
 	/**
@@ -420,15 +509,85 @@ class InteractionMethods {
 	 * @param appId The Id of the application
 	 * @param token The token of the interaction
 	 * @param messageId The Id of the message
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns Resolves the Promise on successful execution
 	 *
 	 * @example
 	 * const client = new SnowTransfer() // This endpoint does not require a Bot token. The interaction token alone will suffice
 	 * client.interaction.deleteFollowupMessage("appId", "token", "messageId")
 	 */
-	public async deleteFollowupMessage(appId: string, token: string, messageId: string): Promise<RESTDeleteAPIInteractionFollowupResult> {
-		return this.webhooks.deleteWebhookMessage(appId, token, messageId);
+	public async deleteFollowupMessage(appId: string, token: string, messageId: string, requestOptions?: Partial<RequestOptions>): Promise<RESTDeleteAPIInteractionFollowupResult> {
+		return this.webhooks.deleteWebhookMessage(appId, token, messageId, undefined, requestOptions);
+	}
+}
+
+/** Fields of a command that are part of its definition */
+const commandFields = ["name", "name_localizations", "description", "description_localizations", "options", "default_member_permissions", "nsfw", "contexts", "integration_types", "dm_permission", "handler"] as const;
+/** Fields Discord fills in on its own if they aren't set */
+const fieldsComparedIfSet: ReadonlyArray<string> = ["contexts", "integration_types", "dm_permission", "handler"];
+
+/**
+ * Commands are unique by their type and name
+ */
+function commandKey(command: { type?: ApplicationCommandType; name: string; }): string {
+	return `${command.type ?? ApplicationCommandType.ChatInput}:${command.name}`;
+}
+
+/**
+ * Get the fields of a registered command that differ from its definition
+ */
+function commandChanges(command: APIApplicationCommand, definition: RESTPutAPIApplicationCommandsJSONBody[number]): Array<string> {
+	const fields: Partial<Record<typeof commandFields[number], unknown>> = definition;
+	return commandFields.filter(field => {
+		if (fields[field] === undefined && fieldsComparedIfSet.includes(field)) return false;
+		return comparable(command[field]) !== comparable(fields[field]);
+	});
+}
+
+/**
+ * Turn a field into a string that is the same for equal values. Values that are the same as not being set (null, false, "", [] and {}) are dropped,
+ * keys are sorted and so are lists of numbers (like channel_types and contexts) since their order doesn't matter
+ */
+function comparable(value: unknown): string | undefined {
+	const normalized = normalize(value);
+	return isUnset(normalized) ? undefined : JSON.stringify(normalized);
+}
+
+function normalize(value: unknown): unknown {
+	if (Array.isArray(value)) {
+		const items = value.map(normalize);
+		return items.every(item => typeof item === "number") ? items.sort((a, b) => a - b) : items;
+	}
+	if (typeof value === "object" && value !== null) {
+		const result: Record<string, unknown> = {};
+		for (const key of Object.keys(value).sort()) {
+			const item = normalize(value[key as keyof typeof value]);
+			if (!isUnset(item)) result[key] = item;
+		}
+		return result;
 	}
+	return value;
+}
+
+function isUnset(value: unknown): boolean {
+	if (Array.isArray(value)) return value.length === 0;
+	if (typeof value === "object" && value !== null) return Object.keys(value).length === 0;
+	return value === undefined || value === null || value === false || value === "";
+}
+
+/**
+ * Edits only change the fields they contain, so fields the definition doesn't set are reset explicitly
+ */
+function editBody(definition: RESTPutAPIApplicationCommandsJSONBody[number]): RESTPatchAPIApplicationCommandJSONBody {
+	return {
+		name_localizations: null,
+		description_localizations: null,
+		default_member_permissions: null,
+		nsfw: false,
+		// Context menu commands can't have options
+		...((definition.type ?? ApplicationCommandType.ChatInput) === ApplicationCommandType.ChatInput ? { options: [] } : {}),
+		...definition
+	} as RESTPatchAPIApplicationCommandJSONBody;
 }
 
 export = InteractionMethods;
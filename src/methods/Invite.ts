@@ -1,5 +1,6 @@
 import Endpoints = require("../Endpoints");
 import Constants = require("../Constants");
+import MultipartBody = require("../Multipart");
 
 import type { RequestHandler as RH } from "../RequestHandler";
 
@@ -11,6 +12,8 @@ import type {
 	RESTPutAPIInviteTargetUsersResult
 } from "discord-api-types/v10";
 
+import type { RequestOptions } from "../Types";
+
 /**
  * Methods for interacting with invites
  * @since 0.1.0
@@ -32,6 +35,7 @@ class InviteMethods {
 	 * @since 0.1.0
 	 * @param inviteId Id of the invite
 	 * @param options Query params for additional metadata fields
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns [Invite Object](https://discord.com/developers/docs/resources/invite#invite-object)
 	 *
 	 * @example
@@ -39,8 +43,8 @@ class InviteMethods {
 	 * const client = new SnowTransfer("TOKEN")
 	 * const invite = await client.invite.getInvite("inviteId", { with_counts: true })
 	 */
-	public async getInvite(inviteId: string, options?: RESTGetAPIInviteQuery): Promise<RESTGetAPIInviteResult> {
-		return this.requestHandler.request(Endpoints.INVITES(inviteId), options, "get", "json");
+	public async getInvite(inviteId: string, options?: RESTGetAPIInviteQuery, requestOptions?: Partial<RequestOptions>): Promise<RESTGetAPIInviteResult> {
+		return this.requestHandler.request(Endpoints.INVITES(inviteId), options, "get", "json", undefined, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -48,6 +52,7 @@ class InviteMethods {
 	 * @since 0.1.0
 	 * @param inviteId Id of the invite
 	 * @param reason Reason for deleting the invite
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns [Invite Object](https://discord.com/developers/docs/resources/invite#invite-object)
 	 *
 	 * | Permissions needed | Condition                                     |
@@ -59,22 +64,23 @@ class InviteMethods {
 	 * const client = new SnowTransfer("TOKEN")
 	 * const invite = await client.invite.deleteInvite("inviteId")
 	 */
-	public async deleteInvite(inviteId: string, reason?: string): Promise<RESTDeleteAPIInviteResult> {
-		return this.requestHandler.request(Endpoints.INVITES(inviteId), {}, "delete", "json", undefined, Constants.reasonHeader(reason));
+	public async deleteInvite(inviteId: string, reason?: string, requestOptions?: Partial<RequestOptions>): Promise<RESTDeleteAPIInviteResult> {
+		return this.requestHandler.request(Endpoints.INVITES(inviteId), {}, "delete", "json", undefined, Constants.reasonHeader(reason), undefined, undefined, requestOptions);
 	}
 
 	/**
 	 * Gets the users allowed to see and accept an invite
 	 * @since 0.17.0
 	 * @param inviteId Id of the invite
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns An Array of user IDs
 	 *
 	 * @example
 	 * const client = new SnowTransfer("TOKEN")
 	 * const userIds = await client.invite.getInviteTargetUsers("inviteId")
 	 */
-	public async getInviteTargetUsers(inviteId: string): Promise<Array<string>> {
-		const response = await this.requestHandler.request(Endpoints.INVITE_TARGET_USERS(inviteId), {}, "get", "json", undefined, undefined, this.requestHandler.options.retryLimit, true) as Response;
+	public async getInviteTargetUsers(inviteId: string, requestOptions?: Partial<RequestOptions>): Promise<Array<string>> {
+		const response = await this.requestHandler.request(Endpoints.INVITE_TARGET_USERS(inviteId), {}, "get", "json", undefined, undefined, this.requestHandler.options.retryLimit, true, requestOptions) as Response;
 		let b: string;
 		try {
 			b = await response.text();
@@ -89,30 +95,32 @@ class InviteMethods {
 	 * Updates the users allowed to see and accept an invite
 	 * @since 0.18.0
 	 * @param inviteId Id of the invite
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns Resolves the Promise on successful execution
 	 *
 	 * @example
 	 * const client = new SnowTransfer("TOKEN")
 	 * await client.invite.editInviteTargetUsers("inviteId", someUserArray)
 	 */
-	public async editInviteTargetUsers(inviteId: string, userIds: Array<string>): Promise<RESTPutAPIInviteTargetUsersResult> {
+	public async editInviteTargetUsers(inviteId: string, userIds: Array<string>, requestOptions?: Partial<RequestOptions>): Promise<RESTPutAPIInviteTargetUsersResult> {
 		const csv = `Users\n${userIds.join(",\n")},`;
-		const form = new FormData();
+		const form = new MultipartBody();
 		await Constants.standardAddToFormHandler(form, "target_users_file", csv, "target_users_file.csv");
-		return this.requestHandler.request(Endpoints.INVITE_TARGET_USERS(inviteId), { target_users_file: "target_users_file.csv" }, "put", "multipart", form);
+		return this.requestHandler.request(Endpoints.INVITE_TARGET_USERS(inviteId), { target_users_file: "target_users_file.csv" }, "put", "multipart", form, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
 	 * Gets the job status on setting target users to an invite
 	 * @param inviteId Id of the invite
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns [Target Users Job Status Object](https://discord.com/developers/docs/resources/invite#get-target-users-job-status-example-response)
 	 *
 	 * @example
 	 * const client = new SnowTransfer("TOKEN")
 	 * const jobStatus = await client.invite.getInviteTargetUsersJobStatus("inviteId")
 	 */
-	public async getInviteTargetUsersJobStatus(inviteId: string): Promise<RESTGetAPIInviteTargetUsersJobStatusResult> {
-		return this.requestHandler.request(Endpoints.INVITE_TARGET_USERS_JOB_STATUS(inviteId), {}, "get", "json");
+	public async getInviteTargetUsersJobStatus(inviteId: string, requestOptions?: Partial<RequestOptions>): Promise<RESTGetAPIInviteTargetUsersJobStatusResult> {
+		return this.requestHandler.request(Endpoints.INVITE_TARGET_USERS_JOB_STATUS(inviteId), {}, "get", "json", undefined, undefined, undefined, undefined, requestOptions);
 	}
 }
 
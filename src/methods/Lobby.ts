@@ -0,0 +1,214 @@
+import Constants = require("../Constants");
+import Endpoints = require("../Endpoints");
+
+import type { RequestHandler as RH } from "../RequestHandler";
+
+import type {
+	APILobby,
+	APILobbyMember,
+	APILobbyMessage,
+	RESTPatchAPILobbyJSONBody,
+	RESTPostAPILobbyJSONBody,
+	RESTPostAPILobbyMessageJSONBody,
+	RESTPutAPILobbyMemberJSONBody,
+	RequestOptions
+} from "../Types";
+
+/**
+ * Methods for interacting with lobbies of games using the Social SDK
+ * @since 0.19.0
+ * @protected
+ */
+class LobbyMethods {
+	/**
+	 * Create a new Lobby Method handler
+	 *
+	 * Usually SnowTransfer creates a method handler for you, this is here for completion
+	 *
+	 * You can access the methods listed via `client.lobby.method` where `client` is an initialized SnowTransfer instance
+	 * @param requestHandler request handler that calls the rest api
+	 */
+	public constructor(public readonly requestHandler: RH) {}
+
+	/**
+	 * Create a lobby
+	 * @since 0.19.0
+	 * @param data Metadata, members and idle timeout of the lobby
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
+	 * @returns A [lobby object](https://discord.com/developers/docs/resources/lobby#lobby-object)
+	 *
+	 * @example
+	 * // Create a lobby for a match with two players
+	 * const client = new SnowTransfer("TOKEN")
+	 * const lobby = await client.lobby.createLobby({ metadata: { map: "glacier" }, members: [{ id: "user 1 id" }, { id: "user 2 id" }] })
+	 */
+	public async createLobby(data: RESTPostAPILobbyJSONBody = {}, requestOptions?: Partial<RequestOptions>): Promise<APILobby> {
+		checkLobbyData(data);
+		return this.requestHandler.request(Endpoints.LOBBIES, {}, "post", "json", data, undefined, undefined, undefined, requestOptions);
+	}
+
+	/**
+	 * Get a lobby
+	 * @since 0.19.0
+	 * @param lobbyId Id of the lobby
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
+	 * @returns A [lobby object](https://discord.com/developers/docs/resources/lobby#lobby-object)
+	 *
+	 * @example
+	 * const client = new SnowTransfer("TOKEN")
+	 * const lobby = await client.lobby.getLobby("lobby id")
+	 */
+	public async getLobby(lobbyId: string, requestOptions?: Partial<RequestOptions>): Promise<APILobby> {
+		return this.requestHandler.request(Endpoints.LOBBY(lobbyId), {}, "get", "json", undefined, undefined, undefined, undefined, requestOptions);
+	}
+
+	/**
+	 * Update a lobby
+	 * @since 0.19.0
+	 * @param lobbyId Id of the lobby
+	 * @param data Metadata, members and idle timeout of the lobby. Members replace all members of the lobby
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
+	 * @returns A [lobby object](https://discord.com/developers/docs/resources/lobby#lobby-object)
+	 *
+	 * @example
+	 * // Change the map of a lobby
+	 * const client = new SnowTransfer("TOKEN")
+	 * const lobby = await client.lobby.editLobby("lobby id", { metadata: { map: "avalanche" } })
+	 */
+	public async editLobby(lobbyId: string, data: RESTPatchAPILobbyJSONBody, requestOptions?: Partial<RequestOptions>): Promise<APILobby> {
+		checkLobbyData(data);
+		return this.requestHandler.request(Endpoints.LOBBY(lobbyId), {}, "patch", "json", data, undefined, undefined, undefined, requestOptions);
+	}
+
+	/**
+	 * Delete a lobby
+	 * @since 0.19.0
+	 * @param lobbyId Id of the lobby
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
+	 * @returns Resolves the Promise on successful execution
+	 *
+	 * @example
+	 * const client = new SnowTransfer("TOKEN")
+	 * client.lobby.deleteLobby("lobby id")
+	 */
+	public async deleteLobby(lobbyId: string, requestOptions?: Partial<RequestOptions>): Promise<void> {
+		return this.requestHandler.request(Endpoints.LOBBY(lobbyId), {}, "delete", "json", undefined, undefined, undefined, undefined, requestOptions);
+	}
+
+	/**
+	 * Add a user to a lobby or update the metadata and flags of a member
+	 * @since 0.19.0
+	 * @param lobbyId Id of the lobby
+	 * @param userId Id of the user
+	 * @param data Metadata and flags of the member
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
+	 * @returns A [lobby member object](https://discord.com/developers/docs/resources/lobby#lobby-member-object)
+	 *
+	 * @example
+	 * // Add a user who can link the lobby to a channel
+	 * const client = new SnowTransfer("TOKEN")
+	 * const member = await client.lobby.addLobbyMember("lobby id", "user id", { flags: 1 << 0 })
+	 */
+	public async addLobbyMember(lobbyId: string, userId: string, data: RESTPutAPILobbyMemberJSONBody = {}, requestOptions?: Partial<RequestOptions>): Promise<APILobbyMember> {
+		return this.requestHandler.request(Endpoints.LOBBY_MEMBER(lobbyId, userId), {}, "put", "json", data, undefined, undefined, undefined, requestOptions);
+	}
+
+	/**
+	 * Remove a member from a lobby
+	 * @since 0.19.0
+	 * @param lobbyId Id of the lobby
+	 * @param userId Id of the user
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
+	 * @returns Resolves the Promise on successful execution
+	 *
+	 * @example
+	 * const client = new SnowTransfer("TOKEN")
+	 * client.lobby.removeLobbyMember("lobby id", "user id")
+	 */
+	public async removeLobbyMember(lobbyId: string, userId: string, requestOptions?: Partial<RequestOptions>): Promise<void> {
+		return this.requestHandler.request(Endpoints.LOBBY_MEMBER(lobbyId, userId), {}, "delete", "json", undefined, undefined, undefined, undefined, requestOptions);
+	}
+
+	/**
+	 * Leave a lobby as the current user
+	 * @since 0.19.0
+	 * @param lobbyId Id of the lobby
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
+	 * @returns Resolves the Promise on successful execution
+	 *
+	 * | OAUTH2 Scopes    | Condition |
+	 * |------------------|-----------|
+	 * | sdk.social_layer | always    |
+	 *
+	 * @example
+	 * const client = new SnowTransfer("Bearer ACCESS_TOKEN")
+	 * client.lobby.leaveLobby("lobby id")
+	 */
+	public async leaveLobby(lobbyId: string, requestOptions?: Partial<RequestOptions>): Promise<void> {
+		return this.requestHandler.request(Endpoints.LOBBY_MEMBER(lobbyId, "@me"), {}, "delete", "json", undefined, undefined, undefined, undefined, requestOptions);
+	}
+
+	/**
+	 * Link a lobby to a channel, so messages of the lobby are also sent in the channel and the other way around
+	 * @since 0.19.0
+	 * @param lobbyId Id of the lobby
+	 * @param channelId Id of the channel
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
+	 * @returns A [lobby object](https://discord.com/developers/docs/resources/lobby#lobby-object)
+	 *
+	 * | OAUTH2 Scopes    | Condition |
+	 * |------------------|-----------|
+	 * | sdk.social_layer | always    |
+	 *
+	 * The current user has to be a member of the lobby with the CanLinkLobby flag and be able to manage the channel
+	 *
+	 * @example
+	 * const client = new SnowTransfer("Bearer ACCESS_TOKEN")
+	 * const lobby = await client.lobby.linkLobbyChannel("lobby id", "channel id")
+	 */
+	public async linkLobbyChannel(lobbyId: string, channelId: string, requestOptions?: Partial<RequestOptions>): Promise<APILobby> {
+		return this.requestHandler.request(Endpoints.LOBBY_CHANNEL_LINKING(lobbyId), {}, "patch", "json", { channel_id: channelId }, undefined, undefined, undefined, requestOptions);
+	}
+
+	/**
+	 * Unlink a lobby from the channel it's linked to
+	 * @since 0.19.0
+	 * @param lobbyId Id of the lobby
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
+	 * @returns A [lobby object](https://discord.com/developers/docs/resources/lobby#lobby-object)
+	 *
+	 * | OAUTH2 Scopes    | Condition |
+	 * |------------------|-----------|
+	 * | sdk.social_layer | always    |
+	 *
+	 * @example
+	 * const client = new SnowTransfer("Bearer ACCESS_TOKEN")
+	 * const lobby = await client.lobby.unlinkLobbyChannel("lobby id")
+	 */
+	public async unlinkLobbyChannel(lobbyId: string, requestOptions?: Partial<RequestOptions>): Promise<APILobby> {
+		return this.requestHandler.request(Endpoints.LOBBY_CHANNEL_LINKING(lobbyId), {}, "patch", "json", {}, undefined, undefined, undefined, requestOptions);
+	}
+
+	/**
+	 * Send a message to the members of a lobby
+	 * @since 0.19.0
+	 * @param lobbyId Id of the lobby
+	 * @param data Content and metadata of the message
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
+	 * @returns A lobby message object
+	 *
+	 * @example
+	 * const client = new SnowTransfer("TOKEN")
+	 * const message = await client.lobby.createLobbyMessage("lobby id", { content: "The match starts in 30 seconds" })
+	 */
+	public async createLobbyMessage(lobbyId: string, data: RESTPostAPILobbyMessageJSONBody, requestOptions?: Partial<RequestOptions>): Promise<APILobbyMessage> {
+		return this.requestHandler.request(Endpoints.LOBBY_MESSAGES(lobbyId), {}, "post", "json", data, undefined, undefined, undefined, requestOptions);
+	}
+}
+
+function checkLobbyData(data: RESTPostAPILobbyJSONBody): void {
+	if (data.members && data.members.length > Constants.LOBBY_MAX_MEMBERS) throw new RangeError(`At most ${Constants.LOBBY_MAX_MEMBERS} members can be set when creating or updating a lobby`);
+	if (data.idle_timeout_seconds !== undefined && (data.idle_timeout_seconds < Constants.LOBBY_MIN_IDLE_TIMEOUT || data.idle_timeout_seconds > Constants.LOBBY_MAX_IDLE_TIMEOUT)) throw new RangeError(`The idle timeout of a lobby has to be between ${Constants.LOBBY_MIN_IDLE_TIMEOUT} and ${Constants.LOBBY_MAX_IDLE_TIMEOUT} seconds`);
+}
+
+export = LobbyMethods;
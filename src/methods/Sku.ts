@@ -9,6 +9,8 @@ import type {
 	RESTGetAPISKUSubscriptionResult,
 } from "discord-api-types/v10";
 
+import type { RequestOptions } from "../Types";
+
 /**
  * Methods for interacting with SKUs
  * @since 0.13.0
@@ -29,6 +31,7 @@ class SkuMethods {
 	 * Returns all SKUs for a given application.
 	 * @since 0.18.0
 	 * @param appId Id of the app
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns Array of [SKU objects](https://discord.com/developers/docs/resources/sku#sku-object)
 	 *
 	 * @example
@@ -36,8 +39,8 @@ class SkuMethods {
 	 * const client = new SnowTransfer("TOKEN")
 	 * const skus = await client.sku.getSkus("app id")
 	 */
-	public async getSkus(appId: string): Promise<RESTGetAPISKUsResult> {
-		return this.requestHandler.request(Endpoints.APPLICATION_SKUS(appId), {}, "get", "json");
+	public async getSkus(appId: string, requestOptions?: Partial<RequestOptions>): Promise<RESTGetAPISKUsResult> {
+		return this.requestHandler.request(Endpoints.APPLICATION_SKUS(appId), {}, "get", "json", undefined, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -45,6 +48,7 @@ class SkuMethods {
 	 * @since 0.13.0
 	 * @param skuId Id of the SKU
 	 * @param options Query data (required with at least `user_id` unless using an OAuth token)
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns Array of [subscription objects](https://discord.com/developers/docs/resources/subscription#subscription-object)
 	 *
 	 * @example
@@ -53,8 +57,8 @@ class SkuMethods {
 	 * const filter = { user_id: "user id" }
 	 * const subscriptions = await client.sku.getSubscriptions("sku id", filter)
 	 */
-	public async getSubscriptions(skuId: string, options: RESTGetAPISKUSubscriptionsQuery = {}): Promise<RESTGetAPISKUSubscriptionsResult> {
-		return this.requestHandler.request(Endpoints.SKU_SUBSCRIPTIONS(skuId), options, "get", "json");
+	public async getSubscriptions(skuId: string, options: RESTGetAPISKUSubscriptionsQuery = {}, requestOptions?: Partial<RequestOptions>): Promise<RESTGetAPISKUSubscriptionsResult> {
+		return this.requestHandler.request(Endpoints.SKU_SUBSCRIPTIONS(skuId), options, "get", "json", undefined, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -62,6 +66,7 @@ class SkuMethods {
 	 * @since 0.13.0
 	 * @param skuId Id of the SKU
 	 * @param subscriptionId Id of the subscription
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns A [subscription object](https://discord.com/developers/docs/resources/subscription#subscription-object)
 	 *
 	 * @example
@@ -69,8 +74,8 @@ class SkuMethods {
 	 * const client = new SnowTransfer("TOKEN")
 	 * const subscription = await client.sku.getSubscription("sku id", "subscription id")
 	 */
-	public async getSubscription(skuId: string, subscriptionId: string): Promise<RESTGetAPISKUSubscriptionResult> {
-		return this.requestHandler.request(Endpoints.SKU_SUBSCRIPTION(skuId, subscriptionId), {}, "get", "json");
+	public async getSubscription(skuId: string, subscriptionId: string, requestOptions?: Partial<RequestOptions>): Promise<RESTGetAPISKUSubscriptionResult> {
+		return this.requestHandler.request(Endpoints.SKU_SUBSCRIPTION(skuId, subscriptionId), {}, "get", "json", undefined, undefined, undefined, undefined, requestOptions);
 	}
 }
 
@@ -0,0 +1,328 @@
+import type { Readable } from "node:stream";
+
+import Constants = require("../Constants");
+import Endpoints = require("../Endpoints");
+import { detectAudioFormat, parseOggOpus } from "../Audio";
+
+import type { RequestHandler as RH } from "../RequestHandler";
+
+import type {
+	RESTDeleteAPIGuildSoundboardSoundResult,
+	RESTGetAPIGuildSoundboardSoundResult,
+	RESTGetAPIGuildSoundboardSoundsResult,
+	RESTGetAPISoundboardDefaultSoundsResult,
+	RESTPatchAPIGuildSoundboardSoundJSONBody,
+	RESTPatchAPIGuildSoundboardSoundResult,
+	RESTPostAPIGuildSoundboardSoundJSONBody,
+	RESTPostAPIGuildSoundboardSoundResult,
+	RESTPostAPISendSoundboardSoundResult,
+	RESTPostAPISoundboardSendSoundJSONBody
+} from "discord-api-types/v10";
+
+import type { RequestOptions } from "../Types";
+
+/** Bitrates in kbps by bitrate index, for MPEG 1 layer 1, 2 and 3 and MPEG 2/2.5 layer 1 and layer 2/3 */
+const MP3_BITRATES = {
+	mpeg1: [
+		[0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448],
+		[0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384],
+		[0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320]
+	],
+	mpeg2: [
+		[0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256],
+		[0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+		[0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160]
+	]
+};
+/** Sample rates by sample rate index, by the version bits of a frame header */
+const MP3_SAMPLE_RATES: Record<number, Array<number>> = {
+	0: [11025, 12000, 8000], // MPEG 2.5
+	2: [22050, 24000, 16000], // MPEG 2
+	3: [44100, 48000, 32000] // MPEG 1
+};
+
+/**
+ * Methods for interacting with soundboard sounds of guilds and playing them in voice channels
+ * @since 0.19.0
+ * @protected
+ */
+class SoundboardMethods {
+	/**
+	 * Create a new Soundboard Method handler
+	 *
+	 * Usually SnowTransfer creates a method handler for you, this is here for completion
+	 *
+	 * You can access the methods listed via `client.soundboard.method`, where `client` is an initialized SnowTransfer instance
+	 * @param requestHandler request handler that calls the rest api
+	 */
+	public constructor(public readonly requestHandler: RH) {}
+
+	/**
+	 * Play a soundboard sound in the voice channel the current user is connected to
+	 * @since 0.19.0
+	 * @param channelId Id of the voice channel
+	 * @param data The sound to play. source_guild_id is needed for sounds of other guilds
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
+	 * @returns Resolves the Promise on successful execution
+	 *
+	 * | Permissions needed  | Condition                              |
+	 * |---------------------|----------------------------------------|
+	 * | SPEAK               | always                                 |
+	 * | USE_SOUNDBOARD      | always                                 |
+	 * | USE_EXTERNAL_SOUNDS | if the sound is from a different guild |
+	 *
+	 * @example
+	 * const client = new SnowTransfer("TOKEN")
+	 * client.soundboard.sendSoundboardSound("channel id", { sound_id: "sound id" })
+	 */
+	public async sendSoundboardSound(channelId: string, data: RESTPostAPISoundboardSendSoundJSONBody, requestOptions?: Partial<RequestOptions>): Promise<RESTPostAPISendSoundboardSoundResult> {
+		return this.requestHandler.request(Endpoints.CHANNEL_SEND_SOUNDBOARD_SOUND(channelId), {}, "post", "json", data, undefined, undefined, undefined, requestOptions);
+	}
+
+	/**
+	 * Get the soundboard sounds every user can play
+	 * @since 0.19.0
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
+	 * @returns Array of [soundboard sound objects](https://discord.com/developers/docs/resources/soundboard#soundboard-sound-object)
+	 *
+	 * @example
+	 * const client = new SnowTransfer("TOKEN")
+	 * const sounds = await client.soundboard.getSoundboardDefaultSounds()
+	 */
+	public async getSoundboardDefaultSounds(requestOptions?: Partial<RequestOptions>): Promise<RESTGetAPISoundboardDefaultSoundsResult> {
+		return this.requestHandler.request(Endpoints.SOUNDBOARD_DEFAULT_SOUNDS, {}, "get", "json", undefined, undefined, undefined, undefined, requestOptions);
+	}
+
+	/**
+	 * Get the soundboard sounds of a guild. They include the user who created them if the current user has CREATE_GUILD_EXPRESSIONS or MANAGE_GUILD_EXPRESSIONS
+	 * @since 0.19.0
+	 * @param guildId Id of the guild
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
+	 * @returns Object with the [soundboard sound objects](https://discord.com/developers/docs/resources/soundboard#soundboard-sound-object) as items
+	 *
+	 * @example
+	 * const client = new SnowTransfer("TOKEN")
+	 * const { items } = await client.soundboard.getGuildSoundboardSounds("guild id")
+	 */
+	public async getGuildSoundboardSounds(guildId: string, requestOptions?: Partial<RequestOptions>): Promise<RESTGetAPIGuildSoundboardSoundsResult> {
+		return this.requestHandler.request(Endpoints.GUILD_SOUNDBOARD_SOUNDS(guildId), {}, "get", "json", undefined, undefined, undefined, undefined, requestOptions);
+	}
+
+	/**
+	 * Get a soundboard sound of a guild. It includes the user who created it if the current user has CREATE_GUILD_EXPRESSIONS or MANAGE_GUILD_EXPRESSIONS
+	 * @since 0.19.0
+	 * @param guildId Id of the guild
+	 * @param soundId Id of the sound
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
+	 * @returns [Soundboard sound object](https://discord.com/developers/docs/resources/soundboard#soundboard-sound-object)
+	 *
+	 * @example
+	 * const client = new SnowTransfer("TOKEN")
+	 * const sound = await client.soundboard.getGuildSoundboardSound("guild id", "sound id")
+	 */
+	public async getGuildSoundboardSound(guildId: string, soundId: string, requestOptions?: Partial<RequestOptions>): Promise<RESTGetAPIGuildSoundboardSoundResult> {
+		return this.requestHandler.request(Endpoints.GUILD_SOUNDBOARD_SOUND(guildId, soundId), {}, "get", "json", undefined, undefined, undefined, undefined, requestOptions);
+	}
+
+	/**
+	 * Create a soundboard sound in a guild
+	 *
+	 * The sound has to be an MP3 or Ogg file of at most 512KB and 5.2 seconds, which is checked before sending.
+	 * The duration of Ogg files is only checked if they contain Opus audio
+	 * @since 0.19.0
+	 * @param guildId Id of the guild
+	 * @param data Sound data. The sound can be a data URI or the file itself, which is turned into a data URI
+	 * @param reason Reason for creating the sound
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
+	 * @returns [Soundboard sound object](https://discord.com/developers/docs/resources/soundboard#soundboard-sound-object)
+	 *
+	 * | Permissions needed       | Condition |
+	 * |--------------------------|-----------|
+	 * | CREATE_GUILD_EXPRESSIONS | always    |
+	 *
+	 * @example
+	 * // Upload a sound with a snowflake emoji
+	 * const client = new SnowTransfer("TOKEN")
+	 * const sound = await client.soundboard.createGuildSoundboardSound("guild id", {
+	 * 	name: "crunch",
+	 * 	sound: fs.readFileSync("footsteps-in-snow.mp3"),
+	 * 	emoji_name: "❄️"
+	 * })
+	 */
+	public async createGuildSoundboardSound(guildId: string, data: Omit<RESTPostAPIGuildSoundboardSoundJSONBody, "sound"> & { sound: string | Buffer | Blob | Readable | ReadableStream; }, reason?: string, requestOptions?: Partial<RequestOptions>): Promise<RESTPostAPIGuildSoundboardSoundResult> {
+		checkSoundData(data);
+		const payload: RESTPostAPIGuildSoundboardSoundJSONBody = { ...data, sound: await toSoundDataURI(data.sound) };
+		return this.requestHandler.request(Endpoints.GUILD_SOUNDBOARD_SOUNDS(guildId), {}, "post", "json", payload, Constants.reasonHeader(reason), undefined, undefined, requestOptions);
+	}
+
+	/**
+	 * Edit a soundboard sound of a guild. The sound itself can't be changed
+	 * @since 0.19.0
+	 * @param guildId Id of the guild
+	 * @param soundId Id of the sound
+	 * @param data Sound data
+	 * @param reason Reason for editing the sound
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
+	 * @returns [Soundboard sound object](https://discord.com/developers/docs/resources/soundboard#soundboard-sound-object)
+	 *
+	 * | Permissions needed       | Condition                                       |
+	 * |--------------------------|-------------------------------------------------|
+	 * | CREATE_GUILD_EXPRESSIONS | if the sound was created by the current user    |
+	 * | MANAGE_GUILD_EXPRESSIONS | if the sound wasn't created by the current user |
+	 *
+	 * @example
+	 * // Make a sound quieter
+	 * const client = new SnowTransfer("TOKEN")
+	 * const sound = await client.soundboard.editGuildSoundboardSound("guild id", "sound id", { volume: 0.5 })
+	 */
+	public async editGuildSoundboardSound(guildId: string, soundId: string, data: RESTPatchAPIGuildSoundboardSoundJSONBody, reason?: string, requestOptions?: Partial<RequestOptions>): Promise<RESTPatchAPIGuildSoundboardSoundResult> {
+		checkSoundData(data);
+		return this.requestHandler.request(Endpoints.GUILD_SOUNDBOARD_SOUND(guildId, soundId), {}, "patch", "json", data, Constants.reasonHeader(reason), undefined, undefined, requestOptions);
+	}
+
+	/**
+	 * Delete a soundboard sound of a guild
+	 * @since 0.19.0
+	 * @param guildId Id of the guild
+	 * @param soundId Id of the sound
+	 * @param reason Reason for deleting the sound
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
+	 * @returns Resolves the Promise on successful execution
+	 *
+	 * | Permissions needed       | Condition                                       |
+	 * |--------------------------|-------------------------------------------------|
+	 * | CREATE_GUILD_EXPRESSIONS | if the sound was created by the current user    |
+	 * | MANAGE_GUILD_EXPRESSIONS | if the sound wasn't created by the current user |
+	 *
+	 * @example
+	 * const client = new SnowTransfer("TOKEN")
+	 * client.soundboard.deleteGuildSoundboardSound("guild id", "sound id", "Too loud")
+	 */
+	public async deleteGuildSoundboardSound(guildId: string, soundId: string, reason?: string, requestOptions?: Partial<RequestOptions>): Promise<RESTDeleteAPIGuildSoundboardSoundResult> {
+		return this.requestHandler.request(Endpoints.GUILD_SOUNDBOARD_SOUND(guildId, soundId), {}, "delete", "json", undefined, Constants.reasonHeader(reason), undefined, undefined, requestOptions);
+	}
+}
+
+/**
+ * Throw if the name or volume of a sound is out of range
+ */
+function checkSoundData(data: { name?: string; volume?: number | null; }): void {
+	if (data.name !== undefined && (data.name.length < Constants.SOUNDBOARD_SOUND_NAME_MIN_LENGTH || data.name.length > Constants.SOUNDBOARD_SOUND_NAME_MAX_LENGTH)) throw new RangeError(`The name of a soundboard sound has to be between ${Constants.SOUNDBOARD_SOUND_NAME_MIN_LENGTH} and ${Constants.SOUNDBOARD_SOUND_NAME_MAX_LENGTH} characters`);
+	if (data.volume !== undefined && data.volume !== null && (data.volume < 0 || data.volume > 1)) throw new RangeError("The volume of a soundboard sound has to be between 0 and 1");
+}
+
+/**
+ * Read a sound, check its format, size and duration and turn it into a data URI
+ * @param sound The file or a data URI of it
+ * @returns The data URI
+ */
+async function toSoundDataURI(sound: string | Buffer | Blob | Readable | ReadableStream): Promise<string> {
+	let data: Buffer;
+	if (typeof sound === "string") {
+		const match = /^data:[^;,]*;base64,/.exec(sound);
+		if (!match) throw new Error("The sound has to be a base64 data URI if it's a string");
+		data = Buffer.from(sound.slice(match[0].length), "base64");
+	} else data = Buffer.isBuffer(sound) ? sound : await readAll(sound);
+
+	if (data.length > Constants.SOUNDBOARD_SOUND_MAX_SIZE) throw new RangeError(`Soundboard sounds can be at most ${Constants.SOUNDBOARD_SOUND_MAX_SIZE / 1024}KB, but the sound is ${Math.ceil(data.length / 1024)}KB`);
+
+	const format = detectAudioFormat(data) === "ogg" ? "ogg" : isMp3(data) ? "mp3" : undefined;
+	if (!format) throw new Error("Soundboard sounds have to be MP3 or Ogg files");
+	const durationSeconds = format === "mp3" ? mp3DurationSeconds(data) : isOggOpus(data) ? parseOggOpus(data).durationSeconds : 0;
+	if (durationSeconds > Constants.SOUNDBOARD_SOUND_MAX_DURATION) throw new RangeError(`Soundboard sounds can be at most ${Constants.SOUNDBOARD_SOUND_MAX_DURATION} seconds long, but the sound is ${durationSeconds.toFixed(2)} seconds long`);
+
+	if (typeof sound === "string") return sound;
+	return `data:${format === "mp3" ? "audio/mpeg" : "audio/ogg"};base64,${data.toString("base64")}`;
+}
+
+/**
+ * Read a Blob or stream into a Buffer. Stops reading once it's larger than a soundboard sound can be
+ */
+async function readAll(sound: Blob | Readable | ReadableStream): Promise<Buffer> {
+	if (sound instanceof Blob) return Buffer.from(await sound.arrayBuffer());
+
+	const chunks: Array<Buffer> = [];
+	let size = 0;
+	for await (const chunk of sound as AsyncIterable<Uint8Array | string>) {
+		const buffer = typeof chunk === "string" ? Buffer.from(chunk) : Buffer.from(chunk.buffer, chunk.byteOffset, chunk.byteLength);
+		chunks.push(buffer);
+		size += buffer.length;
+		if (size > Constants.SOUNDBOARD_SOUND_MAX_SIZE) break;
+	}
+	return Buffer.concat(chunks);
+}
+
+/**
+ * If the first page of an Ogg file is the identification header of an Opus stream
+ */
+function isOggOpus(data: Buffer): boolean {
+	const body = 27 + (data[26] ?? 0);
+	return data.toString("latin1", body, body + 8) === "OpusHead";
+}
+
+/**
+ * If a file starts with an ID3 tag or MPEG audio frame
+ */
+function isMp3(data: Buffer): boolean {
+	return (data.length >= 10 && data.toString("latin1", 0, 3) === "ID3") || (data.length >= 4 && readMp3Frame(data, 0) !== undefined);
+}
+
+/**
+ * Read the duration of an MP3 file by walking its frames, without decoding the audio. Works for constant and variable bitrates
+ * @returns The duration in seconds
+ */
+function mp3DurationSeconds(data: Buffer): number {
+	let offset = 0;
+	// Skip ID3v2 tags. Their size is 4 bytes of 7 bits each
+	while (offset + 10 <= data.length && data.toString("latin1", offset, offset + 3) === "ID3") {
+		const size = (data[offset + 6] << 21) | (data[offset + 7] << 14) | (data[offset + 8] << 7) | data[offset + 9];
+		offset += 10 + size + (data[offset + 5] & 0x10 ? 10 : 0);
+	}
+
+	let samples = 0;
+	let frames = 0;
+	let sampleRate = 0;
+	while (offset + 4 <= data.length) {
+		const frame = readMp3Frame(data, offset);
+		// Skip anything between frames, like ID3v1 tags at the end
+		if (!frame || offset + frame.length > data.length) {
+			offset++;
+			continue;
+		}
+
+		// The first frame of variable bitrate files can be a Xing or Info frame, which has no audio
+		const header = frames === 0 ? data.toString("latin1", offset + 4, offset + Math.min(frame.length, 48)) : "";
+		if (!header.includes("Xing") && !header.includes("Info")) samples += frame.samples;
+		sampleRate ||= frame.sampleRate;
+		frames++;
+		offset += frame.length;
+	}
+	if (frames === 0) throw new Error("The MP3 file doesn't contain any frames");
+
+	return samples / sampleRate;
+}
+
+/**
+ * Read the MPEG audio frame header at an offset
+ * @returns The frame, or undefined if there's no valid frame header at the offset
+ */
+function readMp3Frame(data: Buffer, offset: number): { length: number; samples: number; sampleRate: number; } | undefined {
+	if (data[offset] !== 0xFF || (data[offset + 1] & 0xE0) !== 0xE0) return undefined;
+	const version = (data[offset + 1] >> 3) & 0x03;
+	const layer = (data[offset + 1] >> 1) & 0x03; // 3 is layer 1, 1 is layer 3
+	const bitrateIndex = data[offset + 2] >> 4;
+	const sampleRateIndex = (data[offset + 2] >> 2) & 0x03;
+	// Reserved values, and free bitrate, whose frame length can't be known from the header
+	if (version === 1 || layer === 0 || bitrateIndex === 0 || bitrateIndex === 15 || sampleRateIndex === 3) return undefined;
+
+	const mpeg1 = version === 3;
+	const bitrate = (mpeg1 ? MP3_BITRATES.mpeg1 : MP3_BITRATES.mpeg2)[3 - layer][bitrateIndex] * 1000;
+	const sampleRate = MP3_SAMPLE_RATES[version][sampleRateIndex];
+	const padding = (data[offset + 2] >> 1) & 0x01;
+
+	if (layer === 3) return { length: (Math.floor(12 * bitrate / sampleRate) + padding) * 4, samples: 384, sampleRate };
+	const samples = layer === 1 && !mpeg1 ? 576 : 1152;
+	return { length: Math.floor(samples / 8 * bitrate / sampleRate) + padding, samples, sampleRate };
+}
+
+export = SoundboardMethods;
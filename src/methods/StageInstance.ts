@@ -12,6 +12,8 @@ import type {
 	RESTPostAPIStageInstanceResult
 } from "discord-api-types/v10";
 
+import type { RequestOptions } from "../Types";
+
 /**
  * Methods for interacting with Stage instances
  * @since 0.3.0
@@ -33,6 +35,7 @@ class StageInstanceMethods {
 	 * @since 0.3.0
 	 * @param data The options for creating a stage instance
 	 * @param reason Reason for creating the stage instance
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns a [stage instance](https://discord.com/developers/docs/resources/stage-instance#auto-closing-stage-instance-structure) object
 	 *
 	 * | Permissions needed | Condition |
@@ -46,22 +49,23 @@ class StageInstanceMethods {
 	 * const client = new SnowTransfer("TOKEN")
 	 * const instance = await client.stageInstance.createStageInstance({ channel_id: "channel id", topic: "This My House" })
 	 */
-	public async createStageInstance(data: RESTPostAPIStageInstanceJSONBody, reason?: string): Promise<RESTPostAPIStageInstanceResult> {
-		return this.requestHandler.request(Endpoints.STAGE_INSTANCES, {}, "post", "json", data, Constants.reasonHeader(reason));
+	public async createStageInstance(data: RESTPostAPIStageInstanceJSONBody, reason?: string, requestOptions?: Partial<RequestOptions>): Promise<RESTPostAPIStageInstanceResult> {
+		return this.requestHandler.request(Endpoints.STAGE_INSTANCES, {}, "post", "json", data, Constants.reasonHeader(reason), undefined, undefined, requestOptions);
 	}
 
 	/**
 	 * Gets the stage instance associated to a stage channel if it exists
 	 * @since 0.3.0
 	 * @param channelId Id of the stage channel
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns a [stage instance](https://discord.com/developers/docs/resources/stage-instance#auto-closing-stage-instance-structure) object
 	 *
 	 * @example
 	 * const client = new SnowTransfer("TOKEN")
 	 * const instance = await client.stageInstance.getStageInstance("channel id")
 	 */
-	public async getStageInstance(channelId: string): Promise<RESTGetAPIStageInstanceResult> {
-		return this.requestHandler.request(Endpoints.STAGE_INSTANCE_CHANNEL(channelId), {}, "get", "json");
+	public async getStageInstance(channelId: string, requestOptions?: Partial<RequestOptions>): Promise<RESTGetAPIStageInstanceResult> {
+		return this.requestHandler.request(Endpoints.STAGE_INSTANCE_CHANNEL(channelId), {}, "get", "json", undefined, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -70,6 +74,7 @@ class StageInstanceMethods {
 	 * @param channelId Id of the stage channel
 	 * @param data The new data to send
 	 * @param reason Reason for editing the stage instance
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns a [stage instance](https://discord.com/developers/docs/resources/stage-instance#auto-closing-stage-instance-structure) object
 	 *
 	 * | Permissions needed | Condition |
@@ -82,8 +87,8 @@ class StageInstanceMethods {
 	 * const client = new SnowTransfer("TOKEN")
 	 * const instance = await client.stageInstance.editStageInstance("channel id", { topic: "This my city, this my town" })
 	 */
-	public async editStageInstance(channelId: string, data: RESTPatchAPIStageInstanceJSONBody, reason?: string): Promise<RESTPatchAPIStageInstanceResult> {
-		return this.requestHandler.request(Endpoints.STAGE_INSTANCE_CHANNEL(channelId), {}, "patch", "json", data, Constants.reasonHeader(reason));
+	public async editStageInstance(channelId: string, data: RESTPatchAPIStageInstanceJSONBody, reason?: string, requestOptions?: Partial<RequestOptions>): Promise<RESTPatchAPIStageInstanceResult> {
+		return this.requestHandler.request(Endpoints.STAGE_INSTANCE_CHANNEL(channelId), {}, "patch", "json", data, Constants.reasonHeader(reason), undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -91,6 +96,7 @@ class StageInstanceMethods {
 	 * @since 0.3.0
 	 * @param channelId Id of the stage channel
 	 * @param reason Reason for deleting the stage instance
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns a [stage instance](https://discord.com/developers/docs/resources/stage-instance#auto-closing-stage-instance-structure) object
 	 *
 	 * | Permissions needed | Condition |
@@ -103,8 +109,8 @@ class StageInstanceMethods {
 	 * const client = new SnowTransfer("TOKEN")
 	 * client.stageInstance.deleteStageInstance("channel id", "They already know who's house this is")
 	 */
-	public async deleteStageInstance(channelId: string, reason?: string): Promise<RESTDeleteAPIStageInstanceResult> {
-		return this.requestHandler.request(Endpoints.STAGE_INSTANCE_CHANNEL(channelId), {}, "delete", "json", {}, Constants.reasonHeader(reason));
+	public async deleteStageInstance(channelId: string, reason?: string, requestOptions?: Partial<RequestOptions>): Promise<RESTDeleteAPIStageInstanceResult> {
+		return this.requestHandler.request(Endpoints.STAGE_INSTANCE_CHANNEL(channelId), {}, "delete", "json", {}, Constants.reasonHeader(reason), undefined, undefined, requestOptions);
 	}
 }
 
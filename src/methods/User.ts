@@ -17,6 +17,8 @@ import type {
 	RESTPutAPICurrentUserApplicationRoleConnectionResult
 } from "discord-api-types/v10";
 
+import type { RequestOptions } from "../Types";
+
 /**
  * Methods for interacting with users
  * @since 0.1.0
@@ -36,6 +38,7 @@ class UserMethods {
 	/**
 	 * Get information about the CurrentUser
 	 * @since 0.1.0
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns A [user object](https://discord.com/developers/docs/resources/user#user-object)
 	 *
 	 * | OAUTH2 Scopes | Condition     |
@@ -47,28 +50,30 @@ class UserMethods {
 	 * const client = new SnowTransfer("TOKEN")
 	 * const self = await client.user.getSelf()
 	 */
-	public async getSelf(): Promise<RESTGetAPICurrentUserResult> {
-		return this.requestHandler.request(Endpoints.USER("@me"), {}, "get", "json");
+	public async getSelf(requestOptions?: Partial<RequestOptions>): Promise<RESTGetAPICurrentUserResult> {
+		return this.requestHandler.request(Endpoints.USER("@me"), {}, "get", "json", undefined, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
 	 * Get information about a user via Id
 	 * @since 0.1.0
 	 * @param userId Id of the user
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns [user object](https://discord.com/developers/docs/resources/user#user-object)
 	 *
 	 * @example
 	 * const client = new SnowTransfer("TOKEN")
 	 * const user = await client.user.getUser("userId")
 	 */
-	public async getUser(userId: string): Promise<RESTGetAPIUserResult> {
-		return this.requestHandler.request(Endpoints.USER(userId), {}, "get", "json");
+	public async getUser(userId: string, requestOptions?: Partial<RequestOptions>): Promise<RESTGetAPIUserResult> {
+		return this.requestHandler.request(Endpoints.USER(userId), {}, "get", "json", undefined, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
 	 * Update the current user
 	 * @since 0.18.0
 	 * @param data The new data of the CurrentUser
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns [user object](https://discord.com/developers/docs/resources/user#user-object)
 	 *
 	 * @example
@@ -80,36 +85,38 @@ class UserMethods {
 	 * \}
 	 * client.user.editSelf(updateData)
 	 */
-	public async editSelf(data: RESTPatchAPICurrentUserJSONBody): Promise<RESTPatchAPICurrentUserResult> {
-		return this.requestHandler.request(Endpoints.USER("@me"), {}, "patch", "json", data);
+	public async editSelf(data: RESTPatchAPICurrentUserJSONBody, requestOptions?: Partial<RequestOptions>): Promise<RESTPatchAPICurrentUserResult> {
+		return this.requestHandler.request(Endpoints.USER("@me"), {}, "patch", "json", data, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
 	 * Get guilds of the current user
 	 * @since 0.1.0
 	 * @param options Options for getting guilds
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns Array of [partial guild objects](https://discord.com/developers/docs/resources/guild#guild-object)
 	 *
 	 * @example
 	 * const client = new SnowTransfer("TOKEN")
 	 * const guilds = await client.user.getGuilds()
 	 */
-	public async getGuilds(options?: RESTGetAPICurrentUserGuildsQuery): Promise<RESTGetAPICurrentUserGuildsResult> {
-		return this.requestHandler.request(Endpoints.USER_GUILDS("@me"), options ?? {}, "get", "json");
+	public async getGuilds(options?: RESTGetAPICurrentUserGuildsQuery, requestOptions?: Partial<RequestOptions>): Promise<RESTGetAPICurrentUserGuildsResult> {
+		return this.requestHandler.request(Endpoints.USER_GUILDS("@me"), options ?? {}, "get", "json", undefined, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
 	 * Leaves a guild
 	 * @since 0.1.0
 	 * @param guildId Id of the guild
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns Resolves the Promise on successful execution
 	 *
 	 * @example
 	 * const client = new SnowTransfer("TOKEN")
 	 * client.user.leaveGuild("guildId")
 	 */
-	public async leaveGuild(guildId: string): Promise<RESTDeleteAPICurrentUserGuildResult> {
-		return this.requestHandler.request(Endpoints.USER_GUILD("@me", guildId), {}, "delete", "json");
+	public async leaveGuild(guildId: string, requestOptions?: Partial<RequestOptions>): Promise<RESTDeleteAPICurrentUserGuildResult> {
+		return this.requestHandler.request(Endpoints.USER_GUILD("@me", guildId), {}, "delete", "json", undefined, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -118,6 +125,7 @@ class UserMethods {
 	 * **You can not create a dm with another bot**
 	 * @since 0.1.0
 	 * @param userId Id of the user to create the direct message channel with
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns A [DM channel](https://discord.com/developers/docs/resources/channel#channel-object)
 	 *
 	 * @example
@@ -126,14 +134,15 @@ class UserMethods {
 	 * const channel = await client.user.createDirectMessageChannel("other user id")
 	 * client.channel.createMessage(channel.id, "hi")
 	 */
-	public async createDirectMessageChannel(userId: string): Promise<RESTPostAPICurrentUserCreateDMChannelResult> {
-		return this.requestHandler.request(Endpoints.USER_CHANNELS("@me"), {}, "post", "json", { recipient_id: userId });
+	public async createDirectMessageChannel(userId: string, requestOptions?: Partial<RequestOptions>): Promise<RESTPostAPICurrentUserCreateDMChannelResult> {
+		return this.requestHandler.request(Endpoints.USER_CHANNELS("@me"), {}, "post", "json", { recipient_id: userId }, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
 	 * Create a group direct message channel with other users
 	 * @since 0.7.0
 	 * @param data An object containing a list of access tokens with gdm.join and optionally, a nickname dictionary keyed by user IDs with strings as values
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns A [DM channel](https://discord.com/developers/docs/resources/channel#channel-object)
 	 *
 	 * | OAUTH2 Scopes | Condition            |
@@ -146,13 +155,14 @@ class UserMethods {
 	 * const channel = await client.user.createGroupDirectMessageChannel({ access_tokens: ["user 1 access token", "user 2 access token"], nicks: { "320067006521147393": "Brad", "128392910574977024": "Wolke" } })
 	 * client.channel.createMessage(channel.id, "hi")
 	 */
-	public async createGroupDirectMessageChannel(data: { access_tokens: Array<string>; nicks?: { [userId: string]: string } }): Promise<RESTPostAPICurrentUserCreateDMChannelResult> {
-		return this.requestHandler.request(Endpoints.USER_CHANNELS("@me"), {}, "post", "json", data);
+	public async createGroupDirectMessageChannel(data: { access_tokens: Array<string>; nicks?: { [userId: string]: string } }, requestOptions?: Partial<RequestOptions>): Promise<RESTPostAPICurrentUserCreateDMChannelResult> {
+		return this.requestHandler.request(Endpoints.USER_CHANNELS("@me"), {}, "post", "json", data, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
 	 * Returns a list of connections for the current user
 	 * @since 0.7.0
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns A list of [connections](https://discord.com/developers/docs/resources/user#connection-object)
 	 *
 	 * | OAUTH2 Scopes | Condition |
@@ -164,14 +174,15 @@ class UserMethods {
 	 * const client = new SnowTransfer("TOKEN")
 	 * const connections = await client.user.getConnections()
 	 */
-	public async getConnections(): Promise<RESTGetAPICurrentUserConnectionsResult> {
-		return this.requestHandler.request(Endpoints.USER_CONNECTIONS("@me"), {}, "get", "json");
+	public async getConnections(requestOptions?: Partial<RequestOptions>): Promise<RESTGetAPICurrentUserConnectionsResult> {
+		return this.requestHandler.request(Endpoints.USER_CONNECTIONS("@me"), {}, "get", "json", undefined, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
 	 * Gets a role connection for the current user
 	 * @since 0.7.0
 	 * @param appId Id of the application
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns An [Application role connection](https://discord.com/developers/docs/resources/user#application-role-connection-object)
 	 *
 	 * | OAUTH2 Scopes          | Condition |
@@ -183,14 +194,15 @@ class UserMethods {
 	 * const client = new SnowTransfer("TOKEN")
 	 * const connection = await client.user.getApplicationRoleConnection("app id")
 	 */
-	public async getApplicationRoleConnection(appId: string): Promise<RESTGetAPICurrentUserApplicationRoleConnectionResult> {
-		return this.requestHandler.request(Endpoints.USER_APPLICATION_ROLE_CONNECTION("@me", appId), {}, "get", "json");
+	public async getApplicationRoleConnection(appId: string, requestOptions?: Partial<RequestOptions>): Promise<RESTGetAPICurrentUserApplicationRoleConnectionResult> {
+		return this.requestHandler.request(Endpoints.USER_APPLICATION_ROLE_CONNECTION("@me", appId), {}, "get", "json", undefined, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
 	 * Updates a role connection for the current user
 	 * @since 0.18.0
 	 * @param appId Id of the application
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns An [Application role connection](https://discord.com/developers/docs/resources/user#application-role-connection-object)
 	 *
 	 * | OAUTH2 Scopes          | Condition |
@@ -202,8 +214,8 @@ class UserMethods {
 	 * const client = new SnowTransfer("TOKEN")
 	 * const connection = await client.user.editApplicationRoleConnection("app id", { platform_name: "some platform", platform_username: "Cool user 22" })
 	 */
-	public async editApplicationRoleConnection(appId: string, data: RESTPutAPICurrentUserApplicationRoleConnectionJSONBody): Promise<RESTPutAPICurrentUserApplicationRoleConnectionResult> {
-		return this.requestHandler.request(Endpoints.USER_APPLICATION_ROLE_CONNECTION("@me", appId), {}, "put", "json", data);
+	public async editApplicationRoleConnection(appId: string, data: RESTPutAPICurrentUserApplicationRoleConnectionJSONBody, requestOptions?: Partial<RequestOptions>): Promise<RESTPutAPICurrentUserApplicationRoleConnectionResult> {
+		return this.requestHandler.request(Endpoints.USER_APPLICATION_ROLE_CONNECTION("@me", appId), {}, "put", "json", data, undefined, undefined, undefined, requestOptions);
 	}
 }
 
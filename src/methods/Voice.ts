@@ -4,6 +4,8 @@ import type { RequestHandler as RH } from "../RequestHandler";
 
 import type { RESTGetAPIVoiceRegionsResult, APIVoiceState } from "discord-api-types/v10";
 
+import type { RequestOptions } from "../Types";
+
 /**
  * Methods for interacting with voice
  * @since 0.1.0
@@ -23,24 +25,26 @@ class VoiceMethods {
 	/**
 	 * Get currently available voice regions that can be used when creating servers
 	 * @since 0.1.0
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns Array of [voice region](https://discord.com/developers/docs/resources/voice#voice-region-object) objects
 	 *
 	 * @example
 	 * const client = new SnowTransfer("TOKEN")
 	 * const regions = await client.voice.getVoiceRegions()
 	 */
-	public async getVoiceRegions(): Promise<RESTGetAPIVoiceRegionsResult> {
-		return this.requestHandler.request(Endpoints.VOICE_REGIONS, {}, "get", "json");
+	public async getVoiceRegions(requestOptions?: Partial<RequestOptions>): Promise<RESTGetAPIVoiceRegionsResult> {
+		return this.requestHandler.request(Endpoints.VOICE_REGIONS, {}, "get", "json", undefined, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
 	 * Get the CurrentUser's voice state for a guild
 	 * @since 0.10.6
 	 * @param guildId Id of the guild
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns A [voice state](https://discord.com/developers/docs/resources/voice#voice-state-object) object
 	 */
-	public async getCurrentUserVoiceState(guildId: string): Promise<APIVoiceState> {
-		return this.requestHandler.request(Endpoints.USER_GUILD_VOICE_STATE(guildId, "@me"), {}, "get", "json");
+	public async getCurrentUserVoiceState(guildId: string, requestOptions?: Partial<RequestOptions>): Promise<APIVoiceState> {
+		return this.requestHandler.request(Endpoints.USER_GUILD_VOICE_STATE(guildId, "@me"), {}, "get", "json", undefined, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -48,10 +52,11 @@ class VoiceMethods {
 	 * @since 0.10.6
 	 * @param guildId Id of the guild
 	 * @param userId Id of the user
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns A [voice state](https://discord.com/developers/docs/resources/voice#voice-state-object) object
 	 */
-	public async getUserVoiceState(guildId: string, userId: string): Promise<APIVoiceState> {
-		return this.requestHandler.request(Endpoints.USER_GUILD_VOICE_STATE(guildId, userId), {}, "get", "json");
+	public async getUserVoiceState(guildId: string, userId: string, requestOptions?: Partial<RequestOptions>): Promise<APIVoiceState> {
+		return this.requestHandler.request(Endpoints.USER_GUILD_VOICE_STATE(guildId, userId), {}, "get", "json", undefined, undefined, undefined, undefined, requestOptions);
 	}
 }
 
@@ -2,7 +2,9 @@ import Endpoints = require("../Endpoints");
 import Constants = require("../Constants");
 
 import type { RequestHandler as RH } from "../RequestHandler";
-import type { SnowTransferOptions } from "../Types";
+import { validateMessage } from "../Validation";
+import { uploadMessageFiles } from "../CloudUpload";
+import type { RequestOptions, SnowTransferOptions, UploadFile } from "../Types";
 
 import {
 	type RESTDeleteAPIWebhookResult,
@@ -34,8 +36,6 @@ import {
 	MessageFlags
 } from "discord-api-types/v10";
 
-import type { Readable } from "node:stream";
-
 /**
  * Methods for handling webhook interactions
  * @since 0.1.0
@@ -59,6 +59,7 @@ class WebhookMethods {
 	 * @param channelId Id of the channel
 	 * @param data Object with webhook properties
 	 * @param reason Reason for creating the webhook
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns [Webhook Object](https://discord.com/developers/docs/resources/webhook#webhook-object-webhook-structure)
 	 *
 	 * | Permissions needed | Condition |
@@ -73,14 +74,15 @@ class WebhookMethods {
 	 * }
 	 * const webhook = await client.webhook.createWebhook("channel Id", webhookData)
 	 */
-	public async createWebhook(channelId: string, data: RESTPostAPIChannelWebhookJSONBody, reason?: string): Promise<RESTPostAPIChannelWebhookResult> {
-		return this.requestHandler.request(Endpoints.CHANNEL_WEBHOOKS(channelId), {}, "post", "json", data, Constants.reasonHeader(reason));
+	public async createWebhook(channelId: string, data: RESTPostAPIChannelWebhookJSONBody, reason?: string, requestOptions?: Partial<RequestOptions>): Promise<RESTPostAPIChannelWebhookResult> {
+		return this.requestHandler.request(Endpoints.CHANNEL_WEBHOOKS(channelId), {}, "post", "json", data, Constants.reasonHeader(reason), undefined, undefined, requestOptions);
 	}
 
 	/**
 	 * Get all webhooks within a channel
 	 * @since 0.5.0
 	 * @param channelId Id of the channel
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns Array of [Webhook Objects](https://discord.com/developers/docs/resources/webhook#webhook-object-webhook-structure)
 	 *
 	 * | Permissions needed | Condition |
@@ -92,14 +94,15 @@ class WebhookMethods {
 	 * const client = new SnowTransfer("TOKEN")
 	 * const webhooks = await client.webhook.getChannelWebhooks("channel Id")
 	 */
-	public async getChannelWebhooks(channelId: string): Promise<RESTGetAPIChannelWebhooksResult> {
-		return this.requestHandler.request(Endpoints.CHANNEL_WEBHOOKS(channelId), {}, "get", "json");
+	public async getChannelWebhooks(channelId: string, requestOptions?: Partial<RequestOptions>): Promise<RESTGetAPIChannelWebhooksResult> {
+		return this.requestHandler.request(Endpoints.CHANNEL_WEBHOOKS(channelId), {}, "get", "json", undefined, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
 	 * Get all webhooks within a guild
 	 * @since 0.5.0
 	 * @param guildId Id of the guild
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns Array of [Webhook Objects](https://discord.com/developers/docs/resources/webhook#webhook-object-webhook-structure)
 	 *
 	 * | Permissions needed | Condition |
@@ -111,8 +114,8 @@ class WebhookMethods {
 	 * const client = new SnowTransfer("TOKEN")
 	 * const webhooks = await client.webhook.getGuildWebhooks("guild Id")
 	 */
-	public async getGuildWebhooks(guildId: string): Promise<RESTGetAPIGuildWebhooksResult> {
-		return this.requestHandler.request(Endpoints.GUILD_WEBHOOKS(guildId), {}, "get", "json");
+	public async getGuildWebhooks(guildId: string, requestOptions?: Partial<RequestOptions>): Promise<RESTGetAPIGuildWebhooksResult> {
+		return this.requestHandler.request(Endpoints.GUILD_WEBHOOKS(guildId), {}, "get", "json", undefined, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -120,6 +123,7 @@ class WebhookMethods {
 	 * @since 0.1.0
 	 * @param webhookId Id of the webhook
 	 * @param token Webhook token
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns [Webhook Object](https://discord.com/developers/docs/resources/webhook#webhook-object-webhook-structure)
 	 *
 	 * | Permissions needed | Condition     |
@@ -131,9 +135,9 @@ class WebhookMethods {
 	 * const client = new SnowTransfer() // No token needed if webhook token is provided
 	 * const webhook = await client.webhook.getWebhook("webhook Id", "webhook token")
 	 */
-	public async getWebhook(webhookId: string, token?: string): Promise<RESTGetAPIWebhookResult> {
-		if (token) return this.requestHandler.request(Endpoints.WEBHOOK_TOKEN(webhookId, token), {}, "get", "json");
-		return this.requestHandler.request(Endpoints.WEBHOOK(webhookId), {}, "get", "json");
+	public async getWebhook(webhookId: string, token?: string, requestOptions?: Partial<RequestOptions>): Promise<RESTGetAPIWebhookResult> {
+		if (token) return this.requestHandler.request(Endpoints.WEBHOOK_TOKEN(webhookId, token), {}, "get", "json", undefined, undefined, undefined, undefined, requestOptions);
+		return this.requestHandler.request(Endpoints.WEBHOOK(webhookId), {}, "get", "json", undefined, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -142,6 +146,7 @@ class WebhookMethods {
 	 * @param webhookId Id of the webhook
 	 * @param data Updated Webhook properties
 	 * @param reason Reason for updating the webhook
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns Updated [Webhook Object](https://discord.com/developers/docs/resources/webhook#webhook-object-webhook-structure)
 	 *
 	 * | Permissions needed | Condition |
@@ -156,8 +161,8 @@ class WebhookMethods {
 	 * }
 	 * const webhook = await client.webhook.editWebhook("webhook Id", webhookData)
 	 */
-	public async editWebhook(webhookId: string, data: RESTPatchAPIWebhookJSONBody, reason?: string): Promise<RESTPatchAPIWebhookResult> {
-		return this.requestHandler.request(Endpoints.WEBHOOK(webhookId), {}, "patch", "json", data, Constants.reasonHeader(reason));
+	public async editWebhook(webhookId: string, data: RESTPatchAPIWebhookJSONBody, reason?: string, requestOptions?: Partial<RequestOptions>): Promise<RESTPatchAPIWebhookResult> {
+		return this.requestHandler.request(Endpoints.WEBHOOK(webhookId), {}, "patch", "json", data, Constants.reasonHeader(reason), undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -167,6 +172,7 @@ class WebhookMethods {
 	 * @param token Token of the webhook
 	 * @param data Updated webhook properties
 	 * @param reason Reason for updating the webhook
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns Updated [Webhook Object](https://discord.com/developers/docs/resources/webhook#webhook-object-webhook-structure)
 	 *
 	 * @example
@@ -177,8 +183,8 @@ class WebhookMethods {
 	 * }
 	 * const webhook = await client.webhook.editWebhookToken("webhook Id", "webhook token", webhookData)
 	 */
-	public async editWebhookToken(webhookId: string, token: string, data: RESTPatchAPIWebhookWithTokenJSONBody, reason?: string): Promise<RESTPatchAPIWebhookWithTokenResult> {
-		return this.requestHandler.request(Endpoints.WEBHOOK_TOKEN(webhookId, token), {}, "patch", "json", data, Constants.reasonHeader(reason));
+	public async editWebhookToken(webhookId: string, token: string, data: RESTPatchAPIWebhookWithTokenJSONBody, reason?: string, requestOptions?: Partial<RequestOptions>): Promise<RESTPatchAPIWebhookWithTokenResult> {
+		return this.requestHandler.request(Endpoints.WEBHOOK_TOKEN(webhookId, token), {}, "patch", "json", data, Constants.reasonHeader(reason), undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -186,6 +192,7 @@ class WebhookMethods {
 	 * @since 0.1.0
 	 * @param webhookId Id of the webhook
 	 * @param reason Reason for deleting the webhook
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns Resolves the Promise on successful execution
 	 *
 	 * | Permissions needed | Condition |
@@ -197,8 +204,8 @@ class WebhookMethods {
 	 * const client = new SnowTransfer("TOKEN");
 	 * client.webhook.deleteWebhook("webhook Id")
 	 */
-	public async deleteWebhook(webhookId: string, reason?: string): Promise<RESTDeleteAPIWebhookResult> {
-		return this.requestHandler.request(Endpoints.WEBHOOK(webhookId), {}, "delete", "json", undefined, Constants.reasonHeader(reason));
+	public async deleteWebhook(webhookId: string, reason?: string, requestOptions?: Partial<RequestOptions>): Promise<RESTDeleteAPIWebhookResult> {
+		return this.requestHandler.request(Endpoints.WEBHOOK(webhookId), {}, "delete", "json", undefined, Constants.reasonHeader(reason), undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -206,6 +213,7 @@ class WebhookMethods {
 	 * @since 0.17.0
 	 * @param webhookId Id of the webhook
 	 * @param token Webhook token
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns Resolves the Promise on successful execution
 	 *
 	 * @example
@@ -213,8 +221,8 @@ class WebhookMethods {
 	 * const client = new SnowTransfer(); // No token needed if webhook token is provided
 	 * client.webhook.deleteWebhookToken("webhook Id", "webhook token")
 	 */
-	public async deleteWebhookToken(webhookId: string, token: string, reason?: string): Promise<RESTDeleteAPIWebhookWithTokenResult> {
-		return this.requestHandler.request(Endpoints.WEBHOOK_TOKEN(webhookId, token), {}, "delete", "json", undefined, Constants.reasonHeader(reason));
+	public async deleteWebhookToken(webhookId: string, token: string, reason?: string, requestOptions?: Partial<RequestOptions>): Promise<RESTDeleteAPIWebhookWithTokenResult> {
+		return this.requestHandler.request(Endpoints.WEBHOOK_TOKEN(webhookId, token), {}, "delete", "json", undefined, Constants.reasonHeader(reason), undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -222,8 +230,9 @@ class WebhookMethods {
 	 * @since 0.1.0
 	 * @param webhookId Id of the webhook
 	 * @param token webhook token
-	 * @param data Webhook data to send
+	 * @param data Webhook data to send. With the cloudUploads option, files are uploaded to the channel upload_channel_id first
 	 * @param options Options for executing the webhook
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns Resolves the Promise on successful execution unless wait is set to true, which returns a [message]() object
 	 *
 	 * @example
@@ -231,13 +240,15 @@ class WebhookMethods {
 	 * const client = new SnowTransfer()
 	 * client.webhook.executeWebhook("webhook Id", "webhook token", { content: "Hi from my webhook" })
 	 */
-	public async executeWebhook(webhookId: string, token: string, data: RESTPostAPIWebhookWithTokenJSONBody & { files?: Array<{ name: string; file: Buffer | Readable | ReadableStream; }> }, options?: RESTPostAPIWebhookWithTokenQuery & { wait?: false, }): Promise<RESTPostAPIWebhookWithTokenResult>;
-	public async executeWebhook(webhookId: string, token: string, data: RESTPostAPIWebhookWithTokenJSONBody & { files?: Array<{ name: string; file: Buffer | Readable | ReadableStream; }> }, options: RESTPostAPIWebhookWithTokenQuery & { wait: true, }): Promise<RESTPostAPIWebhookWithTokenWaitResult>;
-	public async executeWebhook(webhookId: string, token: string, data: RESTPostAPIWebhookWithTokenJSONBody & { files?: Array<{ name: string; file: Buffer | Readable | ReadableStream; }> }, options?: RESTPostAPIWebhookWithTokenQuery): Promise<RESTPostAPIWebhookWithTokenResult | RESTPostAPIWebhookWithTokenWaitResult> {
+	public async executeWebhook(webhookId: string, token: string, data: RESTPostAPIWebhookWithTokenJSONBody & { files?: Array<UploadFile>; upload_channel_id?: string }, options?: RESTPostAPIWebhookWithTokenQuery & { wait?: false, }, requestOptions?: Partial<RequestOptions>): Promise<RESTPostAPIWebhookWithTokenResult>;
+	public async executeWebhook(webhookId: string, token: string, data: RESTPostAPIWebhookWithTokenJSONBody & { files?: Array<UploadFile>; upload_channel_id?: string }, options: RESTPostAPIWebhookWithTokenQuery & { wait: true, }, requestOptions?: Partial<RequestOptions>): Promise<RESTPostAPIWebhookWithTokenWaitResult>;
+	public async executeWebhook(webhookId: string, token: string, data: RESTPostAPIWebhookWithTokenJSONBody & { files?: Array<UploadFile>; upload_channel_id?: string }, options?: RESTPostAPIWebhookWithTokenQuery, requestOptions?: Partial<RequestOptions>): Promise<RESTPostAPIWebhookWithTokenResult | RESTPostAPIWebhookWithTokenWaitResult> {
 		if (typeof data !== "string" && !data.content && !data.embeds && !data.components && !data.files && !data.poll) throw new Error("Missing content, embeds, components, files, or poll");
 		if (typeof data === "string") data = { content: data };
 		const payload = { ...data };
 		const opts = { ...options };
+		const uploadChannelId = payload.upload_channel_id;
+		delete payload.upload_channel_id;
 
 		if (
 			(payload.content || payload.embeds) &&
@@ -245,11 +256,14 @@ class WebhookMethods {
 			(payload.flags & MessageFlags.IsComponentsV2) === MessageFlags.IsComponentsV2
 		) throw new Error("The message flags was set to include IsComponentsV2, but content and/or embeds were also present. You can either have content/embeds or components v2, not both.");
 
+		if (this.options.validateMessages) validateMessage(payload);
+
 		// Sanitize the message
 		payload.allowed_mentions ??= this.options.allowed_mentions;
 
-		if (payload.files) return this.requestHandler.request(`${Endpoints.WEBHOOK_TOKEN(webhookId, token)}`, opts, "post", "multipart", await Constants.standardMultipartHandler(payload as Parameters<typeof Constants["standardMultipartHandler"]>["0"]));
-		else return this.requestHandler.request(Endpoints.WEBHOOK_TOKEN(webhookId, token), opts, "post", "json", payload);
+		if (payload.files && this.options.cloudUploads && uploadChannelId) return this.requestHandler.request(Endpoints.WEBHOOK_TOKEN(webhookId, token), opts, "post", "json", await uploadMessageFiles(this.requestHandler, uploadChannelId, payload, requestOptions), undefined, undefined, undefined, requestOptions);
+		else if (payload.files) return this.requestHandler.request(`${Endpoints.WEBHOOK_TOKEN(webhookId, token)}`, opts, "post", "multipart", await Constants.standardMultipartHandler(payload as Parameters<typeof Constants["standardMultipartHandler"]>["0"]), undefined, undefined, undefined, requestOptions);
+		else return this.requestHandler.request(Endpoints.WEBHOOK_TOKEN(webhookId, token), opts, "post", "json", payload, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -259,16 +273,17 @@ class WebhookMethods {
 	 * @param token Webhook token
 	 * @param data Check [Slack's documentation](https://api.slack.com/incoming-webhooks)
 	 * @param options Options for executing the webhook
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns Resolves the Promise on successful execution
 	 *
 	 * @example
 	 * const client = new SnowTransfer() // No token needed
 	 * client.webhook.executeSlackWebhook("webhook Id", "webhook token", slackdata)
 	 */
-	public async executeWebhookSlack(webhookId: string, token: string, data: any, options?: RESTPostAPIWebhookWithTokenSlackQuery & { wait?: false }): Promise<RESTPostAPIWebhookWithTokenSlackResult>
-	public async executeWebhookSlack(webhookId: string, token: string, data: any, options?: RESTPostAPIWebhookWithTokenSlackQuery & { wait: true }): Promise<RESTPostAPIWebhookWithTokenSlackWaitResult>
-	public async executeWebhookSlack(webhookId: string, token: string, data: any, options?: RESTPostAPIWebhookWithTokenSlackQuery): Promise<RESTPostAPIWebhookWithTokenSlackResult | RESTPostAPIWebhookWithTokenSlackWaitResult> {
-		return this.requestHandler.request(Endpoints.WEBHOOK_TOKEN_SLACK(webhookId, token), options, "post", "json", data);
+	public async executeWebhookSlack(webhookId: string, token: string, data: any, options?: RESTPostAPIWebhookWithTokenSlackQuery & { wait?: false }, requestOptions?: Partial<RequestOptions>): Promise<RESTPostAPIWebhookWithTokenSlackResult>
+	public async executeWebhookSlack(webhookId: string, token: string, data: any, options?: RESTPostAPIWebhookWithTokenSlackQuery & { wait: true }, requestOptions?: Partial<RequestOptions>): Promise<RESTPostAPIWebhookWithTokenSlackWaitResult>
+	public async executeWebhookSlack(webhookId: string, token: string, data: any, options?: RESTPostAPIWebhookWithTokenSlackQuery, requestOptions?: Partial<RequestOptions>): Promise<RESTPostAPIWebhookWithTokenSlackResult | RESTPostAPIWebhookWithTokenSlackWaitResult> {
+		return this.requestHandler.request(Endpoints.WEBHOOK_TOKEN_SLACK(webhookId, token), options, "post", "json", data, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -278,12 +293,13 @@ class WebhookMethods {
 	 * @param token Webhook token
 	 * @param data Check [GitHub's documentation](https://docs.github.com/en/developers/webhooks-and-events/webhook-events-and-payloads#webhook-payload-object)
 	 * @param options Options for executing the webhook
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns Resolves the Promise on successful execution
 	 */
-	public async executeWebhookGitHub(webhookId: string, token: string, data: any, options?: RESTPostAPIWebhookWithTokenGitHubQuery & { wait?: false }): Promise<RESTPostAPIWebhookWithTokenGitHubResult>
-	public async executeWebhookGitHub(webhookId: string, token: string, data: any, options?: RESTPostAPIWebhookWithTokenGitHubQuery & { wait: true }): Promise<RESTPostAPIWebhookWithTokenGitHubWaitResult>
-	public async executeWebhookGitHub(webhookId: string, token: string, data: any, options: RESTPostAPIWebhookWithTokenGitHubQuery = {}): Promise<RESTPostAPIWebhookWithTokenGitHubResult | RESTPostAPIWebhookWithTokenGitHubWaitResult> {
-		return this.requestHandler.request(Endpoints.WEBHOOK_TOKEN_GITHUB(webhookId, token), options, "post", "json", data);
+	public async executeWebhookGitHub(webhookId: string, token: string, data: any, options?: RESTPostAPIWebhookWithTokenGitHubQuery & { wait?: false }, requestOptions?: Partial<RequestOptions>): Promise<RESTPostAPIWebhookWithTokenGitHubResult>
+	public async executeWebhookGitHub(webhookId: string, token: string, data: any, options?: RESTPostAPIWebhookWithTokenGitHubQuery & { wait: true }, requestOptions?: Partial<RequestOptions>): Promise<RESTPostAPIWebhookWithTokenGitHubWaitResult>
+	public async executeWebhookGitHub(webhookId: string, token: string, data: any, options: RESTPostAPIWebhookWithTokenGitHubQuery = {}, requestOptions?: Partial<RequestOptions>): Promise<RESTPostAPIWebhookWithTokenGitHubResult | RESTPostAPIWebhookWithTokenGitHubWaitResult> {
+		return this.requestHandler.request(Endpoints.WEBHOOK_TOKEN_GITHUB(webhookId, token), options, "post", "json", data, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -293,10 +309,11 @@ class WebhookMethods {
 	 * @param token Webhook token
 	 * @param messageId Id of the message
 	 * @param threadId Id of the thread the message was sent in
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns [discord message](https://discord.com/developers/docs/resources/channel#message-object) object
 	 */
-	public async getWebhookMessage(webhookId: string, token: string, messageId: string, threadId?: string): Promise<RESTGetAPIWebhookWithTokenMessageResult> {
-		return this.requestHandler.request(Endpoints.WEBHOOK_TOKEN_MESSAGE(webhookId, token, messageId), { thread_id: threadId }, "get", "json");
+	public async getWebhookMessage(webhookId: string, token: string, messageId: string, threadId?: string, requestOptions?: Partial<RequestOptions>): Promise<RESTGetAPIWebhookWithTokenMessageResult> {
+		return this.requestHandler.request(Endpoints.WEBHOOK_TOKEN_MESSAGE(webhookId, token, messageId), { thread_id: threadId }, "get", "json", undefined, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -305,23 +322,29 @@ class WebhookMethods {
 	 * @param webhookId Id of the Webhook
 	 * @param token Webhook token
 	 * @param messageId Id of the message
-	 * @param data Data to send
+	 * @param data Data to send. With the cloudUploads option, files are uploaded to the channel upload_channel_id first
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns [discord message](https://discord.com/developers/docs/resources/channel#message-object) object
 	 *
 	 * @example
 	 * const client = new SnowTransfer()
 	 * const message = await client.webhook.editWebhookMessage("webhook Id", "webhook token", "message Id", { content: "New content" })
 	 */
-	public async editWebhookMessage(webhookId: string, token: string, messageId: string, data: RESTPatchAPIWebhookWithTokenMessageJSONBody & { thread_id?: string; files?: Array<{ name: string; file: Buffer | Readable | ReadableStream; }> }): Promise<RESTPatchAPIWebhookWithTokenMessageResult> {
+	public async editWebhookMessage(webhookId: string, token: string, messageId: string, data: RESTPatchAPIWebhookWithTokenMessageJSONBody & { thread_id?: string; files?: Array<UploadFile>; upload_channel_id?: string }, requestOptions?: Partial<RequestOptions>): Promise<RESTPatchAPIWebhookWithTokenMessageResult> {
 		let threadId: string | undefined = undefined;
 		if (data.thread_id) threadId = data.thread_id;
 		const payload = { ...data };
 		delete payload.thread_id;
+		const uploadChannelId = payload.upload_channel_id;
+		delete payload.upload_channel_id;
+
+		if (this.options.validateMessages) validateMessage(payload, true);
 
 		payload.allowed_mentions ??= this.options.allowed_mentions;
 
-		if (payload.files) return this.requestHandler.request(Endpoints.WEBHOOK_TOKEN_MESSAGE(webhookId, token, messageId), { thread_id: threadId }, "patch", "multipart", await Constants.standardMultipartHandler(payload as Parameters<typeof Constants["standardMultipartHandler"]>["0"]));
-		else return this.requestHandler.request(Endpoints.WEBHOOK_TOKEN_MESSAGE(webhookId, token, messageId), { thread_id: threadId }, "patch", "json", payload);
+		if (payload.files && this.options.cloudUploads && uploadChannelId) return this.requestHandler.request(Endpoints.WEBHOOK_TOKEN_MESSAGE(webhookId, token, messageId), { thread_id: threadId }, "patch", "json", await uploadMessageFiles(this.requestHandler, uploadChannelId, payload, requestOptions), undefined, undefined, undefined, requestOptions);
+		else if (payload.files) return this.requestHandler.request(Endpoints.WEBHOOK_TOKEN_MESSAGE(webhookId, token, messageId), { thread_id: threadId }, "patch", "multipart", await Constants.standardMultipartHandler(payload as Parameters<typeof Constants["standardMultipartHandler"]>["0"]), undefined, undefined, undefined, requestOptions);
+		else return this.requestHandler.request(Endpoints.WEBHOOK_TOKEN_MESSAGE(webhookId, token, messageId), { thread_id: threadId }, "patch", "json", payload, undefined, undefined, undefined, requestOptions);
 	}
 
 	/**
@@ -331,10 +354,11 @@ class WebhookMethods {
 	 * @param token Webhook token
 	 * @param messageId Id of the message
 	 * @param threadId Id of the thread the message was sent in
+	 * @param requestOptions Options for this request, like an AbortSignal or a timeout
 	 * @returns Resolves the Promise on successful execution
 	 */
-	public async deleteWebhookMessage(webhookId: string, token: string, messageId: string, threadId?: string): Promise<RESTDeleteAPIWebhookWithTokenMessageResult> {
-		return this.requestHandler.request(Endpoints.WEBHOOK_TOKEN_MESSAGE(webhookId, token, messageId), { thread_id: threadId }, "delete", "json");
+	public async deleteWebhookMessage(webhookId: string, token: string, messageId: string, threadId?: string, requestOptions?: Partial<RequestOptions>): Promise<RESTDeleteAPIWebhookWithTokenMessageResult> {
+		return this.requestHandler.request(Endpoints.WEBHOOK_TOKEN_MESSAGE(webhookId, token, messageId), { thread_id: threadId }, "delete", "json", undefined, undefined, undefined, undefined, requestOptions);
 	}
 }
 
@@ -1,6 +1,82 @@
-import type { RESTPostOAuth2AccessTokenResult } from "discord-api-types/v10";
+import nodeCrypto = require("node:crypto");
 
+import type { RESTGetAPIOAuth2CurrentAuthorizationResult, RESTPostOAuth2AccessTokenResult, RESTPostOAuth2ClientCredentialsResult, RESTPostOAuth2RefreshTokenResult, RESTPutAPICurrentUserApplicationRoleConnectionResult } from "discord-api-types/v10";
+
+import Constants = require("./Constants");
 import Endpoints = require("./Endpoints");
+import { DiscordAPIError, parseErrorBody } from "./RequestHandler";
+
+import type { OAuth2AuthorizationURLOptions, RoleConnectionUpdate, TokenlessOptions } from "./Types";
+
+/**
+ * Make a request to an OAuth2 endpoint and throw a DiscordAPIError if it fails
+ * @param endpoint Endpoint including the base path
+ * @param method Http method to use
+ * @param body Form or JSON body to send, if any
+ * @param headers Headers to send
+ * @param options Where to send the request to and how
+ */
+async function send<T>(endpoint: string, method: "GET" | "POST" | "PUT", body: URLSearchParams | string | undefined, headers: Record<string, string>, options: Partial<TokenlessOptions> = {}): Promise<T> {
+	const response = await (options.fetch ?? fetch)(`${options.baseHost ?? Endpoints.BASE_HOST}${endpoint}`, { method, body, headers });
+	const text = await response.clone().text();
+
+	// The body isn't passed along since it contains the client secret
+	if (!response.ok) throw new DiscordAPIError(parseErrorBody(text), { endpoint, method, dataType: "json", data: {} }, response);
+
+	return (text ? JSON.parse(text) : undefined) as T;
+}
+
+/**
+ * Get the URL to send a user to so they authorize your application
+ * @since 0.19.0
+ * @param clientId The ID of your application
+ * @param scopes The scopes to ask for
+ * @param urlOptions What to ask for and where to redirect to afterwards
+ * @param options The baseHost to use. fetch is not used
+ * @returns The URL
+ *
+ * @example
+ * const { tokenless } = require("snowtransfer")
+ * const state = crypto.randomUUID()
+ * const url = tokenless.getAuthorizationURL(id, ["identify", "guilds"], { redirectURI, state })
+ */
+function getAuthorizationURL(clientId: string, scopes: Array<string>, urlOptions: Partial<OAuth2AuthorizationURLOptions> = {}, options: Partial<TokenlessOptions> = {}): string {
+	const query = new URLSearchParams({
+		client_id: clientId,
+		response_type: urlOptions.responseType ?? "code",
+		scope: scopes.join(" ")
+	});
+	if (urlOptions.redirectURI !== undefined) query.set("redirect_uri", urlOptions.redirectURI);
+	if (urlOptions.state !== undefined) query.set("state", urlOptions.state);
+	if (urlOptions.prompt !== undefined) query.set("prompt", urlOptions.prompt);
+	if (urlOptions.permissions !== undefined) query.set("permissions", String(urlOptions.permissions));
+	if (urlOptions.guildId !== undefined) query.set("guild_id", urlOptions.guildId);
+	if (urlOptions.disableGuildSelect !== undefined) query.set("disable_guild_select", String(urlOptions.disableGuildSelect));
+	if (urlOptions.integrationType !== undefined) query.set("integration_type", String(urlOptions.integrationType));
+	if (urlOptions.codeChallenge !== undefined) {
+		query.set("code_challenge", urlOptions.codeChallenge);
+		query.set("code_challenge_method", "S256");
+	}
+	return `${options.baseHost ?? Endpoints.BASE_HOST}${Endpoints.OAUTH2_AUTHORIZE}?${query}`;
+}
+
+/**
+ * Generate a PKCE code verifier and the code challenge belonging to it
+ * @since 0.19.0
+ * @returns The code verifier to pass when getting the token and the code challenge to pass when getting the authorization URL
+ *
+ * @example
+ * const { tokenless } = require("snowtransfer")
+ * const { codeVerifier, codeChallenge } = tokenless.generatePKCE()
+ * const url = tokenless.getAuthorizationURL(id, ["identify"], { redirectURI, codeChallenge })
+ * // Once the user was redirected back
+ * const result = await tokenless.getOauth2Token(id, redirectURI, secret, code, codeVerifier)
+ */
+function generatePKCE(): { codeVerifier: string; codeChallenge: string; } {
+	const codeVerifier = nodeCrypto.randomBytes(32).toString("base64url");
+	const codeChallenge = nodeCrypto.createHash("sha256").update(codeVerifier).digest("base64url");
+	return { codeVerifier, codeChallenge };
+}
 
 /**
  * Get an oauth token after being authorized
@@ -9,26 +85,167 @@ import Endpoints = require("./Endpoints");
  * @param redirectURI The URI Discord will redirect the user to after they authorize
  * @param clientSecret The secret of your client you can obtain from the Application page
  * @param code The code returned from Discord from the oauth authorize flow
+ * @param codeVerifier The PKCE code verifier if a code challenge was part of the authorization URL
+ * @param options The baseHost and fetch to use
  * @returns The authorization
  *
  * @example
  * const { tokenless } = require("snowtransfer")
  * const result = await tokenless.getOauth2Token(id, redirectURI, secret, code)
  */
-async function getOauth2Token(clientId: string, redirectURI: string, clientSecret: string, code: string): Promise<RESTPostOAuth2AccessTokenResult> {
-	const response = await fetch(`${Endpoints.BASE_HOST}${Endpoints.OAUTH2_TOKEN}`, {
-		method: "POST",
-		body: new URLSearchParams({
-			grant_type: "authorization_code",
-			code,
-			client_id: clientId,
-			client_secret: clientSecret,
-			redirect_uri: redirectURI
-		})
+async function getOauth2Token(clientId: string, redirectURI: string, clientSecret: string, code: string, codeVerifier?: string, options?: Partial<TokenlessOptions>): Promise<RESTPostOAuth2AccessTokenResult> {
+	const body = new URLSearchParams({
+		grant_type: "authorization_code",
+		code,
+		client_id: clientId,
+		client_secret: clientSecret,
+		redirect_uri: redirectURI
+	});
+	if (codeVerifier !== undefined) body.set("code_verifier", codeVerifier);
+	return send(Endpoints.OAUTH2_TOKEN, "POST", body, {}, options);
+}
+
+/**
+ * Exchange a refresh token for a new access token. The refresh token can't be used again afterwards
+ * @since 0.19.0
+ * @param clientId The ID of your application
+ * @param clientSecret The secret of your client you can obtain from the Application page
+ * @param refreshToken The refresh token of the authorization
+ * @param options The baseHost and fetch to use
+ * @returns The new authorization, including a new refresh token
+ *
+ * @example
+ * const { tokenless } = require("snowtransfer")
+ * const result = await tokenless.refreshOauth2Token(id, secret, authorization.refresh_token)
+ */
+function refreshOauth2Token(clientId: string, clientSecret: string, refreshToken: string, options?: Partial<TokenlessOptions>): Promise<RESTPostOAuth2RefreshTokenResult> {
+	return send(Endpoints.OAUTH2_TOKEN, "POST", new URLSearchParams({
+		grant_type: "refresh_token",
+		refresh_token: refreshToken,
+		client_id: clientId,
+		client_secret: clientSecret
+	}), {}, options);
+}
+
+/**
+ * Get an access token for the owner of the application (or the application's team) without a user authorizing it. Useful for testing
+ * @since 0.19.0
+ * @param clientId The ID of your application
+ * @param clientSecret The secret of your client you can obtain from the Application page
+ * @param scopes The scopes to ask for
+ * @param options The baseHost and fetch to use
+ * @returns The authorization. It has no refresh token
+ *
+ * @example
+ * const { tokenless } = require("snowtransfer")
+ * const result = await tokenless.getClientCredentialsToken(id, secret, ["identify", "applications.commands.update"])
+ */
+function getClientCredentialsToken(clientId: string, clientSecret: string, scopes: Array<string>, options?: Partial<TokenlessOptions>): Promise<RESTPostOAuth2ClientCredentialsResult> {
+	return send(Endpoints.OAUTH2_TOKEN, "POST", new URLSearchParams({
+		grant_type: "client_credentials",
+		scope: scopes.join(" "),
+		client_id: clientId,
+		client_secret: clientSecret
+	}), {}, options);
+}
+
+/**
+ * Revoke an access or refresh token. Revoking either one revokes the entire authorization
+ * @since 0.19.0
+ * @param clientId The ID of your application
+ * @param clientSecret The secret of your client you can obtain from the Application page
+ * @param token The access or refresh token to revoke
+ * @param tokenTypeHint Which kind of token it is
+ * @param options The baseHost and fetch to use
+ * @returns Resolves the Promise on successful execution
+ *
+ * @example
+ * const { tokenless } = require("snowtransfer")
+ * await tokenless.revokeOauth2Token(id, secret, authorization.access_token, "access_token")
+ */
+async function revokeOauth2Token(clientId: string, clientSecret: string, token: string, tokenTypeHint?: "access_token" | "refresh_token", options?: Partial<TokenlessOptions>): Promise<void> {
+	const body = new URLSearchParams({
+		token,
+		client_id: clientId,
+		client_secret: clientSecret
 	});
-	return response.json() as Promise<RESTPostOAuth2AccessTokenResult>;
+	if (tokenTypeHint !== undefined) body.set("token_type_hint", tokenTypeHint);
+	await send(Endpoints.OAUTH2_TOKEN_REVOKE, "POST", body, {}, options);
+}
+
+/**
+ * Get info about the authorization of an access token, like its scopes, when it expires and the user who authorized it
+ * @since 0.19.0
+ * @param accessToken The access token of the authorization
+ * @param options The baseHost and fetch to use
+ * @returns The [authorization info](https://discord.com/developers/docs/topics/oauth2#get-current-authorization-information)
+ *
+ * | OAUTH2 Scopes | Condition                   |
+ * |---------------|-----------------------------|
+ * | identify      | For the user to be included |
+ *
+ * @example
+ * const { tokenless } = require("snowtransfer")
+ * const info = await tokenless.getCurrentAuthorizationInformation(authorization.access_token)
+ */
+function getCurrentAuthorizationInformation(accessToken: string, options?: Partial<TokenlessOptions>): Promise<RESTGetAPIOAuth2CurrentAuthorizationResult> {
+	return send(`${Endpoints.BASE_URL}${Endpoints.OAUTH2_CURRENT_AUTHORIZATION}`, "GET", undefined, { Authorization: `Bearer ${accessToken}` }, options);
+}
+
+/**
+ * Set the role connection of the user who authorized an access token, which guilds check against the role connection metadata of the application for linked roles
+ * @since 0.19.0
+ * @param clientId The ID of your application
+ * @param accessToken The access token of the authorization, or the result of getOauth2Token or refreshOauth2Token
+ * @param data The platform name and username of the user and their metadata values. Booleans and Dates are turned into the values Discord expects
+ * @param options The baseHost and fetch to use
+ * @returns The [role connection](https://discord.com/developers/docs/resources/user#application-role-connection-object) of the user
+ *
+ * | OAUTH2 Scopes          | Condition |
+ * |------------------------|-----------|
+ * | role_connections.write | always    |
+ *
+ * @example
+ * const { tokenless } = require("snowtransfer")
+ * const authorization = await tokenless.getOauth2Token(id, redirectURI, secret, code)
+ * await tokenless.editApplicationRoleConnection(id, authorization, {
+ * 	platform_name: "Snowball Fight",
+ * 	platform_username: "frosty",
+ * 	metadata: { snowballs_thrown: 1250, playing_since: new Date("2020-12-01"), verified: true }
+ * })
+ */
+async function editApplicationRoleConnection(clientId: string, accessToken: string | { access_token: string; }, data: RoleConnectionUpdate, options?: Partial<TokenlessOptions>): Promise<RESTPutAPICurrentUserApplicationRoleConnectionResult> {
+	if (data.platform_name !== undefined && data.platform_name.length > Constants.ROLE_CONNECTION_PLATFORM_NAME_MAX_LENGTH) throw new RangeError(`platform_name can be at most ${Constants.ROLE_CONNECTION_PLATFORM_NAME_MAX_LENGTH} characters`);
+	if (data.platform_username !== undefined && data.platform_username.length > Constants.ROLE_CONNECTION_PLATFORM_USERNAME_MAX_LENGTH) throw new RangeError(`platform_username can be at most ${Constants.ROLE_CONNECTION_PLATFORM_USERNAME_MAX_LENGTH} characters`);
+
+	let metadata: Record<string, string> | undefined = undefined;
+	if (data.metadata) {
+		const entries = Object.entries(data.metadata);
+		if (entries.length > Constants.ROLE_CONNECTION_METADATA_MAX_RECORDS) throw new RangeError(`metadata can have at most ${Constants.ROLE_CONNECTION_METADATA_MAX_RECORDS} values, since applications have at most ${Constants.ROLE_CONNECTION_METADATA_MAX_RECORDS} metadata records`);
+		metadata = {};
+		for (const [key, value] of entries) {
+			let stringified: string;
+			if (typeof value === "boolean") stringified = value ? "1" : "0";
+			else if (value instanceof Date) {
+				if (isNaN(value.getTime())) throw new Error(`metadata.${key} is an invalid Date`);
+				stringified = value.toISOString();
+			} else stringified = String(value);
+			if (stringified.length > Constants.ROLE_CONNECTION_METADATA_VALUE_MAX_LENGTH) throw new RangeError(`metadata.${key} can be at most ${Constants.ROLE_CONNECTION_METADATA_VALUE_MAX_LENGTH} characters`);
+			metadata[key] = stringified;
+		}
+	}
+
+	const token = typeof accessToken === "string" ? accessToken : accessToken.access_token;
+	return send(`${Endpoints.BASE_URL}${Endpoints.USER_APPLICATION_ROLE_CONNECTION("@me", clientId)}`, "PUT", JSON.stringify({ ...data, metadata }), { Authorization: `Bearer ${token}`, "Content-Type": "application/json" }, options);
 }
 
 export = {
-	getOauth2Token
+	getAuthorizationURL,
+	generatePKCE,
+	getOauth2Token,
+	refreshOauth2Token,
+	getClientCredentialsToken,
+	revokeOauth2Token,
+	getCurrentAuthorizationInformation,
+	editApplicationRoleConnection
 }